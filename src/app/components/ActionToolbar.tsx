@@ -11,11 +11,18 @@ type Props = {
     onFactoryReset: () => void;
     onReboot: () => void;
     onExportProfile: () => void;
+    onExportProfileText: () => void;
+    onShareProfile: () => void;
+    onShowProfileQr: () => void;
+    onScanProfileQr: () => void;
     onImportProfile: () => void;
+    onConvertProfile: () => void;
     onExportDeviceCurrent: () => void;
     onExportDeviceDraft: () => void;
     onImportDevice: () => void;
+    onCompareDeviceFiles: () => void;
     // Optional
+    onExportGp2040Layout?: () => void;
     rebootAfterSave?: boolean;
     onRebootAfterSaveChange?: (value: boolean) => void;
 };
@@ -31,10 +38,17 @@ export function ActionToolbar({
     onFactoryReset,
     onReboot,
     onExportProfile,
+    onExportProfileText,
+    onShareProfile,
+    onShowProfileQr,
+    onScanProfileQr,
     onImportProfile,
+    onConvertProfile,
     onExportDeviceCurrent,
     onExportDeviceDraft,
     onImportDevice,
+    onCompareDeviceFiles,
+    onExportGp2040Layout,
     rebootAfterSave = false,
     onRebootAfterSaveChange,
 }: Props) {
@@ -95,9 +109,29 @@ export function ActionToolbar({
                 <button onClick={onExportProfile} disabled={busy} title="Export the currently selected profile">
                     Save
                 </button>
+                <button onClick={onExportProfileText} disabled={busy} title="Export the currently selected profile as diffable text">
+                    Save Text
+                </button>
+                <button onClick={onShareProfile} disabled={busy} title="Copy a link that opens the currently selected profile">
+                    Share Link
+                </button>
+                <button onClick={onShowProfileQr} disabled={busy} title="Show the currently selected profile as a QR code">
+                    QR Code
+                </button>
+                <button onClick={onScanProfileQr} disabled={busy} title="Scan a profile QR code from an image or the camera">
+                    Scan QR…
+                </button>
                 <button onClick={onImportProfile} disabled={busy} title="Import into the currently selected profile">
                     Load…
                 </button>
+                <button onClick={onConvertProfile} disabled={busy} title="Convert a GP2040-CE config export or HayBox button mapping">
+                    Convert…
+                </button>
+                {onExportGp2040Layout && (
+                    <button onClick={onExportGp2040Layout} disabled={busy} title="Export the currently selected profile as GP2040-CE pin mappings">
+                        To GP2040-CE
+                    </button>
+                )}
 
                 <div className="footer-divider" style={{ height: 16 }} />
 
@@ -111,6 +145,9 @@ export function ActionToolbar({
                 <button onClick={onImportDevice} disabled={busy} title="Import a full device configuration (both modes)">
                     Load…
                 </button>
+                <button onClick={onCompareDeviceFiles} disabled={busy} title="Compare two exported device configuration files">
+                    Compare…
+                </button>
             </div>
         </footer>
     );
@@ -0,0 +1,252 @@
+import { useMemo, useState } from 'react';
+import { buildSettingsBlob, type SettingsDraft } from '../../schema/settingsBlob';
+import { formatByteOffset } from '../../schema/settingsDiff';
+import {
+    applyRawByteEdit,
+    diffBlobRanges,
+    inspectSettingsBlob,
+    rawByteEditError,
+    type BlobRegion,
+} from '../../schema/settingsInspector';
+import type { DraftEditMeta } from '../state/orcaAppReducer';
+
+type Props = {
+    baseBlob: Uint8Array;
+    draft: SettingsDraft;
+    disabled?: boolean;
+    onChange: (next: SettingsDraft, meta?: DraftEditMeta) => void;
+};
+
+const BYTES_PER_ROW = 16;
+const ROWS_PER_PAGE = 64;
+const PAGE_SIZE = BYTES_PER_ROW * ROWS_PER_PAGE;
+// Jump buttons for changed regions; the rest are reachable by paging.
+const MAX_CHANGE_LINKS = 24;
+
+function hex(value: number, width = 2): string {
+    return value.toString(16).padStart(width, '0');
+}
+
+function asciiChar(value: number): string {
+    return value >= 0x20 && value < 0x7f ? String.fromCharCode(value) : '.';
+}
+
+/**
+ * Developer view of the raw settings blob for the active slot: every TLV record with its header
+ * check, an annotated hex/ASCII dump of the draft as it would be written, and bytes that differ
+ * from the blob read from the controller. Byte edits are opt-in and limited to non-structural
+ * bytes; the CRC is recomputed on write.
+ */
+export function BlobInspectorPanel({ baseBlob, draft, disabled = false, onChange }: Props) {
+    const [page, setPage] = useState(0);
+    const [selected, setSelected] = useState<number | null>(null);
+    const [editEnabled, setEditEnabled] = useState(false);
+    const [editValue, setEditValue] = useState('');
+    const [error, setError] = useState('');
+
+    const built = useMemo(() => {
+        try {
+            return { blob: buildSettingsBlob(baseBlob, draft), error: '' };
+        } catch (e) {
+            return { blob: baseBlob, error: e instanceof Error ? e.message : String(e) };
+        }
+    }, [baseBlob, draft]);
+    const blob = built.blob;
+    const inspection = useMemo(() => inspectSettingsBlob(blob), [blob]);
+    const changes = useMemo(() => diffBlobRanges(baseBlob, blob), [baseBlob, blob]);
+    const changed = useMemo(() => {
+        const mask = new Uint8Array(blob.length);
+        for (const r of changes) mask.fill(1, r.start, r.end);
+        return mask;
+    }, [blob.length, changes]);
+
+    const pageCount = Math.ceil(blob.length / PAGE_SIZE);
+    const regionOf = (offset: number): BlobRegion | undefined => inspection.regions[inspection.regionAt[offset] ?? -1];
+    const selectedRegion = selected !== null ? regionOf(selected) : undefined;
+    const selectedEditError = selected !== null ? rawByteEditError(inspection, selected) : null;
+
+    const select = (offset: number) => {
+        setSelected(offset);
+        setPage(Math.floor(offset / PAGE_SIZE));
+        setEditValue(hex(blob[offset] ?? 0));
+        setError('');
+    };
+
+    const toggleEditing = (next: boolean) => {
+        if (next && !window.confirm('Raw edits bypass the structured editors and can produce settings the firmware rejects. Enable byte editing?')) {
+            return;
+        }
+        setEditEnabled(next);
+    };
+
+    const applyByte = (value: number) => {
+        if (selected === null) return;
+        try {
+            const next = applyRawByteEdit(baseBlob, draft, selected, value);
+            onChange(next, { label: `Edit byte ${formatByteOffset(selected)}` });
+            setEditValue(hex(value));
+            setError('');
+        } catch (e) {
+            setError(e instanceof Error ? e.message : String(e));
+        }
+    };
+
+    const submitEdit = () => {
+        const trimmed = editValue.trim().replace(/^0x/i, '');
+        const value = /^[0-9a-f]{1,2}$/i.test(trimmed) ? parseInt(trimmed, 16) : NaN;
+        if (Number.isNaN(value)) {
+            setError('Enter a byte in hex (00-ff)');
+            return;
+        }
+        applyByte(value);
+    };
+
+    const rows: number[] = [];
+    for (let r = 0; r < ROWS_PER_PAGE; r++) {
+        const start = page * PAGE_SIZE + r * BYTES_PER_ROW;
+        if (start < blob.length) rows.push(start);
+    }
+
+    return (
+        <div className="col" style={{ gap: 'var(--spacing-md)', padding: 'var(--spacing-sm)' }}>
+            {built.error && <div className="message message-error">Draft cannot be encoded: {built.error}</div>}
+            {inspection.issues.length > 0 && (
+                <div className="message message-warning">
+                    {inspection.issues.map((issue) => <div key={issue}>{issue}</div>)}
+                </div>
+            )}
+
+            <div className="row" style={{ gap: 'var(--spacing-sm)', flexWrap: 'wrap', alignItems: 'center' }}>
+                <span className="text-sm">
+                    {changes.length === 0 ? 'No bytes differ from the controller' : `${changes.length} changed region${changes.length === 1 ? '' : 's'}:`}
+                </span>
+                {changes.slice(0, MAX_CHANGE_LINKS).map((r) => (
+                    <button key={r.start} className="ghost text-xs" onClick={() => select(r.start)} title={regionOf(r.start)?.label}>
+                        {formatByteOffset(r.start)}{r.end - r.start > 1 ? `+${r.end - r.start}` : ''}
+                    </button>
+                ))}
+                {changes.length > MAX_CHANGE_LINKS && <span className="text-xs text-muted">…and {changes.length - MAX_CHANGE_LINKS} more</span>}
+            </div>
+
+            <div className="row" style={{ gap: 'var(--spacing-md)', alignItems: 'flex-start', flexWrap: 'wrap' }}>
+                <div style={{ flex: '1 1 320px', maxHeight: 560, overflow: 'auto' }}>
+                    <table className="table text-xs">
+                        <thead>
+                            <tr>
+                                <th>Record</th>
+                                <th>Type</th>
+                                <th>Len</th>
+                                <th>Count</th>
+                                <th>Stride</th>
+                                <th>Offset</th>
+                                <th />
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {inspection.tlvs.map((t) => (
+                                <tr key={t.offset} onClick={() => select(t.offset)} style={{ cursor: 'pointer' }}>
+                                    <td>{t.label}</td>
+                                    <td>{t.type}</td>
+                                    <td>{t.length}</td>
+                                    <td>{t.count}</td>
+                                    <td>{t.stride}</td>
+                                    <td><code>{formatByteOffset(t.offset)}</code></td>
+                                    <td>
+                                        {!t.valid ? (
+                                            <span className="pill pill-error" title={`Found type ${t.gotType} length ${t.gotLength}`}>Invalid</span>
+                                        ) : t.name === null ? (
+                                            <span className="pill pill-warn">Unknown</span>
+                                        ) : (
+                                            <span className="pill pill-ok">OK</span>
+                                        )}
+                                    </td>
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                </div>
+
+                <div className="col" style={{ flex: '2 1 520px', gap: 'var(--spacing-sm)', minWidth: 0 }}>
+                    <div className="row" style={{ gap: 'var(--spacing-sm)', alignItems: 'center' }}>
+                        <button onClick={() => setPage((p) => Math.max(0, p - 1))} disabled={page === 0}>‹</button>
+                        <select value={page} onChange={(e) => setPage(Number(e.target.value))}>
+                            {Array.from({ length: pageCount }, (_, p) => (
+                                <option key={p} value={p}>
+                                    {formatByteOffset(p * PAGE_SIZE)}–{formatByteOffset(Math.min(blob.length, (p + 1) * PAGE_SIZE) - 1)}
+                                </option>
+                            ))}
+                        </select>
+                        <button onClick={() => setPage((p) => Math.min(pageCount - 1, p + 1))} disabled={page >= pageCount - 1}>›</button>
+                        <label className="text-sm" style={{ marginLeft: 'auto' }}>
+                            <input type="checkbox" checked={editEnabled} disabled={disabled} onChange={(e) => toggleEditing(e.target.checked)} /> Allow byte edits
+                        </label>
+                    </div>
+
+                    <div className="blob-hex">
+                        {rows.map((start) => (
+                            <div key={start} className="blob-hex-row">
+                                <span className="blob-hex-offset">{hex(start, 4)}</span>
+                                <span>
+                                    {Array.from(blob.subarray(start, start + BYTES_PER_ROW), (value, i) => {
+                                        const offset = start + i;
+                                        const region = regionOf(offset);
+                                        const classes = [
+                                            'blob-hex-byte',
+                                            `blob-kind-${region?.kind ?? 'unused'}`,
+                                            changed[offset] ? 'changed' : '',
+                                            selected === offset ? 'selected' : '',
+                                        ].filter(Boolean).join(' ');
+                                        return (
+                                            <span key={offset} className={classes} title={`${formatByteOffset(offset)} · ${region?.label ?? ''}`} onClick={() => select(offset)}>
+                                                {hex(value)}
+                                            </span>
+                                        );
+                                    })}
+                                </span>
+                                <span className="blob-hex-ascii">
+                                    {Array.from(blob.subarray(start, start + BYTES_PER_ROW), asciiChar).join('')}
+                                </span>
+                            </div>
+                        ))}
+                    </div>
+
+                    {selected !== null && (
+                        <div className="card col" style={{ gap: 'var(--spacing-xs)' }}>
+                            <div className="text-sm">
+                                <code>{formatByteOffset(selected)}</code> · {selectedRegion?.label ?? 'Unknown'}
+                            </div>
+                            <div className="text-xs text-secondary">
+                                Value 0x{hex(blob[selected] ?? 0)} ({blob[selected] ?? 0}) · controller 0x{hex(baseBlob[selected] ?? 0)}
+                            </div>
+                            {editEnabled && (
+                                selectedEditError ? (
+                                    <div className="text-xs text-muted">{selectedEditError}</div>
+                                ) : (
+                                    <div className="row" style={{ gap: 'var(--spacing-sm)', alignItems: 'center' }}>
+                                        <input
+                                            value={editValue}
+                                            onChange={(e) => setEditValue(e.target.value)}
+                                            onKeyDown={(e) => {
+                                                if (e.key === 'Enter') submitEdit();
+                                            }}
+                                            disabled={disabled}
+                                            style={{ width: 64, fontFamily: 'monospace' }}
+                                            aria-label="Byte value (hex)"
+                                        />
+                                        <button onClick={submitEdit} disabled={disabled}>Set byte</button>
+                                        {changed[selected] ? (
+                                            <button className="ghost" onClick={() => applyByte(baseBlob[selected] ?? 0)} disabled={disabled}>
+                                                Revert to controller
+                                            </button>
+                                        ) : null}
+                                    </div>
+                                )
+                            )}
+                            {error && <div className="message message-error">{error}</div>}
+                        </div>
+                    )}
+                </div>
+            </div>
+        </div>
+    );
+}
@@ -0,0 +1,61 @@
+import { useState } from 'react';
+import { analogInputLabel } from '../../schema/orcaMappings';
+import type { SettingsDraft } from '../../schema/settingsBlob';
+import type { DraftEditMeta } from '../state/orcaAppReducer';
+import type { OrcaTransport } from '../../usb/OrcaTransport';
+import { cloneDraft } from '../domain/cloneDraft';
+import { CalibrationWizard } from './CalibrationWizard';
+
+type Props = {
+    draft: SettingsDraft;
+    transport: OrcaTransport | null;
+    disabled?: boolean;
+    onChange: (next: SettingsDraft, meta?: DraftEditMeta) => void;
+};
+
+export function CalibrationPanel({ draft, transport, disabled = false, onChange }: Props) {
+    const [wizardOpen, setWizardOpen] = useState(false);
+    const calibration = draft.calibration;
+
+    return (
+        <div className="col" style={{ gap: 'var(--spacing-sm)' }}>
+            {calibration ? (
+                <table className="table text-xs">
+                    <thead>
+                        <tr>
+                            <th>Axis</th>
+                            <th>Range</th>
+                            <th>Notch</th>
+                        </tr>
+                    </thead>
+                    <tbody>
+                        {calibration.range.lower.map((lower, axis) => (
+                            <tr key={axis}>
+                                <td>{analogInputLabel(axis)}</td>
+                                <td>{lower.toFixed(3)} – {(calibration.range.upper[axis] ?? 0).toFixed(3)}</td>
+                                <td>{(calibration.notch[axis] ?? 0).toFixed(3)}</td>
+                            </tr>
+                        ))}
+                    </tbody>
+                </table>
+            ) : (
+                <div className="text-sm text-muted">This settings blob has no calibration data in a supported format.</div>
+            )}
+            <button onClick={() => setWizardOpen(true)} disabled={disabled || !transport || !calibration}>
+                Calibrate...
+            </button>
+            {transport && (
+                <CalibrationWizard
+                    isOpen={wizardOpen}
+                    transport={transport}
+                    calibration={calibration}
+                    onApply={(next) => {
+                        setWizardOpen(false);
+                        onChange({ ...cloneDraft(draft), calibration: next }, { label: 'Calibrate analog inputs' });
+                    }}
+                    onCancel={() => setWizardOpen(false)}
+                />
+            )}
+        </div>
+    );
+}
@@ -0,0 +1,278 @@
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { ORCA_CONFIG_ORCA_ANALOG_INPUT_COUNT, OrcaErr } from '@shared/orca_config_idl_generated';
+import {
+    computeCalibration,
+    createEmptyCalibrationCapture,
+    summarizeAxisSamples,
+    type CalibrationCapture,
+} from '../../calibration/analogCalibration';
+import { analogInputLabel } from '../../schema/orcaMappings';
+import type { CalibrationV1 } from '../../schema/settingsBlob';
+import { OrcaDeviceError, type OrcaTransport } from '../../usb/OrcaTransport';
+import { validateCalibration } from '../../validators/settingsValidation';
+
+type Props = {
+    isOpen: boolean;
+    transport: OrcaTransport;
+    // Current calibration, used for comparison and for notch steps that are skipped.
+    calibration: CalibrationV1 | undefined;
+    onApply: (calibration: CalibrationV1) => void;
+    onCancel: () => void;
+};
+
+type Step =
+    | { kind: 'rest' }
+    | { kind: 'full'; axis: number }
+    | { kind: 'notch'; axis: number };
+
+const CAPTURE_MS = 1000;
+const POLL_INTERVAL_MS = 16;
+
+const AXES = Array.from({ length: ORCA_CONFIG_ORCA_ANALOG_INPUT_COUNT }, (_, axis) => axis);
+const STEPS: Step[] = [
+    { kind: 'rest' },
+    ...AXES.map((axis): Step => ({ kind: 'full', axis })),
+    ...AXES.map((axis): Step => ({ kind: 'notch', axis })),
+];
+
+function sleep(ms: number): Promise<void> {
+    return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+function instructions(step: Step): string {
+    switch (step.kind) {
+        case 'rest':
+            return 'Release every analog key and keep your hands off the controller.';
+        case 'full':
+            return `Press ${analogInputLabel(step.axis)} all the way down and hold it.`;
+        case 'notch':
+            return `Press ${analogInputLabel(step.axis)} to its light-press notch and hold it there. Skip if this axis has no notch.`;
+    }
+}
+
+function format(v: number | undefined): string {
+    return v === undefined || !Number.isFinite(v) ? '—' : v.toFixed(3);
+}
+
+function LiveBar({ value, highlight }: { value: number; highlight: boolean }) {
+    const pct = Math.min(1, Math.max(0, value));
+    return (
+        <div style={{ height: 10, background: 'rgba(255,255,255,0.06)', borderRadius: 999, overflow: 'hidden' }}>
+            <div
+                style={{
+                    height: '100%',
+                    width: `${pct * 100}%`,
+                    background: highlight ? 'var(--color-brand)' : 'var(--color-text-muted)',
+                }}
+            />
+        </div>
+    );
+}
+
+/**
+ * Guided analog calibration. Polls `getInputState()` to capture the rest position of all axes,
+ * then full press and (optionally) the notch of each axis, and proposes new calibration values.
+ * Nothing is written until the result is applied to the draft and saved.
+ */
+export function CalibrationWizard({ isOpen, transport, calibration, onApply, onCancel }: Props) {
+    const [stepIndex, setStepIndex] = useState(0);
+    const [capture, setCapture] = useState<CalibrationCapture>(createEmptyCalibrationCapture);
+    const [live, setLive] = useState<number[] | null>(null);
+    const [capturing, setCapturing] = useState(false);
+    const [error, setError] = useState('');
+    const samplesRef = useRef<number[][] | null>(null);
+
+    useEffect(() => {
+        if (!isOpen) return;
+        setStepIndex(0);
+        setCapture(createEmptyCalibrationCapture());
+        setError('');
+
+        let cancelled = false;
+        const abort = new AbortController();
+        async function run() {
+            while (!cancelled) {
+                try {
+                    const state = await transport.getInputState({ signal: abort.signal });
+                    if (cancelled) return;
+                    setLive(state.analog);
+                    samplesRef.current?.push(state.analog.slice());
+                    await sleep(POLL_INTERVAL_MS);
+                } catch (e) {
+                    if (cancelled) return;
+                    if (e instanceof OrcaDeviceError && e.err === OrcaErr.UNSUPPORTED_CMD) {
+                        setError('This firmware does not report input state, so it cannot be calibrated here.');
+                        return;
+                    }
+                    setError(e instanceof Error ? e.message : String(e));
+                    await sleep(250);
+                }
+            }
+        }
+        void run();
+        return () => {
+            cancelled = true;
+            abort.abort();
+            samplesRef.current = null;
+        };
+    }, [isOpen, transport]);
+
+    const done = stepIndex >= STEPS.length;
+    const step = STEPS[stepIndex];
+
+    const result = useMemo(() => {
+        if (!done) return null;
+        try {
+            const next = computeCalibration(capture, calibration);
+            return { calibration: next, validation: validateCalibration(next), error: '' };
+        } catch (e) {
+            return { calibration: null, validation: null, error: e instanceof Error ? e.message : String(e) };
+        }
+    }, [calibration, capture, done]);
+
+    if (!isOpen) return null;
+
+    const captureStep = async () => {
+        if (!step) return;
+        setCapturing(true);
+        setError('');
+        samplesRef.current = [];
+        await sleep(CAPTURE_MS);
+        const samples = samplesRef.current ?? [];
+        samplesRef.current = null;
+        setCapturing(false);
+        if (samples.length === 0) {
+            setError('No readings received from the controller. Try again.');
+            return;
+        }
+
+        const stats = summarizeAxisSamples(samples);
+        setCapture((prev) => {
+            if (step.kind === 'rest') return { ...prev, rest: stats };
+            const key = step.kind;
+            const next = [...prev[key]];
+            next[step.axis] = stats[step.axis] ?? null;
+            return { ...prev, [key]: next };
+        });
+        setStepIndex((i) => i + 1);
+    };
+
+    const skipStep = () => {
+        if (step?.kind !== 'notch') return;
+        setCapture((prev) => {
+            const notch = [...prev.notch];
+            notch[step.axis] = null;
+            return { ...prev, notch };
+        });
+        setStepIndex((i) => i + 1);
+    };
+
+    const activeAxis = step && step.kind !== 'rest' ? step.axis : null;
+
+    return (
+        <div className="modal-overlay">
+            <div
+                className="modal-content"
+                style={{ maxWidth: 640, width: '90vw', maxHeight: '85vh', display: 'flex', flexDirection: 'column' }}
+            >
+                <h3 style={{ margin: 0, marginBottom: 'var(--spacing-md)', color: 'var(--color-text-primary)' }}>
+                    Calibrate analog inputs
+                </h3>
+                <div style={{ flex: 1, minHeight: 0, overflow: 'auto', marginBottom: 'var(--spacing-lg)' }}>
+                    {error && <div className="message message-error mb-md">{error}</div>}
+
+                    {!done && step ? (
+                        <div className="col" style={{ gap: 'var(--spacing-md)' }}>
+                            <div className="text-xs text-muted">Step {stepIndex + 1} of {STEPS.length}</div>
+                            <div>{instructions(step)}</div>
+                            <div className="col" style={{ gap: 'var(--spacing-xs)' }}>
+                                {AXES.map((axis) => (
+                                    <div
+                                        key={axis}
+                                        style={{ display: 'grid', gridTemplateColumns: '160px 1fr 60px', gap: 10, alignItems: 'center' }}
+                                    >
+                                        <span className="text-sm text-secondary">{analogInputLabel(axis)}</span>
+                                        <LiveBar value={live?.[axis] ?? 0} highlight={activeAxis === null || activeAxis === axis} />
+                                        <span className="text-xs" style={{ textAlign: 'right', fontVariantNumeric: 'tabular-nums' }}>
+                                            {format(live?.[axis])}
+                                        </span>
+                                    </div>
+                                ))}
+                            </div>
+                        </div>
+                    ) : result?.error ? (
+                        <div className="message message-error">{result.error}</div>
+                    ) : result?.calibration ? (
+                        <div className="col" style={{ gap: 'var(--spacing-md)' }}>
+                            <table className="table text-sm">
+                                <thead>
+                                    <tr>
+                                        <th>Axis</th>
+                                        <th>Rest</th>
+                                        <th>Full press</th>
+                                        <th>Deadzone lower / upper</th>
+                                        <th>Notch</th>
+                                    </tr>
+                                </thead>
+                                <tbody>
+                                    {AXES.map((axis) => {
+                                        const next = result.calibration!;
+                                        const cell = (after: number | undefined, before: number | undefined) => (
+                                            <span title={`Current: ${format(before)}`}>{format(after)}</span>
+                                        );
+                                        return (
+                                            <tr key={axis}>
+                                                <td>{analogInputLabel(axis)}</td>
+                                                <td>{cell(next.range.lower[axis], calibration?.range.lower[axis])}</td>
+                                                <td>{cell(next.range.upper[axis], calibration?.range.upper[axis])}</td>
+                                                <td>
+                                                    {cell(next.deadzoneLower[axis], calibration?.deadzoneLower[axis])}
+                                                    {' / '}
+                                                    {cell(next.deadzoneUpper[axis], calibration?.deadzoneUpper[axis])}
+                                                </td>
+                                                <td>{cell(next.notch[axis], calibration?.notch[axis])}</td>
+                                            </tr>
+                                        );
+                                    })}
+                                </tbody>
+                            </table>
+                            {result.validation?.errors.map((msg) => (
+                                <div key={msg} className="message message-error">{msg}</div>
+                            ))}
+                            {result.validation?.warnings.map((msg) => (
+                                <div key={msg} className="message message-warning">{msg}</div>
+                            ))}
+                            <div className="text-sm text-muted">
+                                Applying updates the draft; save to write the calibration to the controller.
+                            </div>
+                        </div>
+                    ) : null}
+                </div>
+                <div className="row" style={{ gap: 'var(--spacing-sm)', justifyContent: 'flex-end' }}>
+                    <button onClick={onCancel} disabled={capturing}>Cancel</button>
+                    <button onClick={() => setStepIndex((i) => Math.max(0, i - 1))} disabled={capturing || stepIndex === 0}>
+                        Back
+                    </button>
+                    {!done ? (
+                        <>
+                            {step?.kind === 'notch' && (
+                                <button onClick={skipStep} disabled={capturing}>Skip</button>
+                            )}
+                            <button className="primary" onClick={() => void captureStep()} disabled={capturing || !live}>
+                                {capturing ? 'Capturing...' : 'Capture'}
+                            </button>
+                        </>
+                    ) : (
+                        <button
+                            className="primary"
+                            disabled={!result?.calibration || (result.validation?.errors.length ?? 0) > 0}
+                            onClick={() => result?.calibration && onApply(result.calibration)}
+                        >
+                            Apply to draft
+                        </button>
+                    )}
+                </div>
+            </div>
+        </div>
+    );
+}
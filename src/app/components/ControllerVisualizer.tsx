@@ -32,7 +32,7 @@ import type { TriggerPolicyV1 } from '../../schema/settingsBlob';
  * the circleIndex or analogIndex values below.
  */
 
-interface ButtonConfig {
+export interface ButtonConfig {
     id: number;
     label: string;
     shortLabel: string;
@@ -43,7 +43,7 @@ interface ButtonConfig {
 // ============================================================
 // DIGITAL BUTTONS -> Circle Elements (15 circles available)
 // ============================================================
-const DIGITAL_BUTTONS: ButtonConfig[] = [
+export const DIGITAL_BUTTONS: ButtonConfig[] = [
     { id: 0, label: 'A Button', shortLabel: 'A', type: 'digital', elementIndex: 8 },
     { id: 1, label: 'B Button', shortLabel: 'B', type: 'digital', elementIndex: 11 },
     { id: 2, label: 'X Button', shortLabel: 'X', type: 'digital', elementIndex: 9 },
@@ -63,7 +63,7 @@ const DIGITAL_BUTTONS: ButtonConfig[] = [
 // ============================================================
 // ANALOG BUTTONS -> Oblong Path Groups (5 oblongs)
 // ============================================================
-const ANALOG_BUTTONS: ButtonConfig[] = [
+export const ANALOG_BUTTONS: ButtonConfig[] = [
     { id: 0, label: 'Control Stick X Left', shortLabel: '⬅', type: 'analog', elementIndex: 2 },
     { id: 1, label: 'Control Stick X Right', shortLabel: '➡', type: 'analog', elementIndex: 0 },
     { id: 2, label: 'Control Stick Y Up', shortLabel: '⬆', type: 'analog', elementIndex: 1 },
@@ -72,7 +72,7 @@ const ANALOG_BUTTONS: ButtonConfig[] = [
 ];
 
 // Circle coordinates from SVG (for labels)
-const CIRCLES = [
+export const CIRCLES = [
     { cx: 219.6450, cy: 229.0637, r: 11.5 },  // 0
     { cx: 224.9800, cy: 294.6787, r: 11.5 },  // 1
     { cx: 21.7350, cy: 256.7337, r: 11.5 },  // 2
@@ -91,7 +91,7 @@ const CIRCLES = [
 ];
 
 // Oblong shapes (path groups) - center positions for labels (in SVG coordinates)
-const OBLONGS = [
+export const OBLONGS = [
     { cx: 110, cy: 242 },   // 0 - JX Left (rightmost upper oblong)
     { cx: 82, cy: 226 },   // 1 - JX Right (middle upper oblong)
     { cx: 53, cy: 230 },   // 2 - JY Up (leftmost upper oblong)
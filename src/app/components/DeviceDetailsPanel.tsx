@@ -0,0 +1,141 @@
+import type { ReactNode } from 'react';
+import type { SettingsDraft, SettingsHeaderInfo } from '../../schema/settingsBlob';
+import { formatHeaderFlags } from '../../schema/settingsDiff';
+import { decodeSettingsHeaderFlags, validateHeaderFlagsChange } from '../../schema/settingsHeaderFlags';
+import type { DraftEditMeta, SlotState } from '../state/orcaAppReducer';
+import { cloneDraft } from '../domain/cloneDraft';
+import { slotDisplayName, type SlotId } from '../utils/slot';
+
+type Props = {
+    slotStates: Record<SlotId, SlotState>;
+    activeSlot: SlotId;
+    disabled?: boolean;
+    onChange: (next: SettingsDraft, meta?: DraftEditMeta) => void;
+};
+
+const SLOTS: SlotId[] = [0, 1];
+
+function formatCrc(crc: number): string {
+    return `0x${(crc >>> 0).toString(16).padStart(8, '0')}`;
+}
+
+function HeaderRow({ label, children }: { label: string; children: ReactNode }) {
+    return (
+        <tr>
+            <td className="text-muted">{label}</td>
+            <td>{children}</td>
+        </tr>
+    );
+}
+
+type SlotDetailsProps = {
+    header: SettingsHeaderInfo;
+    draft: SettingsDraft | null;
+    editable: boolean;
+    onChange: Props['onChange'];
+};
+
+function SlotDetails({ header, draft, editable, onChange }: SlotDetailsProps) {
+    const pendingFlags = draft?.headerFlags ?? header.flags;
+    const flagsChanged = pendingFlags !== header.flags;
+
+    const toggleBit = (bit: number) => {
+        if (!draft) return;
+        const next = pendingFlags ^ (1 << bit);
+        const errors = validateHeaderFlagsChange(header.flags, next);
+        if (errors.length > 0) {
+            window.alert(errors.join('\n'));
+            return;
+        }
+        onChange({ ...cloneDraft(draft), headerFlags: next }, { label: `Toggle header flag bit ${bit}` });
+    };
+
+    return (
+        <div className="col" style={{ gap: 'var(--spacing-xs)' }}>
+            <table className="table text-xs">
+                <tbody>
+                    <HeaderRow label="Magic">
+                        <code>{header.magic || '—'}</code>
+                    </HeaderRow>
+                    <HeaderRow label="Version">
+                        v{header.versionMajor}.{header.versionMinor}
+                    </HeaderRow>
+                    <HeaderRow label="Header size">{header.headerSize} bytes</HeaderRow>
+                    <HeaderRow label="Generation">{header.generation}</HeaderRow>
+                    <HeaderRow label="Active profile">Profile {header.activeProfile + 1}</HeaderRow>
+                    <HeaderRow label="Stored CRC">
+                        <code>{formatCrc(header.storedCrc32)}</code>
+                    </HeaderRow>
+                    <HeaderRow label="Computed CRC">
+                        <code>{formatCrc(header.computedCrc32)}</code>{' '}
+                        <span className={`pill ${header.crcValid ? 'pill-ok' : 'pill-error'}`}>
+                            {header.crcValid ? 'Valid' : 'Mismatch'}
+                        </span>
+                    </HeaderRow>
+                    <HeaderRow label="Flags">
+                        <code>{formatHeaderFlags(header.flags)}</code>
+                        {flagsChanged && (
+                            <span className="text-secondary"> → <code>{formatHeaderFlags(pendingFlags)}</code> (unsaved)</span>
+                        )}
+                    </HeaderRow>
+                </tbody>
+            </table>
+            <table className="table text-xs">
+                <thead>
+                    <tr>
+                        <th>Bit</th>
+                        <th>Flag</th>
+                        <th>Value</th>
+                    </tr>
+                </thead>
+                <tbody>
+                    {decodeSettingsHeaderFlags(pendingFlags).map((flag) => (
+                        <tr key={flag.bit} title={flag.def?.description ?? 'Not defined by this schema; preserved on write'}>
+                            <td>{flag.bit}</td>
+                            <td className={flag.def ? undefined : 'text-muted'}>{flag.def?.label ?? 'Reserved'}</td>
+                            <td>
+                                {flag.def && editable ? (
+                                    <input type="checkbox" checked={flag.set} onChange={() => toggleBit(flag.bit)} />
+                                ) : (
+                                    <span className={flag.def ? undefined : 'text-muted'}>{flag.set ? '1' : '0'}</span>
+                                )}
+                            </td>
+                        </tr>
+                    ))}
+                </tbody>
+            </table>
+        </div>
+    );
+}
+
+/**
+ * Settings header for both slots as read from the controller. Known flag bits can be edited
+ * on the active slot; reserved bits are shown for diagnostics only.
+ */
+export function DeviceDetailsPanel({ slotStates, activeSlot, disabled = false, onChange }: Props) {
+    return (
+        <div className="col" style={{ gap: 'var(--spacing-md)' }}>
+            {SLOTS.map((slot) => {
+                const { parsed, draft } = slotStates[slot];
+                return (
+                    <div key={slot} className="col" style={{ gap: 'var(--spacing-xs)' }}>
+                        <div className="text-sm" style={{ fontWeight: 600 }}>
+                            {slotDisplayName(slot)}
+                            {slot === activeSlot && <span className="pill pill-brand" style={{ marginLeft: 8 }}>Active</span>}
+                        </div>
+                        {parsed ? (
+                            <SlotDetails
+                                header={parsed.header}
+                                draft={slot === activeSlot ? draft : null}
+                                editable={slot === activeSlot && !disabled && !!draft}
+                                onChange={onChange}
+                            />
+                        ) : (
+                            <div className="text-sm text-muted">Not loaded</div>
+                        )}
+                    </div>
+                );
+            })}
+        </div>
+    );
+}
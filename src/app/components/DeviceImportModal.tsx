@@ -0,0 +1,241 @@
+import { useEffect, useMemo, useState } from 'react';
+import type { SettingsDraft } from '../../schema/settingsBlob';
+import { SETTINGS_CHANGE_SECTION_LABELS } from '../../schema/settingsDiff';
+import { validateSettingsDraft } from '../../validators/settingsValidation';
+import {
+    PROFILE_IMPORT_SECTIONS,
+    importProfilesIntoDraft,
+    type ProfileImportChoice,
+    type ProfileImportSection,
+} from '../domain/draftMutations';
+import type { DeviceImportSelection, PendingDeviceImport } from '../state/orcaAppReducer';
+import { slotDisplayName, slotIdToMode, type SlotId } from '../utils/slot';
+
+type Props = {
+    pending: PendingDeviceImport | null;
+    // Current settings per slot; profiles can only be merged into slots that have some.
+    currentDrafts: Partial<Record<SlotId, SettingsDraft>>;
+    onApply: (selection: DeviceImportSelection) => void;
+    onCancel: () => void;
+};
+
+const SECTION_LABELS: Record<ProfileImportSection, string> = {
+    label: SETTINGS_CHANGE_SECTION_LABELS.label,
+    digitalMapping: SETTINGS_CHANGE_SECTION_LABELS.digital,
+    analogMapping: SETTINGS_CHANGE_SECTION_LABELS.analog,
+    dpadLayer: SETTINGS_CHANGE_SECTION_LABELS.dpad,
+    triggerPolicy: SETTINGS_CHANGE_SECTION_LABELS.trigger,
+    stickCurveParams: SETTINGS_CHANGE_SECTION_LABELS.stick,
+};
+
+type ProfileRow = ProfileImportChoice & { checked: boolean };
+type SlotChoice = { enabled: boolean; wholeSlot: boolean; rows: ProfileRow[] };
+
+function initialChoices(pending: PendingDeviceImport): Partial<Record<SlotId, SlotChoice>> {
+    const choices: Partial<Record<SlotId, SlotChoice>> = {};
+    for (const { slot, loaded } of pending.slots) {
+        choices[slot] = {
+            enabled: true,
+            wholeSlot: true,
+            rows: loaded.parsed.draft.profileLabels.map((_, i) => ({ checked: false, source: i, target: i, sections: [...PROFILE_IMPORT_SECTIONS] })),
+        };
+    }
+    return choices;
+}
+
+/**
+ * Choose what to take from a device file: whole slots (calibration, header and every profile), or
+ * sections of individual profiles copied into chosen profiles of the current settings. Merged
+ * settings are validated before they can be applied.
+ */
+export function DeviceImportModal({ pending, currentDrafts, onApply, onCancel }: Props) {
+    const [choices, setChoices] = useState<Partial<Record<SlotId, SlotChoice>>>({});
+
+    useEffect(() => {
+        if (pending) setChoices(initialChoices(pending));
+    }, [pending]);
+
+    const selection = useMemo(() => {
+        const out: DeviceImportSelection = {};
+        for (const { slot } of pending?.slots ?? []) {
+            const choice = choices[slot];
+            if (!choice?.enabled) continue;
+            // Without loaded settings there is nothing to merge into; the form shows "Whole slot".
+            const wholeSlot = choice.wholeSlot || !currentDrafts[slot];
+            const profiles = choice.rows
+                .filter((r) => r.checked && r.sections.length > 0)
+                .map(({ source, target, sections }) => ({ source, target, sections }));
+            if (!wholeSlot && profiles.length === 0) continue;
+            out[slot] = { wholeSlot, profiles };
+        }
+        return out;
+    }, [choices, currentDrafts, pending]);
+
+    // Validate exactly what applying would produce.
+    const validation = useMemo(() => {
+        const out: Partial<Record<SlotId, { errors: string[]; warnings: string[] }>> = {};
+        for (const { slot, loaded } of pending?.slots ?? []) {
+            const choice = selection[slot];
+            const current = currentDrafts[slot];
+            if (!choice) continue;
+            const result = choice.wholeSlot || !current
+                ? loaded.parsed.draft
+                : importProfilesIntoDraft(current, loaded.parsed.draft, slotIdToMode(slot), choice.profiles);
+            out[slot] = validateSettingsDraft(result, current);
+        }
+        return out;
+    }, [currentDrafts, pending, selection]);
+
+    if (!pending) return null;
+
+    const update = (slot: SlotId, patch: Partial<SlotChoice>) => {
+        setChoices((prev) => ({ ...prev, [slot]: { ...prev[slot]!, ...patch } }));
+    };
+
+    const updateRow = (slot: SlotId, index: number, patch: Partial<ProfileRow>) => {
+        const rows = choices[slot]!.rows.map((r, i) => (i === index ? { ...r, ...patch } : r));
+        update(slot, { rows });
+    };
+
+    const toggleSection = (slot: SlotId, index: number, section: ProfileImportSection, checked: boolean) => {
+        const row = choices[slot]!.rows[index]!;
+        const sections = checked
+            ? PROFILE_IMPORT_SECTIONS.filter((s) => s === section || row.sections.includes(s))
+            : row.sections.filter((s) => s !== section);
+        updateRow(slot, index, { sections });
+    };
+
+    const nothingSelected = Object.keys(selection).length === 0;
+    // Whole slots load as-is (errors can be fixed afterwards); merges must not break current settings.
+    const blocked = pending.slots.some(({ slot }) => selection[slot] && !selection[slot]!.wholeSlot && (validation[slot]?.errors.length ?? 0) > 0);
+
+    return (
+        <div className="modal-overlay" onClick={onCancel}>
+            <div
+                className="modal-content"
+                onClick={(e) => e.stopPropagation()}
+                style={{ maxWidth: 820, width: '90vw', maxHeight: '85vh', display: 'flex', flexDirection: 'column' }}
+            >
+                <h3 style={{ margin: 0, marginBottom: 'var(--spacing-sm)', color: 'var(--color-text-primary)' }}>
+                    Import {pending.source}
+                </h3>
+                <div className="text-sm text-secondary" style={{ marginBottom: 'var(--spacing-md)' }}>
+                    Imported settings stay in this tab until saved to the controller.
+                </div>
+                <div style={{ flex: 1, minHeight: 0, overflow: 'auto', marginBottom: 'var(--spacing-lg)' }}>
+                    <div className="col" style={{ gap: 'var(--spacing-lg)' }}>
+                        {pending.slots.map(({ slot, loaded }) => {
+                            const choice = choices[slot];
+                            if (!choice) return null;
+                            const current = currentDrafts[slot];
+                            const wholeSlot = choice.wholeSlot || !current;
+                            const result = validation[slot];
+                            const targets = choice.rows.filter((r) => r.checked && r.sections.length > 0).map((r) => r.target);
+                            const sharedTargets = targets.filter((t, i) => targets.indexOf(t) !== i);
+                            return (
+                                <div key={slot} className="col" style={{ gap: 'var(--spacing-sm)' }}>
+                                    <label className="row" style={{ gap: 'var(--spacing-sm)', alignItems: 'center' }}>
+                                        <input type="checkbox" checked={choice.enabled} onChange={(e) => update(slot, { enabled: e.target.checked })} />
+                                        <strong>{slotDisplayName(slot)}</strong>
+                                        {loaded.migration && (
+                                            <span className="pill pill-warn">
+                                                Upgraded from v{loaded.migration.from.major}.{loaded.migration.from.minor}
+                                            </span>
+                                        )}
+                                    </label>
+                                    {choice.enabled && (
+                                        <div className="col" style={{ gap: 'var(--spacing-xs)', paddingLeft: 24 }}>
+                                            <label className="text-sm">
+                                                <input type="radio" checked={wholeSlot} onChange={() => update(slot, { wholeSlot: true })} /> Whole slot
+                                                <span className="text-xs text-muted"> (calibration, header and every profile)</span>
+                                            </label>
+                                            <label className="text-sm" title={current ? undefined : 'Load this mode from the controller first'}>
+                                                <input
+                                                    type="radio"
+                                                    checked={!wholeSlot}
+                                                    disabled={!current}
+                                                    onChange={() => update(slot, { wholeSlot: false })}
+                                                /> Selected profile sections
+                                            </label>
+                                            {!wholeSlot && current && (
+                                                <table className="table text-sm">
+                                                    <thead>
+                                                        <tr>
+                                                            <th>From file</th>
+                                                            <th>Into</th>
+                                                            <th>Sections</th>
+                                                        </tr>
+                                                    </thead>
+                                                    <tbody>
+                                                        {choice.rows.map((row, i) => (
+                                                            <tr key={i}>
+                                                                <td>
+                                                                    <label>
+                                                                        <input
+                                                                            type="checkbox"
+                                                                            checked={row.checked}
+                                                                            onChange={(e) => updateRow(slot, i, { checked: e.target.checked })}
+                                                                        />{' '}
+                                                                        {i + 1}. {loaded.parsed.draft.profileLabels[i] || <span className="text-muted">(unnamed)</span>}
+                                                                    </label>
+                                                                </td>
+                                                                <td>
+                                                                    <select
+                                                                        value={row.target}
+                                                                        disabled={!row.checked}
+                                                                        onChange={(e) => updateRow(slot, i, { target: Number(e.target.value) })}
+                                                                    >
+                                                                        {current.profileLabels.map((label, t) => (
+                                                                            <option key={t} value={t}>{t + 1}. {label}</option>
+                                                                        ))}
+                                                                    </select>
+                                                                </td>
+                                                                <td>
+                                                                    <div className="row" style={{ gap: 'var(--spacing-sm)', flexWrap: 'wrap' }}>
+                                                                        {PROFILE_IMPORT_SECTIONS.map((section) => (
+                                                                            <label key={section} className="text-xs">
+                                                                                <input
+                                                                                    type="checkbox"
+                                                                                    checked={row.sections.includes(section)}
+                                                                                    disabled={!row.checked}
+                                                                                    onChange={(e) => toggleSection(slot, i, section, e.target.checked)}
+                                                                                /> {SECTION_LABELS[section]}
+                                                                            </label>
+                                                                        ))}
+                                                                    </div>
+                                                                </td>
+                                                            </tr>
+                                                        ))}
+                                                    </tbody>
+                                                </table>
+                                            )}
+                                            {!wholeSlot && sharedTargets.length > 0 && (
+                                                <div className="message message-warning">
+                                                    Profile {sharedTargets.map((t) => t + 1).join(', ')} receives more than one import; later rows win.
+                                                </div>
+                                            )}
+                                            {result && result.errors.length > 0 && (
+                                                <div className="message message-error">
+                                                    {result.errors.map((e) => <div key={e}>{e}</div>)}
+                                                </div>
+                                            )}
+                                            {result && result.warnings.length > 0 && (
+                                                <div className="message message-warning">
+                                                    {result.warnings.map((w) => <div key={w}>{w}</div>)}
+                                                </div>
+                                            )}
+                                        </div>
+                                    )}
+                                </div>
+                            );
+                        })}
+                    </div>
+                </div>
+                <div className="row" style={{ justifyContent: 'flex-end', gap: 'var(--spacing-sm)' }}>
+                    <button onClick={onCancel}>Cancel</button>
+                    <button className="primary" disabled={nothingSelected || blocked} onClick={() => onApply(selection)}>Import</button>
+                </div>
+            </div>
+        </div>
+    );
+}
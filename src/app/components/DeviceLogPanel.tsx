@@ -0,0 +1,108 @@
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { OrcaLogLevel, formatLogRecord, logLevelName, type OrcaLogRecord } from '../../protocol/orcaLog';
+
+type Props = {
+    records: OrcaLogRecord[];
+    supported: boolean;
+    loading: boolean;
+    // Failed read; shown above the records that were read before it.
+    error?: string;
+    disabled?: boolean;
+    onRefresh: () => void;
+    onClear: () => void;
+    onDownload: () => void;
+};
+
+const LEVEL_OPTIONS = [
+    OrcaLogLevel.DEBUG,
+    OrcaLogLevel.INFO,
+    OrcaLogLevel.WARN,
+    OrcaLogLevel.ERROR,
+];
+
+function levelColor(level: number): string {
+    if (level >= OrcaLogLevel.ERROR) return 'var(--color-error)';
+    if (level === OrcaLogLevel.WARN) return 'var(--color-warning)';
+    if (level === OrcaLogLevel.DEBUG) return 'var(--color-text-muted)';
+    return 'var(--color-text-secondary)';
+}
+
+export function DeviceLogPanel({ records, supported, loading, error, disabled = false, onRefresh, onClear, onDownload }: Props) {
+    const [minLevel, setMinLevel] = useState<number>(OrcaLogLevel.INFO);
+    const [query, setQuery] = useState('');
+    const listRef = useRef<HTMLDivElement | null>(null);
+
+    const filtered = useMemo(() => {
+        const q = query.trim().toLowerCase();
+        return records.filter((r) => {
+            if (r.level < minLevel) return false;
+            if (!q) return true;
+            return formatLogRecord(r).toLowerCase().includes(q);
+        });
+    }, [minLevel, query, records]);
+
+    // Keep the newest records in view as they arrive.
+    useEffect(() => {
+        const el = listRef.current;
+        if (el) el.scrollTop = el.scrollHeight;
+    }, [filtered.length]);
+
+    if (!supported) {
+        return <div className="text-sm text-muted">This firmware does not support reading the device log.</div>;
+    }
+
+    return (
+        <div className="col" style={{ gap: 'var(--spacing-sm)' }}>
+            <div className="row" style={{ gap: 'var(--spacing-sm)' }}>
+                <select
+                    value={minLevel}
+                    onChange={(e) => setMinLevel(Number(e.target.value))}
+                    style={{ width: 110 }}
+                    title="Minimum level"
+                >
+                    {LEVEL_OPTIONS.map((level) => (
+                        <option key={level} value={level}>{logLevelName(level)}+</option>
+                    ))}
+                </select>
+                <input
+                    type="text"
+                    className="flex-1"
+                    placeholder="Filter…"
+                    value={query}
+                    onChange={(e) => setQuery(e.target.value)}
+                />
+            </div>
+
+            {error && <div className="message message-error text-xs">Reading the log failed: {error}</div>}
+
+            <div ref={listRef} className="device-log">
+                {filtered.length === 0 ? (
+                    <div className="text-xs text-muted">
+                        {records.length === 0 ? 'No log records loaded' : 'No records match the filter'}
+                    </div>
+                ) : (
+                    filtered.map((r, i) => (
+                        <div key={i} style={{ color: levelColor(r.level) }}>
+                            {formatLogRecord(r)}
+                        </div>
+                    ))
+                )}
+            </div>
+
+            <div className="row" style={{ gap: 'var(--spacing-sm)' }}>
+                <button className="sm" onClick={onRefresh} disabled={disabled || loading}>
+                    {loading ? 'Reading…' : 'Refresh'}
+                </button>
+                <button className="sm" onClick={onClear} disabled={records.length === 0}>
+                    Clear
+                </button>
+                <button className="sm" onClick={onDownload} disabled={records.length === 0}>
+                    Download Log
+                </button>
+                <span className="text-xs text-muted" style={{ marginLeft: 'auto' }}>
+                    {filtered.length}/{records.length}
+                </span>
+            </div>
+        </div>
+    );
+}
@@ -1,14 +1,14 @@
-import { useEffect, useRef } from 'react';
 import type { SettingsDraft } from '../../schema/settingsBlob';
 import { ORCA_DUMMY_FIELD } from '../../schema/orcaMappings';
 import type { Gp2040LabelPreset } from '../../schema/gp2040Labels';
 import { cloneDraft } from '../domain/cloneDraft';
+import type { DraftEditMeta } from '../state/orcaAppReducer';
 import { DigitalSourceEditorCompact } from './DigitalSourceEditorCompact';
 
 type Props = {
     draft: SettingsDraft;
     disabled?: boolean;
-    onChange: (next: SettingsDraft) => void;
+    onChange: (next: SettingsDraft, meta?: DraftEditMeta) => void;
     contextMode?: 'orca' | 'gp2040';
     gp2040LabelPreset?: Gp2040LabelPreset;
 };
@@ -85,36 +85,27 @@ export function DpadEditor({ draft, disabled, onChange, contextMode = 'orca' }:
         const changedDir = (['up', 'down', 'left', 'right'] as const).find(dir => dir in patch);
         const fixed = checkAndFixDuplicates(merged, changedDir);
         updated.dpadLayer[activeProfile] = fixed;
-        onChange(updated);
+        const fields = Object.keys(patch).join(', ');
+        onChange(updated, { label: `Edit DPAD layer (${fields})`, coalesceKey: `dpad.${fields}` });
     }
 
     const isGp2040 = contextMode === 'gp2040';
     const allowAnalogDpadSources = isGp2040;
 
-    function setLayer(nextLayer: typeof layer) {
+    function setLayer(nextLayer: typeof layer, meta: DraftEditMeta) {
         const updated = cloneDraft(draft);
         const fixed = checkAndFixDuplicates(nextLayer);
         updated.dpadLayer[activeProfile] = fixed;
-        onChange(updated);
+        onChange(updated, meta);
     }
 
-    // Check for and fix duplicates when component loads or layer changes
-    const lastCheckedLayerRef = useRef<string>('');
-    useEffect(() => {
-        const layerStr = JSON.stringify(layer);
-        if (layerStr === lastCheckedLayerRef.current) return;
-        lastCheckedLayerRef.current = layerStr;
-
-        const fixed = checkAndFixDuplicates(layer);
-        const fixedStr = JSON.stringify(fixed);
-
-        // Only trigger update if the fix actually changed something
-        if (fixedStr !== layerStr) {
-            const updated = cloneDraft(draft);
-            updated.dpadLayer[activeProfile] = fixed;
-            onChange(updated);
-        }
-    }, [layer, activeProfile, draft, onChange]);
+    // Directions sharing a source (other than disabled). Flagged rather than fixed here: an automatic
+    // fix would be a draft edit nobody made, e.g. right after undoing back to this layer.
+    const duplicateDirections = (['up', 'down', 'left', 'right'] as const).filter((dir) => {
+        const source = layer[dir];
+        if (source?.type === 1 && source.index === ORCA_DUMMY_FIELD) return false;
+        return (['up', 'down', 'left', 'right'] as const).some((other) => other !== dir && areSourcesEqual(source, layer[other]));
+    });
 
     function applyPreset(preset: 'cstick_held' | 'ls_held' | 'ls_always') {
         if (disabled) return;
@@ -135,7 +126,7 @@ export function DpadEditor({ draft, disabled, onChange, contextMode = 'orca' }:
                 down: digital(ORCA_C_DOWN),
                 left: digital(ORCA_C_LEFT),
                 right: digital(ORCA_C_RIGHT),
-            });
+            }, { label: 'Apply DPAD preset: C-stick + modifier' });
             return;
         }
 
@@ -150,7 +141,7 @@ export function DpadEditor({ draft, disabled, onChange, contextMode = 'orca' }:
                 down: analogGe(ORCA_ANALOG_Y_DOWN),
                 left: analogGe(ORCA_ANALOG_X_LEFT),
                 right: analogGe(ORCA_ANALOG_X_RIGHT),
-            });
+            }, { label: 'Apply DPAD preset: Stick + modifier' });
             return;
         }
 
@@ -164,7 +155,7 @@ export function DpadEditor({ draft, disabled, onChange, contextMode = 'orca' }:
             down: analogGe(ORCA_ANALOG_Y_DOWN),
             left: analogGe(ORCA_ANALOG_X_LEFT),
             right: analogGe(ORCA_ANALOG_X_RIGHT),
-        });
+        }, { label: 'Apply DPAD preset: Stick always' });
     }
 
     return (
@@ -209,6 +200,20 @@ export function DpadEditor({ draft, disabled, onChange, contextMode = 'orca' }:
             </div>
 
 
+            {duplicateDirections.length > 0 && (
+                <div className="message message-warning" style={{ fontSize: 11 }}>
+                    {duplicateDirections.map((dir) => dir[0]!.toUpperCase() + dir.slice(1)).join(', ')} use the same source.
+                    <button
+                        type="button"
+                        disabled={disabled}
+                        onClick={() => setLayer(layer, { label: 'Disable duplicate DPAD sources' })}
+                        style={{ fontSize: 11, padding: '2px 8px', marginLeft: 8 }}
+                    >
+                        Disable duplicates
+                    </button>
+                </div>
+            )}
+
             {/* Per-direction mode selectors */}
             <div style={{ display: 'flex', flexDirection: 'column', gap: 6, marginTop: 8 }}>
                 {/* Up */}
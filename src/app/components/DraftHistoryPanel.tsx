@@ -0,0 +1,120 @@
+import { useMemo } from 'react';
+import type { SettingsDraft } from '../../schema/settingsBlob';
+import { SETTINGS_CHANGE_SECTION_LABELS, diffSettingsDrafts, formatHeaderFlags } from '../../schema/settingsDiff';
+import type { DraftHistory, DraftHistoryStep } from '../state/orcaAppReducer';
+
+type Props = {
+    history: DraftHistory;
+    draft: SettingsDraft;
+    disabled?: boolean;
+    onUndo: (steps?: number) => void;
+    onRedo: (steps?: number) => void;
+};
+
+type Row = {
+    step: DraftHistoryStep;
+    summary: string;
+    detail: string;
+    onClick: () => void;
+};
+
+// Keep tooltips readable for bulk edits like "Clear all bindings".
+const MAX_DETAIL_LINES = 12;
+
+function describe(before: SettingsDraft, after: SettingsDraft): { summary: string; detail: string } {
+    const diff = diffSettingsDrafts(before, after);
+    const lines: string[] = [];
+    if (diff.activeProfile) lines.push(`Default profile: ${diff.activeProfile.before + 1} → ${diff.activeProfile.after + 1}`);
+    if (diff.headerFlags) lines.push(`Header flags: ${formatHeaderFlags(diff.headerFlags.before)} → ${formatHeaderFlags(diff.headerFlags.after)}`);
+    for (const c of diff.calibration) lines.push(`Calibration · ${c.field}: ${c.before || '—'} → ${c.after || '—'}`);
+    for (const c of diff.rawBytes) lines.push(`Raw byte ${c.field}: ${c.before || '—'} → ${c.after || '—'}`);
+    for (const p of diff.profiles) {
+        for (const c of p.changes) {
+            lines.push(`P${p.profile + 1} ${SETTINGS_CHANGE_SECTION_LABELS[c.section]} · ${c.field}: ${c.before || '—'} → ${c.after || '—'}`);
+        }
+    }
+    const extra = lines.length - MAX_DETAIL_LINES;
+    const detail = lines.slice(0, MAX_DETAIL_LINES).join('\n') + (extra > 0 ? `\n…and ${extra} more` : '');
+    const summary = diff.changeCount === 0 ? 'no changes' : `${diff.changeCount} change${diff.changeCount === 1 ? '' : 's'}`;
+    return { summary, detail };
+}
+
+function formatTime(at: number): string {
+    return new Date(at).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit', second: '2-digit' });
+}
+
+/**
+ * Undo/redo history for the active slot. Clicking a done step jumps back to before it;
+ * clicking an undone step re-applies everything up to and including it.
+ */
+export function DraftHistoryPanel({ history, draft, disabled = false, onUndo, onRedo }: Props) {
+    const { past, future } = history;
+
+    const done: Row[] = useMemo(() => past.map((step, i) => ({
+        step,
+        ...describe(step.draft, past[i + 1]?.draft ?? draft),
+        onClick: () => onUndo(past.length - i),
+    })), [draft, onUndo, past]);
+
+    // `future` is a stack: the last entry is the next redo.
+    const undone: Row[] = useMemo(() => {
+        const rows: Row[] = [];
+        let before = draft;
+        for (let n = 1; n <= future.length; n++) {
+            const step = future[future.length - n]!;
+            rows.push({ step, ...describe(before, step.draft), onClick: () => onRedo(n) });
+            before = step.draft;
+        }
+        return rows;
+    }, [draft, future, onRedo]);
+
+    const renderRow = (row: Row, key: string, muted: boolean) => (
+        <button
+            key={key}
+            type="button"
+            className="ghost"
+            disabled={disabled}
+            onClick={row.onClick}
+            title={row.detail}
+            style={{
+                display: 'flex',
+                justifyContent: 'space-between',
+                gap: 'var(--spacing-sm)',
+                width: '100%',
+                textAlign: 'left',
+                padding: '4px 6px',
+                opacity: muted ? 0.5 : 1,
+                textDecoration: muted ? 'line-through' : 'none',
+            }}
+        >
+            <span className="text-sm" style={{ overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>
+                {row.step.label}
+            </span>
+            <span className="text-xs text-muted" style={{ flexShrink: 0 }}>
+                {row.summary} · {formatTime(row.step.at)}
+            </span>
+        </button>
+    );
+
+    return (
+        <div className="col" style={{ gap: 'var(--spacing-sm)' }}>
+            <div className="row" style={{ gap: 'var(--spacing-sm)' }}>
+                <button onClick={() => onUndo()} disabled={disabled || past.length === 0} title="Undo (Ctrl+Z)">
+                    Undo
+                </button>
+                <button onClick={() => onRedo()} disabled={disabled || future.length === 0} title="Redo (Ctrl+Shift+Z)">
+                    Redo
+                </button>
+            </div>
+            {past.length === 0 && future.length === 0 ? (
+                <div className="text-sm text-muted">No edits yet</div>
+            ) : (
+                <div className="col" style={{ gap: 2, maxHeight: 240, overflow: 'auto' }}>
+                    {done.map((row, i) => renderRow(row, `p${i}`, false))}
+                    <div className="text-xs text-secondary" style={{ padding: '2px 6px' }}>● Current</div>
+                    {undone.map((row, i) => renderRow(row, `f${i}`, true))}
+                </div>
+            )}
+        </div>
+    );
+}
@@ -0,0 +1,140 @@
+import { useEffect, useMemo, useState } from 'react';
+import type { Gp2040LabelPreset } from '../../schema/gp2040Labels';
+import type { SettingsDraft } from '../../schema/settingsBlob';
+import { diffSettingsDrafts } from '../../schema/settingsDiff';
+import { formatDraftValue, type DraftMergeChoice } from '../../schema/settingsMerge';
+import type { DraftRecoveryState } from '../state/orcaAppReducer';
+import { slotDisplayName, slotIdToMode } from '../utils/slot';
+import { SettingsDiffTable } from './SettingsDiffModal';
+
+type Props = {
+    recovery: DraftRecoveryState | null;
+    // What the controller has in the recovered slot right now.
+    deviceDraft: SettingsDraft | null;
+    gp2040LabelPreset?: Gp2040LabelPreset;
+    onApply: (choices?: DraftMergeChoice[]) => void;
+    onDiscard: () => void;
+};
+
+function formatSavedAt(at: number): string {
+    return new Date(at).toLocaleString([], { dateStyle: 'medium', timeStyle: 'short' });
+}
+
+/**
+ * Offered after connecting when unsaved changes from an earlier session were found. If the
+ * controller still has the settings the draft started from, the draft is restored as-is;
+ * otherwise the two sides are merged and conflicting fields are picked one by one.
+ */
+export function DraftRecoveryModal({ recovery, deviceDraft, gp2040LabelPreset, onApply, onDiscard }: Props) {
+    const [choices, setChoices] = useState<DraftMergeChoice[]>([]);
+
+    useEffect(() => {
+        setChoices([]);
+    }, [recovery]);
+
+    const recovered = recovery ? (recovery.kind === 'restore' ? recovery.draft : recovery.merge.merged) : null;
+    const diff = useMemo(() => {
+        if (!recovery || !recovered || !deviceDraft) return null;
+        return diffSettingsDrafts(deviceDraft, recovered, { mode: slotIdToMode(recovery.slot), gp2040LabelPreset });
+    }, [deviceDraft, gp2040LabelPreset, recovered, recovery]);
+
+    if (!recovery) return null;
+
+    const conflicts = recovery.kind === 'merge' ? recovery.merge.conflicts : [];
+    const setChoice = (index: number, choice: DraftMergeChoice) => {
+        setChoices((prev) => {
+            const next = [...prev];
+            next[index] = choice;
+            return next;
+        });
+    };
+
+    return (
+        <div className="modal-overlay">
+            <div
+                className="modal-content"
+                style={{ maxWidth: 760, width: '90vw', maxHeight: '85vh', display: 'flex', flexDirection: 'column' }}
+            >
+                <h3 style={{ margin: 0, marginBottom: 'var(--spacing-md)', color: 'var(--color-text-primary)' }}>
+                    Unsaved changes found
+                </h3>
+                <p className="text-sm text-secondary" style={{ margin: 0, marginBottom: 'var(--spacing-md)' }}>
+                    {slotDisplayName(recovery.slot)} has edits from {formatSavedAt(recovery.savedAt)} that were never saved to the controller.
+                    {recovery.kind === 'restore'
+                        ? ' The controller settings have not changed since, so they can be restored as they were.'
+                        : ' The controller settings have changed since then, so your edits were merged with them.'}
+                </p>
+                <div style={{ flex: 1, minHeight: 0, overflow: 'auto', marginBottom: 'var(--spacing-lg)' }}>
+                    <div className="col" style={{ gap: 'var(--spacing-lg)' }}>
+                        {conflicts.length > 0 && (
+                            <div>
+                                <h4 style={{ margin: 0, marginBottom: 'var(--spacing-sm)' }}>
+                                    Conflicts ({conflicts.length})
+                                </h4>
+                                <table className="table text-sm">
+                                    <thead>
+                                        <tr>
+                                            <th>Field</th>
+                                            <th>Mine</th>
+                                            <th>On controller</th>
+                                        </tr>
+                                    </thead>
+                                    <tbody>
+                                        {conflicts.map((c, i) => {
+                                            const choice = choices[i] ?? 'ours';
+                                            return (
+                                                <tr key={c.label + i}>
+                                                    <td>{c.label}</td>
+                                                    <td>
+                                                        <label className="row" style={{ gap: 'var(--spacing-xs)' }}>
+                                                            <input
+                                                                type="radio"
+                                                                name={`conflict-${i}`}
+                                                                checked={choice === 'ours'}
+                                                                onChange={() => setChoice(i, 'ours')}
+                                                            />
+                                                            {formatDraftValue(c.path, c.ours)}
+                                                        </label>
+                                                    </td>
+                                                    <td>
+                                                        <label className="row" style={{ gap: 'var(--spacing-xs)' }}>
+                                                            <input
+                                                                type="radio"
+                                                                name={`conflict-${i}`}
+                                                                checked={choice === 'theirs'}
+                                                                onChange={() => setChoice(i, 'theirs')}
+                                                            />
+                                                            {formatDraftValue(c.path, c.theirs)}
+                                                        </label>
+                                                    </td>
+                                                </tr>
+                                            );
+                                        })}
+                                    </tbody>
+                                </table>
+                            </div>
+                        )}
+                        <div>
+                            {conflicts.length > 0 && (
+                                <h4 style={{ margin: 0, marginBottom: 'var(--spacing-sm)' }}>
+                                    Changes (conflicts shown with your values)
+                                </h4>
+                            )}
+                            {diff ? (
+                                <SettingsDiffTable diff={diff} beforeLabel="On controller" afterLabel="Recovered" />
+                            ) : (
+                                <div className="text-sm text-muted">Settings on the controller are not loaded.</div>
+                            )}
+                        </div>
+                    </div>
+                </div>
+                <div className="row" style={{ gap: 'var(--spacing-sm)', justifyContent: 'flex-end' }}>
+                    <button className="danger" onClick={onDiscard}>Discard</button>
+                    <button className="primary" onClick={() => onApply(recovery.kind === 'merge' ? choices : undefined)}>
+                        {recovery.kind === 'restore' ? 'Restore' : 'Apply merge'}
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+}
@@ -1,15 +1,25 @@
-import { useEffect, useMemo, useState, type CSSProperties } from 'react';
+import { useCallback, useEffect, useMemo, useRef, useState, type CSSProperties } from 'react';
 import { OrcaErr } from '@shared/orca_config_idl_generated';
 import type { SettingsDraft } from '../../schema/settingsBlob';
 import { ANALOG_INPUTS, DIGITAL_INPUTS, analogInputLabel, digitalInputLabel, ORCA_DUMMY_FIELD } from '../../schema/orcaMappings';
 import type { OrcaInputState, OrcaTransport } from '../../usb/OrcaTransport';
 import { OrcaDeviceError } from '../../usb/OrcaTransport';
-import { computeInputPreview } from '../../inputPreview/orcaInputPreview';
+import { computeInputPreview, type InputPreviewMode, type InputPreviewResult } from '../../inputPreview/orcaInputPreview';
+import {
+  inputTraceDuration,
+  inputTraceIndexAt,
+  parseInputTrace,
+  serializeInputTrace,
+  type InputTraceSample,
+} from '../../inputPreview/inputTrace';
+import { analyzeMeleeCoordinate, MELEE_THRESHOLD_LABELS, toMeleeCoordinate } from '../../inputPreview/meleeCoordinates';
+import { downloadBytes } from '../utils/download';
 
 type Props = {
   transport: OrcaTransport;
   draft: SettingsDraft;
   baseBlob: Uint8Array;
+  mode: InputPreviewMode;
   disabled?: boolean;
   style?: CSSProperties;
 };
@@ -25,40 +35,6 @@ function clamp(v: number, lo: number, hi: number): number {
   return v;
 }
 
-/**
- * Scale stick coordinates to Melee-style 80-pixel unit circle.
- * The input x/y come from firmware in 128-unit space (range 0..1 maps to 0..128).
- * Melee uses 80-unit space with integer truncation for clamping.
- * Formula from orcagui.html: clamp = 80 / sqrt(x² + y²), then Math.trunc(coord * clamp) / 80.
- */
-function scaleToMeleeUnitCircle(x: number, y: number): { x: number; y: number } {
-  const MELEE_RADIUS = 80;
-
-  // Convert from firmware 128-unit space to Melee integer format
-  // Multiply by 128 to get the raw integer value the firmware uses
-  const xInt = Math.round(x * 128);
-  const yInt = Math.round(y * 128);
-
-  const magnitude = Math.sqrt(xInt * xInt + yInt * yInt);
-
-  if (magnitude <= MELEE_RADIUS) {
-    // Within the unit circle, just divide by 80 for normalized output
-    // Use Math.trunc to match Melee's integer quantization
-    return {
-      x: Math.trunc(xInt) / MELEE_RADIUS,
-      y: Math.trunc(yInt) / MELEE_RADIUS,
-    };
-  }
-
-  // Outside the circle: project onto the edge using Melee's exact formula
-  // clamp = 80 / magnitude, then Math.trunc(coord * clamp) / 80
-  const clampFactor = MELEE_RADIUS / magnitude;
-  return {
-    x: Math.trunc(xInt * clampFactor) / MELEE_RADIUS,
-    y: Math.trunc(yInt * clampFactor) / MELEE_RADIUS,
-  };
-}
-
 function format(v: number): string {
   if (!Number.isFinite(v)) return '—';
   // Round to nearest 0.0125 (1/80 pixel precision)
@@ -126,27 +102,98 @@ function AnalogBar({ label, value, max }: { label: string; value: number; max: n
   );
 }
 
-export function LiveInputPreviewCard({ transport, draft, baseBlob, disabled, style }: Props) {
+const REPLAY_SPEEDS = [0.1, 0.25, 0.5, 1];
+// About ten minutes of polling at ~60Hz; recording stops and saves once it is reached.
+const MAX_RECORDED_SAMPLES = 36_000;
+
+type Replay = {
+  name: string;
+  samples: InputTraceSample[];
+};
+
+function formatSeconds(ms: number): string {
+  return `${(ms / 1000).toFixed(2)} s`;
+}
+
+function DpadCross({ dpad }: { dpad: InputPreviewResult['dpad'] }) {
+  const cell = (active: boolean, label: string) => (
+    <div
+      className="text-xs"
+      style={{
+        width: 26,
+        height: 26,
+        display: 'flex',
+        alignItems: 'center',
+        justifyContent: 'center',
+        borderRadius: 'var(--radius-sm)',
+        background: active ? 'var(--color-brand)' : 'rgba(255,255,255,0.06)',
+      }}
+    >
+      {label}
+    </div>
+  );
+  return (
+    <div style={{ display: 'grid', gridTemplateColumns: 'repeat(3, 26px)', gap: 2 }}>
+      <div />{cell(dpad.up, '⬆')}<div />
+      {cell(dpad.left, '⬅')}<div />{cell(dpad.right, '➡')}
+      <div />{cell(dpad.down, '⬇')}<div />
+    </div>
+  );
+}
+
+export function LiveInputPreviewCard({ transport, draft, baseBlob, mode, disabled, style }: Props) {
   const [raw, setRaw] = useState<OrcaInputState | null>(null);
+  // Analog-threshold DPAD sources keep their state between polls (hysteresis).
+  const previousRef = useRef<InputPreviewResult | null>(null);
+
+  // Recording keeps raw samples from the poll loop; replay feeds a trace into the preview instead of it.
+  const recordingRef = useRef<{ start: number; samples: InputTraceSample[] } | null>(null);
+  const [recording, setRecording] = useState(false);
+  const [lastRecording, setLastRecording] = useState<InputTraceSample[] | null>(null);
+  const [replay, setReplay] = useState<Replay | null>(null);
+  const [position, setPosition] = useState(0);
+  const positionRef = useRef(0);
+  const [playing, setPlaying] = useState(false);
+  const [speed, setSpeed] = useState(1);
+  const [loop, setLoop] = useState(true);
+  const traceFileRef = useRef<HTMLInputElement | null>(null);
+  const polling = !disabled && replay === null;
   const [supported, setSupported] = useState(true);
   const [lastErr, setLastErr] = useState<string>('');
 
+  const finishRecording = useCallback(() => {
+    const rec = recordingRef.current;
+    if (!rec) return;
+    recordingRef.current = null;
+    setRecording(false);
+    if (rec.samples.length === 0) return;
+    setLastRecording(rec.samples);
+    const stamp = new Date().toISOString().replace(/[:.]/g, '-');
+    downloadBytes(`orca-input-trace-${stamp}.json`, new TextEncoder().encode(serializeInputTrace(rec.samples)), 'application/json');
+  }, []);
+
   useEffect(() => {
     let cancelled = false;
+    const abort = new AbortController();
     setSupported(true);
     setLastErr('');
 
     async function run() {
       while (!cancelled) {
-        if (disabled) {
+        if (!polling) {
           await sleep(100);
           continue;
         }
         try {
-          const next = await transport.getInputState();
+          const next = await transport.getInputState({ signal: abort.signal });
           if (cancelled) return;
           setRaw(next);
           setLastErr('');
+          const rec = recordingRef.current;
+          if (rec) {
+            rec.samples.push({ t: Math.round(performance.now() - rec.start), digitalMask: next.digitalMask, analog: next.analog.slice() });
+            if (rec.samples.length >= MAX_RECORDED_SAMPLES) finishRecording();
+          }
           await sleep(16); // ~60Hz
         } catch (e) {
           if (cancelled) return;
@@ -163,13 +210,89 @@ export function LiveInputPreviewCard({ transport, draft, baseBlob, disabled, sty
     void run();
     return () => {
       cancelled = true;
+      // Drop a poll still queued behind e.g. a save instead of letting it run after unmount.
+      abort.abort();
+    };
+  }, [finishRecording, polling, transport]);
+
+  const duration = replay ? inputTraceDuration(replay.samples) : 0;
+
+  const seek = useCallback((ms: number) => {
+    positionRef.current = ms;
+    setPosition(ms);
+  }, []);
+
+  useEffect(() => {
+    if (!replay || !playing) return;
+    let frame = 0;
+    let last = performance.now();
+    const tick = (now: number) => {
+      let next = positionRef.current + (now - last) * speed;
+      last = now;
+      if (next > duration) {
+        if (!loop || duration <= 0) {
+          seek(duration);
+          setPlaying(false);
+          return;
+        }
+        previousRef.current = null;
+        next %= duration;
+      }
+      seek(next);
+      frame = requestAnimationFrame(tick);
     };
-  }, [disabled, transport]);
+    frame = requestAnimationFrame(tick);
+    return () => cancelAnimationFrame(frame);
+  }, [duration, loop, playing, replay, seek, speed]);
+
+  const shownRaw = useMemo(() => {
+    if (!replay) return raw;
+    const sample = replay.samples[inputTraceIndexAt(replay.samples, position)];
+    return sample ? { digitalMask: sample.digitalMask, analog: sample.analog } : null;
+  }, [position, raw, replay]);
+
+  // Computed in an effect, not during render: each result feeds the next one's hysteresis.
+  const [computed, setComputed] = useState<InputPreviewResult | null>(null);
+  useEffect(() => {
+    if (!shownRaw) {
+      setComputed(null);
+      return;
+    }
+    const next = computeInputPreview(shownRaw, draft, baseBlob, { mode, previous: previousRef.current });
+    previousRef.current = next;
+    setComputed(next);
+  }, [baseBlob, draft, mode, shownRaw]);
+
+  const toggleRecording = () => {
+    if (recordingRef.current) {
+      finishRecording();
+      return;
+    }
+    recordingRef.current = { start: performance.now(), samples: [] };
+    setRecording(true);
+  };
+
+  const startReplay = (next: Replay) => {
+    previousRef.current = null;
+    setReplay(next);
+    seek(0);
+    setPlaying(true);
+  };
 
-  const computed = useMemo(() => {
-    if (!raw) return null;
-    return computeInputPreview(raw, draft, baseBlob);
-  }, [baseBlob, draft, raw]);
+  const loadTrace = async (file: File) => {
+    try {
+      startReplay({ name: file.name, samples: parseInputTrace(await file.text()) });
+      setLastErr('');
+    } catch (e) {
+      setLastErr(e instanceof Error ? e.message : String(e));
+    }
+  };
+
+  const stopReplay = () => {
+    previousRef.current = null;
+    setReplay(null);
+    setPlaying(false);
+  };
 
   const notchStart = draft.stickCurveParams[draft.activeProfile]?.notch_start_input ?? draft.stickCurveParams[0]?.notch_start_input ?? 0;
   const notchEnd = draft.stickCurveParams[draft.activeProfile]?.notch_end_input ?? draft.stickCurveParams[0]?.notch_end_input ?? 0;
@@ -213,17 +336,80 @@ export function LiveInputPreviewCard({ transport, draft, baseBlob, disabled, sty
       <div className="card-header">
         <div>
           <h2 className="card-title">Live Input Preview</h2>
-          <p className="card-subtitle">Mapped outputs (draft config)</p>
+          <p className="card-subtitle">
+            {replay ? `Replaying ${replay.name} through the draft config` : 'Mapped outputs (draft config)'}
+          </p>
+        </div>
+        <div className="row" style={{ gap: 'var(--spacing-sm)', alignItems: 'center' }}>
+          {lastErr && <span className="pill pill-warn" title={lastErr}>Warning</span>}
+          {!replay && (
+            <button onClick={toggleRecording} disabled={disabled && !recording} title="Record raw inputs to a trace file (up to about ten minutes)">
+              {recording ? 'Stop Recording' : 'Record'}
+            </button>
+          )}
+          {!replay && lastRecording && !recording && (
+            <button onClick={() => startReplay({ name: 'last recording', samples: lastRecording })}>Replay Last</button>
+          )}
+          <button onClick={() => traceFileRef.current?.click()} disabled={recording}>Load Trace…</button>
+          <input
+            ref={traceFileRef}
+            type="file"
+            accept=".json,.csv,application/json,text/csv"
+            style={{ display: 'none' }}
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              if (file) void loadTrace(file);
+              e.target.value = '';
+            }}
+          />
         </div>
-        {lastErr && <span className="pill pill-warn" title={lastErr}>Warning</span>}
       </div>
 
+      {replay && (
+        <div className="row" style={{ gap: 'var(--spacing-sm)', alignItems: 'center', marginBottom: 'var(--spacing-md)' }}>
+          <button
+            onClick={() => {
+              if (!playing && position >= duration) seek(0);
+              setPlaying((p) => !p);
+            }}
+          >
+            {playing ? 'Pause' : 'Play'}
+          </button>
+          <input
+            type="range"
+            min={0}
+            max={duration}
+            step={1}
+            value={Math.min(position, duration)}
+            onChange={(e) => {
+              previousRef.current = null;
+              seek(Number(e.target.value));
+            }}
+            style={{ flex: 1 }}
+            aria-label="Replay position"
+          />
+          <span className="text-xs" style={{ fontVariantNumeric: 'tabular-nums', whiteSpace: 'nowrap' }}>
+            {formatSeconds(Math.min(position, duration))} / {formatSeconds(duration)}
+          </span>
+          <select value={speed} onChange={(e) => setSpeed(Number(e.target.value))} aria-label="Replay speed">
+            {REPLAY_SPEEDS.map((v) => (
+              <option key={v} value={v}>{v}×</option>
+            ))}
+          </select>
+          <label className="text-sm">
+            <input type="checkbox" checked={loop} onChange={(e) => setLoop(e.target.checked)} />
+            Loop
+          </label>
+          <button onClick={stopReplay}>Back to Live</button>
+        </div>
+      )}
+
       {!computed ? (
         <div className="text-sm text-muted">Waiting for input…</div>
       ) : (() => {
-        // Apply Melee-style unit circle scaling for Orca mode
-        // Function expects firmware 0-1 range values and converts to Melee 80-unit space internally
-        const stickCoords = scaleToMeleeUnitCircle(computed.joystick.x, computed.joystick.y);
+        // Melee-style unit circle scaling (firmware 128-unit space to Melee's 80-unit grid)
+        const stickCoords = toMeleeCoordinate(computed.joystick.x, computed.joystick.y);
+        const melee = analyzeMeleeCoordinate(stickCoords);
 
         return (
           <div style={{ display: 'grid', gridTemplateColumns: '220px 1fr', gap: 'var(--spacing-lg)', alignItems: 'start' }}>
@@ -234,6 +420,16 @@ export function LiveInputPreviewCard({ transport, draft, baseBlob, disabled, sty
                 <div className="text-xs text-secondary">Y: <span style={{ fontVariantNumeric: 'tabular-nums' }}>{format(stickCoords.y)}</span></div>
                 <div className="text-xs text-secondary">Mag: <span style={{ fontVariantNumeric: 'tabular-nums' }}>{format(Math.sqrt(stickCoords.x * stickCoords.x + stickCoords.y * stickCoords.y))}</span></div>
                 <div className="text-xs text-secondary">TR: <span style={{ fontVariantNumeric: 'tabular-nums' }}>{format(computed.triggers.r)}</span></div>
+                <div className="text-xs text-secondary">Region: {melee.region}</div>
+                <div className="text-xs text-secondary">
+                  Angle: <span style={{ fontVariantNumeric: 'tabular-nums' }}>{melee.angle === null ? '—' : `${melee.angle.toFixed(2)}°`}</span>
+                </div>
+              </div>
+              <div className="col" style={{ gap: 4 }}>
+                <span className="text-xs text-secondary">Melee: {melee.zone}</span>
+                {melee.hits.map((hit) => (
+                  <span key={hit} className="text-xs text-muted">{MELEE_THRESHOLD_LABELS[hit]}</span>
+                ))}
               </div>
             </div>
 
@@ -262,6 +458,16 @@ export function LiveInputPreviewCard({ transport, draft, baseBlob, disabled, sty
                   </div>
                 )}
               </div>
+
+              <div className="col" style={{ gap: 8 }}>
+                <div className="text-sm" style={{ fontWeight: 600 }}>D-pad</div>
+                <div className="row" style={{ gap: 'var(--spacing-md)', alignItems: 'center' }}>
+                  <DpadCross dpad={computed.dpad} />
+                  <span className={`pill ${computed.dpad.modifier ? 'pill-brand' : 'pill-neutral'}`}>
+                    Modifier {computed.dpad.modifier ? 'held' : 'off'}
+                  </span>
+                </div>
+              </div>
             </div>
           </div>
         );
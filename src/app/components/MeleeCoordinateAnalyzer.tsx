@@ -0,0 +1,150 @@
+import { useMemo, useState } from 'react';
+import {
+    analyzeStickCurveReach,
+    formatMeleeCoordinatesCsv,
+    MELEE_THRESHOLD_LABELS,
+    type MeleeThreshold,
+    type MeleeZone,
+} from '../../inputPreview/meleeCoordinates';
+import type { StickCurveParamsV1 } from '../../schema/settingsBlob';
+import { downloadBytes } from '../utils/download';
+
+type Props = {
+    params: StickCurveParamsV1;
+    profileIndex: number;
+};
+
+const MAX_TABLE_ROWS = 200;
+const ZONES: MeleeZone[] = ['deadzone', 'tilt', 'smash'];
+
+type Filter = 'all' | MeleeZone | MeleeThreshold;
+
+/** Every Melee coordinate the current stick curve can reach, with the thresholds each one hits. */
+export function MeleeCoordinateAnalyzer({ params, profileIndex }: Props) {
+    const [isExpanded, setIsExpanded] = useState(false);
+    const [filter, setFilter] = useState<Filter>('all');
+
+    return (
+        <div style={{
+            marginTop: 'var(--spacing-md)',
+            padding: 'var(--spacing-md)',
+            background: 'var(--color-bg-tertiary)',
+            borderRadius: 'var(--radius-md)',
+            border: '1px solid var(--color-border)',
+        }}>
+            <button
+                onClick={() => setIsExpanded(!isExpanded)}
+                style={{
+                    width: '100%',
+                    display: 'flex',
+                    alignItems: 'center',
+                    justifyContent: 'space-between',
+                    padding: 0,
+                    background: 'none',
+                    border: 'none',
+                    cursor: 'pointer',
+                    fontSize: 'var(--font-size-sm)',
+                    fontWeight: 600,
+                    color: 'var(--color-text-secondary)',
+                }}
+            >
+                <span>Melee Coordinate Analyzer</span>
+                <span style={{ fontSize: 'var(--font-size-xs)', color: 'var(--color-text-muted)' }}>
+                    {isExpanded ? '▼' : '▶'}
+                </span>
+            </button>
+
+            {/* The sweep only runs while the panel is open. */}
+            {isExpanded && <AnalyzerBody params={params} profileIndex={profileIndex} filter={filter} onFilterChange={setFilter} />}
+        </div>
+    );
+}
+
+function AnalyzerBody({ params, profileIndex, filter, onFilterChange }: Props & { filter: Filter; onFilterChange: (f: Filter) => void }) {
+    const rows = useMemo(() => analyzeStickCurveReach(params), [params]);
+
+    const thresholdCounts = useMemo(() => {
+        const counts = new Map<MeleeThreshold, number>();
+        for (const row of rows) {
+            for (const hit of row.hits) counts.set(hit, (counts.get(hit) ?? 0) + 1);
+        }
+        return counts;
+    }, [rows]);
+
+    const filtered = useMemo(() => {
+        if (filter === 'all') return rows;
+        if ((ZONES as string[]).includes(filter)) return rows.filter((r) => r.zone === filter);
+        return rows.filter((r) => r.hits.includes(filter as MeleeThreshold));
+    }, [filter, rows]);
+
+    const exportCsv = () => {
+        const bytes = new TextEncoder().encode(formatMeleeCoordinatesCsv(rows));
+        downloadBytes(`melee-coordinates-p${profileIndex + 1}.csv`, bytes, 'text/csv');
+    };
+
+    return (
+        <div style={{ marginTop: 'var(--spacing-sm)', display: 'flex', flexDirection: 'column', gap: 'var(--spacing-sm)' }}>
+            <div className="text-xs text-secondary">
+                {rows.length} reachable coordinates
+                {ZONES.map((zone) => ` · ${rows.filter((r) => r.zone === zone).length} ${zone}`).join('')}
+            </div>
+
+            <div style={{ display: 'grid', gridTemplateColumns: '1fr auto', gap: '2px var(--spacing-md)', fontSize: 'var(--font-size-xs)' }}>
+                {(Object.keys(MELEE_THRESHOLD_LABELS) as MeleeThreshold[]).map((id) => {
+                    const count = thresholdCounts.get(id) ?? 0;
+                    return (
+                        <div key={id} style={{ display: 'contents' }}>
+                            <span style={{ color: 'var(--color-text-muted)' }}>{MELEE_THRESHOLD_LABELS[id]}</span>
+                            <span style={{ fontFamily: 'monospace', color: count > 0 ? 'var(--color-text-primary)' : 'var(--color-warning)' }}>
+                                {count > 0 ? count : 'unreachable'}
+                            </span>
+                        </div>
+                    );
+                })}
+            </div>
+
+            <div className="row" style={{ gap: 'var(--spacing-sm)', alignItems: 'center' }}>
+                <select value={filter} onChange={(e) => onFilterChange(e.target.value as Filter)} aria-label="Filter coordinates">
+                    <option value="all">All coordinates</option>
+                    {ZONES.map((zone) => <option key={zone} value={zone}>Zone: {zone}</option>)}
+                    {(Object.keys(MELEE_THRESHOLD_LABELS) as MeleeThreshold[]).map((id) => (
+                        <option key={id} value={id}>{MELEE_THRESHOLD_LABELS[id]}</option>
+                    ))}
+                </select>
+                <button onClick={exportCsv}>Export CSV</button>
+            </div>
+
+            <div style={{ maxHeight: 260, overflow: 'auto', border: '1px solid var(--color-border)', borderRadius: 'var(--radius-sm)' }}>
+                <table style={{ width: '100%', fontSize: 'var(--font-size-xs)', fontFamily: 'monospace', borderCollapse: 'collapse' }}>
+                    <thead>
+                        <tr style={{ textAlign: 'left', color: 'var(--color-text-muted)' }}>
+                            <th>X</th>
+                            <th>Y</th>
+                            <th>Region</th>
+                            <th>Angle</th>
+                            <th>Zone</th>
+                            <th>Thresholds</th>
+                        </tr>
+                    </thead>
+                    <tbody>
+                        {filtered.slice(0, MAX_TABLE_ROWS).map((r) => (
+                            <tr key={`${r.xUnits},${r.yUnits}`}>
+                                <td>{r.x.toFixed(4)}</td>
+                                <td>{r.y.toFixed(4)}</td>
+                                <td>{r.region}</td>
+                                <td>{r.angle === null ? '—' : `${r.angle.toFixed(2)}°`}</td>
+                                <td>{r.zone}</td>
+                                <td>{r.hits.join(', ')}</td>
+                            </tr>
+                        ))}
+                    </tbody>
+                </table>
+            </div>
+            {filtered.length > MAX_TABLE_ROWS && (
+                <div className="text-xs text-muted">
+                    Showing {MAX_TABLE_ROWS} of {filtered.length}; export the CSV for the full table.
+                </div>
+            )}
+        </div>
+    );
+}
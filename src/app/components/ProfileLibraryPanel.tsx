@@ -0,0 +1,255 @@
+import { useMemo, useState } from 'react';
+import { ORCA_CONFIG_SETTINGS_PROFILE_COUNT } from '@shared/orca_config_idl_generated';
+import type { ProfileMode } from '../../schema/profileFile';
+import type { SettingsDraft } from '../../schema/settingsBlob';
+import {
+    collectProfileTags,
+    filterProfileLibrary,
+    normalizeProfileTags,
+    type ProfileLibraryEntry,
+} from '../domain/profileLibrary';
+import { slotDisplayName, modeToSlotId } from '../utils/slot';
+import { ProfileThumbnail } from './ProfileThumbnail';
+
+type Props = {
+    entries: ProfileLibraryEntry[];
+    mode: ProfileMode;
+    draft: SettingsDraft;
+    activeProfile: number;
+    disabled?: boolean;
+    onSave: (profileIndex: number, label: string, tags: string[]) => Promise<void>;
+    onUpdate: (id: string, patch: { label?: string; tags?: string[] }) => Promise<void>;
+    onDelete: (id: string) => Promise<void>;
+    onApply: (id: string, profileIndex: number) => void;
+};
+
+const MODE_LABELS: Record<ProfileMode, string> = { orca: 'Orca', gp2040: 'GP2040' };
+
+function profileSlotLabel(draft: SettingsDraft, index: number): string {
+    const label = draft.profileLabels[index]?.trim();
+    return label ? `${index + 1}: ${label}` : `Profile ${index + 1}`;
+}
+
+type EntryProps = {
+    entry: ProfileLibraryEntry;
+    mode: ProfileMode;
+    draft: SettingsDraft;
+    activeProfile: number;
+    disabled: boolean;
+    onUpdate: Props['onUpdate'];
+    onDelete: Props['onDelete'];
+    onApply: Props['onApply'];
+};
+
+function LibraryEntryRow({ entry, mode, draft, activeProfile, disabled, onUpdate, onDelete, onApply }: EntryProps) {
+    const [target, setTarget] = useState(activeProfile);
+    const [editing, setEditing] = useState<{ label: string; tags: string } | null>(null);
+    const modeMismatch = entry.profile.mode !== mode;
+
+    return (
+        <div className="card row" style={{ gap: 'var(--spacing-md)', alignItems: 'flex-start' }}>
+            <ProfileThumbnail profile={entry.profile} />
+            <div className="col flex-1" style={{ gap: 'var(--spacing-xs)', minWidth: 0 }}>
+                {editing ? (
+                    <>
+                        <input
+                            type="text"
+                            value={editing.label}
+                            onChange={(e) => setEditing({ ...editing, label: e.target.value })}
+                            aria-label="Name"
+                        />
+                        <input
+                            type="text"
+                            value={editing.tags}
+                            placeholder="Tags, comma separated"
+                            onChange={(e) => setEditing({ ...editing, tags: e.target.value })}
+                            aria-label="Tags"
+                        />
+                    </>
+                ) : (
+                    <>
+                        <div className="row" style={{ gap: 'var(--spacing-sm)', flexWrap: 'wrap' }}>
+                            <span style={{ fontWeight: 600 }}>{entry.profile.label}</span>
+                            <span className={`pill ${modeMismatch ? 'pill-neutral' : 'pill-brand'}`}>{MODE_LABELS[entry.profile.mode]}</span>
+                        </div>
+                        {entry.tags.length > 0 && (
+                            <div className="row" style={{ gap: 4, flexWrap: 'wrap' }}>
+                                {entry.tags.map((tag) => (
+                                    <span key={tag} className="pill pill-neutral">{tag}</span>
+                                ))}
+                            </div>
+                        )}
+                        <span className="text-xs text-muted">Saved {new Date(entry.updatedAt).toLocaleString()}</span>
+                    </>
+                )}
+            </div>
+            <div className="col" style={{ gap: 'var(--spacing-xs)', alignItems: 'flex-end' }}>
+                {editing ? (
+                    <div className="row" style={{ gap: 'var(--spacing-xs)' }}>
+                        <button onClick={() => setEditing(null)}>Cancel</button>
+                        <button
+                            className="primary"
+                            disabled={disabled}
+                            onClick={() => {
+                                void onUpdate(entry.id, { label: editing.label, tags: normalizeProfileTags(editing.tags) });
+                                setEditing(null);
+                            }}
+                        >
+                            Save
+                        </button>
+                    </div>
+                ) : (
+                    <>
+                        <div className="row" style={{ gap: 'var(--spacing-xs)' }}>
+                            <select
+                                value={target}
+                                onChange={(e) => setTarget(Number(e.target.value))}
+                                disabled={disabled || modeMismatch}
+                                aria-label="Target profile"
+                            >
+                                {Array.from({ length: ORCA_CONFIG_SETTINGS_PROFILE_COUNT }, (_, i) => (
+                                    <option key={i} value={i}>{profileSlotLabel(draft, i)}</option>
+                                ))}
+                            </select>
+                            <button
+                                className="primary"
+                                disabled={disabled || modeMismatch}
+                                onClick={() => onApply(entry.id, target)}
+                                title={modeMismatch ? `Switch to ${slotDisplayName(modeToSlotId(entry.profile.mode))} to apply` : undefined}
+                            >
+                                Apply
+                            </button>
+                        </div>
+                        <div className="row" style={{ gap: 'var(--spacing-xs)' }}>
+                            <button
+                                className="ghost"
+                                disabled={disabled}
+                                onClick={() => setEditing({ label: entry.profile.label, tags: entry.tags.join(', ') })}
+                            >
+                                Edit
+                            </button>
+                            <button className="ghost" disabled={disabled} onClick={() => void onDelete(entry.id)}>
+                                Delete
+                            </button>
+                        </div>
+                    </>
+                )}
+            </div>
+        </div>
+    );
+}
+
+/**
+ * Profiles saved in this browser. Saving snapshots the active profile; applying copies a saved
+ * profile into any profile slot of the current draft (as one undoable edit).
+ */
+export function ProfileLibraryPanel({
+    entries,
+    mode,
+    draft,
+    activeProfile,
+    disabled = false,
+    onSave,
+    onUpdate,
+    onDelete,
+    onApply,
+}: Props) {
+    const [saveLabel, setSaveLabel] = useState('');
+    const [saveTags, setSaveTags] = useState('');
+    const [query, setQuery] = useState('');
+    const [modeFilter, setModeFilter] = useState<ProfileMode | 'all'>(mode);
+    const [tagFilter, setTagFilter] = useState<string | null>(null);
+
+    const tags = useMemo(() => collectProfileTags(entries), [entries]);
+    const visible = useMemo(
+        () => filterProfileLibrary(entries, { mode: modeFilter, query, tag: tagFilter }),
+        [entries, modeFilter, query, tagFilter],
+    );
+    const currentLabel = draft.profileLabels[activeProfile]?.trim() || `Profile ${activeProfile + 1}`;
+
+    const handleSave = async () => {
+        await onSave(activeProfile, saveLabel || currentLabel, normalizeProfileTags(saveTags));
+        setSaveLabel('');
+        setSaveTags('');
+    };
+
+    return (
+        <div className="col" style={{ gap: 'var(--spacing-md)' }}>
+            <div className="card col" style={{ gap: 'var(--spacing-sm)' }}>
+                <div className="text-sm" style={{ fontWeight: 600 }}>Save current profile</div>
+                <div className="row" style={{ gap: 'var(--spacing-sm)', flexWrap: 'wrap' }}>
+                    <input
+                        type="text"
+                        value={saveLabel}
+                        placeholder={currentLabel}
+                        onChange={(e) => setSaveLabel(e.target.value)}
+                        aria-label="Name"
+                        style={{ flex: 1, minWidth: 160 }}
+                    />
+                    <input
+                        type="text"
+                        value={saveTags}
+                        placeholder="Tags, comma separated"
+                        onChange={(e) => setSaveTags(e.target.value)}
+                        aria-label="Tags"
+                        style={{ flex: 1, minWidth: 160 }}
+                    />
+                    <button className="primary" disabled={disabled} onClick={() => void handleSave()}>
+                        Save to library
+                    </button>
+                </div>
+            </div>
+
+            <div className="row" style={{ gap: 'var(--spacing-sm)', flexWrap: 'wrap' }}>
+                <input
+                    type="search"
+                    value={query}
+                    placeholder="Search name or tag"
+                    onChange={(e) => setQuery(e.target.value)}
+                    style={{ flex: 1, minWidth: 160 }}
+                />
+                <select value={modeFilter} onChange={(e) => setModeFilter(e.target.value as ProfileMode | 'all')}>
+                    <option value="all">All modes</option>
+                    <option value="orca">Orca</option>
+                    <option value="gp2040">GP2040</option>
+                </select>
+            </div>
+            {tags.length > 0 && (
+                <div className="row" style={{ gap: 4, flexWrap: 'wrap' }}>
+                    {tags.map((tag) => (
+                        <button
+                            key={tag}
+                            type="button"
+                            className={`pill ${tagFilter === tag ? 'pill-brand' : 'pill-neutral'}`}
+                            onClick={() => setTagFilter(tagFilter === tag ? null : tag)}
+                        >
+                            {tag}
+                        </button>
+                    ))}
+                </div>
+            )}
+
+            {visible.length === 0 ? (
+                <div className="text-sm text-muted">
+                    {entries.length === 0 ? 'No saved profiles yet.' : 'No profiles match the filter.'}
+                </div>
+            ) : (
+                <div className="col" style={{ gap: 'var(--spacing-sm)' }}>
+                    {visible.map((entry) => (
+                        <LibraryEntryRow
+                            key={entry.id}
+                            entry={entry}
+                            mode={mode}
+                            draft={draft}
+                            activeProfile={activeProfile}
+                            disabled={disabled}
+                            onUpdate={onUpdate}
+                            onDelete={onDelete}
+                            onApply={onApply}
+                        />
+                    ))}
+                </div>
+            )}
+        </div>
+    );
+}
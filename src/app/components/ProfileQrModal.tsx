@@ -0,0 +1,78 @@
+import { useEffect, useState } from 'react';
+import type { QrCode } from '../../qr/qrCode';
+import type { ProfileQrState } from '../state/orcaAppReducer';
+
+type Props = {
+    qr: ProfileQrState | null;
+    onClose: () => void;
+};
+
+// Sequences advance on their own so a phone can be held up to a camera without touching it.
+const PART_INTERVAL_MS = 1500;
+const QUIET_ZONE = 4;
+
+function QrCodeSvg({ code, size }: { code: QrCode; size: number }) {
+    let path = '';
+    code.modules.forEach((row, y) => {
+        row.forEach((dark, x) => {
+            if (dark) path += `M${x + QUIET_ZONE} ${y + QUIET_ZONE}h1v1h-1z`;
+        });
+    });
+    const extent = code.size + QUIET_ZONE * 2;
+    return (
+        <svg width={size} height={size} viewBox={`0 0 ${extent} ${extent}`} shapeRendering="crispEdges" role="img" aria-label="QR code">
+            <rect width={extent} height={extent} fill="#fff" />
+            <path d={path} fill="#000" />
+        </svg>
+    );
+}
+
+/** QR code(s) for the active profile, to scan from another device running the configurator. */
+export function ProfileQrModal({ qr, onClose }: Props) {
+    const [part, setPart] = useState(0);
+    const [playing, setPlaying] = useState(true);
+
+    useEffect(() => {
+        setPart(0);
+        setPlaying(true);
+    }, [qr]);
+
+    const total = qr?.codes.length ?? 0;
+    useEffect(() => {
+        if (!playing || total < 2) return;
+        const id = window.setInterval(() => setPart((p) => (p + 1) % total), PART_INTERVAL_MS);
+        return () => window.clearInterval(id);
+    }, [playing, total]);
+
+    if (!qr) return null;
+    const code = qr.codes[Math.min(part, total - 1)]!;
+
+    return (
+        <div className="modal-overlay" onClick={onClose}>
+            <div className="modal-content" onClick={(e) => e.stopPropagation()} style={{ maxWidth: 460, width: '90vw' }}>
+                <h3 style={{ margin: 0, marginBottom: 'var(--spacing-sm)', color: 'var(--color-text-primary)' }}>
+                    QR code: {qr.label}
+                </h3>
+                <div className="text-sm text-secondary" style={{ marginBottom: 'var(--spacing-md)' }}>
+                    {total > 1
+                        ? `This profile needs ${total} codes. Keep scanning until every part is read; order does not matter.`
+                        : 'Scan with "Scan QR…" in the configurator on another computer.'}
+                </div>
+                <div className="row" style={{ justifyContent: 'center', marginBottom: 'var(--spacing-md)' }}>
+                    <QrCodeSvg code={code} size={320} />
+                </div>
+                {total > 1 && (
+                    <div className="row" style={{ justifyContent: 'center', alignItems: 'center', gap: 'var(--spacing-sm)', marginBottom: 'var(--spacing-md)' }}>
+                        <button onClick={() => { setPlaying(false); setPart((p) => (p + total - 1) % total); }}>Previous</button>
+                        <span className="text-sm">Part {part + 1} of {total}</span>
+                        <button onClick={() => { setPlaying(false); setPart((p) => (p + 1) % total); }}>Next</button>
+                        <button onClick={() => setPlaying((p) => !p)}>{playing ? 'Pause' : 'Play'}</button>
+                    </div>
+                )}
+                <div className="row" style={{ justifyContent: 'flex-end' }}>
+                    <button onClick={onClose}>Close</button>
+                </div>
+            </div>
+        </div>
+    );
+}
@@ -0,0 +1,165 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { scanQrImage } from '../../qr/qrScan';
+import type { OrcaProfileFileV1 } from '../../schema/profileFile';
+import { addProfileQrPart, finishProfileQrScan, profileQrPartsReceived, type ProfileQrScan } from '../../schema/profileQr';
+import { imageDataFromFile, imageDataFromVideo } from '../utils/imageData';
+
+type Props = {
+    isOpen: boolean;
+    onScanned: (profile: OrcaProfileFileV1) => void;
+    onClose: () => void;
+};
+
+const CAMERA_SCAN_INTERVAL_MS = 250;
+
+/** Read a profile QR code (or sequence) from image files or the camera. Decoding happens in the page. */
+export function ProfileQrScanModal({ isOpen, onScanned, onClose }: Props) {
+    const [scan, setScan] = useState<ProfileQrScan | null>(null);
+    const [error, setError] = useState('');
+    const [cameraOn, setCameraOn] = useState(false);
+    const scanRef = useRef<ProfileQrScan | null>(null);
+    const finishingRef = useRef(false);
+    const videoRef = useRef<HTMLVideoElement | null>(null);
+    const fileRef = useRef<HTMLInputElement | null>(null);
+
+    useEffect(() => {
+        if (!isOpen) return;
+        scanRef.current = null;
+        finishingRef.current = false;
+        setScan(null);
+        setError('');
+        setCameraOn(false);
+    }, [isOpen]);
+
+    // Returns true once the profile is complete.
+    const accept = useCallback((data: Uint8Array): boolean => {
+        if (finishingRef.current) return true;
+        let next: ProfileQrScan;
+        try {
+            next = addProfileQrPart(scanRef.current, data);
+        } catch (e) {
+            setError(e instanceof Error ? e.message : String(e));
+            return false;
+        }
+        scanRef.current = next;
+        setScan(next);
+        setError('');
+        if (profileQrPartsReceived(next) < next.total) return false;
+
+        finishingRef.current = true;
+        finishProfileQrScan(next)
+            .then((profile) => {
+                if (profile) onScanned(profile);
+            })
+            .catch((e: unknown) => {
+                finishingRef.current = false;
+                scanRef.current = null;
+                setScan(null);
+                setError(e instanceof Error ? e.message : String(e));
+            });
+        return true;
+    }, [onScanned]);
+
+    useEffect(() => {
+        if (!isOpen || !cameraOn) return;
+        let stream: MediaStream | null = null;
+        let timer: number | undefined;
+        let cancelled = false;
+
+        const start = async () => {
+            if (!navigator.mediaDevices?.getUserMedia) throw new Error('This browser cannot use the camera; load an image instead');
+            const media = await navigator.mediaDevices.getUserMedia({ video: { facingMode: 'environment' }, audio: false });
+            // Closed while the permission prompt was up: cleanup has already run, so stop here.
+            if (cancelled) {
+                media.getTracks().forEach((t) => t.stop());
+                return;
+            }
+            stream = media;
+            const video = videoRef.current;
+            if (!video) return;
+            video.srcObject = stream;
+            await video.play();
+            if (cancelled) return;
+            timer = window.setInterval(() => {
+                const image = imageDataFromVideo(video);
+                const data = image ? scanQrImage(image) : null;
+                if (data && accept(data)) setCameraOn(false);
+            }, CAMERA_SCAN_INTERVAL_MS);
+        };
+
+        start().catch((e: unknown) => {
+            if (cancelled) return;
+            setError(e instanceof Error ? `Camera unavailable: ${e.message}` : String(e));
+            setCameraOn(false);
+        });
+        return () => {
+            cancelled = true;
+            window.clearInterval(timer);
+            stream?.getTracks().forEach((t) => t.stop());
+        };
+    }, [accept, cameraOn, isOpen]);
+
+    const scanFiles = async (files: File[]) => {
+        for (const file of files) {
+            try {
+                const data = scanQrImage(await imageDataFromFile(file));
+                if (!data) {
+                    setError(`No QR code found in "${file.name}"`);
+                    continue;
+                }
+                if (accept(data)) return;
+            } catch (e) {
+                setError(e instanceof Error ? e.message : String(e));
+            }
+        }
+    };
+
+    if (!isOpen) return null;
+
+    const received = scan ? profileQrPartsReceived(scan) : 0;
+
+    return (
+        <div className="modal-overlay" onClick={onClose}>
+            <div className="modal-content" onClick={(e) => e.stopPropagation()} style={{ maxWidth: 560, width: '90vw' }}>
+                <h3 style={{ margin: 0, marginBottom: 'var(--spacing-sm)', color: 'var(--color-text-primary)' }}>
+                    Scan profile QR code
+                </h3>
+                <div className="text-sm text-secondary" style={{ marginBottom: 'var(--spacing-md)' }}>
+                    Load a photo or screenshot of the code, or hold it up to the camera. Nothing leaves this computer.
+                </div>
+                {cameraOn && (
+                    <video
+                        ref={videoRef}
+                        muted
+                        playsInline
+                        style={{ width: '100%', maxHeight: 360, background: '#000', marginBottom: 'var(--spacing-md)' }}
+                    />
+                )}
+                {scan && scan.total > 1 && (
+                    <div className="message message-info">
+                        Read {received} of {scan.total} parts
+                        {received < scan.total && ` (missing ${scan.parts.map((p, i) => (p ? null : i + 1)).filter((n) => n !== null).join(', ')})`}.
+                    </div>
+                )}
+                {error && <div className="message message-error">{error}</div>}
+                <div className="row" style={{ justifyContent: 'flex-end', gap: 'var(--spacing-sm)', marginTop: 'var(--spacing-md)' }}>
+                    <button onClick={() => fileRef.current?.click()}>Load Image…</button>
+                    <button onClick={() => setCameraOn((on) => !on)}>{cameraOn ? 'Stop Camera' : 'Use Camera'}</button>
+                    <button onClick={onClose}>Close</button>
+                </div>
+                <input
+                    ref={fileRef}
+                    type="file"
+                    multiple
+                    accept="image/*"
+                    style={{ display: 'none' }}
+                    onChange={(e) => {
+                        const files = Array.from(e.target.files ?? []);
+                        if (files.length > 0) void scanFiles(files);
+                        e.target.value = '';
+                    }}
+                />
+            </div>
+        </div>
+    );
+}
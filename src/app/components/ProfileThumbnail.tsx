@@ -0,0 +1,107 @@
+import { useMemo } from 'react';
+import { ORCA_DUMMY_FIELD, getDefaultAnalogMapping, getDefaultDigitalMapping } from '../../schema/orcaMappings';
+import type { OrcaProfileFileV1 } from '../../schema/profileFile';
+import { ANALOG_BUTTONS, CIRCLES, DIGITAL_BUTTONS, OBLONGS } from './ControllerVisualizer';
+
+type Props = {
+    profile: OrcaProfileFileV1;
+    width?: number;
+};
+
+type Key = {
+    cx: number;
+    cy: number;
+    state: 'default' | 'remapped' | 'unbound';
+    label: string;
+};
+
+const KEY_FILL: Record<Key['state'], string> = {
+    default: 'var(--color-bg-surface)',
+    remapped: 'var(--color-brand)',
+    unbound: 'transparent',
+};
+
+// Mappings are stored dest -> src; the thumbnail draws physical buttons, so look up where each source goes.
+function destinationOf(mapping: number[], src: number): number | undefined {
+    const dest = mapping.indexOf(src);
+    return dest < 0 ? undefined : dest;
+}
+
+/**
+ * Miniature of the controller layout with remapped buttons highlighted and labelled with
+ * their new output. Unbound buttons are drawn as outlines.
+ */
+export function ProfileThumbnail({ profile, width = 120 }: Props) {
+    const keys = useMemo(() => {
+        const defaultDigital = getDefaultDigitalMapping(profile.mode);
+        const defaultAnalog = getDefaultAnalogMapping();
+        const out: Key[] = [];
+
+        for (const button of DIGITAL_BUTTONS) {
+            const circle = CIRCLES[button.elementIndex];
+            if (!circle) continue;
+            const dest = destinationOf(profile.digitalMapping, button.id);
+            const unbound = dest === undefined || dest === ORCA_DUMMY_FIELD;
+            const remapped = !unbound && dest !== destinationOf(defaultDigital, button.id);
+            const destButton = remapped ? DIGITAL_BUTTONS.find((b) => b.id === dest) : undefined;
+            out.push({
+                cx: circle.cx,
+                cy: circle.cy,
+                state: unbound ? 'unbound' : remapped ? 'remapped' : 'default',
+                label: remapped ? destButton?.shortLabel ?? '•' : '',
+            });
+        }
+
+        for (const button of ANALOG_BUTTONS) {
+            const oblong = OBLONGS[button.elementIndex];
+            if (!oblong) continue;
+            const dest = destinationOf(profile.analogMapping, button.id);
+            const unbound = dest === undefined;
+            const remapped = !unbound && dest !== destinationOf(defaultAnalog, button.id);
+            out.push({
+                cx: oblong.cx,
+                cy: oblong.cy,
+                state: unbound ? 'unbound' : remapped ? 'remapped' : 'default',
+                label: remapped ? ANALOG_BUTTONS.find((b) => b.id === dest)?.shortLabel ?? '•' : '',
+            });
+        }
+        return out;
+    }, [profile]);
+
+    return (
+        <svg
+            viewBox="-2 175 335.2 200"
+            width={width}
+            height={(width * 200) / 335.2}
+            role="img"
+            aria-label={`Button layout of ${profile.label}`}
+            style={{
+                flexShrink: 0,
+                background: 'var(--color-bg-tertiary)',
+                borderRadius: 'var(--radius-md)',
+                border: '1px solid var(--color-border)',
+            }}
+        >
+            {keys.map((key, i) => (
+                <g key={i}>
+                    <circle
+                        cx={key.cx}
+                        cy={key.cy}
+                        r={12}
+                        style={{ fill: KEY_FILL[key.state], stroke: 'var(--color-border)', strokeWidth: 1.5 }}
+                    />
+                    {key.label && (
+                        <text
+                            x={key.cx}
+                            y={key.cy + 5}
+                            textAnchor="middle"
+                            style={{ fontSize: 13, fontWeight: 700, fill: 'var(--color-text-primary)' }}
+                        >
+                            {key.label}
+                        </text>
+                    )}
+                </g>
+            ))}
+        </svg>
+    );
+}
@@ -0,0 +1,190 @@
+import { SETTINGS_CHANGE_SECTION_LABELS, formatHeaderFlags, type SettingsChange, type SettingsDiff } from '../../schema/settingsDiff';
+
+export type SettingsDiffSection = {
+    title: string;
+    diff: SettingsDiff | null;
+    // Shown instead of the table when `diff` is null (e.g. slot missing from one file).
+    note?: string;
+    emptyNote?: string;
+};
+
+type Props = {
+    isOpen: boolean;
+    title: string;
+    sections: SettingsDiffSection[];
+    beforeLabel?: string;
+    afterLabel?: string;
+    confirmLabel?: string;
+    cancelLabel?: string;
+    // Omit for a read-only comparison with a single Close button.
+    onConfirm?: () => void;
+    onCancel: () => void;
+};
+
+function profileTitle(profile: number, label: string): string {
+    const fallback = `Profile ${profile + 1}`;
+    return label === fallback ? fallback : `${fallback} · ${label}`;
+}
+
+type TableProps = {
+    diff: SettingsDiff;
+    beforeLabel: string;
+    afterLabel: string;
+    emptyNote?: string;
+};
+
+type DeviceChangesProps = {
+    title: string;
+    changes: SettingsChange[];
+    beforeLabel: string;
+    afterLabel: string;
+};
+
+// Changes that belong to the whole slot rather than one profile.
+function DeviceChanges({ title, changes, beforeLabel, afterLabel }: DeviceChangesProps) {
+    if (changes.length === 0) return null;
+    return (
+        <div>
+            <div className="text-sm" style={{ fontWeight: 600, marginBottom: 'var(--spacing-xs)' }}>
+                {title}
+                <span className="text-muted" style={{ fontWeight: 400 }}>
+                    {' '}({changes.length} change{changes.length === 1 ? '' : 's'})
+                </span>
+            </div>
+            <table className="table text-sm">
+                <thead>
+                    <tr>
+                        <th>Field</th>
+                        <th>{beforeLabel}</th>
+                        <th>{afterLabel}</th>
+                    </tr>
+                </thead>
+                <tbody>
+                    {changes.map((c, i) => (
+                        <tr key={i}>
+                            <td>{c.field}</td>
+                            <td className="text-secondary">{c.before || '—'}</td>
+                            <td>{c.after || '—'}</td>
+                        </tr>
+                    ))}
+                </tbody>
+            </table>
+        </div>
+    );
+}
+
+export function SettingsDiffTable({ diff, beforeLabel, afterLabel, emptyNote = 'No differences.' }: TableProps) {
+    if (diff.changeCount === 0) {
+        return <div className="text-sm text-muted">{emptyNote}</div>;
+    }
+
+    return (
+        <div className="col" style={{ gap: 'var(--spacing-md)' }}>
+            {diff.activeProfile && (
+                <div className="text-sm">
+                    Default profile: Profile {diff.activeProfile.before + 1} → Profile {diff.activeProfile.after + 1}
+                </div>
+            )}
+            {diff.headerFlags && (
+                <div className="text-sm">
+                    Header flags: {formatHeaderFlags(diff.headerFlags.before)} → {formatHeaderFlags(diff.headerFlags.after)}
+                </div>
+            )}
+            <DeviceChanges title="Calibration" changes={diff.calibration} beforeLabel={beforeLabel} afterLabel={afterLabel} />
+            <DeviceChanges title="Raw bytes" changes={diff.rawBytes} beforeLabel={beforeLabel} afterLabel={afterLabel} />
+            {diff.profiles.map((p) => (
+                <div key={p.profile}>
+                    <div className="text-sm" style={{ fontWeight: 600, marginBottom: 'var(--spacing-xs)' }}>
+                        {profileTitle(p.profile, p.label)}
+                        <span className="text-muted" style={{ fontWeight: 400 }}>
+                            {' '}({p.changes.length} change{p.changes.length === 1 ? '' : 's'})
+                        </span>
+                    </div>
+                    <table className="table text-sm">
+                        <thead>
+                            <tr>
+                                <th>Section</th>
+                                <th>Field</th>
+                                <th>{beforeLabel}</th>
+                                <th>{afterLabel}</th>
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {p.changes.map((c, i) => (
+                                <tr key={i}>
+                                    <td className="text-muted">{SETTINGS_CHANGE_SECTION_LABELS[c.section]}</td>
+                                    <td>{c.field}</td>
+                                    <td className="text-secondary">{c.before || '—'}</td>
+                                    <td>{c.after || '—'}</td>
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                </div>
+            ))}
+        </div>
+    );
+}
+
+/**
+ * Structured settings diff in a modal. Used to confirm a save (draft vs device) and to
+ * compare two exported configuration files side by side.
+ */
+export function SettingsDiffModal({
+    isOpen,
+    title,
+    sections,
+    beforeLabel = 'Before',
+    afterLabel = 'After',
+    confirmLabel = 'Confirm',
+    cancelLabel = 'Cancel',
+    onConfirm,
+    onCancel,
+}: Props) {
+    if (!isOpen) return null;
+
+    return (
+        <div className="modal-overlay" onClick={onCancel}>
+            <div
+                className="modal-content"
+                onClick={(e) => e.stopPropagation()}
+                style={{ maxWidth: 760, width: '90vw', maxHeight: '85vh', display: 'flex', flexDirection: 'column' }}
+            >
+                <h3 style={{ margin: 0, marginBottom: 'var(--spacing-md)', color: 'var(--color-text-primary)' }}>
+                    {title}
+                </h3>
+                <div style={{ flex: 1, minHeight: 0, overflow: 'auto', marginBottom: 'var(--spacing-lg)' }}>
+                    <div className="col" style={{ gap: 'var(--spacing-lg)' }}>
+                        {sections.map((section) => (
+                            <div key={section.title}>
+                                {sections.length > 1 && (
+                                    <h4 style={{ margin: 0, marginBottom: 'var(--spacing-sm)' }}>{section.title}</h4>
+                                )}
+                                {section.diff ? (
+                                    <SettingsDiffTable
+                                        diff={section.diff}
+                                        beforeLabel={beforeLabel}
+                                        afterLabel={afterLabel}
+                                        emptyNote={section.emptyNote}
+                                    />
+                                ) : (
+                                    <div className="text-sm text-muted">{section.note ?? 'Nothing to compare.'}</div>
+                                )}
+                            </div>
+                        ))}
+                    </div>
+                </div>
+                <div className="row" style={{ gap: 'var(--spacing-sm)', justifyContent: 'flex-end' }}>
+                    {onConfirm ? (
+                        <>
+                            <button onClick={onCancel}>{cancelLabel}</button>
+                            <button className="primary" onClick={onConfirm}>{confirmLabel}</button>
+                        </>
+                    ) : (
+                        <button onClick={onCancel}>Close</button>
+                    )}
+                </div>
+            </div>
+        </div>
+    );
+}
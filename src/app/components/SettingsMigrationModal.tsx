@@ -0,0 +1,117 @@
+import { useState } from 'react';
+import {
+    countMigrationEntries,
+    type SettingsMigrationReport,
+    type SettingsMigrationStatus,
+} from '../../schema/settingsMigration';
+import type { SettingsMigrationNotice } from '../state/orcaAppReducer';
+import { slotDisplayName } from '../utils/slot';
+
+type Props = {
+    notice: SettingsMigrationNotice | null;
+    onClose: () => void;
+};
+
+const STATUS_LABELS: Record<SettingsMigrationStatus, string> = {
+    carried: 'Carried over',
+    defaulted: 'Defaulted',
+    dropped: 'Dropped',
+};
+
+const STATUS_PILLS: Record<SettingsMigrationStatus, string> = {
+    carried: 'pill-ok',
+    defaulted: 'pill-warn',
+    dropped: 'pill-error',
+};
+
+function ReportSection({ report }: { report: SettingsMigrationReport }) {
+    const [showCarried, setShowCarried] = useState(false);
+    const counts = countMigrationEntries(report);
+    // Carried fields with a detail (partial records) are always worth showing.
+    const entries = report.entries.filter((e) => showCarried || e.status !== 'carried' || e.detail);
+
+    return (
+        <div className="col" style={{ gap: 'var(--spacing-sm)' }}>
+            <div className="text-sm">
+                Settings v{report.from.major}.{report.from.minor} → v{report.to.major}.{report.to.minor}
+            </div>
+            {report.steps.length > 0 && (
+                <ul className="text-xs text-secondary" style={{ margin: 0, paddingLeft: 18 }}>
+                    {report.steps.map((step) => <li key={step}>{step}</li>)}
+                </ul>
+            )}
+            <div className="row" style={{ gap: 'var(--spacing-sm)', alignItems: 'center' }}>
+                {(Object.keys(STATUS_LABELS) as SettingsMigrationStatus[]).map((status) => (
+                    <span key={status} className={`pill ${STATUS_PILLS[status]}`}>
+                        {STATUS_LABELS[status]}: {counts[status]}
+                    </span>
+                ))}
+                <label className="text-xs" style={{ marginLeft: 'auto' }}>
+                    <input type="checkbox" checked={showCarried} onChange={(e) => setShowCarried(e.target.checked)} /> Show all fields
+                </label>
+            </div>
+            {entries.length > 0 ? (
+                <table className="table text-sm">
+                    <thead>
+                        <tr>
+                            <th>Field</th>
+                            <th>Result</th>
+                            <th>Detail</th>
+                        </tr>
+                    </thead>
+                    <tbody>
+                        {entries.map((entry, i) => (
+                            <tr key={i}>
+                                <td>{entry.field}</td>
+                                <td>
+                                    <span className={`pill ${STATUS_PILLS[entry.status]}`}>{STATUS_LABELS[entry.status]}</span>
+                                </td>
+                                <td className="text-secondary">{entry.detail ?? ''}</td>
+                            </tr>
+                        ))}
+                    </tbody>
+                </table>
+            ) : (
+                <div className="text-sm text-muted">Every field was carried over unchanged.</div>
+            )}
+        </div>
+    );
+}
+
+/**
+ * Shown after settings from an older firmware or file version were upgraded on load. The
+ * upgraded settings are only in this tab until saved.
+ */
+export function SettingsMigrationModal({ notice, onClose }: Props) {
+    if (!notice) return null;
+
+    return (
+        <div className="modal-overlay" onClick={onClose}>
+            <div
+                className="modal-content"
+                onClick={(e) => e.stopPropagation()}
+                style={{ maxWidth: 760, width: '90vw', maxHeight: '85vh', display: 'flex', flexDirection: 'column' }}
+            >
+                <h3 style={{ margin: 0, marginBottom: 'var(--spacing-sm)', color: 'var(--color-text-primary)' }}>
+                    Settings upgraded
+                </h3>
+                <div className="text-sm text-secondary" style={{ marginBottom: 'var(--spacing-md)' }}>
+                    {notice.source} used an older settings layout. Review what was carried over before saving.
+                </div>
+                <div style={{ flex: 1, minHeight: 0, overflow: 'auto', marginBottom: 'var(--spacing-lg)' }}>
+                    <div className="col" style={{ gap: 'var(--spacing-lg)' }}>
+                        {notice.reports.map(({ slot, report }) => (
+                            <div key={slot}>
+                                <h4 style={{ margin: 0, marginBottom: 'var(--spacing-sm)' }}>{slotDisplayName(slot)}</h4>
+                                <ReportSection report={report} />
+                            </div>
+                        ))}
+                    </div>
+                </div>
+                <div className="row" style={{ justifyContent: 'flex-end' }}>
+                    <button className="primary" onClick={onClose}>OK</button>
+                </div>
+            </div>
+        </div>
+    );
+}
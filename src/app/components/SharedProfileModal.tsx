@@ -0,0 +1,104 @@
+import { useEffect, useState } from 'react';
+import type { Gp2040LabelPreset } from '../../schema/gp2040Labels';
+import type { OrcaProfileFileV1, ProfileMode } from '../../schema/profileFile';
+import type { SettingsDraft } from '../../schema/settingsBlob';
+import { TRIGGER_POLICY_FLAG_ANALOG_TRIGGER_TO_LT } from '../../schema/triggerPolicyFlags';
+import { getDefaultAnalogMapping, getDefaultDigitalMapping } from '../../schema/orcaMappings';
+import type { SharedProfileSource } from '../state/orcaAppReducer';
+import { modeToSlotId, slotDisplayName } from '../utils/slot';
+import { ControllerVisualizer } from './ControllerVisualizer';
+
+type Props = {
+    profile: OrcaProfileFileV1 | null;
+    // Present when the profile was converted from another firmware's layout.
+    source?: SharedProfileSource | null;
+    configMode: ProfileMode;
+    // Settings of the mode being edited; null until a controller or the simulator is connected.
+    draft: SettingsDraft | null;
+    gp2040LabelPreset: Gp2040LabelPreset;
+    busy?: boolean;
+    onImport: (profileIndex: number) => void;
+    onClose: () => void;
+};
+
+const noop = () => {};
+
+/** Read-only preview of a profile opened from a share link, with a choice of profile slot to import into. */
+export function SharedProfileModal({ profile, source = null, configMode, draft, gp2040LabelPreset, busy = false, onImport, onClose }: Props) {
+    const [target, setTarget] = useState(0);
+
+    // Default to the active profile each time a link is opened.
+    const activeProfile = draft?.activeProfile ?? 0;
+    useEffect(() => {
+        setTarget(activeProfile);
+    }, [profile, activeProfile]);
+
+    if (!profile) return null;
+
+    const modeMismatch = profile.mode !== configMode;
+    const routing = (profile.triggerPolicy.flags & TRIGGER_POLICY_FLAG_ANALOG_TRIGGER_TO_LT) !== 0 ? 'lt' : 'rt';
+
+    return (
+        <div className="modal-overlay" onClick={onClose}>
+            <div
+                className="modal-content"
+                onClick={(e) => e.stopPropagation()}
+                style={{ maxWidth: 900, width: '92vw', maxHeight: '90vh', display: 'flex', flexDirection: 'column' }}
+            >
+                <h3 style={{ margin: 0, marginBottom: 'var(--spacing-sm)', color: 'var(--color-text-primary)' }}>
+                    {source ? source.title : `Shared profile: ${profile.label}`}
+                </h3>
+                <div className="text-sm text-secondary" style={{ marginBottom: 'var(--spacing-md)' }}>
+                    {slotDisplayName(modeToSlotId(profile.mode))} profile. Preview only; nothing changes until you import it.
+                </div>
+                <div style={{ flex: 1, minHeight: 360, overflow: 'hidden', display: 'flex', marginBottom: 'var(--spacing-md)' }}>
+                    <ControllerVisualizer
+                        digitalMapping={profile.digitalMapping}
+                        analogMapping={profile.analogMapping}
+                        defaultDigitalMapping={getDefaultDigitalMapping(profile.mode)}
+                        defaultAnalogMapping={getDefaultAnalogMapping()}
+                        disabled
+                        destinationLabelMode={profile.mode}
+                        gp2040LabelPreset={gp2040LabelPreset}
+                        gp2040AnalogTriggerRouting={routing}
+                        triggerPolicy={profile.triggerPolicy}
+                        dpadLayer={profile.dpadLayer}
+                        onDigitalMappingChange={noop}
+                        onAnalogMappingChange={noop}
+                    />
+                </div>
+                {source && source.issues.length > 0 && (
+                    <div className="message message-warning" style={{ maxHeight: 140, overflowY: 'auto' }}>
+                        Not converted:
+                        <ul style={{ margin: 0, paddingLeft: 'var(--spacing-lg)' }}>
+                            {source.issues.map((issue, i) => <li key={i}>{issue}</li>)}
+                        </ul>
+                    </div>
+                )}
+                {!draft ? (
+                    <div className="message message-info">Connect a controller or the simulator to import this profile.</div>
+                ) : modeMismatch ? (
+                    <div className="message message-warning">
+                        Switch to {slotDisplayName(modeToSlotId(profile.mode))} to import this profile.
+                    </div>
+                ) : null}
+                <div className="row" style={{ justifyContent: 'flex-end', alignItems: 'center', gap: 'var(--spacing-sm)', marginTop: 'var(--spacing-md)' }}>
+                    {draft && !modeMismatch && (
+                        <label className="text-sm">
+                            Import into{' '}
+                            <select value={target} onChange={(e) => setTarget(Number(e.target.value))}>
+                                {draft.profileLabels.map((label, i) => (
+                                    <option key={i} value={i}>{i + 1}. {label}</option>
+                                ))}
+                            </select>
+                        </label>
+                    )}
+                    <button onClick={onClose}>Close</button>
+                    <button className="primary" disabled={!draft || modeMismatch || busy} onClick={() => onImport(target)}>
+                        Import
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+}
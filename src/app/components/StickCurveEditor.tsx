@@ -1,12 +1,19 @@
 import { useState } from 'react';
 import type { SettingsDraft, StickCurveParamsV1 } from '../../schema/settingsBlob';
 import { cloneDraft } from '../domain/cloneDraft';
+import type { DraftEditMeta } from '../state/orcaAppReducer';
+import type { OrcaTransport } from '../../usb/OrcaTransport';
+import { MeleeCoordinateAnalyzer } from './MeleeCoordinateAnalyzer';
+import { StickCurveGraph } from './StickCurveGraph';
 
 type Props = {
     draft: SettingsDraft;
     disabled?: boolean;
-    onChange: (next: SettingsDraft) => void;
+    onChange: (next: SettingsDraft, meta?: DraftEditMeta) => void;
     mode?: 'orca' | 'gp2040'; // Mode determines valid ranges
+    // For the live input overlay on the curve graph.
+    transport?: OrcaTransport | null;
+    baseBlob?: Uint8Array | null;
 };
 
 // Preset definitions - values in the 0-128 scale used by firmware
@@ -74,7 +81,7 @@ function detectPreset(params: StickCurveParamsV1, mode: 'orca' | 'gp2040'): Pres
     return 'custom';
 }
 
-export function StickCurveEditor({ draft, disabled, onChange, mode = 'orca' }: Props) {
+export function StickCurveEditor({ draft, disabled, onChange, mode = 'orca', transport, baseBlob }: Props) {
     const activeProfile = draft.activeProfile ?? 0;
     const params = draft.stickCurveParams[activeProfile] ?? draft.stickCurveParams[0]!;
     const currentPreset = detectPreset(params, mode);
@@ -95,12 +102,12 @@ export function StickCurveEditor({ draft, disabled, onChange, mode = 'orca' }: P
     const notchMin = mode === 'gp2040' ? 20 : 25;
     const notchMax = mode === 'gp2040' ? 100 : 50;
 
-    function updateParams(patch: Partial<StickCurveParamsV1>) {
+    function updateParams(patch: Partial<StickCurveParamsV1>, meta: DraftEditMeta = { label: 'Edit stick curve' }) {
         const updated = cloneDraft(draft);
         const current = updated.stickCurveParams[activeProfile] ?? updated.stickCurveParams[0];
         if (!current) return;
         updated.stickCurveParams[activeProfile] = { ...current, ...patch };
-        onChange(updated);
+        onChange(updated, meta);
     }
 
     function applyPreset(preset: 'melee' | 'rivals2') {
@@ -124,7 +131,7 @@ export function StickCurveEditor({ draft, disabled, onChange, mode = 'orca' }: P
             notchNorm, notchNorm, notchNorm, notchNorm,
             updated.stickCurveParams[activeProfile]!.notch[4] ?? 0.398,
         ];
-        onChange(updated);
+        onChange(updated, { label: `Apply ${preset === 'melee' ? 'Melee' : 'Rivals 2'} stick preset` });
 
         // Reset force custom when applying a preset
         setForceCustom(false);
@@ -137,7 +144,11 @@ export function StickCurveEditor({ draft, disabled, onChange, mode = 'orca' }: P
             arr[i] = toNormalized(value);
         }
         updated.stickCurveParams[activeProfile]![field] = arr;
-        onChange(updated);
+        const axisName = axisIndices[0] === 2 ? 'Up' : axisIndices[0] === 3 ? 'Down' : 'X-Axis';
+        onChange(updated, {
+            label: `Stick ${field === 'range' ? 'magnitude' : 'notch'} (${axisName}) → ${value}`,
+            coalesceKey: `stick.${field}.${axisIndices.join('-')}`,
+        });
     }
 
     // Get display values (in 0-128 scale for UI)
@@ -377,6 +388,22 @@ export function StickCurveEditor({ draft, disabled, onChange, mode = 'orca' }: P
                     downNotch={downNotch}
                 />
             )}
+
+            <StickCurveGraph
+                draft={draft}
+                params={params}
+                disabled={disabled}
+                mode={mode}
+                limits={{
+                    range: [toNormalized(magnitudeMin), toNormalized(magnitudeMax)],
+                    notch: [toNormalized(notchMin), toNormalized(notchMax)],
+                }}
+                onParamsChange={updateParams}
+                transport={transport}
+                baseBlob={baseBlob}
+            />
+
+            {mode === 'orca' && <MeleeCoordinateAnalyzer params={params} profileIndex={activeProfile} />}
         </div>
     );
 }
@@ -0,0 +1,292 @@
+import { useEffect, useRef, useState, type PointerEvent } from 'react';
+import { OrcaErr } from '@shared/orca_config_idl_generated';
+import type { SettingsDraft, StickCurveParamsV1 } from '../../schema/settingsBlob';
+import type { OrcaInputState, OrcaTransport } from '../../usb/OrcaTransport';
+import { OrcaDeviceError } from '../../usb/OrcaTransport';
+import { computeInputPreview, stickCurvePoints, type StickCurvePoint } from '../../inputPreview/orcaInputPreview';
+import {
+    moveStickCurveHandle,
+    STICK_CURVE_HANDLE_LABELS,
+    STICK_CURVE_HANDLE_POINTS,
+    type StickCurveHandle,
+    type StickCurveHandleLimits,
+} from '../../inputPreview/stickCurveHandles';
+import type { DraftEditMeta } from '../state/orcaAppReducer';
+
+type Props = {
+    draft: SettingsDraft;
+    params: StickCurveParamsV1;
+    disabled?: boolean;
+    mode: 'orca' | 'gp2040';
+    limits: StickCurveHandleLimits;
+    onParamsChange: (patch: Partial<StickCurveParamsV1>, meta: DraftEditMeta) => void;
+    transport?: OrcaTransport | null;
+    baseBlob?: Uint8Array | null;
+};
+
+// Same axis groups as the sliders: both X directions share one curve.
+const AXIS_GROUPS = [
+    { id: 'x', label: 'X-Axis', axes: [0, 1] },
+    { id: 'up', label: 'Up', axes: [2] },
+    { id: 'down', label: 'Down', axes: [3] },
+] as const;
+type AxisGroupId = (typeof AXIS_GROUPS)[number]['id'];
+
+const HANDLES = Object.keys(STICK_CURVE_HANDLE_POINTS) as StickCurveHandle[];
+
+const WIDTH = 260;
+const HEIGHT = 200;
+const PAD = 24;
+const POLL_INTERVAL_MS = 33;
+
+function sleep(ms: number): Promise<void> {
+    return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+function toUnits(v: number): string {
+    return String(Math.round(v * 128));
+}
+
+/**
+ * SVG plot of the six-point response `applyStickCurve` computes for one axis group. The points
+ * can be dragged to edit the curve, with optional overlays for the live input and another profile.
+ */
+export function StickCurveGraph({ draft, params, disabled, mode, limits, onParamsChange, transport, baseBlob }: Props) {
+    const [isExpanded, setIsExpanded] = useState(false);
+    const [groupId, setGroupId] = useState<AxisGroupId>('x');
+    const [compareProfile, setCompareProfile] = useState<number | null>(null);
+    const [showLive, setShowLive] = useState(false);
+    const [liveRaw, setLiveRaw] = useState<OrcaInputState | null>(null);
+    const [liveErr, setLiveErr] = useState('');
+    const [dragging, setDragging] = useState<StickCurveHandle | null>(null);
+    const [hovered, setHovered] = useState<StickCurveHandle | null>(null);
+    const svgRef = useRef<SVGSVGElement | null>(null);
+
+    const activeProfile = draft.activeProfile ?? 0;
+    const group = AXIS_GROUPS.find((g) => g.id === groupId)!;
+    const axis = group.axes[0];
+    const polling = isExpanded && showLive && !disabled && !!transport;
+
+    useEffect(() => {
+        if (!polling || !transport) return;
+        let cancelled = false;
+        const abort = new AbortController();
+        setLiveErr('');
+
+        async function run() {
+            while (!cancelled) {
+                try {
+                    const next = await transport!.getInputState({ signal: abort.signal });
+                    if (cancelled) return;
+                    setLiveRaw(next);
+                    setLiveErr('');
+                    await sleep(POLL_INTERVAL_MS);
+                } catch (e) {
+                    if (cancelled) return;
+                    if (e instanceof OrcaDeviceError && e.err === OrcaErr.UNSUPPORTED_CMD) {
+                        setLiveErr('This firmware does not report input state.');
+                        return;
+                    }
+                    setLiveErr(e instanceof Error ? e.message : String(e));
+                    await sleep(250);
+                }
+            }
+        }
+
+        void run();
+        return () => {
+            cancelled = true;
+            abort.abort();
+            setLiveRaw(null);
+        };
+    }, [polling, transport]);
+
+    // Outputs can pass 1.0 in GP2040 mode (magnitude up to 154).
+    const yMax = mode === 'gp2040' ? 1.25 : 1;
+    const px = (input: number) => PAD + input * (WIDTH - 2 * PAD);
+    const py = (output: number) => HEIGHT - PAD - (output / yMax) * (HEIGHT - 2 * PAD);
+    const polyline = (points: StickCurvePoint[]) => points.map((p) => `${px(p.input)},${py(p.output)}`).join(' ');
+
+    const points = stickCurvePoints(params, axis);
+    const compareParams = compareProfile === null ? undefined : draft.stickCurveParams[compareProfile];
+
+    // Live position on the curve: the more pressed direction of the group, after range calibration.
+    let live: StickCurvePoint | null = null;
+    if (liveRaw && baseBlob) {
+        const preview = computeInputPreview(liveRaw, draft, baseBlob);
+        const liveAxis = group.axes.reduce((best, a) => (
+            (preview.rangeCalibratedAnalog[a] ?? 0) > (preview.rangeCalibratedAnalog[best] ?? 0) ? a : best
+        ), axis);
+        live = { input: preview.rangeCalibratedAnalog[liveAxis] ?? 0, output: preview.curvedAnalog[liveAxis] ?? 0 };
+    }
+
+    function dragTo(e: PointerEvent<SVGSVGElement>) {
+        const svg = svgRef.current;
+        if (!dragging || !svg) return;
+        const rect = svg.getBoundingClientRect();
+        const x = ((e.clientX - rect.left) / rect.width) * WIDTH;
+        const y = ((e.clientY - rect.top) / rect.height) * HEIGHT;
+        const input = (x - PAD) / (WIDTH - 2 * PAD);
+        const output = ((HEIGHT - PAD - y) / (HEIGHT - 2 * PAD)) * yMax;
+        const patch = moveStickCurveHandle(params, [...group.axes], dragging, input, output, limits);
+        onParamsChange(patch, {
+            label: `Drag stick curve ${STICK_CURVE_HANDLE_LABELS[dragging].toLowerCase()} (${group.label})`,
+            coalesceKey: `stick.graph.${group.id}.${dragging}`,
+        });
+    }
+
+    function startDrag(handle: StickCurveHandle, e: PointerEvent<SVGCircleElement>) {
+        if (disabled) return;
+        e.preventDefault();
+        svgRef.current?.setPointerCapture(e.pointerId);
+        setDragging(handle);
+    }
+
+    const focused = dragging ?? hovered;
+    const focusedPoint = focused ? points[STICK_CURVE_HANDLE_POINTS[focused]]! : null;
+
+    return (
+        <div style={{
+            marginTop: 'var(--spacing-md)',
+            padding: 'var(--spacing-md)',
+            background: 'var(--color-bg-tertiary)',
+            borderRadius: 'var(--radius-md)',
+            border: '1px solid var(--color-border)',
+        }}>
+            <button
+                onClick={() => setIsExpanded(!isExpanded)}
+                style={{
+                    width: '100%',
+                    display: 'flex',
+                    alignItems: 'center',
+                    justifyContent: 'space-between',
+                    padding: 0,
+                    background: 'none',
+                    border: 'none',
+                    cursor: 'pointer',
+                    fontSize: 'var(--font-size-sm)',
+                    fontWeight: 600,
+                    color: 'var(--color-text-secondary)',
+                }}
+            >
+                <span>Curve Graph</span>
+                <span style={{ fontSize: 'var(--font-size-xs)', color: 'var(--color-text-muted)' }}>
+                    {isExpanded ? '▼' : '▶'}
+                </span>
+            </button>
+
+            {isExpanded && (
+                <div style={{ marginTop: 'var(--spacing-sm)', display: 'flex', flexDirection: 'column', gap: 'var(--spacing-sm)' }}>
+                    <div className="row" style={{ gap: 'var(--spacing-sm)', alignItems: 'center', flexWrap: 'wrap' }}>
+                        <select value={groupId} onChange={(e) => setGroupId(e.target.value as AxisGroupId)} aria-label="Curve axis">
+                            {AXIS_GROUPS.map((g) => <option key={g.id} value={g.id}>{g.label}</option>)}
+                        </select>
+                        <select
+                            value={compareProfile ?? ''}
+                            onChange={(e) => setCompareProfile(e.target.value === '' ? null : Number(e.target.value))}
+                            aria-label="Compare with profile"
+                        >
+                            <option value="">No comparison</option>
+                            {draft.profileLabels.map((label, i) => i === activeProfile ? null : (
+                                <option key={i} value={i}>Compare: {i + 1}. {label.trim() || 'Unnamed'}</option>
+                            ))}
+                        </select>
+                        <label className="text-xs" style={{ display: 'flex', alignItems: 'center', gap: 'var(--spacing-xs)' }}>
+                            <input
+                                type="checkbox"
+                                checked={showLive}
+                                disabled={!transport || !baseBlob}
+                                onChange={(e) => setShowLive(e.target.checked)}
+                            />
+                            Live input
+                        </label>
+                    </div>
+
+                    <svg
+                        ref={svgRef}
+                        viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+                        style={{
+                            width: '100%',
+                            display: 'block',
+                            touchAction: 'none',
+                            border: '1px solid var(--color-border)',
+                            borderRadius: 'var(--radius-sm)',
+                            background: 'rgba(0,0,0,0.15)',
+                        }}
+                        onPointerMove={dragTo}
+                        onPointerUp={() => setDragging(null)}
+                        onPointerCancel={() => setDragging(null)}
+                    >
+                        {/* Grid every 0.25; the dashed diagonal is an unshaped (linear) response. */}
+                        {[0, 0.25, 0.5, 0.75, 1].map((v) => (
+                            <g key={v}>
+                                <line x1={px(v)} y1={py(0)} x2={px(v)} y2={py(yMax)} stroke="rgba(255,255,255,0.08)" strokeWidth="1" />
+                                <line x1={px(0)} y1={py(v)} x2={px(1)} y2={py(v)} stroke="rgba(255,255,255,0.08)" strokeWidth="1" />
+                            </g>
+                        ))}
+                        <line x1={px(0)} y1={py(0)} x2={px(1)} y2={py(1)} stroke="rgba(255,255,255,0.15)" strokeWidth="1" strokeDasharray="3 4" />
+                        <text x={px(1)} y={HEIGHT - 6} fontSize="9" textAnchor="end" fill="var(--color-text-muted)">input</text>
+                        <text x={4} y={PAD - 8} fontSize="9" fill="var(--color-text-muted)">output</text>
+
+                        {compareParams && (
+                            <polyline
+                                points={polyline(stickCurvePoints(compareParams, axis))}
+                                fill="none"
+                                stroke="var(--color-text-muted)"
+                                strokeWidth="1.5"
+                                strokeDasharray="5 3"
+                            />
+                        )}
+                        <polyline points={polyline(points)} fill="none" stroke="var(--color-brand)" strokeWidth="2" />
+
+                        {live && (
+                            <g pointerEvents="none">
+                                <line x1={px(live.input)} y1={py(0)} x2={px(live.input)} y2={py(yMax)} stroke="var(--color-warning)" strokeWidth="1" strokeDasharray="2 3" />
+                                <circle cx={px(live.input)} cy={py(live.output)} r={4} fill="var(--color-warning)" />
+                            </g>
+                        )}
+
+                        {HANDLES.map((handle) => {
+                            const p = points[STICK_CURVE_HANDLE_POINTS[handle]]!;
+                            return (
+                                <circle
+                                    key={handle}
+                                    cx={px(p.input)}
+                                    cy={py(p.output)}
+                                    r={focused === handle ? 7 : 5}
+                                    fill="var(--color-bg-tertiary)"
+                                    stroke="var(--color-brand)"
+                                    strokeWidth="2"
+                                    style={{ cursor: disabled ? 'default' : dragging === handle ? 'grabbing' : 'grab' }}
+                                    onPointerDown={(e) => startDrag(handle, e)}
+                                    onPointerEnter={() => setHovered(handle)}
+                                    onPointerLeave={() => setHovered(null)}
+                                >
+                                    <title>{STICK_CURVE_HANDLE_LABELS[handle]}</title>
+                                </circle>
+                            );
+                        })}
+                    </svg>
+
+                    <div className="text-xs text-secondary" style={{ fontVariantNumeric: 'tabular-nums', minHeight: '1.4em' }}>
+                        {focused && focusedPoint ? (
+                            <>
+                                {STICK_CURVE_HANDLE_LABELS[focused]}: input {focusedPoint.input.toFixed(3)} → output {focusedPoint.output.toFixed(4)} ({toUnits(focusedPoint.output)})
+                            </>
+                        ) : live ? (
+                            <>Live: input {live.input.toFixed(3)} → output {live.output.toFixed(4)} ({toUnits(live.output)})</>
+                        ) : (
+                            <>Drag a point to edit. Notch start and end inputs are shared by all axes.</>
+                        )}
+                    </div>
+                    {compareParams && (
+                        <div className="text-xs text-muted">
+                            Dashed: profile {compareProfile! + 1}
+                        </div>
+                    )}
+                    {showLive && liveErr && <div className="message message-warning text-xs">{liveErr}</div>}
+                </div>
+            )}
+        </div>
+    );
+}
@@ -1,11 +1,12 @@
 import type { SettingsDraft } from '../../schema/settingsBlob';
 import { TRIGGER_POLICY_FLAG_LIGHTSHIELD_CLAMP } from '../../schema/triggerPolicyFlags';
 import { cloneDraft } from '../domain/cloneDraft';
+import type { DraftEditMeta } from '../state/orcaAppReducer';
 
 type Props = {
     draft: SettingsDraft;
     disabled?: boolean;
-    onChange: (next: SettingsDraft) => void;
+    onChange: (next: SettingsDraft, meta?: DraftEditMeta) => void;
     mode?: 'orca' | 'gp2040';
 };
 
@@ -62,20 +63,21 @@ export function TriggerEditor({ draft, disabled, onChange, mode = 'orca' }: Prop
     const triggerNotchDisplay255 = Math.round(triggerNotchStored * analogMaxNormalized * 255);
     const lightPressDisplay255 = mode === 'orca' ? triggerNotchDisplay255 : to255(policy.digitalLightshield);
 
-    function updatePolicy(patch: Partial<typeof policy>) {
+    function updatePolicy(patch: Partial<typeof policy>, meta: DraftEditMeta) {
         const updated = cloneDraft(draft);
         const current = updated.triggerPolicy[activeProfile] ?? updated.triggerPolicy[0];
         if (!current) return;
         updated.triggerPolicy[activeProfile] = { ...current, ...patch };
-        onChange(updated);
+        onChange(updated, meta);
     }
 
     // Handler: convert Dolphin output value back to stored notch value
     // display = stored * analogMax * 255  =>  stored = display / 255 / analogMax
     function updateLightPress(displayValue255: number) {
         const clamped255 = clamp(displayValue255, lightPressMin255, lightPressMax255);
+        const meta = { label: `Trigger light press → ${clamped255}`, coalesceKey: 'trigger.lightPress' };
         if (mode !== 'orca') {
-            updatePolicy({ digitalLightshield: from255(clamped255) });
+            updatePolicy({ digitalLightshield: from255(clamped255) }, meta);
             return;
         }
 
@@ -87,7 +89,21 @@ export function TriggerEditor({ draft, disabled, onChange, mode = 'orca' }: Prop
         const notch = [...params.notch];
         notch[TRIGGER_NOTCH_INDEX] = clamp(storedNormalized, 0, 1);
         updated.stickCurveParams[activeProfile] = { ...params, notch };
-        onChange(updated);
+        onChange(updated, meta);
+    }
+
+    function updateAnalogRangeMax(value255: number) {
+        updatePolicy(
+            { analogRangeMax: from255(value255) },
+            { label: `Trigger analog full press → ${value255}`, coalesceKey: 'trigger.analogRangeMax' },
+        );
+    }
+
+    function updateDigitalFullPress(value255: number) {
+        updatePolicy(
+            { digitalFullPress: from255(value255) },
+            { label: `Trigger digital press → ${value255}`, coalesceKey: 'trigger.digitalFullPress' },
+        );
     }
 
     // Handler for lightshield-only checkbox
@@ -95,7 +111,7 @@ export function TriggerEditor({ draft, disabled, onChange, mode = 'orca' }: Prop
         const nextFlags = checked
             ? (policy.flags | TRIGGER_POLICY_FLAG_LIGHTSHIELD_CLAMP)
             : (policy.flags & ~TRIGGER_POLICY_FLAG_LIGHTSHIELD_CLAMP);
-        updatePolicy({ flags: nextFlags });
+        updatePolicy({ flags: nextFlags }, { label: `${checked ? 'Enable' : 'Disable'} lightshield only` });
     }
 
     return (
@@ -240,7 +256,7 @@ export function TriggerEditor({ draft, disabled, onChange, mode = 'orca' }: Prop
                         min={triggerMin}
                         max={triggerMax}
                         value={clamp(analogRangeMax255, triggerMin, triggerMax)}
-                        onChange={(e) => updatePolicy({ analogRangeMax: from255(Number(e.target.value)) })}
+                        onChange={(e) => updateAnalogRangeMax(Number(e.target.value))}
                         disabled={disabled || (lightshieldOnly && mode === 'orca')}
                         style={{
                             flex: 1,
@@ -253,7 +269,7 @@ export function TriggerEditor({ draft, disabled, onChange, mode = 'orca' }: Prop
                         min={triggerMin}
                         max={triggerMax}
                         value={clamp(analogRangeMax255, triggerMin, triggerMax)}
-                        onChange={(e) => updatePolicy({ analogRangeMax: from255(Number(e.target.value)) })}
+                        onChange={(e) => updateAnalogRangeMax(Number(e.target.value))}
                         disabled={disabled || (lightshieldOnly && mode === 'orca')}
                         style={{
                             width: 48,
@@ -274,7 +290,7 @@ export function TriggerEditor({ draft, disabled, onChange, mode = 'orca' }: Prop
                         min={triggerMin}
                         max={triggerMax}
                         value={clamp(digitalFullPress255, triggerMin, triggerMax)}
-                        onChange={(e) => updatePolicy({ digitalFullPress: from255(Number(e.target.value)) })}
+                        onChange={(e) => updateDigitalFullPress(Number(e.target.value))}
                         disabled={disabled}
                         style={{ flex: 1, minWidth: 0 }}
                     />
@@ -283,7 +299,7 @@ export function TriggerEditor({ draft, disabled, onChange, mode = 'orca' }: Prop
                         min={triggerMin}
                         max={triggerMax}
                         value={clamp(digitalFullPress255, triggerMin, triggerMax)}
-                        onChange={(e) => updatePolicy({ digitalFullPress: from255(Number(e.target.value)) })}
+                        onChange={(e) => updateDigitalFullPress(Number(e.target.value))}
                         disabled={disabled}
                         style={{ width: 48, fontSize: 11, padding: '2px 4px', textAlign: 'center', flexShrink: 0 }}
                     />
@@ -1,4 +1,13 @@
-import type { SettingsDraft } from '../../schema/settingsBlob';
+import type { CalibrationV1, SettingsDraft } from '../../schema/settingsBlob';
+
+export function cloneCalibration(cal: CalibrationV1): CalibrationV1 {
+  return {
+    range: { lower: [...cal.range.lower], upper: [...cal.range.upper] },
+    deadzoneLower: [...cal.deadzoneLower],
+    deadzoneUpper: [...cal.deadzoneUpper],
+    notch: [...cal.notch],
+  };
+}
 
 export function cloneDraft(draft: SettingsDraft): SettingsDraft {
   return {
@@ -22,6 +31,8 @@ export function cloneDraft(draft: SettingsDraft): SettingsDraft {
       dz_lower: [...p.dz_lower],
       dz_upper: [...p.dz_upper],
     })),
+    ...(draft.calibration ? { calibration: cloneCalibration(draft.calibration) } : null),
+    ...(draft.rawBytes ? { rawBytes: draft.rawBytes.map((o) => ({ ...o })) } : null),
   };
 }
 
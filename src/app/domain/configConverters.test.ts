@@ -0,0 +1,62 @@
+import { describe, expect, it } from 'vitest';
+import { makeDefaultSettingsBlob } from '../../schema/settingsDefaults';
+import { ORCA_DUMMY_FIELD, getDefaultAnalogMapping, getDefaultDigitalMapping } from '../../schema/orcaMappings';
+import { parseSettingsBlob } from '../../schema/settingsBlob';
+import { exportGp2040Config, importGp2040Config, importHayboxConfig, isGp2040Config } from './configConverters';
+import { extractProfileFromDraft } from './profileLibrary';
+
+describe('config converters', () => {
+  const gp2040 = extractProfileFromDraft(parseSettingsBlob(makeDefaultSettingsBlob(1, 1)).draft, 0, 'gp2040')!;
+  const orca = extractProfileFromDraft(parseSettingsBlob(makeDefaultSettingsBlob(0, 1)).draft, 0, 'orca')!;
+
+  it('imports GP2040-CE pin mappings by position and round-trips the export', () => {
+    // B1 and B2 swapped, L3 on a pin the Orca has no button for.
+    const legacy = JSON.stringify({
+      pinMappings: { Up: 2, Down: 3, Right: 4, Left: 5, B1: 7, B2: 6, R2: 8, L2: 9, B3: 10, B4: 11, R1: 12, L1: 13, S1: 16, S2: 17, L3: 18 },
+    });
+    const { profile, issues } = importGp2040Config(legacy, gp2040);
+    const expected = getDefaultDigitalMapping('gp2040');
+    [expected[0], expected[1]] = [1, 0];
+    expect(profile.digitalMapping).toEqual(expected);
+    expect(profile.analogMapping).toEqual(getDefaultAnalogMapping());
+    expect(issues).toEqual([expect.stringContaining('L3 (pin 18)')]);
+
+    const current = JSON.stringify({ pinMappings: { pin06: { action: 6 }, pin07: { action: 5 }, pin20: -10 }, gamepad: { dpadMode: 0 } });
+    expect(importGp2040Config(current, gp2040).profile.digitalMapping).toEqual(expected);
+
+    const exported = exportGp2040Config(profile);
+    expect(JSON.parse(exported.json).pinMappings.pin06.action).toBe(6);
+    expect(importGp2040Config(exported.json, gp2040).profile.digitalMapping).toEqual(profile.digitalMapping);
+    expect(() => importGp2040Config('{"pinMappings":{}}', gp2040)).toThrow('no button pins');
+  });
+
+  it('recognises GP2040-CE configs with the pins at the top level', () => {
+    const flat = { Up: 2, Down: 3, Right: 4, Left: 5, B1: 7, B2: 6 };
+    expect(isGp2040Config(flat)).toBe(true);
+    expect(isGp2040Config({ pin06: { action: 6 } })).toBe(true);
+    expect(isGp2040Config({ a: 26, b: 14 })).toBe(false);
+    expect(importGp2040Config(JSON.stringify(flat), gp2040).profile.digitalMapping.slice(0, 2)).toEqual([1, 0]);
+  });
+
+  it('imports HayBox button mappings into the Orca slot and reports what it cannot represent', () => {
+    const source = `
+      GpioButtonMapping button_mappings[] = {
+        { &InputState::l, 5 },
+        { &InputState::b, 14 },
+        { &InputState::a, 26 },
+        { &InputState::up, 21 },
+        { &InputState::mod_x, 6 },
+      };`;
+    const { profile, issues } = importHayboxConfig(source, orca);
+    expect(profile.digitalMapping[0]).toBe(1);
+    expect(profile.digitalMapping[1]).toBe(0);
+    // Up cannot move onto a digital button, so X's button is left unbound.
+    expect(profile.digitalMapping[2]).toBe(ORCA_DUMMY_FIELD);
+    expect(issues).toHaveLength(2);
+    expect(issues[0]).toContain('mod_x');
+    expect(issues[1]).toContain('up needs an analog button');
+
+    expect(importHayboxConfig('{"a": 26, "b": 14}', orca).profile.digitalMapping.slice(0, 2)).toEqual([1, 0]);
+    expect(() => importHayboxConfig(source, gp2040)).toThrow('Switch modes');
+  });
+});
@@ -0,0 +1,352 @@
+/**
+ * Button layouts from other controller firmware, translated to and from Orca profiles.
+ *
+ * Other firmware maps GPIO pins to button functions, and pins say nothing about where a button sits
+ * on the box. Each firmware's default Pico pinout is used as the reference: a pin is taken to be
+ * the button that firmware gives it by default, which is the Orca button producing the same
+ * function by default. Moving a function to another pin moves it to that pin's Orca button.
+ *
+ * GP2040-CE layouts map onto the GP2040 slot (destinations per GP2040_DIGITAL_DEST_LABELS);
+ * HayBox layouts are Melee layouts and map onto the Orca slot.
+ */
+import { GP2040_ANALOG_DEST_LABELS, GP2040_DIGITAL_DEST_LABELS } from '../../schema/gp2040Labels';
+import {
+  ANALOG_INPUTS,
+  DIGITAL_INPUTS,
+  ORCA_ANALOG_MAPPING_DISABLED,
+  ORCA_DUMMY_FIELD,
+  analogInputLabel,
+  digitalInputLabel,
+  getDefaultAnalogMapping,
+  getDefaultDigitalMapping,
+  isLockedDigitalDestination,
+  isLockedDigitalSource,
+} from '../../schema/orcaMappings';
+import type { OrcaProfileFileV1, ProfileMode } from '../../schema/profileFile';
+
+export type ConvertedProfile = {
+  profile: OrcaProfileFileV1;
+  // Parts of the source layout the profile cannot represent.
+  issues: string[];
+};
+
+// An Orca input (as a source) or output (as a destination).
+type OrcaInput = { kind: 'digital' | 'analog'; id: number };
+
+type PinAssignment = { pin: number; fn: string };
+
+type LayoutSpec = {
+  mode: ProfileMode;
+  firmware: string;
+  // Pin -> function in the firmware's default pinout.
+  referencePins: Record<number, string>;
+  // Orca input at the place a function sits by default, or null where the Orca has no such button.
+  placeOf: (fn: string) => OrcaInput | null;
+  // Orca output for a function, or null if it has none.
+  outputOf: (fn: string) => OrcaInput | null;
+};
+
+const ORCA_DPAD_MODIFIER_SRC = 11;
+
+function inputLabel(input: OrcaInput): string {
+  return input.kind === 'digital' ? digitalInputLabel(input.id) : analogInputLabel(input.id);
+}
+
+function findDest(labels: Record<number, { shortLabel: string }>, shortLabel: string): number | undefined {
+  const entry = Object.entries(labels).find(([, l]) => l.shortLabel === shortLabel);
+  return entry ? Number(entry[0]) : undefined;
+}
+
+// ---------------------------------------------------------------------------
+// GP2040-CE
+// ---------------------------------------------------------------------------
+
+// GpioAction values for button presses; anything else is an add-on or special function.
+const GP2040_ACTIONS: Record<number, string> = {
+  1: 'Up', 2: 'Down', 3: 'Left', 4: 'Right',
+  5: 'B1', 6: 'B2', 7: 'B3', 8: 'B4',
+  9: 'L1', 10: 'R1', 11: 'L2', 12: 'R2',
+  13: 'S1', 14: 'S2', 15: 'A1', 16: 'A2',
+  17: 'L3', 18: 'R3', 19: 'Fn',
+};
+const GP2040_ACTION_NONE = -10;
+const GP2040_ACTION_RESERVED = -5;
+const GP2040_ACTION_ASSIGNED_TO_ADDON = 0;
+const GP2040_DPAD_MODE_DIGITAL = 0;
+
+const GP2040_DIRECTION_LABELS: Record<string, string> = { Left: 'LS⬅', Right: 'LS➡', Up: 'LS⬆', Down: 'LS⬇' };
+
+function gp2040Output(fn: string): OrcaInput | null {
+  const direction = GP2040_DIRECTION_LABELS[fn];
+  if (direction) {
+    const dest = findDest(GP2040_ANALOG_DEST_LABELS, direction);
+    return dest === undefined ? null : { kind: 'analog', id: dest };
+  }
+  const dest = findDest(GP2040_DIGITAL_DEST_LABELS, fn);
+  return dest === undefined ? null : { kind: 'digital', id: dest };
+}
+
+const GP2040_SPEC: LayoutSpec = {
+  mode: 'gp2040',
+  firmware: 'GP2040-CE',
+  referencePins: {
+    2: 'Up', 3: 'Down', 4: 'Right', 5: 'Left',
+    6: 'B1', 7: 'B2', 8: 'R2', 9: 'L2', 10: 'B3', 11: 'B4', 12: 'R1', 13: 'L1',
+    16: 'S1', 17: 'S2', 18: 'L3', 19: 'R3', 20: 'A1', 21: 'A2',
+  },
+  placeOf: (fn) => {
+    const output = gp2040Output(fn);
+    if (!output) return null;
+    if (output.kind === 'analog') return { kind: 'analog', id: getDefaultAnalogMapping()[output.id]! };
+    // A1 is unbound by default; its place on the Orca is the DPAD modifier button.
+    const src = getDefaultDigitalMapping('gp2040')[output.id]!;
+    return { kind: 'digital', id: src === ORCA_DUMMY_FIELD ? ORCA_DPAD_MODIFIER_SRC : src };
+  },
+  outputOf: gp2040Output,
+};
+
+function gp2040PinAssignments(root: Record<string, unknown>, issues: string[]): PinAssignment[] {
+  const mappings = root.pinMappings ?? root;
+  if (typeof mappings !== 'object' || mappings === null) throw new Error('Invalid GP2040-CE config: missing pinMappings');
+
+  const out: PinAssignment[] = [];
+  for (const [key, value] of Object.entries(mappings)) {
+    const pinKey = /^pin(\d+)$/.exec(key);
+    if (pinKey) {
+      // Current firmware: pinNN -> action number (or an object holding it).
+      const action = typeof value === 'object' && value !== null ? (value as Record<string, unknown>).action : value;
+      if (typeof action !== 'number') throw new Error(`Invalid GP2040-CE config: bad action for ${key}`);
+      if (action === GP2040_ACTION_NONE || action === GP2040_ACTION_RESERVED || action === GP2040_ACTION_ASSIGNED_TO_ADDON) continue;
+      const fn = GP2040_ACTIONS[action];
+      if (!fn) {
+        issues.push(`Pin ${Number(pinKey[1])}: GP2040-CE action ${action} is not a button press and was skipped.`);
+        continue;
+      }
+      out.push({ pin: Number(pinKey[1]), fn });
+    } else if (Object.values(GP2040_ACTIONS).includes(key)) {
+      // Older firmware: button name -> pin number.
+      if (typeof value !== 'number' || !Number.isInteger(value)) throw new Error(`Invalid GP2040-CE config: bad pin for ${key}`);
+      if (value < 0) continue;
+      out.push({ pin: value, fn: key });
+    }
+  }
+  if (out.length === 0) throw new Error('Invalid GP2040-CE config: no button pins found');
+  return out.sort((a, b) => a.pin - b.pin);
+}
+
+/** A GP2040-CE export: `pinMappings`, or the same pin or button-name keys at the top level. */
+export function isGp2040Config(value: unknown): boolean {
+  if (typeof value !== 'object' || value === null) return false;
+  if ('pinMappings' in value) return true;
+  const names = Object.values(GP2040_ACTIONS);
+  return Object.keys(value).some((key) => /^pin\d+$/.test(key) || names.includes(key));
+}
+
+/** Translate a GP2040-CE configuration export into a GP2040-slot profile based on `base`. */
+export function importGp2040Config(jsonText: string, base: OrcaProfileFileV1): ConvertedProfile {
+  let root: unknown;
+  try {
+    root = JSON.parse(jsonText);
+  } catch {
+    throw new Error('Invalid GP2040-CE config: not JSON');
+  }
+  if (typeof root !== 'object' || root === null) throw new Error('Invalid GP2040-CE config: expected an object');
+  const record = root as Record<string, unknown>;
+  const issues: string[] = [];
+  const assignments = gp2040PinAssignments(record, issues);
+
+  const gamepad = record.gamepad as Record<string, unknown> | undefined;
+  if (gamepad?.dpadMode === GP2040_DPAD_MODE_DIGITAL && assignments.some((a) => a.fn in GP2040_DIRECTION_LABELS)) {
+    issues.push('GP2040-CE D-pad mode is Digital; directions were mapped to the left stick, which is how the Orca outputs them.');
+  }
+  return convertLayout(GP2040_SPEC, assignments, base, issues);
+}
+
+/**
+ * GP2040-CE pin mappings (`{ pinMappings: { pinNN: { action } } }`) for the reference pinout, from a
+ * GP2040-slot profile. Only pins the Orca has a button for are listed.
+ */
+export function exportGp2040Config(profile: OrcaProfileFileV1): { json: string; issues: string[] } {
+  if (profile.mode !== 'gp2040') throw new Error('Only GP2040 mode profiles can be exported to GP2040-CE');
+  const issues: string[] = [];
+  const actionOf = (fn: string) => Number(Object.entries(GP2040_ACTIONS).find(([, name]) => name === fn)![0]);
+  const pinMappings: Record<string, { action: number; customButtonMask: number; customDpadMask: number }> = {};
+  const exported = new Set<string>();
+
+  for (const [pinText, defaultFn] of Object.entries(GP2040_SPEC.referencePins)) {
+    const place = GP2040_SPEC.placeOf(defaultFn);
+    if (!place) continue;
+    const mapping = place.kind === 'digital' ? profile.digitalMapping : profile.analogMapping;
+    const dest = mapping.findIndex((src) => src === place.id);
+    let action = GP2040_ACTION_NONE;
+    if (dest >= 0) {
+      const fn = Object.values(GP2040_ACTIONS).find((name) => {
+        const output = gp2040Output(name);
+        return output?.kind === place.kind && output.id === dest;
+      });
+      if (fn) {
+        action = actionOf(fn);
+        exported.add(`${place.kind}:${dest}`);
+      } else {
+        issues.push(`${inputLabel({ kind: place.kind, id: dest })} output on ${inputLabel(place)} has no GP2040-CE pin function.`);
+      }
+    }
+    pinMappings[`pin${pinText.padStart(2, '0')}`] = { action, customButtonMask: 0, customDpadMask: 0 };
+  }
+
+  // Outputs driven by Orca buttons that have no place in the GP2040-CE pinout.
+  profile.digitalMapping.forEach((src, dest) => {
+    if (src === ORCA_DUMMY_FIELD || isLockedDigitalDestination(dest) || exported.has(`digital:${dest}`)) return;
+    const label = GP2040_DIGITAL_DEST_LABELS[dest]?.label ?? digitalInputLabel(dest);
+    issues.push(`${label} (on the Orca's ${digitalInputLabel(src)}) has no GP2040-CE pin.`);
+  });
+  profile.analogMapping.forEach((src, dest) => {
+    if (src === ORCA_ANALOG_MAPPING_DISABLED || exported.has(`analog:${dest}`)) return;
+    const label = GP2040_ANALOG_DEST_LABELS[dest]?.label ?? analogInputLabel(dest);
+    issues.push(`${label} (on the Orca's ${analogInputLabel(src)}) has no GP2040-CE pin.`);
+  });
+  issues.push('DPAD layer, trigger and stick curve settings are not part of GP2040-CE pin mappings.');
+
+  return { json: JSON.stringify({ pinMappings }, null, 2) + '\n', issues };
+}
+
+// ---------------------------------------------------------------------------
+// HayBox
+// ---------------------------------------------------------------------------
+
+const digitalOutput = (key: string): OrcaInput => ({ kind: 'digital', id: DIGITAL_INPUTS.find((d) => d.key === key)!.id });
+const analogOutput = (key: string): OrcaInput => ({ kind: 'analog', id: ANALOG_INPUTS.find((d) => d.key === key)!.id });
+
+// HayBox InputState buttons the Orca slot can output.
+const HAYBOX_OUTPUTS: Record<string, OrcaInput> = {
+  a: digitalOutput('ORCA_A_BUTTON'),
+  b: digitalOutput('ORCA_B_BUTTON'),
+  x: digitalOutput('ORCA_X_BUTTON'),
+  y: digitalOutput('ORCA_Y_BUTTON'),
+  z: digitalOutput('ORCA_Z_BUTTON'),
+  l: digitalOutput('ORCA_L_BUTTON'),
+  r: digitalOutput('ORCA_R_BUTTON'),
+  c_left: digitalOutput('ORCA_C_LEFT'),
+  c_right: digitalOutput('ORCA_C_RIGHT'),
+  c_up: digitalOutput('ORCA_C_UP'),
+  c_down: digitalOutput('ORCA_C_DOWN'),
+  lightshield: digitalOutput('ORCA_LIGHTSHIELD'),
+  start: digitalOutput('ORCA_WISDOM_BUTTON'),
+  left: analogOutput('ORCA_JOYSTICK_X_LEFT'),
+  right: analogOutput('ORCA_JOYSTICK_X_RIGHT'),
+  up: analogOutput('ORCA_JOYSTICK_Y_UP'),
+  down: analogOutput('ORCA_JOYSTICK_Y_DOWN'),
+};
+// Known HayBox buttons without an Orca equivalent.
+const HAYBOX_UNSUPPORTED = new Set(['mod_x', 'mod_y', 'midshield', 'select', 'home']);
+
+const HAYBOX_SPEC: LayoutSpec = {
+  mode: 'orca',
+  firmware: 'HayBox',
+  referencePins: {
+    5: 'l', 4: 'left', 3: 'down', 2: 'right',
+    6: 'mod_x', 7: 'mod_y',
+    10: 'select', 0: 'start', 11: 'home',
+    13: 'c_left', 12: 'c_up', 15: 'c_down', 14: 'a', 16: 'c_right',
+    26: 'b', 21: 'x', 19: 'z', 17: 'up',
+    27: 'r', 22: 'y', 20: 'lightshield', 18: 'midshield',
+  },
+  placeOf: (fn) => {
+    const output = HAYBOX_OUTPUTS[fn];
+    if (!output) return null;
+    const defaults = output.kind === 'digital' ? getDefaultDigitalMapping('orca') : getDefaultAnalogMapping();
+    return { kind: output.kind, id: defaults[output.id]! };
+  },
+  outputOf: (fn) => HAYBOX_OUTPUTS[fn] ?? null,
+};
+
+/** HayBox `button_mappings` source (`{ &InputState::l, 5 }` entries) or a JSON object of button -> pin. */
+export function isHayboxConfig(text: string): boolean {
+  return /&InputState::\w+/.test(text);
+}
+
+function hayboxPinAssignments(text: string, issues: string[]): PinAssignment[] {
+  const out: PinAssignment[] = [];
+  const entries = [...text.matchAll(/\{\s*&InputState::(\w+)\s*,\s*(\d+)\s*\}/g)];
+  if (entries.length > 0) {
+    for (const [, fn, pin] of entries) out.push({ pin: Number(pin), fn: fn! });
+  } else {
+    let root: unknown;
+    try {
+      root = JSON.parse(text);
+    } catch {
+      throw new Error('Invalid HayBox mapping: expected button_mappings entries or a JSON object');
+    }
+    if (typeof root !== 'object' || root === null || Array.isArray(root)) throw new Error('Invalid HayBox mapping: expected an object');
+    for (const [fn, pin] of Object.entries(root)) {
+      if (typeof pin !== 'number' || !Number.isInteger(pin) || pin < 0) throw new Error(`Invalid HayBox mapping: bad pin for ${fn}`);
+      out.push({ pin, fn });
+    }
+  }
+  if (out.length === 0) throw new Error('Invalid HayBox mapping: no buttons found');
+  for (const { fn } of out) {
+    if (!HAYBOX_OUTPUTS[fn] && !HAYBOX_UNSUPPORTED.has(fn)) issues.push(`Unknown HayBox button "${fn}" was skipped.`);
+  }
+  return out.filter(({ fn }) => HAYBOX_OUTPUTS[fn] || HAYBOX_UNSUPPORTED.has(fn)).sort((a, b) => a.pin - b.pin);
+}
+
+/** Translate a HayBox button mapping into an Orca-slot profile based on `base`. */
+export function importHayboxConfig(text: string, base: OrcaProfileFileV1): ConvertedProfile {
+  const issues: string[] = [];
+  return convertLayout(HAYBOX_SPEC, hayboxPinAssignments(text, issues), base, issues);
+}
+
+// ---------------------------------------------------------------------------
+
+function convertLayout(spec: LayoutSpec, assignments: PinAssignment[], base: OrcaProfileFileV1, issues: string[]): ConvertedProfile {
+  if (base.mode !== spec.mode) {
+    throw new Error(`${spec.firmware} layouts convert to ${spec.mode === 'gp2040' ? 'GP2040' : 'Orca'} mode profiles. Switch modes to convert.`);
+  }
+  const digital = getDefaultDigitalMapping(spec.mode);
+  const analog = getDefaultAnalogMapping();
+  const assigned = { digital: new Map<number, number>(), analog: new Map<number, number>() };
+  // Orca inputs whose place the layout gives a function (even one the Orca cannot output).
+  const claimed = { digital: new Set<number>(), analog: new Set<number>() };
+
+  for (const { pin, fn } of assignments) {
+    const defaultFn = spec.referencePins[pin];
+    const place = defaultFn ? spec.placeOf(defaultFn) : null;
+    if (!place) {
+      issues.push(defaultFn
+        ? `${fn} (pin ${pin}) is where ${spec.firmware} puts ${defaultFn} by default; the Orca has no button there.`
+        : `${fn} (pin ${pin}) is not a button pin in the ${spec.firmware} default pinout.`);
+      continue;
+    }
+    claimed[place.kind].add(place.id);
+    const output = spec.outputOf(fn);
+    if (!output) {
+      issues.push(`${fn} (pin ${pin}, the Orca's ${inputLabel(place)}) has no Orca equivalent.`);
+      continue;
+    }
+    if (output.kind !== place.kind) {
+      issues.push(`${fn} needs ${output.kind === 'analog' ? 'an analog' : 'a digital'} button, but pin ${pin} is the Orca's ${inputLabel(place)}.`);
+      continue;
+    }
+    if (output.kind === 'digital' && output.id !== place.id && (isLockedDigitalDestination(output.id) || isLockedDigitalSource(place.id))) {
+      issues.push(`${fn} (pin ${pin}) cannot move: the Orca's ${inputLabel(place)} and ${digitalInputLabel(output.id)} are fixed.`);
+      continue;
+    }
+    const previous = assigned[output.kind].get(output.id);
+    if (previous !== undefined) {
+      issues.push(`${fn} is on more than one pin; only pin ${previous} was kept.`);
+      continue;
+    }
+    assigned[output.kind].set(output.id, pin);
+    (output.kind === 'digital' ? digital : analog)[output.id] = place.id;
+  }
+
+  // Buttons the layout took over lose their default outputs unless it gave them back.
+  digital.forEach((src, dest) => {
+    if (!assigned.digital.has(dest) && claimed.digital.has(src) && !isLockedDigitalDestination(dest)) digital[dest] = ORCA_DUMMY_FIELD;
+  });
+  analog.forEach((src, dest) => {
+    if (!assigned.analog.has(dest) && claimed.analog.has(src)) analog[dest] = ORCA_ANALOG_MAPPING_DISABLED;
+  });
+
+  return { profile: { ...base, digitalMapping: digital, analogMapping: analog }, issues };
+}
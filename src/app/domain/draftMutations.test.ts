@@ -18,6 +18,7 @@ import {
   getDefaultAnalogMapping,
   getDefaultDigitalMapping,
   getGp2040AnalogTriggerRouting,
+  importProfilesIntoDraft,
   renameProfileInDraft,
   resetToDefaultBindingsInDraft,
   setAnalogMappingInDraft,
@@ -109,6 +110,23 @@ describe('renameProfileInDraft', () => {
   });
 });
 
+describe('importProfilesIntoDraft', () => {
+  it('copies only the chosen sections into the chosen profile', () => {
+    const draft = makeDraft(2);
+    draft.profileLabels[1] = '';
+    const source = makeDraft(2);
+    source.profileLabels[0] = 'Theirs';
+    source.triggerPolicy[0] = makeTriggerPolicy(2);
+    source.digitalMappings[0] = Array.from({ length: DIGITAL_INPUTS.length }, () => 3);
+
+    const updated = importProfilesIntoDraft(draft, source, 'orca', [{ source: 0, target: 1, sections: ['triggerPolicy'] }]);
+    expect(updated.triggerPolicy[1]?.flags).toBe(2);
+    expect(updated.digitalMappings[1]).toEqual(draft.digitalMappings[1]);
+    expect(updated.profileLabels[1]).toBe('');
+    expect(updated.triggerPolicy[0]).toEqual(draft.triggerPolicy[0]);
+  });
+});
+
 describe('setDigitalMappingInDraft', () => {
   it('swaps destinations to preserve uniqueness (normal mapping)', () => {
     const draft = makeDraft();
@@ -17,27 +17,17 @@ import {
 } from '../../schema/orcaMappings';
 import { TRIGGER_POLICY_FLAG_ANALOG_TRIGGER_TO_LT } from '../../schema/triggerPolicyFlags';
 import { cloneDraft } from './cloneDraft';
+import { extractProfileFromDraft } from './profileLibrary';
+
+// The defaults live with the mapping tables so the simulator can build blobs without the app.
+export { getDefaultAnalogMapping, getDefaultDigitalMapping } from '../../schema/orcaMappings';
 
-const ORCA_A1_HOME_DEST = 11;
 const ORCA_C_LEFT_SRC = 7;
 const ORCA_C_RIGHT_SRC = 8;
 const ORCA_C_UP_SRC = 9;
 const ORCA_C_DOWN_SRC = 10;
 const ANALOG_TRIGGER_L_VIRTUAL_ID = 254;
 
-export function getDefaultDigitalMapping(mode: ProfileMode): number[] {
-  const base = Array.from({ length: DIGITAL_INPUTS.length }, (_, i) => i);
-  if (mode === 'gp2040') {
-    // GP2040 mode: A1/Home is bindable but defaults OFF.
-    base[ORCA_A1_HOME_DEST] = ORCA_DUMMY_FIELD;
-  }
-  return base;
-}
-
-export function getDefaultAnalogMapping(): number[] {
-  return Array.from({ length: ANALOG_INPUTS.length }, (_, i) => i);
-}
-
 export function getGp2040AnalogTriggerRouting(draft: SettingsDraft, profileIndex: number): 'lt' | 'rt' {
   const policy = draft.triggerPolicy[profileIndex] ?? draft.triggerPolicy[0];
   const analogToLt = ((policy?.flags ?? 0) & TRIGGER_POLICY_FLAG_ANALOG_TRIGGER_TO_LT) !== 0;
@@ -106,6 +96,65 @@ export function applyImportedProfileToDraft(
   return updated;
 }
 
+// Parts of a profile that can be imported on their own, named as in the profile file.
+export type ProfileImportSection = 'label' | 'digitalMapping' | 'analogMapping' | 'dpadLayer' | 'triggerPolicy' | 'stickCurveParams';
+
+export const PROFILE_IMPORT_SECTIONS: ProfileImportSection[] = [
+  'label',
+  'digitalMapping',
+  'analogMapping',
+  'dpadLayer',
+  'triggerPolicy',
+  'stickCurveParams',
+];
+
+export type ProfileImportChoice = {
+  source: number;
+  target: number;
+  sections: ProfileImportSection[];
+};
+
+/** Like applyImportedProfileToDraft, but only the given sections replace the target profile's. */
+export function applyImportedProfileSections(
+  draft: SettingsDraft,
+  profileIndex: number,
+  imported: OrcaProfileFileV1,
+  sections: ProfileImportSection[],
+): SettingsDraft {
+  const current = extractProfileFromDraft(draft, profileIndex, imported.mode);
+  if (!current) return applyImportedProfileToDraft(draft, profileIndex, imported);
+  const pick = <K extends ProfileImportSection>(key: K) => (sections.includes(key) ? imported : current)[key];
+  const merged: OrcaProfileFileV1 = {
+    ...current,
+    label: pick('label'),
+    digitalMapping: pick('digitalMapping'),
+    analogMapping: pick('analogMapping'),
+    dpadLayer: pick('dpadLayer'),
+    triggerPolicy: pick('triggerPolicy'),
+    stickCurveParams: pick('stickCurveParams'),
+  };
+  const updated = applyImportedProfileToDraft(draft, profileIndex, merged);
+  // Keep the label exactly as it was (applyImportedProfileToDraft fills in blank labels).
+  if (!sections.includes('label')) updated.profileLabels[profileIndex] = draft.profileLabels[profileIndex]!;
+  return updated;
+}
+
+/** Copy chosen sections of profiles in `source` (e.g. from a device file) into `draft`, in order. */
+export function importProfilesIntoDraft(
+  draft: SettingsDraft,
+  source: SettingsDraft,
+  mode: ProfileMode,
+  choices: ProfileImportChoice[],
+): SettingsDraft {
+  let updated = draft;
+  for (const choice of choices) {
+    if (choice.sections.length === 0) continue;
+    const profile = extractProfileFromDraft(source, choice.source, mode);
+    if (profile) updated = applyImportedProfileSections(updated, choice.target, profile, choice.sections);
+  }
+  return updated;
+}
+
 export function setDigitalMappingInDraft(
   draft: SettingsDraft,
   params: { dest: number; src: number; defaultDigitalMapping: number[] },
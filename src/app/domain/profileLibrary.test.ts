@@ -0,0 +1,55 @@
+import { describe, expect, it } from 'vitest';
+import { makeDefaultSettingsBlob } from '../../schema/settingsDefaults';
+import { parseSettingsBlob } from '../../schema/settingsBlob';
+import { applyImportedProfileToDraft } from './draftMutations';
+import {
+  extractProfileFromDraft,
+  filterProfileLibrary,
+  normalizeProfileTags,
+  type ProfileLibraryEntry,
+} from './profileLibrary';
+
+describe('profile library', () => {
+  const draft = parseSettingsBlob(makeDefaultSettingsBlob(0, 1)).draft;
+
+  it('extracts a profile that applies back into another slot unchanged', () => {
+    const source = applyImportedProfileToDraft(draft, 0, {
+      ...extractProfileFromDraft(draft, 0, 'orca')!,
+      label: 'Netplay',
+      digitalMapping: draft.digitalMappings[0]!.map((src, dest) => (dest === 0 ? 1 : dest === 1 ? 0 : src)),
+    });
+    const profile = extractProfileFromDraft(source, 0, 'orca')!;
+    expect(profile.label).toBe('Netplay');
+
+    const applied = applyImportedProfileToDraft(draft, 7, profile);
+    expect(applied.digitalMappings[7]).toEqual(source.digitalMappings[0]);
+    expect(applied.profileLabels[7]).toBe('Netplay');
+    // The snapshot must not alias the draft it came from.
+    profile.digitalMapping[0] = 5;
+    expect(source.digitalMappings[0]![0]).toBe(1);
+  });
+
+  it('normalizes tags and filters by mode, tag and query', () => {
+    expect(normalizeProfileTags(' Melee, netplay,,melee ')).toEqual(['melee', 'netplay']);
+
+    const orca = extractProfileFromDraft(draft, 0, 'orca')!;
+    const entry = (id: string, label: string, mode: 'orca' | 'gp2040', tags: string[], updatedAt: number): ProfileLibraryEntry => ({
+      id,
+      profile: { ...orca, mode, label },
+      tags,
+      createdAt: 0,
+      updatedAt,
+    });
+    const entries = [
+      entry('a', 'Melee main', 'orca', ['melee'], 1),
+      entry('b', 'Rivals', 'orca', ['platform fighter'], 3),
+      entry('c', 'Street Fighter', 'gp2040', ['fgc'], 2),
+    ];
+
+    expect(filterProfileLibrary(entries, { mode: 'all' }).map((e) => e.id)).toEqual(['b', 'c', 'a']);
+    expect(filterProfileLibrary(entries, { mode: 'orca' }).map((e) => e.id)).toEqual(['b', 'a']);
+    expect(filterProfileLibrary(entries, { tag: 'fgc' }).map((e) => e.id)).toEqual(['c']);
+    expect(filterProfileLibrary(entries, { query: 'fighter' }).map((e) => e.id)).toEqual(['b', 'c']);
+    expect(filterProfileLibrary(entries, { query: 'fighter platform' }).map((e) => e.id)).toEqual(['b']);
+  });
+});
@@ -0,0 +1,78 @@
+import {
+  ORCA_PROFILE_FILE_TYPE,
+  ORCA_PROFILE_FILE_VERSION,
+  type OrcaProfileFileV1,
+  type ProfileMode,
+} from '../../schema/profileFile';
+import type { SettingsDraft } from '../../schema/settingsBlob';
+import { cloneDraft } from './cloneDraft';
+
+export type ProfileLibraryEntry = {
+  id: string;
+  profile: OrcaProfileFileV1;
+  tags: string[];
+  createdAt: number;
+  updatedAt: number;
+};
+
+export type ProfileLibraryFilter = {
+  mode?: ProfileMode | 'all';
+  query?: string;
+  tag?: string | null;
+};
+
+/** Snapshot one profile of a draft in the same shape as an exported profile file. */
+export function extractProfileFromDraft(draft: SettingsDraft, profileIndex: number, mode: ProfileMode): OrcaProfileFileV1 | null {
+  const copy = cloneDraft(draft);
+  const label = copy.profileLabels[profileIndex]?.trim() || `Profile ${profileIndex + 1}`;
+  const digitalMapping = copy.digitalMappings[profileIndex];
+  const analogMapping = copy.analogMappings[profileIndex];
+  const dpadLayer = copy.dpadLayer[profileIndex];
+  const triggerPolicy = copy.triggerPolicy[profileIndex];
+  const stickCurveParams = copy.stickCurveParams[profileIndex];
+  if (!digitalMapping || !analogMapping || !dpadLayer || !triggerPolicy || !stickCurveParams) return null;
+
+  return {
+    type: ORCA_PROFILE_FILE_TYPE,
+    version: ORCA_PROFILE_FILE_VERSION,
+    mode,
+    label,
+    digitalMapping,
+    analogMapping,
+    dpadLayer,
+    triggerPolicy,
+    stickCurveParams,
+  };
+}
+
+/** Parse comma-separated tag input: trimmed, lowercased, de-duplicated, in input order. */
+export function normalizeProfileTags(input: string | string[]): string[] {
+  const raw = Array.isArray(input) ? input : input.split(',');
+  const out: string[] = [];
+  for (const tag of raw) {
+    const t = tag.trim().toLowerCase();
+    if (t && !out.includes(t)) out.push(t);
+  }
+  return out;
+}
+
+/** All tags in use, alphabetically. */
+export function collectProfileTags(entries: ProfileLibraryEntry[]): string[] {
+  return [...new Set(entries.flatMap((e) => e.tags))].sort((a, b) => a.localeCompare(b));
+}
+
+/**
+ * Entries matching the filter, most recently updated first. The query matches the label or a
+ * tag (case-insensitive); every whitespace-separated word must match.
+ */
+export function filterProfileLibrary(entries: ProfileLibraryEntry[], filter: ProfileLibraryFilter): ProfileLibraryEntry[] {
+  const words = (filter.query ?? '').toLowerCase().split(/\s+/).filter(Boolean);
+  return entries
+    .filter((e) => !filter.mode || filter.mode === 'all' || e.profile.mode === filter.mode)
+    .filter((e) => !filter.tag || e.tags.includes(filter.tag))
+    .filter((e) => {
+      const label = e.profile.label.toLowerCase();
+      return words.every((w) => label.includes(w) || e.tags.some((t) => t.includes(w)));
+    })
+    .sort((a, b) => b.updatedAt - a.updatedAt);
+}
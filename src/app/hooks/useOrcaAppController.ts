@@ -1,31 +1,38 @@
-import { useCallback, useMemo, useReducer, useRef } from 'react';
+import { useCallback, useEffect, useMemo, useReducer, useRef } from 'react';
 import {
   ORCA_CONFIG_SCHEMA_ID,
   ORCA_CONFIG_SETTINGS_VERSION_MAJOR,
+  OrcaErr,
 } from '@shared/orca_config_idl_generated';
-import { buildSettingsBlob, tryParseSettingsBlob, type SettingsDraft } from '../../schema/settingsBlob';
-import {
-  ORCA_PROFILE_FILE_TYPE,
-  ORCA_PROFILE_FILE_VERSION,
-  parseProfileFileV1,
-  serializeProfileFileV1,
-  type OrcaProfileFileV1,
-} from '../../schema/profileFile';
-import { parseDeviceFileV1, serializeDeviceFileV1 } from '../../schema/deviceFile';
+import { formatLogText } from '../../protocol/orcaLog';
+import { digitalInputLabel, analogInputLabel, getDefaultAnalogMapping, getDefaultDigitalMapping } from '../../schema/orcaMappings';
+import { buildSettingsBlob, tryParseSettingsBlob, type ParsedSettings, type SettingsDraft } from '../../schema/settingsBlob';
+import { parseProfileFileV1, serializeProfileFileV1, type OrcaProfileFileV1 } from '../../schema/profileFile';
+import { decodeProfileLink, encodeProfileLink, profileLinkUrl, readProfileLinkFragment } from '../../schema/profileLink';
+import { encodeProfileQrCodes } from '../../schema/profileQr';
+import { isProfileText, parseProfileText, serializeProfileText } from '../../schema/profileText';
+import { parseDeviceFile, serializeDeviceFileV2 } from '../../schema/deviceFile';
 import { isGp2040LabelPreset, type Gp2040LabelPreset } from '../../schema/gp2040Labels';
+import { diffSettingsBlobs, diffSettingsDrafts } from '../../schema/settingsDiff';
+import { mergeSettingsDrafts, resolveDraftMerge, type DraftMergeChoice } from '../../schema/settingsMerge';
+import { loadSettingsBlob, type LoadedSettingsBlob, type SettingsMigrationReport } from '../../schema/settingsMigration';
 import { decodeStagedInvalidMask, validateSettingsDraft } from '../../validators/settingsValidation';
+import { OrcaDeviceError, type DeviceInfo, type OrcaTransport } from '../../usb/OrcaTransport';
 import { OrcaWebSerialTransport } from '../../usb/OrcaWebSerialTransport';
+import { makeDefaultSettingsBlob } from '../../schema/settingsDefaults';
 import { downloadBytes } from '../utils/download';
+import { clearDraftAutosave, loadDraftAutosave, saveDraftAutosave } from '../utils/draftAutosave';
+import { deleteLibraryProfile, listLibraryProfiles, putLibraryProfile } from '../utils/profileLibraryStore';
 import { sanitizeFilenamePart } from '../utils/filename';
-import { modeToSlotId, slotDisplayName, slotSuffix, type SlotId, type SlotMode } from '../utils/slot';
+import { clearVirtualDevice, openVirtualDeviceTransport } from '../utils/virtualDevice';
+import { modeToSlotId, slotDisplayName, slotIdToMode, slotSuffix, type SlotId, type SlotMode } from '../utils/slot';
 import { useLocalStorageState } from './useLocalStorageState';
-import { type Compatibility, type MainView } from '../types';
+import { type Compatibility, type DeviceFileComparison, type MainView } from '../types';
 import {
   applyImportedProfileToDraft,
   clearAllBindingsInDraft,
-  getDefaultAnalogMapping,
-  getDefaultDigitalMapping,
   getGp2040AnalogTriggerRouting,
+  importProfilesIntoDraft,
   moveProfileToFirstSlot,
   renameProfileInDraft,
   resetToDefaultBindingsInDraft,
@@ -33,14 +40,50 @@ import {
   setAnalogMappingInDraft,
   setDigitalMappingInDraft,
 } from '../domain/draftMutations';
+import { extractProfileFromDraft, normalizeProfileTags } from '../domain/profileLibrary';
+import { exportGp2040Config, importGp2040Config, importHayboxConfig, isGp2040Config, isHayboxConfig } from '../domain/configConverters';
 import {
   createEmptySlotStates,
   createInitialOrcaAppState,
   orcaAppReducer,
+  type DeviceImportSelection,
   type DeviceValidationState,
+  type DraftEditMeta,
+  type DraftHistory,
   type OrcaAppState,
 } from '../state/orcaAppReducer';
 
+// Autosave writes are batched; a disconnect still flushes whatever was queued.
+const DRAFT_AUTOSAVE_DELAY_MS = 300;
+
+// Upper bounds for a single log refresh so a chatty or misbehaving firmware can't stall the UI.
+const DEVICE_LOG_MAX_CHUNKS = 64;
+const DEVICE_LOG_MAX_RECORDS = 2000;
+
+// Device files are JSON with both slots; legacy raw blobs are assigned to `fallbackSlot`.
+function assertProfileModeMatches(profileMode: SlotMode, configMode: SlotMode) {
+  if (profileMode === configMode) return;
+  throw new Error(
+    `Incompatible profile: it is for ${slotDisplayName(modeToSlotId(profileMode))}. `
+      + `You're currently editing ${slotDisplayName(modeToSlotId(configMode))}. Switch modes to import.`,
+  );
+}
+
+// Older blobs are upgraded onto the slot's current settings, or factory defaults if none are loaded.
+function loadSlotBlob(blob: Uint8Array, slot: SlotId, currentBase: Uint8Array | null): LoadedSettingsBlob {
+  return loadSettingsBlob(blob, currentBase ?? makeDefaultSettingsBlob(slot, 0));
+}
+
+async function readDeviceFileSlots(file: File, fallbackSlot: SlotId): Promise<Record<SlotId, Uint8Array | null>> {
+  const text = await file.text();
+  if (text.trimStart().startsWith('{')) {
+    const { orcaSlot, gp2040Slot } = parseDeviceFile(text);
+    return { 0: orcaSlot, 1: gp2040Slot };
+  }
+  const blob = new Uint8Array(await file.arrayBuffer());
+  return fallbackSlot === 0 ? { 0: blob, 1: null } : { 0: null, 1: blob };
+}
+
 export type OrcaAppController = {
   // State
   state: OrcaAppState;
@@ -66,11 +109,16 @@ export type OrcaAppController = {
   deviceErrors: string[] | null;
   deviceRepaired: boolean | null;
   remappedCount: number;
+  history: DraftHistory;
   // Actions
   connect: () => Promise<void>;
+  connectVirtualDevice: () => Promise<void>;
+  resetVirtualDevice: () => Promise<void>;
   disconnect: () => Promise<void>;
   handleModeChange: (nextMode: SlotMode) => Promise<void>;
-  onDraftChange: (next: SettingsDraft) => void;
+  onDraftChange: (next: SettingsDraft, meta?: DraftEditMeta) => void;
+  undo: (steps?: number) => void;
+  redo: (steps?: number) => void;
   setActiveProfile: (next: number) => void;
   renameProfile: (profileIndex: number, newName: string) => void;
   markAsDefault: (profileIndex: number) => void;
@@ -85,24 +133,48 @@ export type OrcaAppController = {
   rebootNow: () => Promise<void>;
   exportCurrentBlob: () => Promise<void>;
   exportDraftBlob: () => Promise<void>;
-  exportCurrentProfile: () => void;
+  exportCurrentProfile: (format?: 'json' | 'text') => void;
+  shareCurrentProfile: () => Promise<void>;
+  showCurrentProfileQr: () => Promise<void>;
+  dismissProfileQr: () => void;
+  openScannedProfile: (profile: OrcaProfileFileV1) => void;
+  importSharedProfile: (profileIndex: number) => void;
+  dismissSharedProfile: () => void;
   importDeviceBlobFromFile: (file: File) => Promise<void>;
+  applyDeviceImport: (selection: DeviceImportSelection) => void;
+  cancelDeviceImport: () => void;
   importProfileFromFile: (file: File) => Promise<void>;
+  convertProfileFromFile: (file: File) => Promise<void>;
+  exportGp2040Layout: () => void;
+  compareDeviceFiles: (before: File, after: File) => Promise<DeviceFileComparison | null>;
+  cancelOperation: () => void;
+  refreshDeviceLog: () => Promise<void>;
+  clearDeviceLog: () => void;
+  exportDeviceLog: () => void;
   setAllowUnsafeWrites: (next: boolean) => void;
   setRebootAfterSave: (next: boolean) => void;
   setShowResetConfirm: (next: boolean) => void;
   setShowFactoryResetConfirm: (next: boolean) => void;
   setEditingProfile: (next: number | null) => void;
+  saveProfileToLibrary: (profileIndex: number, label: string, tags: string[]) => Promise<void>;
+  updateLibraryProfile: (id: string, patch: { label?: string; tags?: string[] }) => Promise<void>;
+  deleteLibraryProfile: (id: string) => Promise<void>;
+  applyLibraryProfile: (id: string, profileIndex: number) => void;
+  resolveDraftRecovery: (resolution: { apply: false } | { apply: true; choices?: DraftMergeChoice[] }) => void;
+  dismissSettingsMigration: () => void;
 };
 
 export function useOrcaAppController(): OrcaAppController {
   const [state, dispatch] = useReducer(orcaAppReducer, undefined, createInitialOrcaAppState);
   const stateRef = useRef(state);
   stateRef.current = state;
+  const operationAbortRef = useRef<AbortController | null>(null);
+  // Log refreshes run alongside other operations, so they are cancelled separately.
+  const deviceLogAbortRef = useRef<AbortController | null>(null);
 
   const [mainViewState, setMainViewState] = useLocalStorageState<MainView>('orca.mainView', 'layout', {
     serialize: (value) => value,
-    deserialize: (raw) => (raw === 'layout' || raw === 'inputs' ? raw : undefined),
+    deserialize: (raw) => (raw === 'layout' || raw === 'inputs' || raw === 'library' || raw === 'blob' ? raw : undefined),
   });
 
   const [gp2040LabelPresetState, setGp2040LabelPresetState] = useLocalStorageState<Gp2040LabelPreset>(
@@ -119,6 +191,7 @@ export function useOrcaAppController(): OrcaAppController {
   const baseBlob = currentSlotState.baseBlob;
   const draft = currentSlotState.draft;
   const dirty = currentSlotState.dirty;
+  const history = currentSlotState.history;
 
   const compatibility: Compatibility = useMemo(() => {
     if (!state.deviceInfo) return 'unknown';
@@ -136,8 +209,8 @@ export function useOrcaAppController(): OrcaAppController {
   }, [compatibility, state.allowUnsafeWrites, state.deviceInfo, state.transport]);
 
   const localValidation = useMemo(
-    () => (draft ? validateSettingsDraft(draft) : { errors: [], warnings: [] }),
-    [draft],
+    () => (draft ? validateSettingsDraft(draft, currentSlotState.parsed?.draft) : { errors: [], warnings: [] }),
+    [currentSlotState.parsed, draft],
   );
 
   const activeProfile = draft?.activeProfile ?? 0;
@@ -171,43 +244,202 @@ export function useOrcaAppController(): OrcaAppController {
   }, [analogMapping, defaultAnalogMapping, defaultDigitalMapping, digitalMapping]);
 
   const resetConnection = useCallback((patch?: Partial<OrcaAppState>) => {
+    deviceLogAbortRef.current?.abort();
+    deviceLogAbortRef.current = null;
     dispatch({
       type: 'patch',
       patch: {
         transport: null,
         deviceInfo: null,
+        virtualDevice: false,
         slotStates: createEmptySlotStates(),
         deviceValidation: null,
         progress: '',
+        deviceLog: [],
+        deviceLogCursor: 0,
+        deviceLogSupported: true,
+        deviceLogLoading: false,
+        deviceLogError: '',
+        draftRecovery: null,
+        settingsMigration: null,
+        pendingDeviceImport: null,
         ...patch,
       },
     });
   }, []);
 
+  // Each long-running device operation gets its own AbortController so it can be cancelled from the UI.
+  const startOperation = useCallback((): AbortSignal => {
+    operationAbortRef.current?.abort();
+    const controller = new AbortController();
+    operationAbortRef.current = controller;
+    return controller.signal;
+  }, []);
+
+  const cancelOperation = useCallback(() => {
+    operationAbortRef.current?.abort(new Error('Operation cancelled'));
+    operationAbortRef.current = null;
+  }, []);
+
   const updateSlotState = useCallback((slot: SlotId, patch: Partial<OrcaAppState['slotStates'][SlotId]>) => {
     dispatch({ type: 'set_slot_state', slot, patch });
   }, []);
 
-  const onDraftChange = useCallback((next: SettingsDraft) => {
+  // ---- Draft autosave ----
+
+  type AutosaveJob = { schemaId: number; baseCrc: number; baseBlob: Uint8Array; draft: SettingsDraft };
+  const autosaveQueueRef = useRef(new Map<SlotId, AutosaveJob>());
+  const autosaveTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const autosavedDraftsRef = useRef(new Map<SlotId, SettingsDraft>());
+
+  const flushAutosave = useCallback(() => {
+    autosaveTimerRef.current = null;
+    const jobs = [...autosaveQueueRef.current];
+    autosaveQueueRef.current.clear();
+    for (const [slot, job] of jobs) {
+      saveDraftAutosave(job.schemaId, slot, job.baseCrc, job.baseBlob, job.draft).catch(() => {
+        // ignore
+      });
+    }
+  }, []);
+
+  // Not cancelled on state changes: edits queued right before a disconnect still get written.
+  const { deviceInfo, slotStates, draftRecovery } = state;
+  useEffect(() => {
+    if (!deviceInfo) return;
+    for (const slot of [0, 1] as SlotId[]) {
+      const { baseBlob, parsed, draft, dirty } = slotStates[slot];
+      if (!dirty || !baseBlob || !parsed || !draft) continue;
+      // Don't overwrite a recoverable draft before the user has decided what to do with it.
+      if (draftRecovery?.slot === slot) continue;
+      if (autosavedDraftsRef.current.get(slot) === draft) continue;
+      autosavedDraftsRef.current.set(slot, draft);
+      autosaveQueueRef.current.set(slot, { schemaId: deviceInfo.schemaId, baseCrc: parsed.header.storedCrc32, baseBlob, draft });
+    }
+    if (autosaveQueueRef.current.size > 0 && !autosaveTimerRef.current) {
+      autosaveTimerRef.current = setTimeout(flushAutosave, DRAFT_AUTOSAVE_DELAY_MS);
+    }
+  }, [deviceInfo, draftRecovery, flushAutosave, slotStates]);
+
+  useEffect(() => {
+    window.addEventListener('pagehide', flushAutosave);
+    return () => window.removeEventListener('pagehide', flushAutosave);
+  }, [flushAutosave]);
+
+  const discardAutosave = useCallback((schemaId: number, slots: SlotId[]) => {
+    for (const slot of slots) {
+      autosaveQueueRef.current.delete(slot);
+      autosavedDraftsRef.current.delete(slot);
+      clearDraftAutosave(schemaId, slot).catch(() => {
+        // ignore
+      });
+    }
+  }, []);
+
+  // After reading a slot from the controller, look for unsaved work left from an earlier session.
+  const checkDraftRecovery = useCallback(async (info: DeviceInfo, slot: SlotId, parsed: ParsedSettings) => {
+    let saved;
+    try {
+      saved = await loadDraftAutosave(info.schemaId, slot);
+    } catch {
+      return;
+    }
+    if (!saved) return;
+
+    const device = parsed.draft;
+    if (saved.baseCrc === parsed.header.storedCrc32 >>> 0) {
+      if (diffSettingsDrafts(device, saved.draft).changeCount === 0) {
+        discardAutosave(info.schemaId, [slot]);
+        return;
+      }
+      dispatch({ type: 'patch', patch: { draftRecovery: { slot, savedAt: saved.savedAt, kind: 'restore', draft: saved.draft } } });
+      return;
+    }
+
+    const base = tryParseSettingsBlob(new Uint8Array(saved.baseBlob));
+    if (!base.ok) {
+      discardAutosave(info.schemaId, [slot]);
+      return;
+    }
+    const merge = mergeSettingsDrafts(base.value.draft, saved.draft, device);
+    if (merge.conflicts.length === 0 && diffSettingsDrafts(device, merge.merged).changeCount === 0) {
+      discardAutosave(info.schemaId, [slot]);
+      return;
+    }
+    dispatch({ type: 'patch', patch: { draftRecovery: { slot, savedAt: saved.savedAt, kind: 'merge', merge } } });
+  }, [discardAutosave]);
+
+  const resolveDraftRecovery = useCallback((resolution: { apply: false } | { apply: true; choices?: DraftMergeChoice[] }) => {
+    const { draftRecovery, deviceInfo } = stateRef.current;
+    if (!draftRecovery) return;
+    dispatch({ type: 'patch', patch: { draftRecovery: null } });
+    if (!resolution.apply) {
+      if (deviceInfo) discardAutosave(deviceInfo.schemaId, [draftRecovery.slot]);
+      return;
+    }
+    const draft = draftRecovery.kind === 'restore'
+      ? draftRecovery.draft
+      : resolveDraftMerge(draftRecovery.merge, resolution.choices ?? []);
+    const label = draftRecovery.kind === 'restore' ? 'Restore unsaved changes' : 'Merge unsaved changes';
+    dispatch({ type: 'edit_draft', slot: draftRecovery.slot, draft, meta: { label }, at: Date.now() });
+    dispatch({ type: 'patch', patch: { deviceValidation: null } });
+  }, [discardAutosave]);
+
+  const onDraftChange = useCallback((next: SettingsDraft, meta?: DraftEditMeta) => {
     const { configMode } = stateRef.current;
     const slot = modeToSlotId(configMode);
-    updateSlotState(slot, { draft: next, dirty: true });
+    dispatch({ type: 'edit_draft', slot, draft: next, meta: meta ?? { label: 'Edit settings' }, at: Date.now() });
     dispatch({ type: 'patch', patch: { deviceValidation: null } });
-  }, [updateSlotState]);
+  }, []);
+
+  const undo = useCallback((steps?: number) => {
+    const { busy, configMode } = stateRef.current;
+    if (busy) return;
+    dispatch({ type: 'undo', slot: modeToSlotId(configMode), steps });
+    dispatch({ type: 'patch', patch: { deviceValidation: null, editingProfile: null } });
+  }, []);
+
+  const redo = useCallback((steps?: number) => {
+    const { busy, configMode } = stateRef.current;
+    if (busy) return;
+    dispatch({ type: 'redo', slot: modeToSlotId(configMode), steps });
+    dispatch({ type: 'patch', patch: { deviceValidation: null, editingProfile: null } });
+  }, []);
 
-  const connect = useCallback(async () => {
+  // Ctrl+Z / Ctrl+Shift+Z (Cmd on macOS). Text fields keep their native undo.
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || e.altKey) return;
+      const key = e.key.toLowerCase();
+      if (key !== 'z' && key !== 'y') return;
+      const target = e.target as HTMLElement | null;
+      if (target?.isContentEditable || target?.tagName === 'TEXTAREA') return;
+      if (target instanceof HTMLInputElement && target.type !== 'range' && target.type !== 'checkbox') return;
+      e.preventDefault();
+      if (key === 'y' || e.shiftKey) redo();
+      else undo();
+    };
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  }, [redo, undo]);
+
+  const openConnection = useCallback(async (
+    open: () => Promise<OrcaTransport & { setOnDisconnect(callback: (() => void) | undefined): void }>,
+    virtualDevice: boolean,
+  ) => {
     dispatch({ type: 'patch', patch: { lastError: '', progress: '', deviceValidation: null } });
     dispatch({ type: 'patch', patch: { busy: true, slotStates: createEmptySlotStates() } });
+    const signal = startOperation();
     try {
-      const nextTransport = await OrcaWebSerialTransport.requestAndOpen();
+      const nextTransport = await open();
 
       // Set up disconnect detection
       nextTransport.setOnDisconnect(() => {
         resetConnection({ lastError: 'Device disconnected', busy: false });
       });
 
-      const info = await nextTransport.getInfo();
-      dispatch({ type: 'patch', patch: { transport: nextTransport, deviceInfo: info } });
+      const info = await nextTransport.getInfo({ signal });
+      dispatch({ type: 'patch', patch: { transport: nextTransport, deviceInfo: info, virtualDevice } });
 
       const gp2040Enabled = info.slotCount >= 2;
       const slotFromUI = modeToSlotId(stateRef.current.configMode);
@@ -220,28 +452,55 @@ export function useOrcaAppController(): OrcaAppController {
       const blob = await nextTransport.readBlob(slotToRead, {
         blobSize: info.blobSize,
         maxChunk: info.maxChunk,
+        signal,
         onProgress: (offset, total) => dispatch({ type: 'patch', patch: { progress: `Reading ${offset}/${total}...` } }),
       });
-      const res = tryParseSettingsBlob(blob);
-      if (!res.ok) throw new Error(res.error);
-      updateSlotState(slotToRead, { baseBlob: blob, parsed: res.value, draft: res.value.draft, dirty: false });
+      const loaded = loadSlotBlob(blob, slotToRead, null);
+      updateSlotState(slotToRead, { baseBlob: loaded.blob, parsed: loaded.parsed, draft: loaded.parsed.draft, dirty: loaded.migration !== null });
       dispatch({ type: 'patch', patch: { progress: '' } });
+      if (loaded.migration) {
+        dispatch({ type: 'patch', patch: { settingsMigration: { source: 'Controller', reports: [{ slot: slotToRead, report: loaded.migration }] } } });
+      } else {
+        void checkDraftRecovery(info, slotToRead, loaded.parsed);
+      }
     } catch (e) {
       dispatch({ type: 'patch', patch: { lastError: e instanceof Error ? e.message : String(e), progress: '' } });
     } finally {
       dispatch({ type: 'patch', patch: { busy: false } });
     }
-  }, [resetConnection, updateSlotState]);
+  }, [checkDraftRecovery, resetConnection, startOperation, updateSlotState]);
+
+  const connect = useCallback(() => openConnection(() => OrcaWebSerialTransport.requestAndOpen(), false), [openConnection]);
+
+  const connectVirtualDevice = useCallback(() => openConnection(openVirtualDeviceTransport, true), [openConnection]);
 
   const disconnect = useCallback(async () => {
     dispatch({ type: 'patch', patch: { lastError: '', progress: '', deviceValidation: null } });
+    cancelOperation();
     try {
       dispatch({ type: 'patch', patch: { busy: true } });
       await stateRef.current.transport?.close();
     } finally {
       resetConnection({ busy: false });
     }
-  }, [resetConnection]);
+  }, [cancelOperation, resetConnection]);
+
+  const resetVirtualDevice = useCallback(async () => {
+    const { transport, virtualDevice } = stateRef.current;
+    const ok = window.confirm('Erase the virtual device? Its saved settings will be replaced with factory defaults.');
+    if (!ok) return;
+    dispatch({ type: 'patch', patch: { lastError: '' } });
+    try {
+      if (transport && virtualDevice) {
+        cancelOperation();
+        await transport.close();
+        resetConnection();
+      }
+      await clearVirtualDevice();
+    } catch (e) {
+      dispatch({ type: 'patch', patch: { lastError: e instanceof Error ? e.message : String(e) } });
+    }
+  }, [cancelOperation, resetConnection]);
 
   const handleModeChange = useCallback(async (nextMode: SlotMode) => {
     const { busy, configMode, transport, deviceInfo, slotStates } = stateRef.current;
@@ -270,11 +529,16 @@ export function useOrcaAppController(): OrcaAppController {
           const blob = await transport.readBlob(nextSlot, {
             blobSize: deviceInfo.blobSize,
             maxChunk: deviceInfo.maxChunk,
+            signal: startOperation(),
             onProgress: (offset, total) => dispatch({ type: 'patch', patch: { progress: `Reading ${offset}/${total}...` } }),
           });
-          const res = tryParseSettingsBlob(blob);
-          if (!res.ok) throw new Error(res.error);
-          updateSlotState(nextSlot, { baseBlob: blob, parsed: res.value, draft: res.value.draft, dirty: false });
+          const loaded = loadSlotBlob(blob, nextSlot, null);
+          updateSlotState(nextSlot, { baseBlob: loaded.blob, parsed: loaded.parsed, draft: loaded.parsed.draft, dirty: loaded.migration !== null });
+          if (loaded.migration) {
+            dispatch({ type: 'patch', patch: { settingsMigration: { source: 'Controller', reports: [{ slot: nextSlot, report: loaded.migration }] } } });
+          } else {
+            void checkDraftRecovery(deviceInfo, nextSlot, loaded.parsed);
+          }
         } catch (e) {
           dispatch({ type: 'patch', patch: { lastError: e instanceof Error ? e.message : String(e) } });
           return;
@@ -285,14 +549,14 @@ export function useOrcaAppController(): OrcaAppController {
     }
 
     dispatch({ type: 'patch', patch: { configMode: nextMode } });
-  }, [updateSlotState]);
+  }, [checkDraftRecovery, startOperation, updateSlotState]);
 
   const setActiveProfile = useCallback((next: number) => {
     const { configMode, slotStates } = stateRef.current;
     const slot = modeToSlotId(configMode);
     const draft = slotStates[slot].draft;
     if (!draft) return;
-    onDraftChange(setActiveProfileInDraft(draft, next));
+    onDraftChange(setActiveProfileInDraft(draft, next), { label: `Select profile ${next + 1}`, coalesceKey: 'activeProfile' });
   }, [onDraftChange]);
 
   const renameProfile = useCallback((profileIndex: number, newName: string) => {
@@ -300,7 +564,9 @@ export function useOrcaAppController(): OrcaAppController {
     const slot = modeToSlotId(configMode);
     const draft = slotStates[slot].draft;
     if (!draft) return;
-    onDraftChange(renameProfileInDraft(draft, profileIndex, newName));
+    const renamed = renameProfileInDraft(draft, profileIndex, newName);
+    if (renamed.profileLabels[profileIndex] === draft.profileLabels[profileIndex]) return;
+    onDraftChange(renamed, { label: `Rename profile ${profileIndex + 1} to "${renamed.profileLabels[profileIndex]}"` });
   }, [onDraftChange]);
 
   const markAsDefault = useCallback((profileIndex: number) => {
@@ -308,7 +574,7 @@ export function useOrcaAppController(): OrcaAppController {
     const slot = modeToSlotId(configMode);
     const draft = slotStates[slot].draft;
     if (!draft) return;
-    onDraftChange(moveProfileToFirstSlot(draft, profileIndex));
+    onDraftChange(moveProfileToFirstSlot(draft, profileIndex), { label: `Make profile ${profileIndex + 1} the default` });
   }, [onDraftChange]);
 
   const setDigitalMapping = useCallback((dest: number, src: number) => {
@@ -316,7 +582,10 @@ export function useOrcaAppController(): OrcaAppController {
     const slot = modeToSlotId(configMode);
     const draft = slotStates[slot].draft;
     if (!draft) return;
-    onDraftChange(setDigitalMappingInDraft(draft, { dest, src, defaultDigitalMapping: getDefaultDigitalMapping(configMode) }));
+    onDraftChange(
+      setDigitalMappingInDraft(draft, { dest, src, defaultDigitalMapping: getDefaultDigitalMapping(configMode) }),
+      { label: `Map ${digitalInputLabel(src)} to ${digitalInputLabel(dest)}` },
+    );
   }, [onDraftChange]);
 
   const setAnalogMapping = useCallback((dest: number, src: number, virtualDest?: number) => {
@@ -332,6 +601,7 @@ export function useOrcaAppController(): OrcaAppController {
         mode: configMode,
         virtualDest,
       }),
+      { label: `Map ${analogInputLabel(src)} to ${analogInputLabel(dest)}` },
     );
   }, [onDraftChange]);
 
@@ -340,7 +610,7 @@ export function useOrcaAppController(): OrcaAppController {
     const slot = modeToSlotId(configMode);
     const draft = slotStates[slot].draft;
     if (!draft) return;
-    onDraftChange(clearAllBindingsInDraft(draft));
+    onDraftChange(clearAllBindingsInDraft(draft), { label: 'Clear all bindings' });
   }, [onDraftChange]);
 
   const resetToDefaultBindings = useCallback(() => {
@@ -353,6 +623,7 @@ export function useOrcaAppController(): OrcaAppController {
         defaultDigitalMapping: getDefaultDigitalMapping(configMode),
         defaultAnalogMapping: getDefaultAnalogMapping(),
       }),
+      { label: 'Reset bindings to default' },
     );
   }, [onDraftChange]);
 
@@ -363,15 +634,17 @@ export function useOrcaAppController(): OrcaAppController {
     if (!transport || !baseBlob || !draft) return;
 
     dispatch({ type: 'patch', patch: { lastError: '', progress: 'Validating...' } });
+    const signal = startOperation();
     try {
       dispatch({ type: 'patch', patch: { busy: true } });
-      await transport.beginSession();
+      await transport.beginSession({ signal });
       const staged = buildSettingsBlob(baseBlob, draft);
       await transport.writeBlob(slot, staged, {
         maxChunk: deviceInfo?.maxChunk ?? 256,
+        signal,
         onProgress: (offset, total) => dispatch({ type: 'patch', patch: { progress: `Staging ${offset}/${total}...` } }),
       });
-      const res = await transport.validateStaged(slot);
+      const res = await transport.validateStaged(slot, { signal });
       const validation: DeviceValidationState = { ...res, decoded: decodeStagedInvalidMask(res.invalidMask) };
       dispatch({ type: 'patch', patch: { deviceValidation: validation, progress: '' } });
     } catch (e) {
@@ -379,6 +652,67 @@ export function useOrcaAppController(): OrcaAppController {
     } finally {
       dispatch({ type: 'patch', patch: { busy: false } });
     }
+  }, [startOperation]);
+
+  const refreshDeviceLog = useCallback(async () => {
+    const { transport, deviceLog, deviceLogCursor, deviceLogSupported, deviceLogLoading } = stateRef.current;
+    if (!transport || !deviceLogSupported || deviceLogLoading) return;
+
+    const controller = new AbortController();
+    deviceLogAbortRef.current = controller;
+    const { signal } = controller;
+    // Disconnected or switched devices mid-refresh: the state no longer belongs to this transport.
+    const stale = () => stateRef.current.transport !== transport;
+
+    dispatch({ type: 'patch', patch: { deviceLogLoading: true, deviceLogError: '' } });
+    let records = deviceLog;
+    let cursor = deviceLogCursor;
+    // Keep whatever was read before a failure; the cursor resumes after it on the next refresh.
+    const keepRecords = (patch: Partial<OrcaAppState> = {}) => {
+      if (stale()) return;
+      if (signal.aborted) {
+        // Cleared mid-refresh: drop the records but don't read them again.
+        dispatch({ type: 'patch', patch: { deviceLogCursor: cursor } });
+        return;
+      }
+      if (records.length > DEVICE_LOG_MAX_RECORDS) {
+        records = records.slice(records.length - DEVICE_LOG_MAX_RECORDS);
+      }
+      dispatch({ type: 'patch', patch: { deviceLog: records, deviceLogCursor: cursor, ...patch } });
+    };
+    try {
+      for (let i = 0; i < DEVICE_LOG_MAX_CHUNKS; i++) {
+        const chunk = await transport.getLog(cursor, { signal });
+        records = records.concat(chunk.records);
+        cursor = chunk.nextCursor;
+        if (!chunk.more) break;
+      }
+      keepRecords();
+    } catch (e) {
+      if (e instanceof OrcaDeviceError && e.err === OrcaErr.UNSUPPORTED_CMD) {
+        if (!stale()) dispatch({ type: 'patch', patch: { deviceLogSupported: false } });
+      } else {
+        keepRecords({ deviceLogError: e instanceof Error ? e.message : String(e) });
+      }
+    } finally {
+      if (deviceLogAbortRef.current === controller) deviceLogAbortRef.current = null;
+      if (!stale()) {
+        dispatch({ type: 'patch', patch: { deviceLogLoading: false } });
+      }
+    }
+  }, []);
+
+  const clearDeviceLog = useCallback(() => {
+    deviceLogAbortRef.current?.abort();
+    dispatch({ type: 'patch', patch: { deviceLog: [], deviceLogError: '' } });
+  }, []);
+
+  const exportDeviceLog = useCallback(() => {
+    const { deviceLog } = stateRef.current;
+    if (deviceLog.length === 0) return;
+    const bytes = new TextEncoder().encode(formatLogText(deviceLog));
+    const stamp = new Date().toISOString().replace(/[:.]/g, '-');
+    downloadBytes(`orca-device-log-${stamp}.txt`, bytes, 'text/plain');
   }, []);
 
   const saveToDevice = useCallback(async () => {
@@ -388,29 +722,33 @@ export function useOrcaAppController(): OrcaAppController {
     if (!transport || !deviceInfo || !baseBlob || !draft) return;
 
     dispatch({ type: 'patch', patch: { lastError: '', progress: 'Saving...', deviceValidation: null } });
+    const signal = startOperation();
     try {
       dispatch({ type: 'patch', patch: { busy: true } });
-      await transport.beginSession();
+      await transport.beginSession({ signal });
       const staged = buildSettingsBlob(baseBlob, draft);
       await transport.writeBlob(slot, staged, {
         maxChunk: deviceInfo.maxChunk,
+        signal,
         onProgress: (offset, total) => dispatch({ type: 'patch', patch: { progress: `Writing ${offset}/${total}...` } }),
       });
-      const v = await transport.validateStaged(slot);
+      const v = await transport.validateStaged(slot, { signal });
       const decoded = decodeStagedInvalidMask(v.invalidMask);
       dispatch({ type: 'patch', patch: { deviceValidation: { ...v, decoded } } });
       if (v.invalidMask !== 0) throw new Error(`Validation failed: ${decoded.join(', ')}`);
 
-      await transport.unlockWrites();
-      await transport.commitStaged(slot);
+      await transport.unlockWrites({ signal });
+      await transport.commitStaged(slot, { signal });
 
       const readBack = await transport.readBlob(slot, {
         blobSize: deviceInfo.blobSize,
         maxChunk: deviceInfo.maxChunk,
+        signal,
       });
       const res = tryParseSettingsBlob(readBack);
       if (!res.ok) throw new Error(`Read-back failed: ${res.error}`);
       updateSlotState(slot, { baseBlob: readBack, parsed: res.value, draft: res.value.draft, dirty: false });
+      discardAutosave(deviceInfo.schemaId, [slot]);
 
       if (rebootAfterSave) {
         dispatch({ type: 'patch', patch: { progress: 'Rebooting...' } });
@@ -426,12 +764,14 @@ export function useOrcaAppController(): OrcaAppController {
         resetConnection({ lastError: 'Device disconnected. Please reconnect.' });
       } else {
         dispatch({ type: 'patch', patch: { lastError: errorMsg } });
+        // Pull whatever the firmware logged about the failure.
+        void refreshDeviceLog();
       }
       dispatch({ type: 'patch', patch: { progress: '' } });
     } finally {
       dispatch({ type: 'patch', patch: { busy: false } });
     }
-  }, [resetConnection, updateSlotState]);
+  }, [discardAutosave, refreshDeviceLog, resetConnection, startOperation, updateSlotState]);
 
   const resetDefaultsOnDevice = useCallback(async () => {
     const { transport, deviceInfo, configMode } = stateRef.current;
@@ -439,12 +779,14 @@ export function useOrcaAppController(): OrcaAppController {
     if (!transport || !deviceInfo) return;
 
     dispatch({ type: 'patch', patch: { lastError: '', progress: 'Resetting...', deviceValidation: null } });
+    const signal = startOperation();
     try {
       dispatch({ type: 'patch', patch: { busy: true } });
-      await transport.beginSession();
-      await transport.unlockWrites();
-      await transport.resetDefaults(slot);
-      const readBack = await transport.readBlob(slot, { blobSize: deviceInfo.blobSize, maxChunk: deviceInfo.maxChunk });
+      await transport.beginSession({ signal });
+      await transport.unlockWrites({ signal });
+      await transport.resetDefaults(slot, { signal });
+      discardAutosave(deviceInfo.schemaId, [slot]);
+      const readBack = await transport.readBlob(slot, { blobSize: deviceInfo.blobSize, maxChunk: deviceInfo.maxChunk, signal });
       const res = tryParseSettingsBlob(readBack);
       if (!res.ok) throw new Error(res.error);
       updateSlotState(slot, { baseBlob: readBack, parsed: res.value, draft: res.value.draft, dirty: false });
@@ -454,23 +796,25 @@ export function useOrcaAppController(): OrcaAppController {
     } finally {
       dispatch({ type: 'patch', patch: { busy: false } });
     }
-  }, [updateSlotState]);
+  }, [discardAutosave, startOperation, updateSlotState]);
 
   const factoryResetOnDevice = useCallback(async () => {
     const { transport, deviceInfo } = stateRef.current;
     if (!transport || !deviceInfo) return;
 
     dispatch({ type: 'patch', patch: { lastError: '', progress: 'Factory resetting...', deviceValidation: null } });
+    const signal = startOperation();
     try {
       dispatch({ type: 'patch', patch: { busy: true } });
-      await transport.beginSession();
-      await transport.unlockWrites();
-      await transport.factoryReset();
+      await transport.beginSession({ signal });
+      await transport.unlockWrites({ signal });
+      await transport.factoryReset({ signal });
+      discardAutosave(deviceInfo.schemaId, [0, 1]);
 
       const slotCount = Math.min(deviceInfo.slotCount, 2);
       for (let slot = 0; slot < slotCount; slot++) {
         dispatch({ type: 'patch', patch: { progress: `Reading ${slotDisplayName(slot as SlotId)}...` } });
-        const blob = await transport.readBlob(slot, { blobSize: deviceInfo.blobSize, maxChunk: deviceInfo.maxChunk });
+        const blob = await transport.readBlob(slot, { blobSize: deviceInfo.blobSize, maxChunk: deviceInfo.maxChunk, signal });
         const res = tryParseSettingsBlob(blob);
         if (!res.ok) throw new Error(`${slotDisplayName(slot as SlotId)}: ${res.error}`);
         updateSlotState(slot as SlotId, { baseBlob: blob, parsed: res.value, draft: res.value.draft, dirty: false });
@@ -482,7 +826,7 @@ export function useOrcaAppController(): OrcaAppController {
     } finally {
       dispatch({ type: 'patch', patch: { busy: false } });
     }
-  }, [updateSlotState]);
+  }, [discardAutosave, startOperation, updateSlotState]);
 
   const rebootNow = useCallback(async () => {
     const { transport } = stateRef.current;
@@ -546,7 +890,7 @@ export function useOrcaAppController(): OrcaAppController {
     }
 
     // Now export with loaded blobs
-    const json = serializeDeviceFileV1(orcaBlob, gp2040Blob);
+    const json = serializeDeviceFileV2(orcaBlob, gp2040Blob);
     const bytes = new TextEncoder().encode(json);
     downloadBytes('orca-device-current.json', bytes, 'application/json');
   }, [updateSlotState]);
@@ -606,12 +950,12 @@ export function useOrcaAppController(): OrcaAppController {
     const gp2040BlobWithDraft = gp2040Blob && latestStates[1].draft
       ? buildSettingsBlob(gp2040Blob, latestStates[1].draft)
       : gp2040Blob;
-    const json = serializeDeviceFileV1(orcaBlobWithDraft, gp2040BlobWithDraft);
+    const json = serializeDeviceFileV2(orcaBlobWithDraft, gp2040BlobWithDraft);
     const bytes = new TextEncoder().encode(json);
     downloadBytes('orca-device-draft.json', bytes, 'application/json');
   }, [updateSlotState]);
 
-  const exportCurrentProfile = useCallback(() => {
+  const exportCurrentProfile = useCallback((format: 'json' | 'text' = 'json') => {
     const { configMode, slotStates } = stateRef.current;
     const slot = modeToSlotId(configMode);
     const draft = slotStates[slot].draft;
@@ -620,77 +964,210 @@ export function useOrcaAppController(): OrcaAppController {
     dispatch({ type: 'patch', patch: { lastError: '', progress: '', deviceValidation: null } });
 
     const activeProfile = draft.activeProfile ?? 0;
-    const label = draft.profileLabels[activeProfile]?.trim() || `Profile ${activeProfile + 1}`;
-    const digitalMapping = draft.digitalMappings[activeProfile];
-    const analogMapping = draft.analogMappings[activeProfile];
-    const dpadLayer = draft.dpadLayer[activeProfile];
-    const triggerPolicy = draft.triggerPolicy[activeProfile];
-    const stickCurveParams = draft.stickCurveParams[activeProfile];
-
-    if (!digitalMapping || !analogMapping || !dpadLayer || !triggerPolicy || !stickCurveParams) {
+    const fileData = extractProfileFromDraft(draft, activeProfile, configMode);
+    if (!fileData) {
       dispatch({ type: 'patch', patch: { lastError: 'Cannot export profile: missing profile data.' } });
       return;
     }
 
-    const fileData: OrcaProfileFileV1 = {
-      type: ORCA_PROFILE_FILE_TYPE,
-      version: ORCA_PROFILE_FILE_VERSION,
-      mode: configMode,
-      label,
-      digitalMapping: [...digitalMapping],
-      analogMapping: [...analogMapping],
-      dpadLayer,
-      triggerPolicy,
-      stickCurveParams,
+    const text = format === 'text' ? serializeProfileText(fileData) : serializeProfileFileV1(fileData);
+    const bytes = new TextEncoder().encode(text);
+    const filename = `orca-profile-${configMode}-p${activeProfile + 1}-${sanitizeFilenamePart(fileData.label)}`;
+    if (format === 'text') {
+      downloadBytes(`${filename}.toml`, bytes, 'text/plain');
+    } else {
+      downloadBytes(`${filename}.json`, bytes, 'application/json');
+    }
+  }, []);
+
+  const shareCurrentProfile = useCallback(async () => {
+    const { configMode, slotStates } = stateRef.current;
+    const draft = slotStates[modeToSlotId(configMode)].draft;
+    if (!draft) return;
+
+    dispatch({ type: 'patch', patch: { lastError: '' } });
+    const fileData = extractProfileFromDraft(draft, draft.activeProfile ?? 0, configMode);
+    if (!fileData) {
+      dispatch({ type: 'patch', patch: { lastError: 'Cannot share profile: missing profile data.' } });
+      return;
+    }
+
+    let url: string;
+    try {
+      url = profileLinkUrl(window.location.href, await encodeProfileLink(fileData));
+    } catch (e) {
+      dispatch({ type: 'patch', patch: { lastError: e instanceof Error ? e.message : String(e) } });
+      return;
+    }
+    try {
+      await navigator.clipboard.writeText(url);
+      window.alert(`Link to "${fileData.label}" copied to the clipboard.`);
+    } catch {
+      window.prompt('Copy this link to share the profile:', url);
+    }
+  }, []);
+
+  const showCurrentProfileQr = useCallback(async () => {
+    const { configMode, slotStates } = stateRef.current;
+    const draft = slotStates[modeToSlotId(configMode)].draft;
+    if (!draft) return;
+
+    dispatch({ type: 'patch', patch: { lastError: '' } });
+    const fileData = extractProfileFromDraft(draft, draft.activeProfile ?? 0, configMode);
+    if (!fileData) {
+      dispatch({ type: 'patch', patch: { lastError: 'Cannot share profile: missing profile data.' } });
+      return;
+    }
+    try {
+      const codes = await encodeProfileQrCodes(fileData);
+      dispatch({ type: 'patch', patch: { profileQr: { label: fileData.label, codes } } });
+    } catch (e) {
+      dispatch({ type: 'patch', patch: { lastError: e instanceof Error ? e.message : String(e) } });
+    }
+  }, []);
+
+  const dismissProfileQr = useCallback(() => {
+    dispatch({ type: 'patch', patch: { profileQr: null } });
+  }, []);
+
+  // Scanned profiles go through the same preview and import as share links.
+  const openScannedProfile = useCallback((profile: OrcaProfileFileV1) => {
+    dispatch({ type: 'patch', patch: { sharedProfile: profile, sharedProfileSource: null, lastError: '' } });
+  }, []);
+
+  // Share links open the app with the profile in the fragment; nothing is fetched, so this works offline.
+  useEffect(() => {
+    const readFragment = () => {
+      const payload = readProfileLinkFragment(window.location.hash);
+      if (!payload) return;
+      decodeProfileLink(payload)
+        .then((profile) => dispatch({ type: 'patch', patch: { sharedProfile: profile, sharedProfileSource: null } }))
+        .catch((e: unknown) => dispatch({ type: 'patch', patch: { lastError: e instanceof Error ? e.message : String(e) } }));
     };
+    readFragment();
+    window.addEventListener('hashchange', readFragment);
+    return () => window.removeEventListener('hashchange', readFragment);
+  }, []);
 
-    const json = serializeProfileFileV1(fileData);
-    const bytes = new TextEncoder().encode(json);
-    const filename = `orca-profile-${configMode}-p${activeProfile + 1}-${sanitizeFilenamePart(label)}.json`;
-    downloadBytes(filename, bytes, 'application/json');
+  const dismissSharedProfile = useCallback(() => {
+    dispatch({ type: 'patch', patch: { sharedProfile: null, sharedProfileSource: null } });
+    if (readProfileLinkFragment(window.location.hash)) {
+      window.history.replaceState(null, '', window.location.pathname + window.location.search);
+    }
   }, []);
 
+  const importSharedProfile = useCallback((profileIndex: number) => {
+    const { configMode, slotStates, sharedProfile } = stateRef.current;
+    const slot = modeToSlotId(configMode);
+    const { baseBlob, draft } = slotStates[slot];
+    if (!sharedProfile || !draft) return;
+
+    dispatch({ type: 'patch', patch: { lastError: '', deviceValidation: null } });
+    try {
+      assertProfileModeMatches(sharedProfile.mode, configMode);
+      const updated = applyImportedProfileToDraft(draft, profileIndex, sharedProfile);
+      if (baseBlob) {
+        buildSettingsBlob(baseBlob, updated);
+      }
+      onDraftChange(updated, { label: `Import shared "${sharedProfile.label}" to profile ${profileIndex + 1}` });
+      dismissSharedProfile();
+    } catch (e) {
+      dispatch({ type: 'patch', patch: { lastError: e instanceof Error ? e.message : String(e) } });
+    }
+  }, [dismissSharedProfile, onDraftChange]);
+
   const importDeviceBlobFromFile = useCallback(async (file: File) => {
     dispatch({ type: 'patch', patch: { lastError: '', progress: '', deviceValidation: null } });
     try {
       dispatch({ type: 'patch', patch: { busy: true } });
-      const text = await file.text();
-
-      // Try to parse as JSON (new format)
-      try {
-        const { orcaSlot, gp2040Slot } = parseDeviceFileV1(text);
-
-        // Update Orca slot if present
-        if (orcaSlot) {
-          const res = tryParseSettingsBlob(orcaSlot);
-          if (!res.ok) throw new Error(`Orca slot: ${res.error}`);
-          updateSlotState(0, { baseBlob: orcaSlot, parsed: res.value, draft: res.value.draft, dirty: true });
-        }
-
-        // Update GP2040 slot if present
-        if (gp2040Slot) {
-          const res = tryParseSettingsBlob(gp2040Slot);
-          if (!res.ok) throw new Error(`GP2040 slot: ${res.error}`);
-          updateSlotState(1, { baseBlob: gp2040Slot, parsed: res.value, draft: res.value.draft, dirty: true });
+      // Legacy binary files import into the current mode only (backward compatibility).
+      const slots = await readDeviceFileSlots(file, modeToSlotId(stateRef.current.configMode));
+      const pending: { slot: SlotId; loaded: LoadedSettingsBlob }[] = [];
+      for (const slot of [0, 1] as SlotId[]) {
+        const blob = slots[slot];
+        if (!blob) continue;
+        try {
+          pending.push({ slot, loaded: loadSlotBlob(blob, slot, stateRef.current.slotStates[slot].baseBlob) });
+        } catch (e) {
+          throw new Error(`${slot === 0 ? 'Orca' : 'GP2040'} slot: ${e instanceof Error ? e.message : String(e)}`);
         }
-      } catch (jsonError) {
-        // Not valid JSON, try as legacy binary format
-        const ab = await file.arrayBuffer();
-        const blob = new Uint8Array(ab);
-        const res = tryParseSettingsBlob(blob);
-        if (!res.ok) throw new Error(res.error);
-
-        // Import to current mode only (backward compatibility)
-        const slot = modeToSlotId(stateRef.current.configMode);
-        updateSlotState(slot, { baseBlob: blob, parsed: res.value, draft: res.value.draft, dirty: true });
       }
+      if (pending.length === 0) throw new Error('Device file contains no slots');
+      dispatch({ type: 'patch', patch: { pendingDeviceImport: { source: file.name, slots: pending } } });
     } catch (e) {
       dispatch({ type: 'patch', patch: { lastError: e instanceof Error ? e.message : String(e) } });
     } finally {
       dispatch({ type: 'patch', patch: { busy: false } });
     }
+  }, []);
+
+  const applyDeviceImport = useCallback((selection: DeviceImportSelection) => {
+    const { pendingDeviceImport: pending, slotStates } = stateRef.current;
+    if (!pending) return;
+    dispatch({ type: 'patch', patch: { pendingDeviceImport: null, lastError: '', deviceValidation: null } });
+
+    const reports: { slot: SlotId; report: SettingsMigrationReport }[] = [];
+    const errors: string[] = [];
+    for (const { slot, loaded } of pending.slots) {
+      const choice = selection[slot];
+      if (!choice) continue;
+      if (choice.wholeSlot) {
+        updateSlotState(slot, { baseBlob: loaded.blob, parsed: loaded.parsed, draft: loaded.parsed.draft, dirty: true });
+        if (loaded.migration) reports.push({ slot, report: loaded.migration });
+        continue;
+      }
+
+      if (choice.profiles.length === 0) continue;
+      const draft = slotStates[slot].draft;
+      if (!draft) {
+        errors.push(`${slotDisplayName(slot)}: load this mode from the controller before importing individual profiles`);
+        continue;
+      }
+      const updated = importProfilesIntoDraft(draft, loaded.parsed.draft, slotIdToMode(slot), choice.profiles);
+      const validation = validateSettingsDraft(updated, slotStates[slot].parsed?.draft);
+      if (validation.errors.length > 0) {
+        errors.push(`${slotDisplayName(slot)}: ${validation.errors.join('; ')}`);
+        continue;
+      }
+      const count = choice.profiles.length;
+      dispatch({
+        type: 'edit_draft',
+        slot,
+        draft: updated,
+        meta: { label: `Import ${count} profile${count === 1 ? '' : 's'} from ${pending.source}` },
+        at: Date.now(),
+      });
+    }
+    if (errors.length > 0) dispatch({ type: 'patch', patch: { lastError: errors.join(' · ') } });
+    if (reports.length > 0) dispatch({ type: 'patch', patch: { settingsMigration: { source: pending.source, reports } } });
   }, [updateSlotState]);
 
+  const cancelDeviceImport = useCallback(() => {
+    dispatch({ type: 'patch', patch: { pendingDeviceImport: null } });
+  }, []);
+
+  const compareDeviceFiles = useCallback(async (before: File, after: File): Promise<DeviceFileComparison | null> => {
+    dispatch({ type: 'patch', patch: { lastError: '' } });
+    try {
+      const fallbackSlot = modeToSlotId(stateRef.current.configMode);
+      const a = await readDeviceFileSlots(before, fallbackSlot);
+      const b = await readDeviceFileSlots(after, fallbackSlot);
+      const slots: SlotId[] = [0, 1];
+      return slots
+        .filter((slot) => a[slot] || b[slot])
+        .map((slot) => {
+          const x = a[slot];
+          const y = b[slot];
+          if (!x || !y) return { slot, diff: null, note: `Only in ${x ? before.name : after.name}` };
+          const mode = slot === 1 ? 'gp2040' : 'orca';
+          return { slot, diff: diffSettingsBlobs(x, y, { mode, gp2040LabelPreset: gp2040LabelPresetState }) };
+        });
+    } catch (e) {
+      dispatch({ type: 'patch', patch: { lastError: e instanceof Error ? e.message : String(e) } });
+      return null;
+    }
+  }, [gp2040LabelPresetState]);
+
   const importProfileFromFile = useCallback(async (file: File) => {
     dispatch({ type: 'patch', patch: { lastError: '', progress: '', deviceValidation: null } });
     try {
@@ -701,22 +1178,16 @@ export function useOrcaAppController(): OrcaAppController {
       const draft = slotStates[slot].draft;
       if (!draft) return;
 
-      const jsonText = await file.text();
-      const imported = parseProfileFileV1(jsonText);
+      const text = await file.text();
+      const imported = isProfileText(text) ? parseProfileText(text).profile : parseProfileFileV1(text);
 
-      if (imported.mode !== configMode) {
-        const want = imported.mode === 'orca' ? 'Orca Mode (Primary)' : 'GP2040 Mode (Secondary)';
-        const current = configMode === 'orca' ? 'Orca Mode (Primary)' : 'GP2040 Mode (Secondary)';
-        throw new Error(
-          `Incompatible profile: this file is for ${want}. You're currently editing ${current}. Switch modes to import.`,
-        );
-      }
+      assertProfileModeMatches(imported.mode, configMode);
 
       const updated = applyImportedProfileToDraft(draft, draft.activeProfile ?? 0, imported);
       if (baseBlob) {
         buildSettingsBlob(baseBlob, updated);
       }
-      onDraftChange(updated);
+      onDraftChange(updated, { label: `Import profile "${imported.label}"` });
     } catch (e) {
       dispatch({ type: 'patch', patch: { lastError: e instanceof Error ? e.message : String(e) } });
     } finally {
@@ -724,10 +1195,145 @@ export function useOrcaAppController(): OrcaAppController {
     }
   }, [onDraftChange]);
 
+  // Layouts from other firmware open in the shared-profile preview, with what could not be converted.
+  const convertProfileFromFile = useCallback(async (file: File) => {
+    dispatch({ type: 'patch', patch: { lastError: '', progress: '', deviceValidation: null } });
+    try {
+      const { configMode, slotStates } = stateRef.current;
+      const draft = slotStates[modeToSlotId(configMode)].draft;
+      if (!draft) return;
+      const base = extractProfileFromDraft(draft, draft.activeProfile ?? 0, configMode);
+      if (!base) throw new Error('Cannot convert layout: missing profile data.');
+
+      const text = await file.text();
+      let json: unknown = null;
+      try {
+        json = JSON.parse(text);
+      } catch {
+        // HayBox button_mappings source
+      }
+      const firmware = !isHayboxConfig(text) && isGp2040Config(json) ? 'GP2040-CE' : 'HayBox';
+      const converted = firmware === 'GP2040-CE' ? importGp2040Config(text, base) : importHayboxConfig(text, base);
+      dispatch({
+        type: 'patch',
+        patch: {
+          sharedProfile: { ...converted.profile, label: `${firmware} layout` },
+          sharedProfileSource: { title: `${firmware} layout from "${file.name}"`, issues: converted.issues },
+        },
+      });
+    } catch (e) {
+      dispatch({ type: 'patch', patch: { lastError: e instanceof Error ? e.message : String(e) } });
+    }
+  }, []);
+
+  const exportGp2040Layout = useCallback(() => {
+    const { configMode, slotStates } = stateRef.current;
+    const draft = slotStates[modeToSlotId(configMode)].draft;
+    if (!draft) return;
+
+    dispatch({ type: 'patch', patch: { lastError: '' } });
+    try {
+      const fileData = extractProfileFromDraft(draft, draft.activeProfile ?? 0, configMode);
+      if (!fileData) throw new Error('Cannot export layout: missing profile data.');
+      const { json, issues } = exportGp2040Config(fileData);
+      downloadBytes(`gp2040-ce-pin-mappings-${sanitizeFilenamePart(fileData.label)}.json`, new TextEncoder().encode(json), 'application/json');
+      window.alert(`Exported the GP2040-CE pin mappings. Not included:\n\n${issues.map((issue) => `- ${issue}`).join('\n')}`);
+    } catch (e) {
+      dispatch({ type: 'patch', patch: { lastError: e instanceof Error ? e.message : String(e) } });
+    }
+  }, []);
+
+  // ---- Profile library ----
+
+  useEffect(() => {
+    let cancelled = false;
+    listLibraryProfiles()
+      .then((entries) => {
+        if (!cancelled) dispatch({ type: 'patch', patch: { profileLibrary: entries } });
+      })
+      .catch(() => {
+        // ignore
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const storeLibraryEntry = useCallback(async (entry: Parameters<typeof putLibraryProfile>[0]) => {
+    const saved = await putLibraryProfile(entry);
+    const rest = stateRef.current.profileLibrary.filter((e) => e.id !== saved.id);
+    dispatch({ type: 'patch', patch: { profileLibrary: [...rest, saved] } });
+  }, []);
+
+  const saveProfileToLibrary = useCallback(async (profileIndex: number, label: string, tags: string[]) => {
+    const { configMode, slotStates } = stateRef.current;
+    const draft = slotStates[modeToSlotId(configMode)].draft;
+    if (!draft) return;
+    dispatch({ type: 'patch', patch: { lastError: '' } });
+    try {
+      const profile = extractProfileFromDraft(draft, profileIndex, configMode);
+      if (!profile) throw new Error('Cannot save profile: missing profile data.');
+      if (label.trim()) profile.label = label.trim();
+      await storeLibraryEntry({ profile, tags: normalizeProfileTags(tags) });
+    } catch (e) {
+      dispatch({ type: 'patch', patch: { lastError: e instanceof Error ? e.message : String(e) } });
+    }
+  }, [storeLibraryEntry]);
+
+  const updateLibraryProfile = useCallback(async (id: string, patch: { label?: string; tags?: string[] }) => {
+    const entry = stateRef.current.profileLibrary.find((e) => e.id === id);
+    if (!entry) return;
+    dispatch({ type: 'patch', patch: { lastError: '' } });
+    try {
+      const label = patch.label?.trim() || entry.profile.label;
+      const tags = patch.tags ? normalizeProfileTags(patch.tags) : entry.tags;
+      await storeLibraryEntry({ ...entry, profile: { ...entry.profile, label }, tags });
+    } catch (e) {
+      dispatch({ type: 'patch', patch: { lastError: e instanceof Error ? e.message : String(e) } });
+    }
+  }, [storeLibraryEntry]);
+
+  const deleteLibraryProfileById = useCallback(async (id: string) => {
+    const entry = stateRef.current.profileLibrary.find((e) => e.id === id);
+    if (!entry) return;
+    if (!window.confirm(`Delete "${entry.profile.label}" from the profile library?`)) return;
+    dispatch({ type: 'patch', patch: { lastError: '' } });
+    try {
+      await deleteLibraryProfile(id);
+      dispatch({ type: 'patch', patch: { profileLibrary: stateRef.current.profileLibrary.filter((e) => e.id !== id) } });
+    } catch (e) {
+      dispatch({ type: 'patch', patch: { lastError: e instanceof Error ? e.message : String(e) } });
+    }
+  }, []);
+
+  const applyLibraryProfile = useCallback((id: string, profileIndex: number) => {
+    const { configMode, slotStates, profileLibrary } = stateRef.current;
+    const entry = profileLibrary.find((e) => e.id === id);
+    const slot = modeToSlotId(configMode);
+    const { baseBlob, draft } = slotStates[slot];
+    if (!entry || !draft) return;
+
+    dispatch({ type: 'patch', patch: { lastError: '', deviceValidation: null } });
+    try {
+      assertProfileModeMatches(entry.profile.mode, configMode);
+      const updated = applyImportedProfileToDraft(draft, profileIndex, entry.profile);
+      if (baseBlob) {
+        buildSettingsBlob(baseBlob, updated);
+      }
+      onDraftChange(updated, { label: `Apply "${entry.profile.label}" to profile ${profileIndex + 1}` });
+    } catch (e) {
+      dispatch({ type: 'patch', patch: { lastError: e instanceof Error ? e.message : String(e) } });
+    }
+  }, [onDraftChange]);
+
   const setAllowUnsafeWrites = useCallback((next: boolean) => {
     dispatch({ type: 'patch', patch: { allowUnsafeWrites: next } });
   }, []);
 
+  const dismissSettingsMigration = useCallback(() => {
+    dispatch({ type: 'patch', patch: { settingsMigration: null } });
+  }, []);
+
   const setRebootAfterSave = useCallback((next: boolean) => {
     dispatch({ type: 'patch', patch: { rebootAfterSave: next } });
   }, []);
@@ -774,10 +1380,21 @@ export function useOrcaAppController(): OrcaAppController {
     deviceErrors,
     deviceRepaired,
     remappedCount,
+    history,
     connect,
+    connectVirtualDevice,
+    resetVirtualDevice,
     disconnect,
     handleModeChange,
     onDraftChange,
+    undo,
+    redo,
+    saveProfileToLibrary,
+    updateLibraryProfile,
+    deleteLibraryProfile: deleteLibraryProfileById,
+    applyLibraryProfile,
+    resolveDraftRecovery,
+    dismissSettingsMigration,
     setActiveProfile,
     renameProfile,
     markAsDefault,
@@ -793,8 +1410,23 @@ export function useOrcaAppController(): OrcaAppController {
     exportCurrentBlob,
     exportDraftBlob,
     exportCurrentProfile,
+    shareCurrentProfile,
+    showCurrentProfileQr,
+    dismissProfileQr,
+    openScannedProfile,
+    importSharedProfile,
+    dismissSharedProfile,
     importDeviceBlobFromFile,
+    applyDeviceImport,
+    cancelDeviceImport,
     importProfileFromFile,
+    convertProfileFromFile,
+    exportGp2040Layout,
+    compareDeviceFiles,
+    cancelOperation,
+    refreshDeviceLog,
+    clearDeviceLog,
+    exportDeviceLog,
     setAllowUnsafeWrites,
     setRebootAfterSave,
     setShowResetConfirm,
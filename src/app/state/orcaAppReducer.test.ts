@@ -0,0 +1,76 @@
+import { describe, expect, it } from 'vitest';
+import { makeDefaultSettingsBlob } from '../../schema/settingsDefaults';
+import { parseSettingsBlob, type SettingsDraft } from '../../schema/settingsBlob';
+import { renameProfileInDraft } from '../domain/draftMutations';
+import { DRAFT_HISTORY_LIMIT, createInitialOrcaAppState, orcaAppReducer, type OrcaAppState } from './orcaAppReducer';
+
+function loadedState(): OrcaAppState {
+  const blob = makeDefaultSettingsBlob(0, 1);
+  const parsed = parseSettingsBlob(blob);
+  return orcaAppReducer(createInitialOrcaAppState(), {
+    type: 'set_slot_state',
+    slot: 0,
+    patch: { baseBlob: blob, parsed, draft: parsed.draft, dirty: false },
+  });
+}
+
+function rename(state: OrcaAppState, name: string, at: number, coalesceKey?: string): OrcaAppState {
+  const draft = renameProfileInDraft(state.slotStates[0].draft!, 0, name);
+  return orcaAppReducer(state, { type: 'edit_draft', slot: 0, draft, meta: { label: `Rename ${name}`, coalesceKey }, at });
+}
+
+function label(state: OrcaAppState): string {
+  return (state.slotStates[0].draft as SettingsDraft).profileLabels[0]!;
+}
+
+describe('orcaAppReducer draft history', () => {
+  it('undoes and redoes edits, restoring the dirty flag', () => {
+    let state = rename(loadedState(), 'A', 0);
+    state = rename(state, 'B', 5000);
+    expect(state.slotStates[0].history.past.map((s) => s.label)).toEqual(['Rename A', 'Rename B']);
+
+    state = orcaAppReducer(state, { type: 'undo', slot: 0 });
+    expect(label(state)).toBe('A');
+    state = orcaAppReducer(state, { type: 'undo', slot: 0 });
+    expect(label(state)).toBe('Profile 1');
+    expect(state.slotStates[0].dirty).toBe(false);
+    // Nothing left to undo.
+    expect(orcaAppReducer(state, { type: 'undo', slot: 0 }).slotStates[0]).toEqual(state.slotStates[0]);
+
+    state = orcaAppReducer(state, { type: 'redo', slot: 0, steps: 2 });
+    expect(label(state)).toBe('B');
+    expect(state.slotStates[0].dirty).toBe(true);
+    expect(state.slotStates[0].history.future).toEqual([]);
+  });
+
+  it('drops the redo stack on a new edit', () => {
+    let state = rename(rename(loadedState(), 'A', 0), 'B', 5000);
+    state = orcaAppReducer(state, { type: 'undo', slot: 0 });
+    state = rename(state, 'C', 10000);
+    expect(state.slotStates[0].history.future).toEqual([]);
+    expect(state.slotStates[0].history.past.map((s) => s.label)).toEqual(['Rename A', 'Rename C']);
+  });
+
+  it('coalesces a slider drag into one step', () => {
+    let state = loadedState();
+    for (let i = 0; i < 5; i++) state = rename(state, `drag ${i}`, i * 100, 'slider');
+    state = rename(state, 'later', 5000, 'slider');
+    expect(state.slotStates[0].history.past).toHaveLength(2);
+
+    state = orcaAppReducer(state, { type: 'undo', slot: 0 });
+    expect(label(state)).toBe('drag 4');
+    state = orcaAppReducer(state, { type: 'undo', slot: 0 });
+    expect(label(state)).toBe('Profile 1');
+  });
+
+  it('caps the history and resets it when a new base blob is loaded', () => {
+    let state = loadedState();
+    for (let i = 0; i < DRAFT_HISTORY_LIMIT + 5; i++) state = rename(state, `n${i}`, i * 5000);
+    expect(state.slotStates[0].history.past).toHaveLength(DRAFT_HISTORY_LIMIT);
+
+    const blob = makeDefaultSettingsBlob(0, 2);
+    const parsed = parseSettingsBlob(blob);
+    state = orcaAppReducer(state, { type: 'set_slot_state', slot: 0, patch: { baseBlob: blob, parsed, draft: parsed.draft, dirty: false } });
+    expect(state.slotStates[0].history).toEqual({ past: [], future: [] });
+  });
+});
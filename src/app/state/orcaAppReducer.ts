@@ -1,22 +1,97 @@
+import type { OrcaLogRecord } from '../../protocol/orcaLog';
+import type { QrCode } from '../../qr/qrCode';
+import type { OrcaProfileFileV1 } from '../../schema/profileFile';
 import type { ParsedSettings, SettingsDraft } from '../../schema/settingsBlob';
+import type { DraftMergeResult } from '../../schema/settingsMerge';
+import type { LoadedSettingsBlob, SettingsMigrationReport } from '../../schema/settingsMigration';
 import type { DeviceInfo, OrcaTransport, ValidateStagedResult } from '../../usb/OrcaTransport';
+import type { ProfileImportChoice } from '../domain/draftMutations';
+import type { ProfileLibraryEntry } from '../domain/profileLibrary';
 import type { SlotId, SlotMode } from '../utils/slot';
 
 export type DeviceValidationState = ValidateStagedResult & { decoded: string[] };
 
+// Describes a draft edit for the undo history. Consecutive edits with the same `coalesceKey`
+// (e.g. one slider drag) collapse into a single step.
+export type DraftEditMeta = {
+  label: string;
+  coalesceKey?: string;
+};
+
+// A snapshot on the other side of an edit: past steps hold the draft before the edit,
+// future steps the draft after it.
+export type DraftHistoryStep = DraftEditMeta & {
+  at: number;
+  draft: SettingsDraft;
+  dirty: boolean;
+};
+
+export type DraftHistory = {
+  past: DraftHistoryStep[];
+  future: DraftHistoryStep[];
+};
+
+export const DRAFT_HISTORY_LIMIT = 100;
+export const DRAFT_HISTORY_COALESCE_MS = 1000;
+
+// Unsaved work found in autosave for a slot that was just read from the controller.
+export type DraftRecoveryState = {
+  slot: SlotId;
+  savedAt: number;
+} & (
+  // The controller still has the blob the draft was based on.
+  | { kind: 'restore'; draft: SettingsDraft }
+  // The controller's settings changed since; local edits need merging.
+  | { kind: 'merge'; merge: DraftMergeResult }
+);
+
+// Settings that were upgraded from an older layout on load, kept until the user dismisses the report.
+export type SettingsMigrationNotice = {
+  source: string;
+  reports: { slot: SlotId; report: SettingsMigrationReport }[];
+};
+
+// A device file that was read but not applied yet; the user picks which slots and profiles to take.
+export type PendingDeviceImport = {
+  source: string;
+  slots: { slot: SlotId; loaded: LoadedSettingsBlob }[];
+};
+
+// Per slot in the file: replace the whole slot, or copy sections of its profiles into the current draft.
+export type DeviceImportSelection = Partial<Record<SlotId, { wholeSlot: boolean; profiles: ProfileImportChoice[] }>>;
+
+// One code, or a sequence to show in turn when the profile does not fit in one.
+export type ProfileQrState = {
+  label: string;
+  codes: QrCode[];
+};
+
+export type SharedProfileSource = {
+  // e.g. "GP2040-CE layout"
+  title: string;
+  // What the converted profile could not represent.
+  issues: string[];
+};
+
 export type SlotState = {
   baseBlob: Uint8Array | null;
   parsed: ParsedSettings | null;
   draft: SettingsDraft | null;
   dirty: boolean;
+  history: DraftHistory;
 };
 
+export function createEmptyDraftHistory(): DraftHistory {
+  return { past: [], future: [] };
+}
+
 export function createEmptySlotState(): SlotState {
   return {
     baseBlob: null,
     parsed: null,
     draft: null,
     dirty: false,
+    history: createEmptyDraftHistory(),
   };
 }
 
@@ -30,6 +105,8 @@ export function createEmptySlotStates(): Record<SlotId, SlotState> {
 export type OrcaAppState = {
   transport: OrcaTransport | null;
   deviceInfo: DeviceInfo | null;
+  // Connected to the in-browser simulator instead of real hardware.
+  virtualDevice: boolean;
   allowUnsafeWrites: boolean;
 
   busy: boolean;
@@ -45,17 +122,41 @@ export type OrcaAppState = {
   showFactoryResetConfirm: boolean;
 
   editingProfile: number | null;
+
+  draftRecovery: DraftRecoveryState | null;
+  settingsMigration: SettingsMigrationNotice | null;
+  pendingDeviceImport: PendingDeviceImport | null;
+  // Profile from a share link the app was opened with, awaiting preview/import.
+  sharedProfile: OrcaProfileFileV1 | null;
+  // Set when sharedProfile was converted from another firmware's layout.
+  sharedProfileSource: SharedProfileSource | null;
+  // QR codes for the active profile while they are on screen.
+  profileQr: ProfileQrState | null;
+
+  // Saved profiles from IndexedDB; survives disconnects.
+  profileLibrary: ProfileLibraryEntry[];
+
+  deviceLog: OrcaLogRecord[];
+  deviceLogCursor: number;
+  deviceLogSupported: boolean;
+  deviceLogLoading: boolean;
+  // Last failed log read; records read before the failure are kept.
+  deviceLogError: string;
 };
 
 export type OrcaAppAction =
   | { type: 'patch'; patch: Partial<OrcaAppState> }
   | { type: 'set_slot_state'; slot: SlotId; patch: Partial<SlotState> }
-  | { type: 'set_slot_states'; slotStates: Record<SlotId, SlotState> };
+  | { type: 'set_slot_states'; slotStates: Record<SlotId, SlotState> }
+  | { type: 'edit_draft'; slot: SlotId; draft: SettingsDraft; meta: DraftEditMeta; at: number }
+  | { type: 'undo'; slot: SlotId; steps?: number }
+  | { type: 'redo'; slot: SlotId; steps?: number };
 
 export function createInitialOrcaAppState(): OrcaAppState {
   return {
     transport: null,
     deviceInfo: null,
+    virtualDevice: false,
     allowUnsafeWrites: false,
 
     busy: false,
@@ -71,6 +172,68 @@ export function createInitialOrcaAppState(): OrcaAppState {
     showFactoryResetConfirm: false,
 
     editingProfile: null,
+
+    draftRecovery: null,
+    settingsMigration: null,
+    pendingDeviceImport: null,
+    sharedProfile: null,
+    sharedProfileSource: null,
+    profileQr: null,
+
+    profileLibrary: [],
+
+    deviceLog: [],
+    deviceLogCursor: 0,
+    deviceLogSupported: true,
+    deviceLogLoading: false,
+    deviceLogError: '',
+  };
+}
+
+function editDraft(slotState: SlotState, draft: SettingsDraft, meta: DraftEditMeta, at: number): SlotState {
+  const { past } = slotState.history;
+  const last = past[past.length - 1];
+  const next = { ...slotState, draft, dirty: true };
+  if (!slotState.draft) return next;
+
+  if (last && meta.coalesceKey && last.coalesceKey === meta.coalesceKey && at - last.at <= DRAFT_HISTORY_COALESCE_MS) {
+    // Keep the snapshot from before the first coalesced edit; just extend the window.
+    return { ...next, history: { past: [...past.slice(0, -1), { ...last, at }], future: [] } };
+  }
+
+  const step: DraftHistoryStep = { ...meta, at, draft: slotState.draft, dirty: slotState.dirty };
+  return { ...next, history: { past: [...past, step].slice(-DRAFT_HISTORY_LIMIT), future: [] } };
+}
+
+function travel(slotState: SlotState, direction: 'undo' | 'redo', steps: number): SlotState {
+  let { draft, dirty } = slotState;
+  let past = slotState.history.past;
+  let future = slotState.history.future;
+  for (let i = 0; i < steps && draft; i++) {
+    const from = direction === 'undo' ? past : future;
+    const step = from[from.length - 1];
+    if (!step) break;
+    const swapped: DraftHistoryStep = { ...step, draft, dirty };
+    if (direction === 'undo') {
+      past = past.slice(0, -1);
+      future = [...future, swapped];
+    } else {
+      future = future.slice(0, -1);
+      past = [...past, swapped];
+    }
+    draft = step.draft;
+    dirty = step.dirty;
+  }
+  return { ...slotState, draft, dirty, history: { past, future } };
+}
+
+function updateSlot(state: OrcaAppState, slot: SlotId, update: (slotState: SlotState) => SlotState): OrcaAppState {
+  return {
+    ...state,
+    slotStates: {
+      ...state.slotStates,
+      [slot]: update(state.slotStates[slot]),
+    },
   };
 }
 
@@ -79,13 +242,17 @@ export function orcaAppReducer(state: OrcaAppState, action: OrcaAppAction): Orca
     case 'patch':
       return { ...state, ...action.patch };
     case 'set_slot_state':
-      return {
-        ...state,
-        slotStates: {
-          ...state.slotStates,
-          [action.slot]: { ...state.slotStates[action.slot], ...action.patch },
-        },
-      };
+      return updateSlot(state, action.slot, (slotState) => ({
+        ...slotState,
+        // Loading a new base blob (device read, import) starts a fresh history.
+        ...('baseBlob' in action.patch ? { history: createEmptyDraftHistory() } : null),
+        ...action.patch,
+      }));
+    case 'edit_draft':
+      return updateSlot(state, action.slot, (slotState) => editDraft(slotState, action.draft, action.meta, action.at));
+    case 'undo':
+    case 'redo':
+      return updateSlot(state, action.slot, (slotState) => travel(slotState, action.type, action.steps ?? 1));
     case 'set_slot_states':
       return {
         ...state,
@@ -1,3 +1,9 @@
+import type { SettingsDiff } from '../schema/settingsDiff';
+import type { SlotId } from './utils/slot';
+
 export type Compatibility = 'ok' | 'major_mismatch' | 'minor_mismatch' | 'unknown';
-export type MainView = 'layout' | 'inputs';
+export type MainView = 'layout' | 'inputs' | 'library' | 'blob';
+
 
+// One entry per slot when comparing two exported configuration files.
+export type DeviceFileComparison = { slot: SlotId; diff: SettingsDiff | null; note?: string }[];
@@ -0,0 +1,52 @@
+import type { SettingsDraft } from '../../schema/settingsBlob';
+import type { SlotId } from './slot';
+import { idbDeleteRange, idbGetAll, idbPut } from './indexedDb';
+
+/**
+ * Unsaved draft for one slot, stored under `[schemaId, slot, baseCrc]`. The base blob is kept
+ * so a draft whose base no longer matches the controller can still be three-way merged.
+ */
+export type DraftAutosave = {
+  schemaId: number;
+  slot: SlotId;
+  baseCrc: number;
+  baseBlob: ArrayBuffer;
+  draft: SettingsDraft;
+  savedAt: number;
+};
+
+function slotRange(schemaId: number, slot: SlotId): IDBKeyRange {
+  return IDBKeyRange.bound([schemaId, slot, 0], [schemaId, slot, 0xffffffff]);
+}
+
+/** Replace the pending draft for this schema and slot. */
+export async function saveDraftAutosave(
+  schemaId: number,
+  slot: SlotId,
+  baseCrc: number,
+  baseBlob: Uint8Array,
+  draft: SettingsDraft,
+): Promise<void> {
+  const record: DraftAutosave = {
+    schemaId,
+    slot,
+    baseCrc: baseCrc >>> 0,
+    baseBlob: baseBlob.slice().buffer as ArrayBuffer,
+    draft,
+    savedAt: Date.now(),
+  };
+  await idbDeleteRange('drafts', slotRange(schemaId, slot));
+  await idbPut('drafts', [schemaId, slot, record.baseCrc], record);
+}
+
+/** Most recent pending draft for this schema and slot, if any. */
+export async function loadDraftAutosave(schemaId: number, slot: SlotId): Promise<DraftAutosave | null> {
+  const records = await idbGetAll<DraftAutosave>('drafts', slotRange(schemaId, slot));
+  const valid = records.filter((r) => r && Array.isArray(r.draft?.profileLabels) && r.baseBlob instanceof ArrayBuffer);
+  if (valid.length === 0) return null;
+  return valid.reduce((a, b) => (b.savedAt > a.savedAt ? b : a));
+}
+
+export async function clearDraftAutosave(schemaId: number, slot: SlotId): Promise<void> {
+  await idbDeleteRange('drafts', slotRange(schemaId, slot));
+}
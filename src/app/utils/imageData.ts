@@ -0,0 +1,33 @@
+// Pixels for QR scanning. Large photos are scaled down first; codes stay readable and scanning stays fast.
+const MAX_SCAN_DIMENSION = 1024;
+
+function drawScaled(source: CanvasImageSource, width: number, height: number): ImageData {
+  const scale = Math.min(1, MAX_SCAN_DIMENSION / Math.max(width, height));
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.max(1, Math.round(width * scale));
+  canvas.height = Math.max(1, Math.round(height * scale));
+  const ctx = canvas.getContext('2d', { willReadFrequently: true });
+  if (!ctx) throw new Error('Canvas is not available in this browser');
+  ctx.drawImage(source, 0, 0, canvas.width, canvas.height);
+  return ctx.getImageData(0, 0, canvas.width, canvas.height);
+}
+
+export async function imageDataFromFile(file: File): Promise<ImageData> {
+  let bitmap: ImageBitmap;
+  try {
+    bitmap = await createImageBitmap(file);
+  } catch {
+    throw new Error(`Cannot read image "${file.name}"`);
+  }
+  try {
+    return drawScaled(bitmap, bitmap.width, bitmap.height);
+  } finally {
+    bitmap.close();
+  }
+}
+
+/** The current video frame, or null before the first frame has arrived. */
+export function imageDataFromVideo(video: HTMLVideoElement): ImageData | null {
+  if (video.readyState < HTMLMediaElement.HAVE_CURRENT_DATA || video.videoWidth === 0) return null;
+  return drawScaled(video, video.videoWidth, video.videoHeight);
+}
@@ -0,0 +1,81 @@
+const DB_NAME = 'orca-web-configurator';
+const DB_VERSION = 3;
+
+// Object stores are keyed out-of-line; callers pick their own keys.
+export type OrcaDbStore = 'virtualDevice' | 'drafts' | 'profiles';
+const STORES: OrcaDbStore[] = ['virtualDevice', 'drafts', 'profiles'];
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error ?? new Error('IndexedDB request failed'));
+  });
+}
+
+export function openOrcaDb(): Promise<IDBDatabase> {
+  if (dbPromise) return dbPromise;
+  if (typeof indexedDB === 'undefined') return Promise.reject(new Error('IndexedDB is not available in this browser'));
+
+  dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      for (const name of STORES) {
+        if (!db.objectStoreNames.contains(name)) db.createObjectStore(name);
+      }
+    };
+    request.onsuccess = () => {
+      const db = request.result;
+      // Another tab upgraded the schema; drop our handle so the next call reopens.
+      db.onversionchange = () => {
+        db.close();
+        dbPromise = null;
+      };
+      resolve(db);
+    };
+    request.onerror = () => reject(request.error ?? new Error('Failed to open IndexedDB'));
+    request.onblocked = () => reject(new Error('IndexedDB upgrade blocked by another tab'));
+  });
+  dbPromise.catch(() => {
+    dbPromise = null;
+  });
+  return dbPromise;
+}
+
+async function withStore<T>(
+  store: OrcaDbStore,
+  mode: IDBTransactionMode,
+  run: (objectStore: IDBObjectStore) => IDBRequest<T>,
+): Promise<T> {
+  const db = await openOrcaDb();
+  const tx = db.transaction(store, mode);
+  const result = requestToPromise(run(tx.objectStore(store)));
+  await new Promise<void>((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error ?? new Error('IndexedDB transaction failed'));
+    tx.onabort = () => reject(tx.error ?? new Error('IndexedDB transaction aborted'));
+  });
+  return result;
+}
+
+export async function idbGet<T>(store: OrcaDbStore, key: IDBValidKey): Promise<T | undefined> {
+  return (await withStore(store, 'readonly', (s) => s.get(key))) as T | undefined;
+}
+
+export async function idbPut<T>(store: OrcaDbStore, key: IDBValidKey, value: T): Promise<void> {
+  await withStore(store, 'readwrite', (s) => s.put(value, key));
+}
+
+export async function idbDelete(store: OrcaDbStore, key: IDBValidKey): Promise<void> {
+  await withStore(store, 'readwrite', (s) => s.delete(key));
+}
+
+export async function idbGetAll<T>(store: OrcaDbStore, range?: IDBKeyRange): Promise<T[]> {
+  return (await withStore(store, 'readonly', (s) => s.getAll(range))) as T[];
+}
+
+export async function idbDeleteRange(store: OrcaDbStore, range: IDBKeyRange): Promise<void> {
+  await withStore(store, 'readwrite', (s) => s.delete(range));
+}
@@ -0,0 +1,54 @@
+import { parseProfileFileV1, serializeProfileFileV1 } from '../../schema/profileFile';
+import type { ProfileLibraryEntry } from '../domain/profileLibrary';
+import { idbDelete, idbGetAll, idbPut } from './indexedDb';
+
+function newEntryId(): string {
+  return typeof crypto !== 'undefined' && 'randomUUID' in crypto
+    ? crypto.randomUUID()
+    : `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+}
+
+// Re-validate through the profile file parser so entries written by older builds can't
+// put a malformed profile into a draft.
+function reviveEntry(value: unknown): ProfileLibraryEntry | null {
+  if (typeof value !== 'object' || value === null) return null;
+  const rec = value as Partial<ProfileLibraryEntry>;
+  if (typeof rec.id !== 'string' || !Array.isArray(rec.tags)) return null;
+  try {
+    const profile = parseProfileFileV1(serializeProfileFileV1(rec.profile as ProfileLibraryEntry['profile']));
+    return {
+      id: rec.id,
+      profile,
+      tags: rec.tags.filter((t): t is string => typeof t === 'string'),
+      createdAt: Number(rec.createdAt) || 0,
+      updatedAt: Number(rec.updatedAt) || 0,
+    };
+  } catch {
+    return null;
+  }
+}
+
+export async function listLibraryProfiles(): Promise<ProfileLibraryEntry[]> {
+  const records = await idbGetAll<unknown>('profiles');
+  return records.map(reviveEntry).filter((e): e is ProfileLibraryEntry => e !== null);
+}
+
+/** Insert or update an entry. Omit `id` to create a new one. */
+export async function putLibraryProfile(
+  entry: Omit<ProfileLibraryEntry, 'id' | 'createdAt' | 'updatedAt'> & Partial<ProfileLibraryEntry>,
+): Promise<ProfileLibraryEntry> {
+  const now = Date.now();
+  const record: ProfileLibraryEntry = {
+    id: entry.id ?? newEntryId(),
+    profile: entry.profile,
+    tags: entry.tags,
+    createdAt: entry.createdAt ?? now,
+    updatedAt: now,
+  };
+  await idbPut('profiles', record.id, record);
+  return record;
+}
+
+export async function deleteLibraryProfile(id: string): Promise<void> {
+  await idbDelete('profiles', id);
+}
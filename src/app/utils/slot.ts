@@ -7,6 +7,10 @@ export function modeToSlotId(mode: SlotMode): SlotId {
   return mode === 'gp2040' ? 1 : 0;
 }
 
+export function slotIdToMode(slot: SlotId): SlotMode {
+  return slot === 1 ? 'gp2040' : 'orca';
+}
+
 export function slotSuffix(slot: SlotId): string {
   return slot === 0 ? 'primary' : 'secondary';
 }
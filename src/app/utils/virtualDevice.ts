@@ -0,0 +1,56 @@
+import { ORCA_CONFIG_SETTINGS_BLOB_SIZE } from '@shared/orca_config_idl_generated';
+import { MockOrcaTransport } from '../../mocks/mockTransport';
+import { OrcaFirmwareSimulator } from '../../mocks/orcaFirmwareSimulator';
+import { idbDelete, idbGet, idbPut } from './indexedDb';
+
+const VIRTUAL_DEVICE_KEY = 'flash';
+// Small per-response delay so progress reporting and Cancel behave like on hardware.
+const VIRTUAL_DEVICE_LATENCY_MS = 2;
+
+type StoredVirtualDevice = {
+  version: 1;
+  slots: ArrayBuffer[];
+  savedAt: number;
+};
+
+async function loadStoredSlots(): Promise<Uint8Array[] | null> {
+  try {
+    const stored = await idbGet<StoredVirtualDevice>('virtualDevice', VIRTUAL_DEVICE_KEY);
+    if (!stored || stored.version !== 1 || !Array.isArray(stored.slots)) return null;
+    return stored.slots.map((buf) => new Uint8Array(buf));
+  } catch {
+    return null;
+  }
+}
+
+async function storeSlots(device: OrcaFirmwareSimulator): Promise<void> {
+  const slots = Array.from({ length: device.slotCount }, (_, slot) => {
+    const blob = device.getCommittedBlob(slot);
+    return blob.buffer.slice(blob.byteOffset, blob.byteOffset + blob.byteLength) as ArrayBuffer;
+  });
+  await idbPut<StoredVirtualDevice>('virtualDevice', VIRTUAL_DEVICE_KEY, { version: 1, slots, savedAt: Date.now() });
+}
+
+/**
+ * Open a transport to the in-browser virtual controller. Committed settings are restored from
+ * IndexedDB and written back after every commit or reset, so saves survive a page reload.
+ * Persistence is best-effort: without IndexedDB the device simply starts from defaults.
+ */
+export async function openVirtualDeviceTransport(): Promise<MockOrcaTransport> {
+  const device = new OrcaFirmwareSimulator({ latencyMs: VIRTUAL_DEVICE_LATENCY_MS });
+  const stored = await loadStoredSlots();
+  stored?.forEach((blob, slot) => {
+    if (slot < device.slotCount && blob.length === ORCA_CONFIG_SETTINGS_BLOB_SIZE) device.setCommittedBlob(slot, blob);
+  });
+  device.onFlashWrite = () => {
+    storeSlots(device).catch(() => {
+      // ignore
+    });
+  };
+  return new MockOrcaTransport({ device });
+}
+
+/** Forget the stored virtual device; the next connection starts from factory defaults. */
+export async function clearVirtualDevice(): Promise<void> {
+  await idbDelete('virtualDevice', VIRTUAL_DEVICE_KEY);
+}
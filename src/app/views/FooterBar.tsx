@@ -2,12 +2,21 @@ import { useMemo, useRef, useState } from 'react';
 import { useOrcaApp } from '../contexts/OrcaAppContext';
 import { ActionToolbar } from '../components/ActionToolbar';
 import { ConfirmModal } from '../components/ConfirmModal';
+import { DeviceImportModal } from '../components/DeviceImportModal';
+import { DraftRecoveryModal } from '../components/DraftRecoveryModal';
+import { SettingsDiffModal, type SettingsDiffSection } from '../components/SettingsDiffModal';
+import { SettingsMigrationModal } from '../components/SettingsMigrationModal';
+import { ProfileQrModal } from '../components/ProfileQrModal';
+import { ProfileQrScanModal } from '../components/ProfileQrScanModal';
+import { SharedProfileModal } from '../components/SharedProfileModal';
 import { slotDisplayName } from '../utils/slot';
+import { diffSettingsDrafts } from '../../schema/settingsDiff';
 import { findMeleeRulesetInvalidProfiles } from '../../validators/settingsValidation';
 
 export function FooterBar() {
   const {
     state,
+    gp2040LabelPreset,
     activeSlot,
     draft,
     dirty,
@@ -19,10 +28,23 @@ export function FooterBar() {
     factoryResetOnDevice,
     rebootNow,
     exportCurrentProfile,
+    shareCurrentProfile,
+    showCurrentProfileQr,
+    dismissProfileQr,
+    openScannedProfile,
+    importSharedProfile,
+    dismissSharedProfile,
     exportCurrentBlob,
     exportDraftBlob,
     importDeviceBlobFromFile,
+    applyDeviceImport,
+    cancelDeviceImport,
     importProfileFromFile,
+    convertProfileFromFile,
+    exportGp2040Layout,
+    compareDeviceFiles,
+    resolveDraftRecovery,
+    dismissSettingsMigration,
     setRebootAfterSave,
     setShowResetConfirm,
     setShowFactoryResetConfirm,
@@ -30,7 +52,22 @@ export function FooterBar() {
 
   const importDeviceRef = useRef<HTMLInputElement | null>(null);
   const importProfileRef = useRef<HTMLInputElement | null>(null);
+  const convertProfileRef = useRef<HTMLInputElement | null>(null);
+  const compareFilesRef = useRef<HTMLInputElement | null>(null);
   const [showMeleeConfirm, setShowMeleeConfirm] = useState(false);
+  const [showSaveDiff, setShowSaveDiff] = useState(false);
+  const [showQrScan, setShowQrScan] = useState(false);
+  const [fileComparison, setFileComparison] = useState<{ names: [string, string]; sections: SettingsDiffSection[] } | null>(null);
+
+  const deviceDraft = state.slotStates[activeSlot].parsed?.draft ?? null;
+  const saveDiff = useMemo(() => {
+    if (!draft || !deviceDraft) return null;
+    return diffSettingsDrafts(deviceDraft, draft, { mode: state.configMode, gp2040LabelPreset });
+  }, [deviceDraft, draft, gp2040LabelPreset, state.configMode]);
+
+  const orcaDraft = state.slotStates[0].draft;
+  const gp2040Draft = state.slotStates[1].draft;
+  const currentDrafts = useMemo(() => ({ 0: orcaDraft ?? undefined, 1: gp2040Draft ?? undefined }), [orcaDraft, gp2040Draft]);
 
   const meleeInvalidProfiles = useMemo(() => {
     if (!draft || state.configMode !== 'orca') return [];
@@ -40,6 +77,11 @@ export function FooterBar() {
   const shouldConfirmMelee = meleeInvalidProfiles.length > 0;
 
   const handleSave = () => {
+    setShowSaveDiff(true);
+  };
+
+  const confirmSave = () => {
+    setShowSaveDiff(false);
     if (shouldConfirmMelee) {
       setShowMeleeConfirm(true);
       return;
@@ -47,6 +89,20 @@ export function FooterBar() {
     void saveToDevice();
   };
 
+  const handleCompareFiles = async (files: File[]) => {
+    if (files.length !== 2) {
+      window.alert('Select exactly two device configuration files to compare.');
+      return;
+    }
+    const [before, after] = files as [File, File];
+    const result = await compareDeviceFiles(before, after);
+    if (!result) return;
+    setFileComparison({
+      names: [before.name, after.name],
+      sections: result.map((r) => ({ title: slotDisplayName(r.slot), diff: r.diff, note: r.note })),
+    });
+  };
+
   return (
     <>
       {draft && (
@@ -60,11 +116,18 @@ export function FooterBar() {
           onResetMode={() => setShowResetConfirm(true)}
           onFactoryReset={() => setShowFactoryResetConfirm(true)}
           onReboot={() => void rebootNow()}
-          onExportProfile={exportCurrentProfile}
+          onExportProfile={() => exportCurrentProfile('json')}
+          onExportProfileText={() => exportCurrentProfile('text')}
+          onShareProfile={() => void shareCurrentProfile()}
+          onShowProfileQr={() => void showCurrentProfileQr()}
+          onScanProfileQr={() => setShowQrScan(true)}
           onImportProfile={() => importProfileRef.current?.click()}
+          onConvertProfile={() => convertProfileRef.current?.click()}
           onExportDeviceCurrent={() => void exportCurrentBlob()}
           onExportDeviceDraft={() => void exportDraftBlob()}
           onImportDevice={() => importDeviceRef.current?.click()}
+          onCompareDeviceFiles={() => compareFilesRef.current?.click()}
+          onExportGp2040Layout={state.configMode === 'gp2040' ? exportGp2040Layout : undefined}
           rebootAfterSave={state.rebootAfterSave}
           onRebootAfterSaveChange={setRebootAfterSave}
         />
@@ -85,7 +148,7 @@ export function FooterBar() {
       <input
         ref={importProfileRef}
         type="file"
-        accept=".json,application/json"
+        accept=".json,.toml,application/json,text/plain"
         style={{ display: 'none' }}
         onChange={(e) => {
           const file = e.target.files?.[0];
@@ -94,6 +157,95 @@ export function FooterBar() {
         }}
       />
 
+      <input
+        ref={convertProfileRef}
+        type="file"
+        accept=".json,.cpp,.h,.hpp,application/json,text/plain"
+        style={{ display: 'none' }}
+        onChange={(e) => {
+          const file = e.target.files?.[0];
+          if (file) void convertProfileFromFile(file);
+          e.target.value = '';
+        }}
+      />
+
+      <input
+        ref={compareFilesRef}
+        type="file"
+        multiple
+        accept=".json,.bin,application/json,application/octet-stream"
+        style={{ display: 'none' }}
+        onChange={(e) => {
+          const files = Array.from(e.target.files ?? []);
+          if (files.length > 0) void handleCompareFiles(files);
+          e.target.value = '';
+        }}
+      />
+
+      <SettingsDiffModal
+        isOpen={showSaveDiff}
+        title={`Save ${slotDisplayName(activeSlot)}`}
+        sections={[{
+          title: slotDisplayName(activeSlot),
+          diff: saveDiff,
+          note: 'Settings on the controller are not loaded.',
+          emptyNote: 'No field changes compared with the loaded settings (e.g. after importing a device file).',
+        }]}
+        beforeLabel="On controller"
+        afterLabel="New"
+        confirmLabel="Save"
+        onConfirm={confirmSave}
+        onCancel={() => setShowSaveDiff(false)}
+      />
+
+      <SettingsDiffModal
+        isOpen={fileComparison !== null}
+        title="Compare configuration files"
+        sections={fileComparison?.sections ?? []}
+        beforeLabel={fileComparison?.names[0]}
+        afterLabel={fileComparison?.names[1]}
+        onCancel={() => setFileComparison(null)}
+      />
+
+      <DraftRecoveryModal
+        recovery={state.draftRecovery}
+        deviceDraft={state.draftRecovery ? state.slotStates[state.draftRecovery.slot].parsed?.draft ?? null : null}
+        gp2040LabelPreset={gp2040LabelPreset}
+        onApply={(choices) => resolveDraftRecovery({ apply: true, choices })}
+        onDiscard={() => resolveDraftRecovery({ apply: false })}
+      />
+
+      <DeviceImportModal
+        pending={state.pendingDeviceImport}
+        currentDrafts={currentDrafts}
+        onApply={applyDeviceImport}
+        onCancel={cancelDeviceImport}
+      />
+
+      <ProfileQrModal qr={state.profileQr} onClose={dismissProfileQr} />
+
+      <ProfileQrScanModal
+        isOpen={showQrScan}
+        onScanned={(profile) => {
+          setShowQrScan(false);
+          openScannedProfile(profile);
+        }}
+        onClose={() => setShowQrScan(false)}
+      />
+
+      <SharedProfileModal
+        profile={state.sharedProfile}
+        source={state.sharedProfileSource}
+        configMode={state.configMode}
+        draft={draft}
+        gp2040LabelPreset={gp2040LabelPreset}
+        busy={state.busy}
+        onImport={importSharedProfile}
+        onClose={dismissSharedProfile}
+      />
+
+      <SettingsMigrationModal notice={state.settingsMigration} onClose={dismissSettingsMigration} />
+
       <ConfirmModal
         isOpen={state.showResetConfirm}
         title="Reset Mode Defaults"
@@ -3,7 +3,7 @@ import { useOrcaApp } from '../contexts/OrcaAppContext';
 import { ModeTabs } from '../components/ModeTabs';
 
 export function HeaderBar() {
-  const { state, handleModeChange, compatibility } = useOrcaApp();
+  const { state, handleModeChange, compatibility, cancelOperation } = useOrcaApp();
 
   const hasSchemaMismatch = compatibility === 'minor_mismatch' || compatibility === 'major_mismatch';
 
@@ -22,6 +22,11 @@ export function HeaderBar() {
 
       <div className="header-status">
         {state.progress && <span className="text-sm text-secondary">{state.progress}</span>}
+        {state.busy && state.progress && (
+          <button className="sm ghost" onClick={cancelOperation} title="Stop waiting for the device">
+            Cancel
+          </button>
+        )}
         <a
           href="/OrcaDol2.0.uf2"
           download="OrcaDol2.0.uf2"
@@ -39,7 +44,7 @@ export function HeaderBar() {
         </a>
         <div className="connection-indicator">
           <div className={`connection-dot ${state.transport ? 'connected' : ''}`} />
-          <span>{state.transport ? 'Connected' : 'Disconnected'}</span>
+          <span>{state.transport ? (state.virtualDevice ? 'Virtual device' : 'Connected') : 'Disconnected'}</span>
         </div>
       </div>
     </header>
@@ -1,8 +1,10 @@
 import { ORCA_CONFIG_SETTINGS_PROFILE_COUNT } from '@shared/orca_config_idl_generated';
 import { isGp2040LabelPreset } from '../../schema/gp2040Labels';
 import { useOrcaApp } from '../contexts/OrcaAppContext';
+import { BlobInspectorPanel } from '../components/BlobInspectorPanel';
 import { ControllerVisualizer } from '../components/ControllerVisualizer';
 import { LiveInputPreviewCard } from '../components/LiveInputPreviewCard';
+import { ProfileLibraryPanel } from '../components/ProfileLibraryPanel';
 
 export function MainPane() {
   const {
@@ -21,6 +23,7 @@ export function MainPane() {
     gp2040AnalogTriggerOutput,
     remappedCount,
     connect,
+    connectVirtualDevice,
     setActiveProfile,
     renameProfile,
     markAsDefault,
@@ -29,6 +32,11 @@ export function MainPane() {
     clearAllBindings,
     resetToDefaultBindings,
     setEditingProfile,
+    saveProfileToLibrary,
+    updateLibraryProfile,
+    deleteLibraryProfile,
+    applyLibraryProfile,
+    onDraftChange,
   } = useOrcaApp();
 
   return (
@@ -53,6 +61,12 @@ export function MainPane() {
             <button className="primary" onClick={() => void connect()} disabled={state.busy}>
               {state.busy ? 'Connecting...' : 'Connect'}
             </button>
+            <div className="col" style={{ alignItems: 'center', gap: 'var(--spacing-xs)' }}>
+              <button className="ghost" onClick={() => void connectVirtualDevice()} disabled={state.busy}>
+                Use virtual device
+              </button>
+              <span className="text-sm text-muted">No controller? Explore the editors against a simulated Orca saved in this browser.</span>
+            </div>
           </div>
         ) : draft ? (
           <div className="main-hero" style={{ overflow: 'hidden' }}>
@@ -150,6 +164,20 @@ export function MainPane() {
                 >
                   Inputs
                 </button>
+                <button
+                  className={`mode-tab ${mainView === 'library' ? 'active' : ''}`}
+                  onClick={() => setMainView('library')}
+                  type="button"
+                >
+                  Library
+                </button>
+                <button
+                  className={`mode-tab ${mainView === 'blob' ? 'active' : ''}`}
+                  onClick={() => setMainView('blob')}
+                  type="button"
+                >
+                  Raw
+                </button>
               </div>
               <div className="flex-1 row" style={{ justifyContent: 'flex-end', flexWrap: 'wrap', minWidth: 0 }}>
                 {state.configMode === 'gp2040' && (
@@ -233,10 +261,29 @@ export function MainPane() {
                   transport={state.transport}
                   draft={draft}
                   baseBlob={baseBlob}
+                  mode={state.configMode}
                   disabled={state.busy}
                   style={{ marginTop: 0 }}
                 />
               </div>
+            ) : mainView === 'library' ? (
+              <div style={{ flex: 1, minHeight: 0, overflow: 'auto' }}>
+                <ProfileLibraryPanel
+                  entries={state.profileLibrary}
+                  mode={state.configMode}
+                  draft={draft}
+                  activeProfile={activeProfile}
+                  disabled={state.busy}
+                  onSave={saveProfileToLibrary}
+                  onUpdate={updateLibraryProfile}
+                  onDelete={deleteLibraryProfile}
+                  onApply={applyLibraryProfile}
+                />
+              </div>
+            ) : mainView === 'blob' && baseBlob ? (
+              <div style={{ flex: 1, minHeight: 0, overflow: 'auto' }}>
+                <BlobInspectorPanel baseBlob={baseBlob} draft={draft} disabled={state.busy} onChange={onDraftChange} />
+              </div>
             ) : (
               <div className="text-sm text-muted">No settings loaded</div>
             )}
@@ -1,6 +1,11 @@
+import { OrcaLogLevel } from '../../protocol/orcaLog';
 import { useOrcaApp } from '../contexts/OrcaAppContext';
+import { CalibrationPanel } from '../components/CalibrationPanel';
 import { CollapsiblePanel } from '../components/CollapsiblePanel';
+import { DeviceDetailsPanel } from '../components/DeviceDetailsPanel';
+import { DeviceLogPanel } from '../components/DeviceLogPanel';
 import { DpadEditor } from '../components/DpadEditor';
+import { DraftHistoryPanel } from '../components/DraftHistoryPanel';
 import { StickCurveEditor } from '../components/StickCurveEditor';
 import { TriggerEditor } from '../components/TriggerEditor';
 import { ValidationStatus } from '../components/ValidationStatus';
@@ -10,29 +15,43 @@ export function Sidebar() {
     state,
     gp2040LabelPreset,
     activeSlot,
+    baseBlob,
     draft,
     compatibility,
     localValidation,
     activeProfile,
     deviceErrors,
     deviceRepaired,
+    history,
     disconnect,
+    resetVirtualDevice,
     onDraftChange,
+    undo,
+    redo,
     setAllowUnsafeWrites,
+    refreshDeviceLog,
+    clearDeviceLog,
+    exportDeviceLog,
   } = useOrcaApp();
 
+  const deviceLogErrorCount = state.deviceLog.filter((r) => r.level >= OrcaLogLevel.ERROR).length;
+
   return (
     <aside className="layout-sidebar">
       <div className="sidebar-section">
         <div className="sidebar-header">
           <span className="sidebar-title">Connection</span>
-          {state.transport && <span className="pill pill-ok">Connected</span>}
+          {state.transport && (
+            <span className={`pill ${state.virtualDevice ? 'pill-warn' : 'pill-ok'}`}>
+              {state.virtualDevice ? 'Virtual' : 'Connected'}
+            </span>
+          )}
         </div>
         {state.transport ? (
           <div className="col">
             <div className="form-row">
               <span className="form-label">Device</span>
-              <span className="text-sm">Orca</span>
+              <span className="text-sm">{state.virtualDevice ? 'Orca (virtual device)' : 'Orca'}</span>
             </div>
             <div className="form-row">
               <span className="form-label">Schema</span>
@@ -43,6 +62,11 @@ export function Sidebar() {
             <button className="danger" onClick={() => void disconnect()} disabled={state.busy} style={{ marginTop: 'var(--spacing-sm)' }}>
               Disconnect
             </button>
+            {state.virtualDevice && (
+              <button className="ghost" onClick={() => void resetVirtualDevice()} disabled={state.busy}>
+                Erase virtual device
+              </button>
+            )}
           </div>
         ) : (
           <div className="text-sm text-muted">Not connected</div>
@@ -51,7 +75,14 @@ export function Sidebar() {
 
       <CollapsiblePanel title="Stick Configuration">
         {draft ? (
-          <StickCurveEditor draft={draft} disabled={state.busy} onChange={onDraftChange} mode={state.configMode} />
+          <StickCurveEditor
+            draft={draft}
+            disabled={state.busy}
+            onChange={onDraftChange}
+            mode={state.configMode}
+            transport={state.transport}
+            baseBlob={baseBlob}
+          />
         ) : (
           <div className="text-sm text-muted">Connect to configure</div>
         )}
@@ -72,6 +103,14 @@ export function Sidebar() {
         )}
       </CollapsiblePanel>
 
+      <CollapsiblePanel title="Calibration">
+        {draft ? (
+          <CalibrationPanel draft={draft} transport={state.transport} disabled={state.busy} onChange={onDraftChange} />
+        ) : (
+          <div className="text-sm text-muted">Connect to configure</div>
+        )}
+      </CollapsiblePanel>
+
       <CollapsiblePanel
         title="DPAD Layer"
         badge={
@@ -100,6 +139,23 @@ export function Sidebar() {
         )}
       </CollapsiblePanel>
 
+      <CollapsiblePanel
+        title="History"
+        badge={
+          history.past.length > 0 ? (
+            <span className="pill pill-neutral" style={{ marginLeft: 8 }}>
+              {history.past.length}
+            </span>
+          ) : null
+        }
+      >
+        {draft ? (
+          <DraftHistoryPanel history={history} draft={draft} disabled={state.busy} onUndo={undo} onRedo={redo} />
+        ) : (
+          <div className="text-sm text-muted">Connect to configure</div>
+        )}
+      </CollapsiblePanel>
+
       <CollapsiblePanel
         title="Validation"
         badge={
@@ -121,6 +177,54 @@ export function Sidebar() {
           deviceRepaired={deviceRepaired}
         />
       </CollapsiblePanel>
+
+      <CollapsiblePanel
+        title="Device details"
+        badge={
+          Object.values(state.slotStates).some((s) => s.parsed?.header.crcValid === false) ? (
+            <span className="pill pill-error" style={{ marginLeft: 8 }}>
+              CRC
+            </span>
+          ) : null
+        }
+      >
+        {state.transport ? (
+          <DeviceDetailsPanel
+            slotStates={state.slotStates}
+            activeSlot={activeSlot}
+            disabled={state.busy}
+            onChange={onDraftChange}
+          />
+        ) : (
+          <div className="text-sm text-muted">Connect to read the settings header</div>
+        )}
+      </CollapsiblePanel>
+
+      <CollapsiblePanel
+        title="Device Log"
+        badge={
+          deviceLogErrorCount > 0 ? (
+            <span className="pill pill-error" style={{ marginLeft: 8 }}>
+              {deviceLogErrorCount}
+            </span>
+          ) : null
+        }
+      >
+        {state.transport ? (
+          <DeviceLogPanel
+            records={state.deviceLog}
+            supported={state.deviceLogSupported}
+            loading={state.deviceLogLoading}
+            error={state.deviceLogError}
+            disabled={state.busy}
+            onRefresh={() => void refreshDeviceLog()}
+            onClear={clearDeviceLog}
+            onDownload={exportDeviceLog}
+          />
+        ) : (
+          <div className="text-sm text-muted">Connect to read the device log</div>
+        )}
+      </CollapsiblePanel>
     </aside>
   );
 }
@@ -0,0 +1,55 @@
+import { describe, expect, it } from 'vitest';
+import { makeDefaultSettingsBlob } from '../schema/settingsDefaults';
+import { buildSettingsBlob, parseSettingsBlob } from '../schema/settingsBlob';
+import { validateCalibration } from '../validators/settingsValidation';
+import {
+  CALIBRATION_DEADZONE_MARGIN,
+  computeCalibration,
+  createEmptyCalibrationCapture,
+  summarizeAxisSamples,
+} from './analogCalibration';
+
+function readings(values: number[], axes = 5): number[][] {
+  return values.map((v) => new Array(axes).fill(v));
+}
+
+describe('computeCalibration', () => {
+  it('derives range, deadzones and notch from captured readings', () => {
+    const capture = createEmptyCalibrationCapture();
+    capture.rest = summarizeAxisSamples(readings([0.1, 0.12, 0.08]));
+    capture.full = summarizeAxisSamples(readings([0.9, 0.88, 0.92]));
+    capture.notch = summarizeAxisSamples(readings([0.5]));
+    capture.notch[4] = null;
+
+    const cal = computeCalibration(capture, { ...parseSettingsBlob(makeDefaultSettingsBlob(0, 1)).draft.calibration!, notch: [0, 0, 0, 0, 0.3] });
+    expect(cal.range.lower[0]).toBeCloseTo(0.1);
+    expect(cal.range.upper[0]).toBeCloseTo(0.9);
+    expect(cal.deadzoneLower[0]).toBeCloseTo(0.02 / 0.8 + CALIBRATION_DEADZONE_MARGIN, 3);
+    expect(cal.deadzoneUpper[0]).toBeCloseTo(0.02 / 0.8 + CALIBRATION_DEADZONE_MARGIN, 3);
+    expect(cal.notch[0]).toBeCloseTo(0.5);
+    // Skipped notch keeps the previous value.
+    expect(cal.notch[4]).toBe(0.3);
+    expect(validateCalibration(cal).errors).toEqual([]);
+  });
+
+  it('rejects an axis whose full press reads below rest', () => {
+    const capture = createEmptyCalibrationCapture();
+    capture.rest = summarizeAxisSamples(readings([0.5]));
+    capture.full = summarizeAxisSamples(readings([0.4]));
+    expect(() => computeCalibration(capture)).toThrow(/at or below rest/);
+  });
+
+  it('round-trips through the calibration TLVs', () => {
+    const base = makeDefaultSettingsBlob(0, 1);
+    const draft = parseSettingsBlob(base).draft;
+    expect(draft.calibration?.range.upper).toEqual([1, 1, 1, 1, 1]);
+
+    const capture = createEmptyCalibrationCapture();
+    capture.rest = summarizeAxisSamples(readings([0.25]));
+    capture.full = summarizeAxisSamples(readings([0.75]));
+    const calibration = computeCalibration(capture);
+    const reparsed = parseSettingsBlob(buildSettingsBlob(base, { ...draft, calibration })).draft.calibration!;
+    expect(reparsed.range.lower).toEqual([0.25, 0.25, 0.25, 0.25, 0.25]);
+    expect(reparsed.deadzoneLower[2]).toBeCloseTo(CALIBRATION_DEADZONE_MARGIN, 5);
+  });
+});
@@ -0,0 +1,89 @@
+import { ORCA_CONFIG_ORCA_ANALOG_INPUT_COUNT } from '@shared/orca_config_idl_generated';
+import { analogInputLabel } from '../schema/orcaMappings';
+import type { CalibrationV1 } from '../schema/settingsBlob';
+
+export type SampleStats = {
+  min: number;
+  max: number;
+  mean: number;
+  count: number;
+};
+
+// Raw readings captured by the calibration wizard, one entry per analog axis.
+export type CalibrationCapture = {
+  rest: (SampleStats | null)[];
+  full: (SampleStats | null)[];
+  // null: notch step skipped, keep the previous value.
+  notch: (SampleStats | null)[];
+};
+
+// Added on top of the measured noise so the output doesn't flicker at rest or full press.
+export const CALIBRATION_DEADZONE_MARGIN = 0.02;
+const CALIBRATION_DEADZONE_MAX = 0.45;
+
+export function summarizeSamples(values: number[]): SampleStats | null {
+  const finite = values.filter((v) => Number.isFinite(v));
+  if (finite.length === 0) return null;
+  let min = Infinity;
+  let max = -Infinity;
+  let sum = 0;
+  for (const v of finite) {
+    if (v < min) min = v;
+    if (v > max) max = v;
+    sum += v;
+  }
+  return { min, max, mean: sum / finite.length, count: finite.length };
+}
+
+/** Per-axis stats over a list of `OrcaInputState.analog` readings. */
+export function summarizeAxisSamples(readings: number[][]): (SampleStats | null)[] {
+  return Array.from({ length: ORCA_CONFIG_ORCA_ANALOG_INPUT_COUNT }, (_, axis) =>
+    summarizeSamples(readings.map((r) => r[axis] ?? NaN)),
+  );
+}
+
+export function createEmptyCalibrationCapture(): CalibrationCapture {
+  const none = () => new Array<SampleStats | null>(ORCA_CONFIG_ORCA_ANALOG_INPUT_COUNT).fill(null);
+  return { rest: none(), full: none(), notch: none() };
+}
+
+function clamp(v: number, lo: number, hi: number): number {
+  return Math.min(hi, Math.max(lo, v));
+}
+
+function round4(v: number): number {
+  return Math.round(v * 10000) / 10000;
+}
+
+/**
+ * Turn captured readings into calibration values. Range comes from the mean rest and full-press
+ * readings; each deadzone covers the noise seen while holding that end, plus a small margin;
+ * the notch is stored in calibrated (0-1) units. Throws if an axis is missing or has no travel.
+ */
+export function computeCalibration(capture: CalibrationCapture, previous?: CalibrationV1): CalibrationV1 {
+  const cal: CalibrationV1 = { range: { lower: [], upper: [] }, deadzoneLower: [], deadzoneUpper: [], notch: [] };
+
+  for (let axis = 0; axis < ORCA_CONFIG_ORCA_ANALOG_INPUT_COUNT; axis++) {
+    const name = analogInputLabel(axis);
+    const rest = capture.rest[axis];
+    const full = capture.full[axis];
+    if (!rest) throw new Error(`${name}: rest position was not captured`);
+    if (!full) throw new Error(`${name}: full press was not captured`);
+
+    const lower = clamp(rest.mean, 0, 1);
+    const upper = clamp(full.mean, 0, 1);
+    const travel = upper - lower;
+    if (travel <= 0) throw new Error(`${name}: full press reads at or below rest; check the key and capture again`);
+
+    const dzLower = (rest.max - rest.mean) / travel + CALIBRATION_DEADZONE_MARGIN;
+    const dzUpper = (full.mean - full.min) / travel + CALIBRATION_DEADZONE_MARGIN;
+    const notch = capture.notch[axis];
+
+    cal.range.lower.push(round4(lower));
+    cal.range.upper.push(round4(upper));
+    cal.deadzoneLower.push(round4(clamp(dzLower, 0, CALIBRATION_DEADZONE_MAX)));
+    cal.deadzoneUpper.push(round4(clamp(dzUpper, 0, CALIBRATION_DEADZONE_MAX)));
+    cal.notch.push(notch ? round4(clamp((notch.mean - lower) / travel, 0, 1)) : previous?.notch[axis] ?? 0);
+  }
+  return cal;
+}
@@ -0,0 +1,94 @@
+import { Duplex } from 'node:stream';
+import { describe, expect, it } from 'vitest';
+import { OrcaFirmwareSimulator } from '../mocks/orcaFirmwareSimulator';
+import { buildSettingsBlob, parseSettingsBlob, type SettingsDraft } from '../schema/settingsBlob';
+import { OrcaStreamTransport } from '../usb/OrcaStreamTransport';
+import { exportDeviceFile, loadSlotBlobs, resetOnDevice, writeSlotBlobs, type CliOutput } from './deviceCommands';
+
+/** The simulator behind a byte stream, as the CLI sees a serial port or tcp bridge. */
+function connect(device: OrcaFirmwareSimulator) {
+  const stream = new Duplex({
+    read() {},
+    write(chunk: Uint8Array, _encoding, callback) {
+      device.receive(chunk);
+      callback();
+    },
+  });
+  device.onTransmit = (bytes) => stream.push(bytes);
+  return new OrcaStreamTransport(stream);
+}
+
+function capture(): CliOutput & { lines: string[] } {
+  const lines: string[] = [];
+  return { lines, log: (line) => lines.push(line), warn: (line) => lines.push(line) };
+}
+
+function editSlot(device: OrcaFirmwareSimulator, slot: number, edit: (draft: SettingsDraft) => void): Uint8Array {
+  const base = device.getCommittedBlob(slot);
+  const draft = structuredClone(parseSettingsBlob(base).draft);
+  edit(draft);
+  return buildSettingsBlob(base, draft);
+}
+
+describe('CLI device commands', () => {
+  it('refuses to write a slot with validation errors unless forced', async () => {
+    const device = new OrcaFirmwareSimulator();
+    const transport = connect(device);
+    const info = await transport.getInfo();
+    const before = device.getCommittedBlob(0);
+    const blob = editSlot(device, 0, (d) => {
+      d.triggerPolicy[0]!.digitalFullPress = 2;
+    });
+
+    const out = capture();
+    expect(await writeSlotBlobs(transport, info, [{ slot: 0, blob }], out)).toBe(false);
+    expect(out.lines).toContain('Not written: fix the errors above or pass --force');
+    expect(device.getCommittedBlob(0)).toEqual(before);
+    await transport.close();
+  });
+
+  it('round-trips both slots through export and import', async () => {
+    const source = new OrcaFirmwareSimulator();
+    source.setCommittedBlob(0, editSlot(source, 0, (d) => {
+      d.profileLabels[0] = 'Melee';
+    }));
+    source.setCommittedBlob(1, editSlot(source, 1, (d) => {
+      d.profileLabels[2] = 'Fighters';
+    }));
+    const from = connect(source);
+    const json = await exportDeviceFile(from, await from.getInfo());
+    await from.close();
+
+    const target = new OrcaFirmwareSimulator();
+    const to = connect(target);
+    const slots = loadSlotBlobs(new TextEncoder().encode(json), null);
+    expect(slots.map((s) => s.slot)).toEqual([0, 1]);
+    const out = capture();
+    expect(await writeSlotBlobs(to, await to.getInfo(), slots, out)).toBe(true);
+    expect(out.lines).toContain('gp2040: committed (generation 2)');
+    for (const slot of [0, 1]) {
+      expect(parseSettingsBlob(target.getCommittedBlob(slot)).draft).toEqual(parseSettingsBlob(source.getCommittedBlob(slot)).draft);
+    }
+    await to.close();
+  });
+
+  it('resets a single slot to defaults', async () => {
+    const device = new OrcaFirmwareSimulator();
+    device.setCommittedBlob(0, editSlot(device, 0, (d) => {
+      d.profileLabels[0] = 'Kept';
+    }));
+    device.setCommittedBlob(1, editSlot(device, 1, (d) => {
+      d.profileLabels[0] = 'Reset';
+    }));
+    const transport = connect(device);
+    const info = await transport.getInfo();
+
+    const out = capture();
+    await resetOnDevice(transport, info, 1, out);
+    expect(out.lines[0]).toMatch(/^gp2040: reset to defaults/);
+    expect(parseSettingsBlob(device.getCommittedBlob(1)).draft.profileLabels[0]).toBe('Profile 1');
+    expect(parseSettingsBlob(device.getCommittedBlob(0)).draft.profileLabels[0]).toBe('Kept');
+    await expect(resetOnDevice(transport, { ...info, slotCount: 1 }, 1, out)).rejects.toThrow('Device has no gp2040 slot');
+    await transport.close();
+  });
+});
@@ -0,0 +1,218 @@
+import { parseDeviceFile, serializeDeviceFileV2 } from '../schema/deviceFile';
+import { tryParseSettingsBlob, type ParsedSettings } from '../schema/settingsBlob';
+import type { DeviceInfo, OrcaTransport } from '../usb/OrcaTransport';
+import { decodeStagedInvalidMask, validateSettingsDraft } from '../validators/settingsValidation';
+
+export type CliOutput = {
+  log: (line: string) => void;
+  warn: (line: string) => void;
+};
+
+export type SlotBlob = {
+  slot: number;
+  blob: Uint8Array;
+};
+
+export const CLI_SLOT_NAMES = ['orca', 'gp2040'] as const;
+
+export function cliSlotName(slot: number): string {
+  return CLI_SLOT_NAMES[slot] ?? `slot${slot}`;
+}
+
+export function parseCliSlot(value: string | undefined): number {
+  if (value === undefined) return 0;
+  const byName = CLI_SLOT_NAMES.indexOf(value as (typeof CLI_SLOT_NAMES)[number]);
+  if (byName >= 0) return byName;
+  const n = Number(value);
+  if (Number.isInteger(n) && n >= 0 && n < CLI_SLOT_NAMES.length) return n;
+  throw new Error(`Unknown slot "${value}" (expected ${CLI_SLOT_NAMES.join(' or ')})`);
+}
+
+function hex32(value: number): string {
+  return `0x${(value >>> 0).toString(16).padStart(8, '0')}`;
+}
+
+export function parseSlotBlob(blob: Uint8Array, slot: number): ParsedSettings {
+  const res = tryParseSettingsBlob(blob);
+  if (!res.ok) throw new Error(`${cliSlotName(slot)}: ${res.error}`);
+  return res.value;
+}
+
+function ensureSlotExists(info: DeviceInfo, slot: number) {
+  if (slot >= info.slotCount) {
+    throw new Error(`Device has no ${cliSlotName(slot)} slot (slotCount=${info.slotCount})`);
+  }
+}
+
+/**
+ * Load settings blobs from a file: an exported device file (all slots it contains) or a raw
+ * settings blob, which is assigned to `rawSlot`. Raw blobs are rejected when `rawSlot` is null.
+ */
+export function loadSlotBlobs(bytes: Uint8Array, rawSlot: number | null): SlotBlob[] {
+  let text: string | null = null;
+  try {
+    text = new TextDecoder('utf-8', { fatal: true }).decode(bytes);
+  } catch {
+    // binary
+  }
+  if (text !== null && text.trimStart().startsWith('{')) {
+    const { orcaSlot, gp2040Slot } = parseDeviceFile(text);
+    const slots: SlotBlob[] = [];
+    if (orcaSlot) slots.push({ slot: 0, blob: orcaSlot });
+    if (gp2040Slot) slots.push({ slot: 1, blob: gp2040Slot });
+    if (slots.length === 0) throw new Error('Device file contains no slots');
+    return slots;
+  }
+  if (rawSlot === null) throw new Error('Expected a device file (.json)');
+  return [{ slot: rawSlot, blob: bytes }];
+}
+
+/**
+ * Run the UI's local validation on each blob. Returns false if any slot has errors. Pass
+ * `fromDevice` for blobs just read back, so their stored calibration is judged like the UI does.
+ */
+export function validateSlotBlobs(slots: SlotBlob[], out: CliOutput, fromDevice = false): boolean {
+  let ok = true;
+  for (const { slot, blob } of slots) {
+    const res = tryParseSettingsBlob(blob);
+    if (!res.ok) {
+      out.warn(`${cliSlotName(slot)}: ${res.error}`);
+      ok = false;
+      continue;
+    }
+    const { errors, warnings } = validateSettingsDraft(res.value.draft, fromDevice ? res.value.draft : null);
+    for (const w of warnings) out.warn(`${cliSlotName(slot)}: warning: ${w}`);
+    for (const e of errors) out.warn(`${cliSlotName(slot)}: error: ${e}`);
+    if (errors.length > 0) ok = false;
+    out.log(`${cliSlotName(slot)}: ${errors.length} error(s), ${warnings.length} warning(s)`);
+  }
+  return ok;
+}
+
+export async function readSlotBlob(
+  transport: OrcaTransport,
+  info: DeviceInfo,
+  slot: number,
+  signal?: AbortSignal,
+): Promise<Uint8Array> {
+  ensureSlotExists(info, slot);
+  return transport.readBlob(slot, { blobSize: info.blobSize, maxChunk: info.maxChunk, signal });
+}
+
+export function printDeviceInfo(info: DeviceInfo, out: CliOutput) {
+  out.log(`schema_id      ${hex32(info.schemaId)}`);
+  out.log(`settings       v${info.settingsMajor}.${info.settingsMinor}`);
+  out.log(`blob_size      ${info.blobSize}`);
+  out.log(`max_chunk      ${info.maxChunk}`);
+  out.log(`slot_count     ${info.slotCount}`);
+}
+
+export function printSettingsSummary(slot: number, parsed: ParsedSettings, out: CliOutput) {
+  const { header, draft } = parsed;
+  out.log(`[${cliSlotName(slot)}]`);
+  out.log(`  version      ${header.versionMajor}.${header.versionMinor}`);
+  out.log(`  generation   ${header.generation}`);
+  out.log(`  flags        ${hex32(header.flags)}`);
+  out.log(`  crc32        ${hex32(header.storedCrc32)}${header.crcValid ? '' : ` (computed ${hex32(header.computedCrc32)})`}`);
+  draft.profileLabels.forEach((label, i) => {
+    const marker = i === draft.activeProfile ? '*' : ' ';
+    out.log(`  ${marker} profile ${i + 1}  ${label || '(unnamed)'}`);
+  });
+}
+
+/**
+ * Stage `blob` into `slot` and ask the firmware to validate it, without committing.
+ * Throws if the firmware reports invalid sections.
+ */
+export async function stageAndValidate(
+  transport: OrcaTransport,
+  info: DeviceInfo,
+  slot: number,
+  blob: Uint8Array,
+  signal?: AbortSignal,
+): Promise<void> {
+  ensureSlotExists(info, slot);
+  await transport.beginSession({ signal });
+  await transport.writeBlob(slot, blob, { maxChunk: info.maxChunk, signal });
+  const v = await transport.validateStaged(slot, { signal });
+  if (v.invalidMask !== 0) {
+    throw new Error(`${cliSlotName(slot)}: validation failed: ${decodeStagedInvalidMask(v.invalidMask).join(', ')}`);
+  }
+}
+
+/**
+ * Same sequence as "Save to device" in the UI: stage, validate, unlock, commit, then read the
+ * slot back and confirm it parses. Returns the committed generation.
+ */
+export async function writeSlotBlob(
+  transport: OrcaTransport,
+  info: DeviceInfo,
+  slot: number,
+  blob: Uint8Array,
+  signal?: AbortSignal,
+): Promise<number> {
+  await stageAndValidate(transport, info, slot, blob, signal);
+  await transport.unlockWrites({ signal });
+  const { generation } = await transport.commitStaged(slot, { signal });
+  const readBack = await readSlotBlob(transport, info, slot, signal);
+  parseSlotBlob(readBack, slot);
+  return generation;
+}
+
+/**
+ * `write` and `import`: run local validation, then write every slot. Nothing is written when a
+ * slot has errors unless `force` is set; returns false in that case.
+ */
+export async function writeSlotBlobs(
+  transport: OrcaTransport,
+  info: DeviceInfo,
+  slots: SlotBlob[],
+  out: CliOutput,
+  options: { force?: boolean; signal?: AbortSignal } = {},
+): Promise<boolean> {
+  if (!validateSlotBlobs(slots, out) && !options.force) {
+    out.warn('Not written: fix the errors above or pass --force');
+    return false;
+  }
+  for (const entry of slots) {
+    const generation = await writeSlotBlob(transport, info, entry.slot, entry.blob, options.signal);
+    out.log(`${cliSlotName(entry.slot)}: committed (generation ${generation})`);
+  }
+  return true;
+}
+
+/** `reset`: restore one slot's defaults, or with `factory` every slot. */
+export async function resetOnDevice(
+  transport: OrcaTransport,
+  info: DeviceInfo,
+  slot: number,
+  out: CliOutput,
+  options: { factory?: boolean; signal?: AbortSignal } = {},
+): Promise<void> {
+  const { signal } = options;
+  if (!options.factory) ensureSlotExists(info, slot);
+  await transport.beginSession({ signal });
+  await transport.unlockWrites({ signal });
+  if (options.factory) {
+    const res = await transport.factoryReset({ signal });
+    out.log(`Factory reset (generations ${res.primaryGeneration}/${res.secondaryGeneration})`);
+  } else {
+    const res = await transport.resetDefaults(slot, { signal });
+    out.log(`${cliSlotName(slot)}: reset to defaults (generation ${res.generation})`);
+  }
+}
+
+export async function exportDeviceFile(
+  transport: OrcaTransport,
+  info: DeviceInfo,
+  signal?: AbortSignal,
+): Promise<string> {
+  const orcaSlot = await readSlotBlob(transport, info, 0, signal);
+  parseSlotBlob(orcaSlot, 0);
+  let gp2040Slot: Uint8Array | null = null;
+  if (info.slotCount >= 2) {
+    gp2040Slot = await readSlotBlob(transport, info, 1, signal);
+    parseSlotBlob(gp2040Slot, 1);
+  }
+  return serializeDeviceFileV2(orcaSlot, gp2040Slot);
+}
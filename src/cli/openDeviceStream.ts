@@ -0,0 +1,58 @@
+import { closeSync, constants, openSync } from 'node:fs';
+import { connect } from 'node:net';
+import { Duplex } from 'node:stream';
+import { ReadStream, WriteStream, isatty } from 'node:tty';
+
+/**
+ * Open a byte stream to a controller.
+ *
+ * - `tcp://host:port` connects to a serial-over-TCP bridge (ser2net, socat) or a simulator.
+ * - Anything else is treated as a POSIX serial device path (e.g. /dev/ttyACM0) and switched
+ *   to raw mode so the line discipline does not rewrite frame bytes.
+ */
+export async function openDeviceStream(spec: string): Promise<Duplex> {
+  if (spec.startsWith('tcp://')) {
+    const url = new URL(spec);
+    const port = Number(url.port);
+    if (!url.hostname || !Number.isInteger(port) || port <= 0) {
+      throw new Error(`Invalid TCP address: ${spec}`);
+    }
+    return new Promise((resolve, reject) => {
+      const socket = connect({ host: url.hostname, port });
+      socket.once('connect', () => {
+        socket.off('error', reject);
+        socket.setNoDelay(true);
+        resolve(socket);
+      });
+      socket.once('error', reject);
+    });
+  }
+
+  const fd = openSync(spec, constants.O_RDWR | constants.O_NOCTTY);
+  if (!isatty(fd)) {
+    closeSync(fd);
+    throw new Error(`${spec} is not a serial device`);
+  }
+  const readable = new ReadStream(fd);
+  readable.setRawMode(true);
+  const writable = new WriteStream(fd);
+  const duplex = new Duplex({
+    read() {
+      readable.resume();
+    },
+    write(chunk, _encoding, callback) {
+      writable.write(chunk, callback);
+    },
+    destroy(err, callback) {
+      readable.destroy();
+      writable.destroy();
+      callback(err);
+    },
+  });
+  readable.on('data', (chunk) => {
+    if (!duplex.push(chunk)) readable.pause();
+  });
+  readable.on('end', () => duplex.push(null));
+  readable.on('error', (err) => duplex.destroy(err));
+  return duplex;
+}
@@ -0,0 +1,316 @@
+import { readFile, writeFile } from 'node:fs/promises';
+import { parseArgs } from 'node:util';
+import {
+  compareInputTraceRuns,
+  formatInputTraceComparisonCsv,
+  formatInputTraceCsv,
+  formatInputTraceJson,
+  makeStickSweepTrace,
+  parseInputTrace,
+  simulateInputTrace,
+} from '../inputPreview/inputTrace';
+import { parseProfileFileV1, serializeProfileFileV1 } from '../schema/profileFile';
+import { isProfileText, parseProfileText, serializeProfileText, type ProfileTextComments } from '../schema/profileText';
+import { OrcaStreamTransport } from '../usb/OrcaStreamTransport';
+import {
+  cliSlotName,
+  exportDeviceFile,
+  loadSlotBlobs,
+  parseCliSlot,
+  parseSlotBlob,
+  printDeviceInfo,
+  printSettingsSummary,
+  readSlotBlob,
+  resetOnDevice,
+  stageAndValidate,
+  validateSlotBlobs,
+  writeSlotBlobs,
+  type CliOutput,
+  type SlotBlob,
+} from './deviceCommands';
+import { openDeviceStream } from './openDeviceStream';
+
+const USAGE = `Usage: orca-cli <command> [options]
+
+Commands:
+  info                      Print device and settings schema info
+  read                      Print a summary of a slot (--out saves the raw blob)
+  write <file>              Write a raw blob (to --slot) or every slot in a device file
+  validate [file]           Validate a file locally (and on the device with --port),
+                            or the settings currently on the device
+  reset                     Reset --slot to defaults (--factory resets everything)
+  reboot                    Reboot the controller
+  export <file>             Save all slots to a device file
+  import <file>             Write every slot from a device file
+  convert <file> -o <file>  Convert a profile between JSON and text (.toml); comments
+                            in the input or an existing text output are kept
+  simulate [trace]          Run an input trace (JSON or CSV) or --sweep through a profile
+                            of --settings offline; CSV, or JSON with -o <file>.json
+
+Options:
+  -p, --port <path|url>     Serial device (/dev/ttyACM0) or tcp://host:port  [env ORCA_PORT]
+  -s, --slot <orca|gp2040>  Slot for read/write/reset (default: orca)
+  -o, --out <file>          Output file for read, convert and simulate
+      --json                Print the parsed settings draft as JSON (read)
+      --force               Write even if local validation reports errors
+      --factory             Factory reset instead of resetting one slot
+      --reboot              Reboot after write/import/reset
+      --timeout <ms>        Override the per-command response timeout
+      --settings <file>     Device file or raw blob to simulate (simulate)
+      --profile <n>         Profile to simulate, 1-8 (default: the active profile)
+      --compare <file>      Also simulate these settings and compare the outputs
+      --compare-profile <n> Profile of the compared settings (default: --profile)
+      --sweep               Simulate a synthetic full-range stick sweep
+  -h, --help                Show this help
+`;
+
+class UsageError extends Error {}
+
+const out: CliOutput = {
+  log: (line) => process.stdout.write(`${line}\n`),
+  warn: (line) => process.stderr.write(`${line}\n`),
+};
+
+function requireArg(value: string | undefined, what: string): string {
+  if (!value) throw new UsageError(`Missing ${what}`);
+  return value;
+}
+
+const COMMANDS = ['info', 'read', 'write', 'validate', 'reset', 'reboot', 'export', 'import', 'convert', 'simulate'];
+
+async function readTextComments(path: string): Promise<ProfileTextComments | undefined> {
+  let text: string;
+  try {
+    text = await readFile(path, 'utf8');
+  } catch {
+    return undefined;
+  }
+  try {
+    return isProfileText(text) ? parseProfileText(text).comments : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+// Output format follows the output extension: .json writes a profile file, anything else text.
+async function convertProfile(inputPath: string, outputPath: string) {
+  const input = await readFile(inputPath, 'utf8');
+  const parsed = isProfileText(input) ? parseProfileText(input) : { profile: parseProfileFileV1(input), comments: undefined };
+  if (outputPath.toLowerCase().endsWith('.json')) {
+    await writeFile(outputPath, serializeProfileFileV1(parsed.profile));
+  } else {
+    const comments = parsed.comments ?? (await readTextComments(outputPath));
+    await writeFile(outputPath, serializeProfileText(parsed.profile, { comments }));
+  }
+  out.log(`Converted to ${outputPath}`);
+}
+
+function parseProfileNumber(value: string | undefined, option: string): number | undefined {
+  if (value === undefined) return undefined;
+  const n = Number(value);
+  if (!Number.isInteger(n) || n < 1) throw new UsageError(`Invalid ${option}: ${value}`);
+  return n - 1;
+}
+
+async function loadSimulatedSlot(path: string, slot: number): Promise<SlotBlob> {
+  const slots = loadSlotBlobs(new Uint8Array(await readFile(path)), slot);
+  const entry = slots.find((s) => s.slot === slot);
+  if (!entry) throw new Error(`${path} has no ${cliSlotName(slot)} slot`);
+  return entry;
+}
+
+async function simulateTrace(
+  tracePath: string | undefined,
+  options: { sweep: boolean; settings: string; slot: number; profile?: number; compare?: string; compareProfile?: number; out?: string },
+) {
+  if (!tracePath && !options.sweep) throw new UsageError('Missing trace file (or --sweep)');
+  const samples = tracePath ? parseInputTrace(await readFile(tracePath, 'utf8')) : makeStickSweepTrace();
+  const mode = options.slot === 1 ? 'gp2040' : 'orca';
+  const run = async (path: string, profile: number | undefined) => {
+    const { slot, blob } = await loadSimulatedSlot(path, options.slot);
+    return simulateInputTrace(samples, parseSlotBlob(blob, slot).draft, blob, { mode, profile });
+  };
+
+  const rows = await run(options.settings, options.profile);
+  const asJson = options.out?.toLowerCase().endsWith('.json') ?? false;
+  let text: string;
+  if (options.compare !== undefined || options.compareProfile !== undefined) {
+    const comparison = compareInputTraceRuns(rows, await run(options.compare ?? options.settings, options.compareProfile ?? options.profile));
+    text = asJson ? JSON.stringify(comparison, null, 2) + '\n' : formatInputTraceComparisonCsv(comparison);
+    const { maxDelta, digitalMismatches } = comparison;
+    out.warn(
+      `Max difference: stick x ${maxDelta.stick_x.toFixed(4)}, stick y ${maxDelta.stick_y.toFixed(4)}, `
+        + `L ${maxDelta.trigger_l.toFixed(4)}, R ${maxDelta.trigger_r.toFixed(4)}; `
+        + `buttons differ in ${digitalMismatches} of ${rows.length} samples`,
+    );
+  } else {
+    text = asJson ? formatInputTraceJson(rows) : formatInputTraceCsv(rows);
+  }
+
+  if (options.out) {
+    await writeFile(options.out, text);
+    out.log(`Simulated ${samples.length} samples to ${options.out}`);
+  } else {
+    process.stdout.write(text);
+  }
+}
+
+function parseCliArgs(argv: string[]) {
+  try {
+    return parseArgs({
+      args: argv,
+      allowPositionals: true,
+      options: {
+        port: { type: 'string', short: 'p' },
+        slot: { type: 'string', short: 's' },
+        out: { type: 'string', short: 'o' },
+        json: { type: 'boolean' },
+        force: { type: 'boolean' },
+        factory: { type: 'boolean' },
+        reboot: { type: 'boolean' },
+        timeout: { type: 'string' },
+        settings: { type: 'string' },
+        profile: { type: 'string' },
+        compare: { type: 'string' },
+        'compare-profile': { type: 'string' },
+        sweep: { type: 'boolean' },
+        help: { type: 'boolean', short: 'h' },
+      },
+    });
+  } catch (e) {
+    throw new UsageError(e instanceof Error ? e.message : String(e));
+  }
+}
+
+async function main(argv: string[]): Promise<number> {
+  const { values, positionals } = parseCliArgs(argv);
+
+  const [command, fileArg] = positionals;
+  if (values.help || !command) {
+    out.log(USAGE);
+    return command || values.help ? 0 : 2;
+  }
+  if (!COMMANDS.includes(command)) throw new UsageError(`Unknown command: ${command}`);
+
+  const slot = parseCliSlot(values.slot);
+  const portSpec = values.port ?? process.env.ORCA_PORT;
+  const timeoutMs = values.timeout !== undefined ? Number(values.timeout) : undefined;
+  if (timeoutMs !== undefined && !(timeoutMs > 0)) throw new UsageError(`Invalid --timeout: ${values.timeout}`);
+
+  if (command === 'convert') {
+    await convertProfile(requireArg(fileArg, 'input file'), requireArg(values.out, '--out'));
+    return 0;
+  }
+
+  if (command === 'simulate') {
+    await simulateTrace(fileArg, {
+      sweep: values.sweep ?? false,
+      settings: requireArg(values.settings, '--settings'),
+      slot,
+      profile: parseProfileNumber(values.profile, '--profile'),
+      compare: values.compare,
+      compareProfile: parseProfileNumber(values['compare-profile'], '--compare-profile'),
+      out: values.out,
+    });
+    return 0;
+  }
+
+  const exportPath = command === 'export' ? requireArg(fileArg, 'output file') : '';
+
+  // validate <file> without a port is a purely local check; write and import validate in
+  // writeSlotBlobs.
+  let fileSlots: SlotBlob[] | null = null;
+  if (command === 'write' || command === 'import' || (command === 'validate' && fileArg)) {
+    const bytes = new Uint8Array(await readFile(requireArg(fileArg, 'input file')));
+    fileSlots = loadSlotBlobs(bytes, command === 'import' ? null : slot);
+    if (command === 'validate') {
+      if (!validateSlotBlobs(fileSlots, out)) return 1;
+      if (!portSpec) return 0;
+    }
+  }
+
+  const stream = await openDeviceStream(requireArg(portSpec, '--port'));
+  const transport = new OrcaStreamTransport(stream, {
+    timeouts: timeoutMs !== undefined ? { defaultMs: timeoutMs, perCmd: {} } : undefined,
+  });
+  const abort = new AbortController();
+  const onSigint = () => abort.abort(new Error('Interrupted'));
+  process.once('SIGINT', onSigint);
+  const signal = abort.signal;
+
+  try {
+    const info = await transport.getInfo({ signal });
+
+    switch (command) {
+      case 'info': {
+        printDeviceInfo(info, out);
+        return 0;
+      }
+      case 'read': {
+        const blob = await readSlotBlob(transport, info, slot, signal);
+        if (values.out) {
+          await writeFile(values.out, blob);
+          out.log(`Wrote ${blob.length} bytes to ${values.out}`);
+        }
+        const parsed = parseSlotBlob(blob, slot);
+        if (values.json) out.log(JSON.stringify(parsed.draft, null, 2));
+        else printSettingsSummary(slot, parsed, out);
+        return 0;
+      }
+      case 'write':
+      case 'import': {
+        if (!(await writeSlotBlobs(transport, info, fileSlots ?? [], out, { force: values.force, signal }))) return 1;
+        break;
+      }
+      case 'validate': {
+        if (fileSlots) {
+          for (const entry of fileSlots) {
+            await stageAndValidate(transport, info, entry.slot, entry.blob, signal);
+            out.log(`${cliSlotName(entry.slot)}: device validation passed (not committed)`);
+          }
+          return 0;
+        }
+        const slots: SlotBlob[] = [];
+        for (let s = 0; s < Math.min(info.slotCount, 2); s++) {
+          slots.push({ slot: s, blob: await readSlotBlob(transport, info, s, signal) });
+        }
+        return validateSlotBlobs(slots, out, true) ? 0 : 1;
+      }
+      case 'reset': {
+        await resetOnDevice(transport, info, slot, out, { factory: values.factory, signal });
+        break;
+      }
+      case 'reboot': {
+        await transport.reboot({ signal });
+        out.log('Rebooting');
+        return 0;
+      }
+      case 'export': {
+        const json = await exportDeviceFile(transport, info, signal);
+        await writeFile(exportPath, json);
+        out.log(`Exported to ${exportPath}`);
+        return 0;
+      }
+    }
+
+    if (values.reboot) {
+      await transport.reboot({ signal });
+      out.log('Rebooting');
+    }
+    return 0;
+  } finally {
+    process.off('SIGINT', onSigint);
+    await transport.close();
+  }
+}
+
+main(process.argv.slice(2)).then(
+  (code) => {
+    process.exitCode = code;
+  },
+  (e: unknown) => {
+    out.warn(`orca-cli: ${e instanceof Error ? e.message : String(e)}`);
+    if (e instanceof UsageError) out.warn(USAGE);
+    process.exitCode = e instanceof UsageError ? 2 : 1;
+  },
+);
@@ -0,0 +1,60 @@
+import { describe, expect, it } from 'vitest';
+import { makeDefaultSettingsBlob } from '../schema/settingsDefaults';
+import { parseSettingsBlob } from '../schema/settingsBlob';
+import {
+  compareInputTraceRuns,
+  formatInputTraceCsv,
+  inputTraceDuration,
+  inputTraceIndexAt,
+  makeStickSweepTrace,
+  parseInputTrace,
+  serializeInputTrace,
+  simulateInputTrace,
+} from './inputTrace';
+
+describe('input traces', () => {
+  const blob = makeDefaultSettingsBlob(0, 1);
+  const draft = parseSettingsBlob(blob).draft;
+
+  it('parses JSON and CSV traces', () => {
+    const csv = 't,digitalMask,a0,a1,a2,a3,a4\n# idle\n0,0,0,0,0,0,0\n16,1,0,0.5,0,0,0\n';
+    const samples = parseInputTrace(csv);
+    expect(samples[1]).toEqual({ t: 16, digitalMask: 1, analog: [0, 0.5, 0, 0, 0] });
+    expect(parseInputTrace(serializeInputTrace(samples))).toEqual(samples);
+    expect(inputTraceDuration(samples)).toBe(16);
+    expect([-5, 0, 15, 16, 99].map((p) => inputTraceIndexAt(samples, p))).toEqual([0, 0, 0, 1, 1]);
+    expect(() => parseInputTrace('t,digitalMask,a0\n0,0,0\n')).toThrow('"a1"');
+    expect(() => parseInputTrace(JSON.stringify([{ t: 5, digitalMask: 0, analog: [0, 0, 0, 0, 0] }, { t: 1, digitalMask: 0, analog: [0, 0, 0, 0, 0] }]))).toThrow('back in time');
+  });
+
+  it('rejects empty, non-numeric and non-finite values', () => {
+    const header = 't,digitalMask,a0,a1,a2,a3,a4\n# idle\n0,0,0,0,0,0,0\n';
+    expect(() => parseInputTrace(`${header}16,1,0,,0,0,0\n`)).toThrow('line 4, column 4 (a1) is empty');
+    expect(() => parseInputTrace(`${header}16,1,0,0,x,0,0\n`)).toThrow('line 4, column 5 (a2) is not a number: "x"');
+    expect(() => parseInputTrace(`${header}16,1,0,0,0,Infinity,0\n`)).toThrow('line 4, column 6 (a3) is not a number');
+    expect(() => parseInputTrace(`${header}16,1,0,0,0,0\n`)).toThrow('line 4, column 7 (a4) is empty');
+    expect(() => parseInputTrace('[{ "t": 0, "digitalMask": 0, "analog": [0, 0, 1e999, 0, 0] }]')).toThrow('sample 0 needs 5 finite analog values');
+  });
+
+  it('simulates a trace per profile and compares two profiles', () => {
+    const trace = [...makeStickSweepTrace(17), { t: 1000, digitalMask: 1, analog: [0, 0, 0, 0, 0] }];
+    const settings = structuredClone(draft);
+    settings.stickCurveParams[1] = { ...settings.stickCurveParams[1]!, range: settings.stickCurveParams[1]!.range.map(() => 0.5) };
+    settings.digitalMappings[1] = settings.digitalMappings[1]!.map((src, dest) => (dest === 0 ? 1 : dest === 1 ? 0 : src));
+
+    const a = simulateInputTrace(trace, settings, blob, { profile: 0 });
+    const b = simulateInputTrace(trace, settings, blob, { profile: 1 });
+    expect(a[0]!.result.joystick.x).toBeLessThan(-0.8);
+    expect(b[0]!.result.joystick.x).toBeCloseTo(-0.5);
+
+    const comparison = compareInputTraceRuns(a, b);
+    expect(comparison.maxDelta.stick_x).toBeGreaterThan(0.3);
+    expect(comparison.maxDelta.trigger_r).toBe(0);
+    expect(comparison.digitalMismatches).toBe(1);
+
+    const csv = formatInputTraceCsv(a).trimEnd().split('\n');
+    expect(csv).toHaveLength(trace.length + 1);
+    expect(csv[0]).toMatch(/^t,raw_digital,raw_a0,/);
+    expect(() => simulateInputTrace(trace, settings, blob, { profile: 99 })).toThrow('No profile 100');
+  });
+});
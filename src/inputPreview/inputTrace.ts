@@ -0,0 +1,250 @@
+/**
+ * Offline input traces: timestamped controller input samples run through `computeInputPreview`
+ * for any settings draft and profile, without a controller attached.
+ */
+import { ORCA_CONFIG_ORCA_ANALOG_INPUT_COUNT } from '@shared/orca_config_idl_generated';
+import type { SettingsDraft } from '../schema/settingsBlob';
+import type { OrcaInputState } from '../usb/OrcaTransport';
+import { computeInputPreview, type InputPreviewMode, type InputPreviewResult } from './orcaInputPreview';
+
+export type InputTraceSample = OrcaInputState & {
+  t: number; // ms since the start of the trace
+};
+
+export type InputTraceRow = {
+  t: number;
+  result: InputPreviewResult;
+};
+
+export type InputTraceOptions = {
+  mode?: InputPreviewMode;
+  // Profile to simulate; defaults to the draft's active profile.
+  profile?: number;
+};
+
+const ANALOG_COLUMNS = Array.from({ length: ORCA_CONFIG_ORCA_ANALOG_INPUT_COUNT }, (_, i) => `a${i}`);
+
+function parseSample(value: unknown, index: number): InputTraceSample {
+  if (typeof value !== 'object' || value === null) throw new Error(`Invalid input trace: sample ${index} is not an object`);
+  const rec = value as Record<string, unknown>;
+  const { t, digitalMask, analog } = rec;
+  if (typeof t !== 'number' || !Number.isFinite(t)) throw new Error(`Invalid input trace: sample ${index} has no time`);
+  if (typeof digitalMask !== 'number' || !Number.isInteger(digitalMask)) {
+    throw new Error(`Invalid input trace: sample ${index} has no digitalMask`);
+  }
+  if (!Array.isArray(analog) || analog.length !== ORCA_CONFIG_ORCA_ANALOG_INPUT_COUNT || !analog.every((v) => typeof v === 'number' && Number.isFinite(v))) {
+    throw new Error(`Invalid input trace: sample ${index} needs ${ORCA_CONFIG_ORCA_ANALOG_INPUT_COUNT} finite analog values`);
+  }
+  return { t, digitalMask: digitalMask >>> 0, analog: analog as number[] };
+}
+
+function parseTraceCsv(text: string): InputTraceSample[] {
+  const lines = text.split(/\r?\n/)
+    .map((l, i) => ({ text: l.trim(), line: i + 1 }))
+    .filter((l) => l.text && !l.text.startsWith('#'));
+  const header = (lines.shift()?.text ?? '').split(',').map((h) => h.trim());
+  const column = (name: string) => {
+    const i = header.indexOf(name);
+    if (i < 0) throw new Error(`Invalid input trace: CSV has no "${name}" column`);
+    return i;
+  };
+  const tCol = column('t');
+  const maskCol = column('digitalMask');
+  const analogCols = ANALOG_COLUMNS.map(column);
+  return lines.map(({ text: row, line }, i) => {
+    const cells = row.split(',');
+    const num = (col: number) => {
+      const cell = cells[col]?.trim() ?? '';
+      const where = `line ${line}, column ${col + 1} (${header[col]})`;
+      if (!cell) throw new Error(`Invalid input trace: ${where} is empty`);
+      const value = Number(cell);
+      if (!Number.isFinite(value)) throw new Error(`Invalid input trace: ${where} is not a number: "${cell}"`);
+      return value;
+    };
+    return parseSample({ t: num(tCol), digitalMask: num(maskCol), analog: analogCols.map(num) }, i);
+  });
+}
+
+/**
+ * Parse a trace: a JSON array of `{ t, digitalMask, analog }` (or `{ samples: [...] }`), or CSV with
+ * columns `t,digitalMask,a0..a4`. Samples must be in time order.
+ */
+export function parseInputTrace(text: string): InputTraceSample[] {
+  const trimmed = text.trimStart();
+  let samples: InputTraceSample[];
+  if (trimmed.startsWith('[') || trimmed.startsWith('{')) {
+    let root: unknown;
+    try {
+      root = JSON.parse(text);
+    } catch {
+      throw new Error('Invalid input trace: bad JSON');
+    }
+    const list = Array.isArray(root) ? root : (root as Record<string, unknown>).samples;
+    if (!Array.isArray(list)) throw new Error('Invalid input trace: expected an array of samples');
+    samples = list.map(parseSample);
+  } else {
+    samples = parseTraceCsv(text);
+  }
+  if (samples.length === 0) throw new Error('Invalid input trace: no samples');
+  for (let i = 1; i < samples.length; i++) {
+    if (samples[i]!.t < samples[i - 1]!.t) throw new Error(`Invalid input trace: sample ${i} goes back in time`);
+  }
+  return samples;
+}
+
+export function serializeInputTrace(samples: InputTraceSample[]): string {
+  return JSON.stringify({ samples }, null, 2) + '\n';
+}
+
+/**
+ * Synthetic trace sweeping the stick full left to full right, then full down to full up, with
+ * nothing else pressed. Useful for comparing stick curves.
+ */
+export function makeStickSweepTrace(stepsPerAxis = 129, intervalMs = 8): InputTraceSample[] {
+  const samples: InputTraceSample[] = [];
+  const push = (analog: number[]) => samples.push({ t: samples.length * intervalMs, digitalMask: 0, analog });
+  for (const [negative, positive] of [[0, 1], [3, 2]] as const) {
+    for (let i = 0; i < stepsPerAxis; i++) {
+      const v = stepsPerAxis === 1 ? 0 : (i / (stepsPerAxis - 1)) * 2 - 1;
+      const analog = new Array<number>(ORCA_CONFIG_ORCA_ANALOG_INPUT_COUNT).fill(0);
+      analog[v < 0 ? negative : positive] = Math.abs(v);
+      push(analog);
+    }
+  }
+  return samples;
+}
+
+/** Run every sample through the preview pipeline in order, so DPAD hysteresis carries between samples. */
+export function simulateInputTrace(
+  samples: InputTraceSample[],
+  draft: SettingsDraft,
+  baseBlob: Uint8Array,
+  options: InputTraceOptions = {},
+): InputTraceRow[] {
+  const profile = options.profile ?? draft.activeProfile ?? 0;
+  if (!Number.isInteger(profile) || profile < 0 || profile >= draft.profileLabels.length) {
+    throw new Error(`No profile ${profile + 1} in these settings`);
+  }
+  const simulated = { ...draft, activeProfile: profile };
+  let previous: InputPreviewResult | null = null;
+  return samples.map(({ t, digitalMask, analog }) => {
+    const result = computeInputPreview({ digitalMask, analog }, simulated, baseBlob, { mode: options.mode, previous });
+    previous = result;
+    return { t, result };
+  });
+}
+
+// ---------------------------------------------------------------------------
+// Output
+// ---------------------------------------------------------------------------
+
+const FIELD_DIGITS = 6;
+
+function traceFields(result: InputPreviewResult): Record<string, number> {
+  const fields: Record<string, number> = { raw_digital: result.raw.digitalMask };
+  const add = (prefix: string, values: number[]) => ANALOG_COLUMNS.forEach((col, i) => (fields[`${prefix}_${col}`] = values[i] ?? 0));
+  add('raw', result.raw.analog);
+  add('calibrated', result.rangeCalibratedAnalog);
+  add('curved', result.curvedAnalog);
+  add('mapped', result.mappedAnalog);
+  fields.mapped_digital = result.mappedDigitalMask;
+  fields.stick_x = result.joystick.x;
+  fields.stick_y = result.joystick.y;
+  fields.trigger_l = result.triggers.l;
+  fields.trigger_r = result.triggers.r;
+  fields.dpad = (result.dpad.up ? 1 : 0) | (result.dpad.down ? 2 : 0) | (result.dpad.left ? 4 : 0) | (result.dpad.right ? 8 : 0);
+  return fields;
+}
+
+function formatNumber(v: number): string {
+  return Number.isInteger(v) ? String(v) : v.toFixed(FIELD_DIGITS);
+}
+
+function toCsv(records: Record<string, number>[]): string {
+  if (records.length === 0) return '';
+  const header = Object.keys(records[0]!);
+  const lines = records.map((r) => header.map((h) => formatNumber(r[h] ?? 0)).join(','));
+  return [header.join(','), ...lines].join('\n') + '\n';
+}
+
+/** One row per sample; `dpad` is a bit set (1 up, 2 down, 4 left, 8 right). */
+export function formatInputTraceCsv(rows: InputTraceRow[]): string {
+  return toCsv(rows.map(({ t, result }) => ({ t, ...traceFields(result) })));
+}
+
+export function formatInputTraceJson(rows: InputTraceRow[]): string {
+  return JSON.stringify(rows.map(({ t, result }) => ({ t, ...traceFields(result) })), null, 2) + '\n';
+}
+
+// ---------------------------------------------------------------------------
+// Comparison
+// ---------------------------------------------------------------------------
+
+const COMPARED_FIELDS = ['stick_x', 'stick_y', 'trigger_l', 'trigger_r', 'mapped_digital', 'dpad'] as const;
+type ComparedField = (typeof COMPARED_FIELDS)[number];
+
+export type InputTraceComparison = {
+  rows: { t: number; a: Record<ComparedField, number>; b: Record<ComparedField, number> }[];
+  // Largest absolute difference per analog field.
+  maxDelta: Record<'stick_x' | 'stick_y' | 'trigger_l' | 'trigger_r', number>;
+  // Samples where button or D-pad outputs differ.
+  digitalMismatches: number;
+};
+
+/** Compare two simulations of the same trace (e.g. two profiles) sample by sample. */
+export function compareInputTraceRuns(a: InputTraceRow[], b: InputTraceRow[]): InputTraceComparison {
+  if (a.length !== b.length) throw new Error('Cannot compare simulations of different traces');
+  const pick = (result: InputPreviewResult) => {
+    const fields = traceFields(result);
+    return Object.fromEntries(COMPARED_FIELDS.map((f) => [f, fields[f] ?? 0])) as Record<ComparedField, number>;
+  };
+  const maxDelta = { stick_x: 0, stick_y: 0, trigger_l: 0, trigger_r: 0 };
+  let digitalMismatches = 0;
+  const rows = a.map((rowA, i) => {
+    const rowB = b[i]!;
+    if (rowA.t !== rowB.t) throw new Error('Cannot compare simulations of different traces');
+    const fa = pick(rowA.result);
+    const fb = pick(rowB.result);
+    for (const key of Object.keys(maxDelta) as (keyof typeof maxDelta)[]) {
+      maxDelta[key] = Math.max(maxDelta[key], Math.abs(fa[key] - fb[key]));
+    }
+    if (fa.mapped_digital !== fb.mapped_digital || fa.dpad !== fb.dpad) digitalMismatches++;
+    return { t: rowA.t, a: fa, b: fb };
+  });
+  return { rows, maxDelta, digitalMismatches };
+}
+
+/** Side-by-side CSV: `a_<field>`, `b_<field>` and (for analog fields) `delta_<field>` per sample. */
+export function formatInputTraceComparisonCsv(comparison: InputTraceComparison): string {
+  return toCsv(comparison.rows.map(({ t, a, b }) => {
+    const record: Record<string, number> = { t };
+    for (const f of COMPARED_FIELDS) {
+      record[`a_${f}`] = a[f];
+      record[`b_${f}`] = b[f];
+      if (f !== 'mapped_digital' && f !== 'dpad') record[`delta_${f}`] = b[f] - a[f];
+    }
+    return record;
+  }));
+}
+
+// ---------------------------------------------------------------------------
+// Playback
+// ---------------------------------------------------------------------------
+
+export function inputTraceDuration(samples: InputTraceSample[]): number {
+  return samples.length === 0 ? 0 : samples[samples.length - 1]!.t - samples[0]!.t;
+}
+
+/** Index of the sample in effect `position` ms into the trace (the last one at or before it). */
+export function inputTraceIndexAt(samples: InputTraceSample[], position: number): number {
+  if (samples.length === 0) return -1;
+  const t = samples[0]!.t + position;
+  let lo = 0;
+  let hi = samples.length - 1;
+  while (lo < hi) {
+    const mid = (lo + hi + 1) >> 1;
+    if (samples[mid]!.t <= t) lo = mid;
+    else hi = mid - 1;
+  }
+  return lo;
+}
@@ -0,0 +1,43 @@
+import { describe, expect, it } from 'vitest';
+import { makeDefaultSettingsBlob } from '../schema/settingsDefaults';
+import { parseSettingsBlob } from '../schema/settingsBlob';
+import { analyzeMeleeCoordinate, analyzeStickCurveReach, formatMeleeCoordinatesCsv, toMeleeCoordinate } from './meleeCoordinates';
+
+describe('Melee coordinates', () => {
+  it('projects firmware stick values onto the 80-unit circle and classifies them', () => {
+    expect(toMeleeCoordinate(1, 0)).toEqual({ xUnits: 80, yUnits: 0, x: 1, y: 0 });
+    expect(toMeleeCoordinate(-0.1, 0.1)).toEqual({ xUnits: -13, yUnits: 13, x: -13 / 80, y: 13 / 80 });
+
+    const neutral = analyzeMeleeCoordinate(toMeleeCoordinate(-0.1, 0.1));
+    expect(neutral).toMatchObject({ region: 'neutral', angle: null, zone: 'deadzone', hits: [] });
+
+    // Melee preset: full diagonal and the full-X + down-notch wavedash.
+    const southDiagonal = analyzeMeleeCoordinate(toMeleeCoordinate(105 / 128, -105 / 128));
+    expect(southDiagonal).toMatchObject({ xUnits: 56, yUnits: -56, region: 'down-right', zone: 'smash' });
+    expect(southDiagonal.angle).toBeCloseTo(315);
+    expect(southDiagonal.hits).toContain('shield-drop-ucf');
+
+    const wavedash = analyzeMeleeCoordinate(toMeleeCoordinate(105 / 128, -35 / 128));
+    expect(wavedash).toMatchObject({ xUnits: 75, yUnits: -25 });
+    expect(wavedash.hits).toEqual(['dash', 'wavedash', 'wavedash-optimal', 'firefox', 'firefox-optimal']);
+
+    // Same bands as the stick curve editor: 0.3000 is "Caution", 0.2875 a likely miss.
+    expect(analyzeMeleeCoordinate({ xUnits: 75, yUnits: -24, x: 75 / 80, y: -24 / 80 }).hits).toEqual(['dash', 'wavedash', 'firefox', 'angle-risky']);
+    expect(analyzeMeleeCoordinate({ xUnits: 23, yUnits: 75, x: 23 / 80, y: 75 / 80 }).hits).toEqual(['smash-up', 'firefox', 'angle-risky']);
+  });
+
+  it('lists every coordinate a stick curve can reach', () => {
+    const params = parseSettingsBlob(makeDefaultSettingsBlob(0, 1)).draft.stickCurveParams[0]!;
+    const rows = analyzeStickCurveReach(params);
+    const keys = new Set(rows.map((r) => `${r.xUnits},${r.yUnits}`));
+    expect(keys.size).toBe(rows.length);
+    expect(keys).toContain('80,0');
+    expect(keys).toContain('56,-56');
+    expect(keys).toContain('0,0');
+    expect(rows.every((r) => r.xUnits ** 2 + r.yUnits ** 2 <= 80 ** 2)).toBe(true);
+
+    const csv = formatMeleeCoordinatesCsv(rows).trimEnd().split('\n');
+    expect(csv).toHaveLength(rows.length + 1);
+    expect(csv.find((line) => line.startsWith('56,-56,'))).toContain('shield-drop-ucf');
+  });
+});
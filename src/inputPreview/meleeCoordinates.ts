@@ -0,0 +1,183 @@
+/**
+ * Stick outputs on Melee's coordinate grid: the game reads each axis in units of 1/80 and clamps
+ * the stick to an 80-unit circle. Thresholds below use the same values as the Melee calculator in
+ * the stick curve editor.
+ */
+import { ORCA_CONFIG_ORCA_ANALOG_INPUT_COUNT } from '@shared/orca_config_idl_generated';
+import type { StickCurveParamsV1 } from '../schema/settingsBlob';
+import { applyStickCurve } from './orcaInputPreview';
+
+const MELEE_RADIUS = 80;
+// Firmware stick resolution: 1.0 is 128 units.
+const FIRMWARE_UNITS = 128;
+
+// Axis values below 0.2750 read as zero.
+const DEADZONE_UNITS = 22;
+// Minor-axis values of 0.2875 and 0.3000 may miss the angle (the editor's warning and caution).
+const RISKY_ANGLE_UNITS = 24;
+const DASH_UNITS = 64; // 0.8000
+const SMASH_Y_UNITS = 53; // 0.6625
+const UCF_SHIELD_DROP_UNITS = 49; // 0.6125
+const VANILLA_SHIELD_DROP_UNITS = [53, 55] as const; // 0.6625-0.6875
+const OPTIMAL_ANGLE_UNITS = [25, 25] as const; // 0.3125
+
+export type MeleeZone = 'deadzone' | 'tilt' | 'smash';
+
+export type MeleeThreshold =
+  | 'dash'
+  | 'smash-up'
+  | 'smash-down'
+  | 'shield-drop-ucf'
+  | 'shield-drop-vanilla'
+  | 'wavedash'
+  | 'wavedash-optimal'
+  | 'firefox'
+  | 'firefox-optimal'
+  | 'angle-risky';
+
+export const MELEE_THRESHOLD_LABELS: Record<MeleeThreshold, string> = {
+  dash: 'Dash / F-smash (|x| ≥ 0.8000)',
+  'smash-up': 'Up-smash / tap jump (y ≥ 0.6625)',
+  'smash-down': 'Down-smash (y ≤ -0.6625)',
+  'shield-drop-ucf': 'Shield drop, UCF (down diagonal, y ≤ -0.6125)',
+  'shield-drop-vanilla': 'Shield drop, vanilla (y -0.6625 to -0.6875)',
+  wavedash: 'Wavedash angle (down diagonal)',
+  'wavedash-optimal': 'Optimal wavedash angle (|y| 0.3125)',
+  firefox: 'Firefox angle (off-cardinal)',
+  'firefox-optimal': 'Optimal firefox angle (minor axis 0.3125)',
+  'angle-risky': 'Angle may miss (minor axis 0.2875-0.3000)',
+};
+
+export type MeleeCoordinate = {
+  xUnits: number; // -80..80
+  yUnits: number;
+  x: number; // xUnits / 80
+  y: number;
+};
+
+export type MeleeStickAnalysis = MeleeCoordinate & {
+  // e.g. "up-right"; "neutral" inside the deadzone, a single direction when only one axis counts.
+  region: string;
+  angle: number | null; // degrees counter-clockwise from right, 0..360
+  zone: MeleeZone;
+  hits: MeleeThreshold[];
+};
+
+/**
+ * Melee coordinates for a firmware stick position (1.0 = 128 units): rounded to firmware units,
+ * then projected onto the 80-unit circle with Melee's truncation.
+ */
+export function toMeleeCoordinate(x: number, y: number): MeleeCoordinate {
+  const xInt = Math.round(x * FIRMWARE_UNITS);
+  const yInt = Math.round(y * FIRMWARE_UNITS);
+  const magnitude = Math.sqrt(xInt * xInt + yInt * yInt);
+  const clamp = magnitude > MELEE_RADIUS ? MELEE_RADIUS / magnitude : 1;
+  // `|| 0` avoids -0 for axes that truncate to zero.
+  const xUnits = Math.trunc(xInt * clamp) || 0;
+  const yUnits = Math.trunc(yInt * clamp) || 0;
+  return { xUnits, yUnits, x: xUnits / MELEE_RADIUS, y: yUnits / MELEE_RADIUS };
+}
+
+function regionName(xActive: boolean, yActive: boolean, xUnits: number, yUnits: number): string {
+  const vertical = yActive ? (yUnits > 0 ? 'up' : 'down') : '';
+  const horizontal = xActive ? (xUnits > 0 ? 'right' : 'left') : '';
+  return [vertical, horizontal].filter(Boolean).join('-') || 'neutral';
+}
+
+export function analyzeMeleeCoordinate(coordinate: MeleeCoordinate): MeleeStickAnalysis {
+  const { xUnits, yUnits } = coordinate;
+  const ax = Math.abs(xUnits);
+  const ay = Math.abs(yUnits);
+  const xActive = ax >= DEADZONE_UNITS;
+  const yActive = ay >= DEADZONE_UNITS;
+  const diagonal = xActive && yActive;
+  const hits: MeleeThreshold[] = [];
+
+  if (ax >= DASH_UNITS) hits.push('dash');
+  if (yUnits >= SMASH_Y_UNITS) hits.push('smash-up');
+  if (yUnits <= -SMASH_Y_UNITS) hits.push('smash-down');
+  if (diagonal && yUnits < 0) {
+    if (ay >= VANILLA_SHIELD_DROP_UNITS[0] && ay <= VANILLA_SHIELD_DROP_UNITS[1]) hits.push('shield-drop-vanilla');
+    else if (ay >= UCF_SHIELD_DROP_UNITS) hits.push('shield-drop-ucf');
+  }
+  if (diagonal) {
+    const minor = Math.min(ax, ay);
+    const optimal = minor >= OPTIMAL_ANGLE_UNITS[0] && minor <= OPTIMAL_ANGLE_UNITS[1];
+    if (yUnits < 0) {
+      hits.push('wavedash');
+      if (optimal && ay === minor) hits.push('wavedash-optimal');
+    }
+    hits.push('firefox');
+    if (optimal) hits.push('firefox-optimal');
+    if (minor <= RISKY_ANGLE_UNITS) hits.push('angle-risky');
+  }
+
+  const active = xActive || yActive;
+  let angle: number | null = null;
+  if (active) {
+    angle = (Math.atan2(yActive ? yUnits : 0, xActive ? xUnits : 0) * 180) / Math.PI;
+    if (angle < 0) angle += 360;
+  }
+  const zone: MeleeZone = !active ? 'deadzone' : ax >= DASH_UNITS || ay >= SMASH_Y_UNITS ? 'smash' : 'tilt';
+
+  return { ...coordinate, region: regionName(xActive, yActive, xUnits, yUnits), angle, zone, hits };
+}
+
+export type ReachableMeleeCoordinate = MeleeStickAnalysis & {
+  // One calibrated input (0..1 per direction, negative = left/down) producing this coordinate.
+  inputX: number;
+  inputY: number;
+};
+
+// Calibrated input per direction, finer than the firmware's output resolution so no output is skipped.
+const SWEEP_STEPS = 1024;
+
+function reachableAxisValues(params: StickCurveParamsV1, negative: number, positive: number): Map<number, number> {
+  const byOutput = new Map<number, number>(); // firmware units -> signed input
+  for (const [axis, sign] of [[negative, -1], [positive, 1]] as const) {
+    for (let i = 0; i <= SWEEP_STEPS; i++) {
+      const input = i / SWEEP_STEPS;
+      const analog = new Array<number>(ORCA_CONFIG_ORCA_ANALOG_INPUT_COUNT).fill(0);
+      analog[axis] = input;
+      const units = Math.round(sign * (applyStickCurve(analog, params)[axis] ?? 0) * FIRMWARE_UNITS) || 0;
+      if (!byOutput.has(units)) byOutput.set(units, sign * input);
+    }
+  }
+  return byOutput;
+}
+
+/**
+ * Every Melee coordinate the stick curve can produce, pressing any combination of one horizontal
+ * and one vertical direction (opposing directions cancel, so they add nothing new).
+ */
+export function analyzeStickCurveReach(params: StickCurveParamsV1): ReachableMeleeCoordinate[] {
+  const xs = reachableAxisValues(params, 0, 1);
+  const ys = reachableAxisValues(params, 3, 2);
+  const seen = new Map<number, ReachableMeleeCoordinate>();
+  for (const [xUnits, inputX] of xs) {
+    for (const [yUnits, inputY] of ys) {
+      const coordinate = toMeleeCoordinate(xUnits / FIRMWARE_UNITS, yUnits / FIRMWARE_UNITS);
+      const key = (coordinate.xUnits + MELEE_RADIUS) * (2 * MELEE_RADIUS + 1) + coordinate.yUnits + MELEE_RADIUS;
+      if (!seen.has(key)) seen.set(key, { ...analyzeMeleeCoordinate(coordinate), inputX, inputY });
+    }
+  }
+  return [...seen.values()].sort((a, b) => a.yUnits - b.yUnits || a.xUnits - b.xUnits);
+}
+
+/** CSV table of analyzed coordinates; `hits` is a `;`-separated list of threshold ids. */
+export function formatMeleeCoordinatesCsv(rows: ReachableMeleeCoordinate[]): string {
+  const header = 'x_units,y_units,x,y,region,angle,zone,hits,input_x,input_y';
+  const lines = rows.map((r) => [
+    r.xUnits,
+    r.yUnits,
+    r.x.toFixed(4),
+    r.y.toFixed(4),
+    r.region,
+    r.angle === null ? '' : r.angle.toFixed(2),
+    r.zone,
+    r.hits.join(';'),
+    r.inputX.toFixed(4),
+    r.inputY.toFixed(4),
+  ].join(','));
+  return [header, ...lines].join('\n') + '\n';
+}
@@ -0,0 +1,66 @@
+import { describe, expect, it } from 'vitest';
+import { OrcaSettingsTlv } from '@shared/orca_config_idl_generated';
+import { writeF32Le, writeU32Le } from '../schema/bytes';
+import { makeDefaultSettingsBlob, sealSettingsBlob } from '../schema/settingsDefaults';
+import { parseSettingsBlob } from '../schema/settingsBlob';
+import { computeInputPreview, type InputPreviewResult } from './orcaInputPreview';
+
+const C_UP = 9;
+const DPAD_MODIFIER = 11;
+
+describe('input preview DPAD layer', () => {
+  const blob = makeDefaultSettingsBlob(0, 1);
+  const draft = parseSettingsBlob(blob).draft;
+  const digital = (index: number) => ({ type: 1, index, threshold: 0, hysteresis: 0 });
+  draft.dpadLayer[0] = {
+    mode_up: 1,
+    mode_down: 2,
+    mode_left: 0,
+    mode_right: 1,
+    enable: digital(DPAD_MODIFIER),
+    up: digital(C_UP),
+    // Stick right beyond 0.6, released below 0.5.
+    down: { type: 2, index: 1, threshold: 0.6, hysteresis: 0.1 },
+    left: digital(7),
+    right: digital(8),
+  };
+  const input = (digitalMask: number, stickRight = 0) => ({ digitalMask, analog: [0, stickRight, 0, 0, 0] });
+
+  it('turns modifier + C-stick into D-pad only', () => {
+    const plain = computeInputPreview(input(1 << C_UP), draft, blob);
+    expect(plain.dpad.up).toBe(false);
+    expect(plain.mappedDigitalMask & (1 << C_UP)).not.toBe(0);
+
+    const held = computeInputPreview(input((1 << C_UP) | (1 << DPAD_MODIFIER) | (1 << 7)), draft, blob);
+    expect(held.dpad).toMatchObject({ modifier: true, up: true, left: false });
+    expect(held.mappedDigitalMask & (1 << C_UP)).toBe(0);
+    // Left is disabled, so C Left keeps its normal output.
+    expect(held.mappedDigitalMask & (1 << 7)).not.toBe(0);
+  });
+
+  it('keeps analog-threshold sources active through the hysteresis band', () => {
+    let previous: InputPreviewResult | null = null;
+    const down = (stickRight: number) => {
+      previous = computeInputPreview(input(0, stickRight), draft, blob, { previous });
+      return previous.dpad.down;
+    };
+    expect([0.55, 0.65, 0.55, 0.45, 0.55].map(down)).toEqual([false, true, true, false, false]);
+  });
+});
+
+describe('input preview calibration', () => {
+  it('applies range calibration even when another calibration record is unreadable', () => {
+    const blob = makeDefaultSettingsBlob(0, 1);
+    const range = OrcaSettingsTlv.RangeCalibration.offset0 + 4;
+    writeF32Le(blob, range + 4 + 8, 0.2);
+    writeF32Le(blob, range + 4 + 8 + 4, 0.6);
+    // Notch record with the wrong axis count.
+    writeU32Le(blob, OrcaSettingsTlv.NotchCalibration.offset0 + 4, 3);
+    sealSettingsBlob(blob);
+
+    const draft = parseSettingsBlob(blob).draft;
+    expect(draft.calibration).toBeUndefined();
+    const result = computeInputPreview({ digitalMask: 0, analog: [0, 0.4, 0, 0, 0] }, draft, blob);
+    expect(result.rangeCalibratedAnalog[1]).toBeCloseTo(0.5);
+  });
+});
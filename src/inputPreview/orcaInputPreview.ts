@@ -1,6 +1,12 @@
-import { ORCA_CONFIG_ORCA_ANALOG_INPUT_COUNT, ORCA_CONFIG_ORCA_DIGITAL_INPUT_COUNT, OrcaSettingsTlv } from '@shared/orca_config_idl_generated';
-import { readF32Le, readU16Le, readU32Le } from '../schema/bytes';
-import type { SettingsDraft, StickCurveParamsV1, TriggerPolicyV1 } from '../schema/settingsBlob';
+import { ORCA_CONFIG_ORCA_ANALOG_INPUT_COUNT, ORCA_CONFIG_ORCA_DIGITAL_INPUT_COUNT } from '@shared/orca_config_idl_generated';
+import {
+  tryParseRangeCalibration,
+  type DigitalSourceV1,
+  type DpadLayerV1,
+  type SettingsDraft,
+  type StickCurveParamsV1,
+  type TriggerPolicyV1,
+} from '../schema/settingsBlob';
 import { TRIGGER_POLICY_FLAG_ANALOG_TRIGGER_TO_LT, TRIGGER_POLICY_FLAG_LIGHTSHIELD_CLAMP } from '../schema/triggerPolicyFlags';
 import type { OrcaInputState } from '../usb/OrcaTransport';
 
@@ -19,12 +25,22 @@ const ORCA_DUMMY_FIELD = ORCA_CONFIG_ORCA_DIGITAL_INPUT_COUNT - 1;
 
 const TRIGGER_POLICY_LIGHT_SRC_VERSION = 1;
 
-type TlvInfo = {
-  type: number;
-  length: number;
-  stride: number;
-  offset0: number;
-};
+const DIGITAL_SRC_NONE = 0;
+const DIGITAL_SRC_ORCA_DIGITAL_BIT = 1;
+const DIGITAL_SRC_ANALOG_ABOVE = 2;
+const DIGITAL_SRC_ANALOG_BELOW = 3;
+
+// DPAD direction modes; 0 (or anything unknown) disables the direction.
+const DPAD_MODE_WITH_MODIFIER = 1;
+const DPAD_MODE_ALWAYS_ON = 2;
+
+const DPAD_DIRECTIONS = ['up', 'down', 'left', 'right'] as const;
+type DpadDirection = (typeof DPAD_DIRECTIONS)[number];
+
+export type InputPreviewMode = 'orca' | 'gp2040';
+
+// Whether each DPAD layer source is active; analog-threshold sources depend on the previous poll.
+export type DpadSourceStates = Record<'enable' | DpadDirection, boolean>;
 
 export type RangeCalibration = {
   lower: number[]; // [5]
@@ -48,6 +64,21 @@ export type InputPreviewResult = {
     l: number; // 0..1
     r: number; // 0..1
   };
+  dpad: {
+    modifier: boolean;
+    up: boolean;
+    down: boolean;
+    left: boolean;
+    right: boolean;
+  };
+  dpadSources: DpadSourceStates;
+};
+
+export type InputPreviewOptions = {
+  // The DPAD modifier is evaluated on mapped outputs in Orca mode and on raw inputs in GP2040 mode.
+  mode?: InputPreviewMode;
+  // Result of the previous poll, for analog-threshold hysteresis.
+  previous?: InputPreviewResult | null;
 };
 
 function clamp01(v: number): number {
@@ -62,32 +93,6 @@ function scale(i: number, min: number, max: number, newMin: number, newMax: numb
   return ((i - min) * (newMax - newMin)) / (max - min) + newMin;
 }
 
-function readTlvData(blob: Uint8Array, tlv: TlvInfo): Uint8Array | null {
-  const off = tlv.offset0;
-  if (off + 4 + tlv.length > blob.length) return null;
-  const gotType = readU16Le(blob, off);
-  const gotLen = readU16Le(blob, off + 2);
-  if (gotType !== tlv.type || gotLen !== tlv.length) return null;
-  return blob.slice(off + 4, off + 4 + tlv.length);
-}
-
-export function tryParseRangeCalibration(blob: Uint8Array): RangeCalibration | null {
-  const data = readTlvData(blob, OrcaSettingsTlv.RangeCalibration satisfies TlvInfo);
-  if (!data) return null;
-  if (data.length !== OrcaSettingsTlv.RangeCalibration.length) return null;
-
-  const size = readU32Le(data, 0);
-  if (size !== ORCA_CONFIG_ORCA_ANALOG_INPUT_COUNT) return null;
-
-  const lower: number[] = [];
-  const upper: number[] = [];
-  for (let i = 0; i < ORCA_CONFIG_ORCA_ANALOG_INPUT_COUNT; i++) {
-    lower.push(readF32Le(data, 4 + i * 8));
-    upper.push(readF32Le(data, 4 + i * 8 + 4));
-  }
-  return { lower, upper };
-}
-
 function applyRangeCalibration(analog: number[], rc: RangeCalibration | null): number[] {
   const out: number[] = [];
   for (let i = 0; i < ORCA_CONFIG_ORCA_ANALOG_INPUT_COUNT; i++) {
@@ -99,29 +104,37 @@ function applyRangeCalibration(analog: number[], rc: RangeCalibration | null): n
   return out;
 }
 
-function applyStickCurve(analog: number[], params: StickCurveParamsV1 | undefined): number[] {
+export type StickCurvePoint = { input: number; output: number };
+
+/**
+ * The six points of one axis's piecewise-linear response: start, start deadzone, notch start,
+ * notch end, end deadzone and end.
+ */
+export function stickCurvePoints(params: StickCurveParamsV1, axis: number): StickCurvePoint[] {
+  const range = params.range[axis] ?? 0;
+  const dzLower = params.dz_lower[axis] ?? 0;
+  const dzUpper = params.dz_upper[axis] ?? 0;
+  const notch = params.notch[axis] ?? 0;
+
+  // Matches Orca-NewOrca/src/Calibration/UnifiedCalibration/UnifiedCalibration.c
+  return [
+    { input: 0.0, output: 0.0 },                                        // Start
+    { input: 0.0 + (dzLower * range), output: 0.0 },                    // StartDeadzone
+    { input: params.notch_start_input, output: notch },                 // NotchStart
+    { input: params.notch_end_input, output: notch + (3.0 / 128.0) },   // NotchEnd
+    { input: 1.0 - (dzUpper * range), output: 100.0 / 128.0 },          // EndDeadzone (intentional: matches firmware)
+    { input: 1.0, output: range },                                      // End
+  ];
+}
+
+export function applyStickCurve(analog: number[], params: StickCurveParamsV1 | undefined): number[] {
   if (!params) return analog.slice(0, ORCA_CONFIG_ORCA_ANALOG_INPUT_COUNT);
 
   const out = analog.slice(0, ORCA_CONFIG_ORCA_ANALOG_INPUT_COUNT);
-  const notchStartInput = params.notch_start_input;
-  const notchEndInput = params.notch_end_input;
 
-  // Matches Orca-NewOrca/src/Calibration/UnifiedCalibration/UnifiedCalibration.c
   for (let i = 0; i < ORCA_CONFIG_ORCA_ANALOG_INPUT_COUNT; i++) {
     let value = out[i] ?? 0;
-    const range = params.range[i] ?? 0;
-    const dzLower = params.dz_lower[i] ?? 0;
-    const dzUpper = params.dz_upper[i] ?? 0;
-    const notch = params.notch[i] ?? 0;
-
-    const points = [
-      { input: 0.0, output: 0.0 },                                // Start
-      { input: 0.0 + (dzLower * range), output: 0.0 },            // StartDeadzone
-      { input: notchStartInput, output: notch },                  // NotchStart
-      { input: notchEndInput, output: notch + (3.0 / 128.0) },    // NotchEnd
-      { input: 1.0 - (dzUpper * range), output: 100.0 / 128.0 },  // EndDeadzone (intentional: matches firmware)
-      { input: 1.0, output: range },                              // End
-    ];
+    const points = stickCurvePoints(params, i);
 
     for (let j = 1; j < points.length; j++) {
       const start = points[j - 1]!;
@@ -212,9 +225,86 @@ function computeTriggers(
   return { l: clamp01(l), r: clamp01(r) };
 }
 
-export function computeInputPreview(raw: OrcaInputState, draft: SettingsDraft, baseBlob: Uint8Array): InputPreviewResult {
+function isSourceActive(
+  src: DigitalSourceV1 | undefined,
+  digitalMask: number,
+  analog: number[],
+  wasActive: boolean,
+): boolean {
+  if (!src) return false;
+  switch (src.type) {
+    case DIGITAL_SRC_ORCA_DIGITAL_BIT:
+      if (src.index < 0 || src.index >= ORCA_CONFIG_ORCA_DIGITAL_INPUT_COUNT || src.index === ORCA_DUMMY_FIELD) return false;
+      return ((digitalMask >>> src.index) & 1) !== 0;
+    case DIGITAL_SRC_ANALOG_ABOVE:
+    case DIGITAL_SRC_ANALOG_BELOW: {
+      if (src.index < 0 || src.index >= ORCA_CONFIG_ORCA_ANALOG_INPUT_COUNT) return false;
+      const value = analog[src.index] ?? 0;
+      // Once active, a source releases only after moving `hysteresis` back past the threshold.
+      const hysteresis = wasActive ? Math.max(0, src.hysteresis) : 0;
+      return src.type === DIGITAL_SRC_ANALOG_ABOVE
+        ? value > src.threshold - hysteresis
+        : value < src.threshold + hysteresis;
+    }
+    case DIGITAL_SRC_NONE:
+    default:
+      return false;
+  }
+}
+
+/**
+ * Matches the firmware DPAD layer: a direction in "with modifier" mode follows its source only while the
+ * enable source is held, and that source then stops driving its mapped outputs (modifier + C-stick gives
+ * D-pad only). "Always on" directions follow their source regardless of the modifier.
+ * Sources read raw digital inputs and range-calibrated analog values.
+ */
+function applyDpadLayer(
+  layer: DpadLayerV1 | undefined,
+  rawDigitalMask: number,
+  mappedDigitalMask: number,
+  digitalMapping: number[] | undefined,
+  analog: number[],
+  mode: InputPreviewMode,
+  previous: DpadSourceStates | undefined,
+): { dpad: InputPreviewResult['dpad']; dpadSources: DpadSourceStates; mappedDigitalMask: number } {
+  const dpad = { modifier: false, up: false, down: false, left: false, right: false };
+  const dpadSources: DpadSourceStates = { enable: false, up: false, down: false, left: false, right: false };
+  if (!layer) return { dpad, dpadSources, mappedDigitalMask };
+
+  const enableMask = mode === 'orca' ? mappedDigitalMask : rawDigitalMask;
+  dpadSources.enable = isSourceActive(layer.enable, enableMask, analog, previous?.enable ?? false);
+  dpad.modifier = dpadSources.enable;
+
+  let suppressedSrcMask = 0;
+  for (const dir of DPAD_DIRECTIONS) {
+    const src = layer[dir];
+    dpadSources[dir] = isSourceActive(src, rawDigitalMask, analog, previous?.[dir] ?? false);
+    const dirMode = layer[`mode_${dir}`];
+    if (dirMode === DPAD_MODE_ALWAYS_ON) {
+      dpad[dir] = dpadSources[dir];
+    } else if (dirMode === DPAD_MODE_WITH_MODIFIER && dpad.modifier) {
+      dpad[dir] = dpadSources[dir];
+      if (src.type === DIGITAL_SRC_ORCA_DIGITAL_BIT && src.index >= 0 && src.index < ORCA_CONFIG_ORCA_DIGITAL_INPUT_COUNT) {
+        suppressedSrcMask |= 1 << src.index;
+      }
+    }
+  }
+
+  if (suppressedSrcMask !== 0) {
+    mappedDigitalMask = applyDigitalMapping(rawDigitalMask & ~suppressedSrcMask, digitalMapping);
+  }
+  return { dpad, dpadSources, mappedDigitalMask };
+}
+
+export function computeInputPreview(
+  raw: OrcaInputState,
+  draft: SettingsDraft,
+  baseBlob: Uint8Array,
+  options: InputPreviewOptions = {},
+): InputPreviewResult {
   const profile = draft.activeProfile ?? 0;
-  const rangeCal = tryParseRangeCalibration(baseBlob);
+  // A calibration in the draft (e.g. fresh from the wizard) wins over what the controller has stored.
+  const rangeCal = draft.calibration?.range ?? tryParseRangeCalibration(baseBlob);
 
   const rangeCalibratedAnalog = applyRangeCalibration(raw.analog, rangeCal);
   const curveParams = draft.stickCurveParams[profile] ?? draft.stickCurveParams[0];
@@ -224,7 +314,16 @@ export function computeInputPreview(raw: OrcaInputState, draft: SettingsDraft, b
   const mappedAnalog = applyAnalogMapping(curvedAnalog, analogMapping);
 
   const digitalMapping = draft.digitalMappings[profile] ?? draft.digitalMappings[0];
-  const mappedDigitalMask = applyDigitalMapping(raw.digitalMask, digitalMapping);
+  const dpadLayer = draft.dpadLayer[profile] ?? draft.dpadLayer[0];
+  const { dpad, dpadSources, mappedDigitalMask } = applyDpadLayer(
+    dpadLayer,
+    raw.digitalMask,
+    applyDigitalMapping(raw.digitalMask, digitalMapping),
+    digitalMapping,
+    rangeCalibratedAnalog,
+    options.mode ?? 'orca',
+    options.previous?.dpadSources,
+  );
 
   const x = (mappedAnalog[ORCA_JOYSTICK_X_RIGHT] ?? 0) - (mappedAnalog[ORCA_JOYSTICK_X_LEFT] ?? 0);
   const y = (mappedAnalog[ORCA_JOYSTICK_Y_UP] ?? 0) - (mappedAnalog[ORCA_JOYSTICK_Y_DOWN] ?? 0);
@@ -243,5 +342,7 @@ export function computeInputPreview(raw: OrcaInputState, draft: SettingsDraft, b
     mappedDigitalMask,
     joystick: { x, y, x01, y01, magnitude },
     triggers,
+    dpad,
+    dpadSources,
   };
 }
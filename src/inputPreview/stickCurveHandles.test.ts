@@ -0,0 +1,35 @@
+import { describe, expect, it } from 'vitest';
+import { makeDefaultSettingsBlob } from '../schema/settingsDefaults';
+import { parseSettingsBlob } from '../schema/settingsBlob';
+import { applyStickCurve, stickCurvePoints } from './orcaInputPreview';
+import { moveStickCurveHandle, type StickCurveHandleLimits } from './stickCurveHandles';
+
+describe('stick curve handles', () => {
+  const params = parseSettingsBlob(makeDefaultSettingsBlob(0, 1)).draft.stickCurveParams[0]!;
+  const limits: StickCurveHandleLimits = { range: [80 / 128, 120 / 128], notch: [25 / 128, 50 / 128] };
+
+  it('plots the same points the curve passes through', () => {
+    for (const point of stickCurvePoints(params, 0)) {
+      expect(applyStickCurve([point.input, 0, 0, 0, 0], params)[0]).toBeCloseTo(point.output);
+    }
+  });
+
+  it('maps dragged handles back onto the curve params', () => {
+    const end = moveStickCurveHandle(params, [0, 1], 'end', 1, 110.2 / 128, limits);
+    expect(end.range!.slice(0, 3)).toEqual([110 / 128, 110 / 128, params.range[2]]);
+    expect(moveStickCurveHandle(params, [2], 'end', 1, 2, limits).range![2]).toBe(120 / 128);
+
+    const notch = moveStickCurveHandle(params, [3], 'notchEnd', 0.43, 40 / 128, limits);
+    expect(notch).toEqual({ notch: expect.any(Array), notch_end_input: 0.43 });
+    expect(notch.notch![3]).toBeCloseTo(37 / 128);
+
+    // Handles stay between their neighbours on the input axis.
+    expect(moveStickCurveHandle(params, [0], 'notchStart', 0.9, 0, limits)).toMatchObject({ notch_start_input: params.notch_end_input });
+
+    const deadzone = moveStickCurveHandle(params, [0], 'startDeadzone', 0.21, 0.5, limits);
+    const moved = { ...params, ...deadzone };
+    expect(stickCurvePoints(moved, 0)[1]!.input).toBeCloseTo(0.21);
+    const upper = { ...params, ...moveStickCurveHandle(params, [0], 'endDeadzone', 0.85, 0, limits) };
+    expect(stickCurvePoints(upper, 0)[4]!.input).toBeCloseTo(0.85);
+  });
+});
@@ -0,0 +1,98 @@
+/**
+ * Draggable points of the stick curve graph, and how moving one maps back onto `StickCurveParamsV1`.
+ * The start point is fixed at (0, 0); the other five each own one or two fields.
+ */
+import type { StickCurveParamsV1 } from '../schema/settingsBlob';
+import { stickCurvePoints } from './orcaInputPreview';
+
+export type StickCurveHandle = 'startDeadzone' | 'notchStart' | 'notchEnd' | 'endDeadzone' | 'end';
+
+// Index of each handle in `stickCurvePoints`.
+export const STICK_CURVE_HANDLE_POINTS: Record<StickCurveHandle, number> = {
+  startDeadzone: 1,
+  notchStart: 2,
+  notchEnd: 3,
+  endDeadzone: 4,
+  end: 5,
+};
+
+export const STICK_CURVE_HANDLE_LABELS: Record<StickCurveHandle, string> = {
+  startDeadzone: 'Start deadzone',
+  notchStart: 'Notch start',
+  notchEnd: 'Notch end',
+  endDeadzone: 'End deadzone',
+  end: 'Full press',
+};
+
+export type StickCurveHandleLimits = {
+  // Allowed [min, max] outputs, normalized (1.0 = 128 units).
+  range: [number, number];
+  notch: [number, number];
+};
+
+// Outputs snap to firmware units like the sliders; input positions to a finer grid.
+const OUTPUT_STEP = 1 / 128;
+const INPUT_STEP = 0.005;
+// The firmware puts notch end 3 units above notch start.
+const NOTCH_END_OFFSET = 3 / 128;
+
+function clamp(v: number, lo: number, hi: number): number {
+  return Math.min(hi, Math.max(lo, v));
+}
+
+function snap(v: number, step: number): number {
+  return Math.round(v / step) * step;
+}
+
+/**
+ * Params patch for dragging `handle` of `axes` (e.g. both X directions) to `(input, output)`.
+ * Points keep their order along the input axis; fixed coordinates (deadzone outputs, the end's
+ * input) are ignored. Notch start/end inputs are shared by every axis.
+ */
+export function moveStickCurveHandle(
+  params: StickCurveParamsV1,
+  axes: number[],
+  handle: StickCurveHandle,
+  input: number,
+  output: number,
+  limits: StickCurveHandleLimits,
+): Partial<StickCurveParamsV1> {
+  const points = stickCurvePoints(params, axes[0] ?? 0);
+  const neighbour = (index: number) => points[index]!.input;
+  const perAxis = (field: 'range' | 'notch' | 'dz_lower' | 'dz_upper', value: (axis: number) => number) => {
+    const arr = [...params[field]];
+    for (const axis of axes) arr[axis] = value(axis);
+    return { [field]: arr };
+  };
+
+  switch (handle) {
+    case 'startDeadzone': {
+      const x = clamp(snap(input, INPUT_STEP), 0, neighbour(2));
+      return perAxis('dz_lower', (axis) => {
+        const range = params.range[axis] ?? 0;
+        return range > 0 ? x / range : 0;
+      });
+    }
+    case 'notchStart':
+    case 'notchEnd': {
+      const offset = handle === 'notchEnd' ? NOTCH_END_OFFSET : 0;
+      const notch = clamp(snap(output - offset, OUTPUT_STEP), limits.notch[0], limits.notch[1]);
+      const x = handle === 'notchStart'
+        ? clamp(snap(input, INPUT_STEP), neighbour(1), neighbour(3))
+        : clamp(snap(input, INPUT_STEP), neighbour(2), neighbour(4));
+      return {
+        ...perAxis('notch', () => notch),
+        [handle === 'notchStart' ? 'notch_start_input' : 'notch_end_input']: x,
+      };
+    }
+    case 'endDeadzone': {
+      const x = clamp(snap(input, INPUT_STEP), neighbour(3), 1);
+      return perAxis('dz_upper', (axis) => {
+        const range = params.range[axis] ?? 0;
+        return range > 0 ? (1 - x) / range : 0;
+      });
+    }
+    case 'end':
+      return perAxis('range', () => clamp(snap(output, OUTPUT_STEP), limits.range[0], limits.range[1]));
+  }
+}
@@ -0,0 +1,170 @@
+import { describe, expect, it } from 'vitest';
+import { OrcaCmd, OrcaErr, OrcaSettingsTlv } from '@shared/orca_config_idl_generated';
+import { buildSettingsBlob, parseSettingsBlob } from '../schema/settingsBlob';
+import { makeDefaultSettingsBlob } from '../schema/settingsDefaults';
+import { OrcaDeviceError, OrcaTimeoutError } from '../usb/OrcaTransport';
+import { decodeStagedInvalidMask, validateSettingsDraft } from '../validators/settingsValidation';
+import { MockOrcaTransport } from './mockTransport';
+import { OrcaFirmwareSimulator } from './orcaFirmwareSimulator';
+import { validateSettingsBlobMask } from './simulatorSettings';
+
+function deviceErr(cmd: number, err: number) {
+  return expect.objectContaining({ name: 'OrcaDeviceError', cmd, err });
+}
+
+describe('OrcaFirmwareSimulator', () => {
+  it('ships default settings that parse and validate', () => {
+    for (const slot of [0, 1]) {
+      const blob = makeDefaultSettingsBlob(slot, 1);
+      const parsed = parseSettingsBlob(blob);
+      expect(parsed.header.crcValid).toBe(true);
+      expect(validateSettingsDraft(parsed.draft).errors).toEqual([]);
+      expect(validateSettingsBlobMask(blob)).toBe(0);
+    }
+  });
+
+  it('runs the save flow: stage, validate, unlock, commit, read back', async () => {
+    const transport = new MockOrcaTransport();
+    const info = await transport.getInfo();
+    const base = await transport.readBlob(1, { blobSize: info.blobSize, maxChunk: info.maxChunk });
+    const draft = parseSettingsBlob(base).draft;
+    draft.profileLabels[0] = 'Tournament';
+
+    await transport.beginSession();
+    await transport.writeBlob(1, buildSettingsBlob(base, draft), { maxChunk: info.maxChunk });
+    expect(await transport.validateStaged(1)).toEqual({ invalidMask: 0, repaired: false });
+    await transport.unlockWrites();
+    expect(await transport.commitStaged(1)).toEqual({ generation: 2 });
+
+    const readBack = parseSettingsBlob(await transport.readBlob(1, { maxChunk: info.maxChunk }));
+    expect(readBack.header.generation).toBe(2);
+    expect(readBack.header.crcValid).toBe(true);
+    expect(readBack.draft.profileLabels[0]).toBe('Tournament');
+    expect(transport.device.writeUnlocked).toBe(false);
+  });
+
+  it('saves other edits on a controller that was never calibrated', async () => {
+    const transport = new MockOrcaTransport();
+    const factory = transport.device.getCommittedBlob(0);
+    const uncalibrated = parseSettingsBlob(factory).draft;
+    const zeros = () => new Array<number>(5).fill(0);
+    uncalibrated.calibration = { range: { lower: zeros(), upper: zeros() }, deadzoneLower: zeros(), deadzoneUpper: zeros(), notch: zeros() };
+    transport.device.setCommittedBlob(0, buildSettingsBlob(factory, uncalibrated));
+
+    const info = await transport.getInfo();
+    const base = await transport.readBlob(0, { blobSize: info.blobSize, maxChunk: info.maxChunk });
+    const parsed = parseSettingsBlob(base).draft;
+    const draft = structuredClone(parsed);
+    draft.profileLabels[1] = 'Friendlies';
+
+    const local = validateSettingsDraft(draft, parsed);
+    expect(local.errors).toEqual([]);
+    expect(local.warnings).toContain('Calibration Control Stick X Left: rest position must be below full press (stored on the device)');
+
+    await transport.beginSession();
+    await transport.writeBlob(0, buildSettingsBlob(base, draft), { maxChunk: info.maxChunk });
+    expect(await transport.validateStaged(0)).toEqual({ invalidMask: 0, repaired: false });
+    await transport.unlockWrites();
+    expect(await transport.commitStaged(0)).toEqual({ generation: 2 });
+
+    // An edited calibration is still checked.
+    draft.calibration!.range.upper[0] = 0.5;
+    draft.calibration!.range.lower[0] = 0.8;
+    expect(validateSettingsDraft(draft, parsed).errors).toContain('Calibration Control Stick X Left: rest position must be below full press');
+    await transport.writeBlob(0, buildSettingsBlob(base, draft), { maxChunk: info.maxChunk });
+    expect(decodeStagedInvalidMask((await transport.validateStaged(0)).invalidMask)).toEqual(['RangeCalibration invalid']);
+  });
+
+  it('keeps writes locked until UNLOCK_WRITES, and relocks after a commit', async () => {
+    const transport = new MockOrcaTransport();
+    const blob = transport.device.getCommittedBlob(0);
+    await transport.beginSession();
+    await transport.writeBlob(0, blob);
+    await expect(transport.commitStaged(0)).rejects.toEqual(deviceErr(OrcaCmd.COMMIT_STAGED, OrcaErr.NOT_UNLOCKED));
+    await expect(transport.resetDefaults(0)).rejects.toEqual(deviceErr(OrcaCmd.RESET_DEFAULTS, OrcaErr.NOT_UNLOCKED));
+    await transport.unlockWrites();
+    await transport.commitStaged(0);
+    await expect(transport.factoryReset()).rejects.toEqual(deviceErr(OrcaCmd.FACTORY_RESET, OrcaErr.NOT_UNLOCKED));
+  });
+
+  it('reports invalid TLVs and bad CRCs in the staged invalid mask', async () => {
+    const transport = new MockOrcaTransport();
+    const base = transport.device.getCommittedBlob(0);
+    const draft = parseSettingsBlob(base).draft;
+    draft.analogMappings[2]![0] = 9;
+    const bad = buildSettingsBlob(base, draft);
+
+    await transport.beginSession();
+    await transport.writeBlob(0, bad);
+    const res = await transport.validateStaged(0);
+    expect(decodeStagedInvalidMask(res.invalidMask)).toEqual(['AnalogMappings invalid']);
+
+    const corrupted = base.slice();
+    corrupted[OrcaSettingsTlv.ProfileLabels.offset0 + 4] = 0x01;
+    await transport.writeBlob(0, corrupted);
+    const mask = (await transport.validateStaged(0)).invalidMask;
+    expect(decodeStagedInvalidMask(mask)).toEqual(['Header invalid', 'ProfileLabels invalid']);
+
+    await transport.unlockWrites();
+    await expect(transport.commitStaged(0)).rejects.toEqual(deviceErr(OrcaCmd.COMMIT_STAGED, OrcaErr.VALIDATION_FAILED));
+  });
+
+  it('bumps generations on reset and factory reset', async () => {
+    const transport = new MockOrcaTransport();
+    const flashed: number[][] = [];
+    transport.device.onFlashWrite = (slots) => flashed.push(slots);
+    await transport.beginSession();
+    await transport.unlockWrites();
+    expect(await transport.resetDefaults(1)).toEqual({ generation: 2 });
+    await transport.unlockWrites();
+    const res = await transport.factoryReset();
+    expect(res).toMatchObject({ primaryGeneration: 2, secondaryGeneration: 3 });
+    expect(transport.device.getGeneration(1)).toBe(3);
+    expect(flashed).toEqual([[1], [0, 1]]);
+  });
+
+  it('recovers from injected errors, dropped and corrupted responses', async () => {
+    const transport = new MockOrcaTransport({ timeouts: { defaultMs: 20 } });
+    transport.device.injectError(OrcaCmd.GET_INFO, OrcaErr.INTERNAL_ERROR);
+    await expect(transport.getInfo()).rejects.toBeInstanceOf(OrcaDeviceError);
+
+    transport.device.dropResponses(1);
+    await expect(transport.getInfo()).rejects.toBeInstanceOf(OrcaTimeoutError);
+
+    transport.device.corruptResponses(1);
+    await expect(transport.getInfo()).rejects.toBeInstanceOf(OrcaTimeoutError);
+
+    await expect(transport.getInfo()).resolves.toMatchObject({ slotCount: 2 });
+  });
+
+  it('plays back a scripted input stream', async () => {
+    let now = 0;
+    const device = new OrcaFirmwareSimulator({ now: () => now });
+    const transport = new MockOrcaTransport({ device });
+    device.setInputScript(
+      [
+        { durationMs: 100, digitalMask: 0x1, analog: [0, 1, 0, 0, 0] },
+        { durationMs: 100, digitalMask: 0x2, analog: [0, 0, 0.5, 0, 0] },
+      ],
+      { loop: true },
+    );
+
+    expect((await transport.getInputState()).digitalMask).toBe(0x1);
+    now = 150;
+    const state = await transport.getInputState();
+    expect(state.digitalMask).toBe(0x2);
+    expect(state.analog[2]).toBeCloseTo(0.5, 3);
+    now = 250;
+    expect((await transport.getInputState()).digitalMask).toBe(0x1);
+  });
+
+  it('serves the firmware log and reports UNSUPPORTED_CMD when disabled', async () => {
+    const transport = new MockOrcaTransport();
+    await transport.beginSession();
+    const chunk = await transport.getLog(0);
+    expect(chunk.records.map((r) => r.message)).toContain('Session 1 started');
+
+    const legacy = new MockOrcaTransport({ simulator: { supportsLog: false } });
+    await expect(legacy.getLog(0)).rejects.toEqual(deviceErr(OrcaCmd.GET_LOG, OrcaErr.UNSUPPORTED_CMD));
+  });
+});
@@ -0,0 +1,503 @@
+import {
+  ORCA_CONFIG_ORCA_ANALOG_INPUT_COUNT,
+  ORCA_CONFIG_SCHEMA_ID,
+  ORCA_CONFIG_SETTINGS_BLOB_SIZE,
+  ORCA_CONFIG_SETTINGS_HEADER_GENERATION_OFFSET,
+  ORCA_CONFIG_SETTINGS_VERSION_MAJOR,
+  ORCA_CONFIG_SETTINGS_VERSION_MINOR,
+  OrcaCmd,
+  OrcaErr,
+  OrcaMsgType,
+} from '@shared/orca_config_idl_generated';
+import { OrcaLogLevel, encodeLogRecords, orcaCmdName, type OrcaLogRecord } from '../protocol/orcaLog';
+import {
+  OrcaFrameDecodeError,
+  encodeFrame,
+  resyncBuffer,
+  tryDecodeFrameFromBuffer,
+  type ByteArray,
+  type OrcaFrame,
+} from '../protocol/orcaProtocol';
+import { readU32Le, writeU16Le, writeU32Le } from '../schema/bytes';
+import { makeDefaultSettingsBlob, sealSettingsBlob } from '../schema/settingsDefaults';
+import type { OrcaInputState } from '../usb/OrcaTransport';
+import { validateSettingsBlobMask } from './simulatorSettings';
+
+const SIM_LOG_CAPACITY = 256;
+const SIM_LOG_RECORDS_PER_CHUNK = 16;
+
+export type OrcaSimulatorInputFrame = OrcaInputState & {
+  durationMs: number;
+};
+
+export type OrcaSimulatorOptions = {
+  slotCount?: number;
+  maxChunk?: number;
+  // Firmware without GET_LOG answers UNSUPPORTED_CMD.
+  supportsLog?: boolean;
+  // Delay before each response is transmitted.
+  latencyMs?: number;
+  // Split responses into pieces of this many bytes, like a USB CDC endpoint.
+  transmitChunkSize?: number;
+  now?: () => number;
+};
+
+type StagedSlot = {
+  data: Uint8Array;
+  received: number;
+  complete: boolean;
+};
+
+class SimulatorCommandError extends Error {
+  constructor(
+    public readonly err: number,
+    message: string,
+  ) {
+    super(message);
+  }
+}
+
+function payloadOf(cmd: number, size: number): ByteArray {
+  const payload = new Uint8Array(size) as ByteArray;
+  payload[0] = cmd;
+  return payload;
+}
+
+function generationOf(blob: Uint8Array): number {
+  return readU32Le(blob, ORCA_CONFIG_SETTINGS_HEADER_GENERATION_OFFSET);
+}
+
+/**
+ * Byte-level model of the controller's config firmware. Feed it request bytes with `receive()`;
+ * responses come out through `onTransmit`. Mirrors the firmware's state machine: sessions,
+ * staged vs committed slots, generation counters, the write lock and staged validation.
+ * Faults (device errors, dropped or corrupted responses, latency) can be injected for tests.
+ */
+export class OrcaFirmwareSimulator {
+  readonly slotCount: number;
+  readonly maxChunk: number;
+  readonly supportsLog: boolean;
+  latencyMs: number;
+  transmitChunkSize: number;
+
+  onTransmit: ((bytes: Uint8Array) => void) | null = null;
+  onReboot: (() => void) | null = null;
+  // Fired after a commit or reset replaces committed settings, with the affected slots.
+  onFlashWrite: ((slots: number[]) => void) | null = null;
+
+  private readonly now: () => number;
+  private bootedAt: number;
+  private rx = new Uint8Array(0) as ByteArray;
+  private committed: Uint8Array[];
+  private staged: Array<StagedSlot | null>;
+  private sessionId = 0;
+  private sessionActive = false;
+  private writesUnlocked = false;
+  private logRecords: OrcaLogRecord[] = [];
+  private logDropped = 0;
+
+  private injectedErrors: Array<{ cmd: number; err: number; remaining: number }> = [];
+  private dropCount = 0;
+  private corruptCount = 0;
+
+  private inputScript: OrcaSimulatorInputFrame[] = [];
+  private inputScriptLoop = false;
+  private inputScriptStart = 0;
+  private inputState: OrcaInputState = { digitalMask: 0, analog: new Array(ORCA_CONFIG_ORCA_ANALOG_INPUT_COUNT).fill(0) };
+
+  constructor(options?: OrcaSimulatorOptions) {
+    this.slotCount = options?.slotCount ?? 2;
+    this.maxChunk = options?.maxChunk ?? 256;
+    this.supportsLog = options?.supportsLog ?? true;
+    this.latencyMs = options?.latencyMs ?? 0;
+    this.transmitChunkSize = options?.transmitChunkSize ?? 64;
+    this.now = options?.now ?? (() => Date.now());
+    this.bootedAt = this.now();
+    this.committed = Array.from({ length: this.slotCount }, (_, slot) => makeDefaultSettingsBlob(slot, 1));
+    this.staged = new Array<StagedSlot | null>(this.slotCount).fill(null);
+    this.log(OrcaLogLevel.INFO, 'Config service ready');
+  }
+
+  // ---- Test/dev hooks ----
+
+  /** Make the next `times` requests for `cmd` fail with `err`. */
+  injectError(cmd: number, err: number, times = 1) {
+    this.injectedErrors.push({ cmd, err, remaining: times });
+  }
+
+  /** Swallow the next `count` responses (the host sees a timeout). */
+  dropResponses(count = 1) {
+    this.dropCount += count;
+  }
+
+  /** Flip a byte in the next `count` responses (the host sees a CRC error). */
+  corruptResponses(count = 1) {
+    this.corruptCount += count;
+  }
+
+  setInputState(state: OrcaInputState) {
+    this.inputScript = [];
+    this.inputState = { digitalMask: state.digitalMask >>> 0, analog: state.analog.slice() };
+  }
+
+  /** Play `frames` back through GET_INPUT_STATE, each held for its `durationMs`. */
+  setInputScript(frames: OrcaSimulatorInputFrame[], options?: { loop?: boolean }) {
+    this.inputScript = frames.map((f) => ({ ...f, analog: f.analog.slice() }));
+    this.inputScriptLoop = options?.loop ?? false;
+    this.inputScriptStart = this.now();
+  }
+
+  getCommittedBlob(slot: number): Uint8Array {
+    return this.committed[slot]!.slice();
+  }
+
+  /** Overwrite a committed slot directly, as if it had been flashed earlier. */
+  setCommittedBlob(slot: number, blob: Uint8Array) {
+    this.committed[slot] = blob.slice();
+  }
+
+  getGeneration(slot: number): number {
+    return generationOf(this.committed[slot]!);
+  }
+
+  get writeUnlocked(): boolean {
+    return this.writesUnlocked;
+  }
+
+  getLogRecords(): OrcaLogRecord[] {
+    return this.logRecords.slice();
+  }
+
+  // ---- Wire ----
+
+  receive(bytes: Uint8Array) {
+    const merged = new Uint8Array(this.rx.length + bytes.length) as ByteArray;
+    merged.set(this.rx, 0);
+    merged.set(bytes, this.rx.length);
+    this.rx = merged;
+
+    while (true) {
+      let decoded: ReturnType<typeof tryDecodeFrameFromBuffer>;
+      try {
+        decoded = tryDecodeFrameFromBuffer(this.rx);
+      } catch (e) {
+        if (!(e instanceof OrcaFrameDecodeError)) throw e;
+        this.log(OrcaLogLevel.WARN, `Dropped request bytes: ${e.message}`);
+        this.rx = resyncBuffer(this.rx);
+        continue;
+      }
+      if (!decoded) return;
+      this.rx = decoded.remaining;
+      if (decoded.frame.msgType !== OrcaMsgType.REQUEST) continue;
+      this.handleRequest(decoded.frame);
+    }
+  }
+
+  private transmit(frame: ByteArray) {
+    if (this.dropCount > 0) {
+      this.dropCount--;
+      return;
+    }
+    const bytes = frame.slice();
+    if (this.corruptCount > 0) {
+      this.corruptCount--;
+      bytes[bytes.length - 1] ^= 0xff;
+    }
+    const send = () => {
+      for (let i = 0; i < bytes.length; i += this.transmitChunkSize) {
+        this.onTransmit?.(bytes.slice(i, i + this.transmitChunkSize));
+      }
+    };
+    if (this.latencyMs > 0) setTimeout(send, this.latencyMs);
+    else send();
+  }
+
+  private handleRequest(frame: OrcaFrame) {
+    const cmd = frame.payload[0] ?? 0;
+    let response: ByteArray;
+    try {
+      const injected = this.injectedErrors.find((e) => e.cmd === cmd && e.remaining > 0);
+      if (injected) {
+        injected.remaining--;
+        this.injectedErrors = this.injectedErrors.filter((e) => e.remaining > 0);
+        throw new SimulatorCommandError(injected.err, 'Injected error');
+      }
+      response = this.execute(cmd, frame.payload);
+    } catch (e) {
+      if (!(e instanceof SimulatorCommandError)) throw e;
+      this.log(OrcaLogLevel.ERROR, e.message, cmd, e.err);
+      this.transmit(encodeFrame(OrcaMsgType.ERROR, frame.seq, new Uint8Array([cmd, e.err]) as ByteArray));
+      return;
+    }
+    this.transmit(encodeFrame(OrcaMsgType.RESPONSE, frame.seq, response));
+    if (cmd === OrcaCmd.REBOOT) this.reboot();
+  }
+
+  // ---- Firmware state machine ----
+
+  private log(level: number, message: string, cmd = 0, err = 0) {
+    this.logRecords.push({ timestampMs: (this.now() - this.bootedAt) >>> 0, level, cmd, err, message });
+    if (this.logRecords.length > SIM_LOG_CAPACITY) {
+      this.logRecords.shift();
+      this.logDropped += 1;
+    }
+  }
+
+  private reboot() {
+    this.sessionActive = false;
+    this.writesUnlocked = false;
+    this.staged.fill(null);
+    this.rx = new Uint8Array(0) as ByteArray;
+    this.log(OrcaLogLevel.INFO, 'Rebooting');
+    this.onReboot?.();
+  }
+
+  private slotArg(payload: ByteArray, slotted: boolean): number {
+    if (!slotted) return 0;
+    const slot = payload[1] ?? 0;
+    if (slot >= this.slotCount) throw new SimulatorCommandError(OrcaErr.INVALID_ARG, `Invalid slot ${slot}`);
+    return slot;
+  }
+
+  private requireSession() {
+    if (!this.sessionActive) throw new SimulatorCommandError(OrcaErr.INVALID_STATE, 'No active session');
+  }
+
+  private requireUnlocked() {
+    this.requireSession();
+    if (!this.writesUnlocked) throw new SimulatorCommandError(OrcaErr.NOT_UNLOCKED, 'Writes not unlocked');
+  }
+
+  private requireLength(payload: ByteArray, min: number) {
+    if (payload.length < min) throw new SimulatorCommandError(OrcaErr.BAD_LENGTH, `Short request (${payload.length} bytes)`);
+  }
+
+  private stagedComplete(slot: number): Uint8Array {
+    const staged = this.staged[slot];
+    if (!staged?.complete) throw new SimulatorCommandError(OrcaErr.INVALID_STATE, 'Nothing staged');
+    return staged.data;
+  }
+
+  private currentInputState(): OrcaInputState {
+    if (this.inputScript.length === 0) return this.inputState;
+    const total = this.inputScript.reduce((sum, f) => sum + Math.max(0, f.durationMs), 0);
+    let t = this.now() - this.inputScriptStart;
+    if (this.inputScriptLoop && total > 0) t %= total;
+    for (const f of this.inputScript) {
+      if (t < f.durationMs) return f;
+      t -= f.durationMs;
+    }
+    return this.inputScript[this.inputScript.length - 1]!;
+  }
+
+  private execute(cmd: number, payload: ByteArray): ByteArray {
+    switch (cmd) {
+      case OrcaCmd.GET_INFO: {
+        const out = payloadOf(cmd, 20);
+        out[1] = ORCA_CONFIG_SETTINGS_VERSION_MAJOR;
+        out[2] = ORCA_CONFIG_SETTINGS_VERSION_MINOR;
+        writeU32Le(out, 4, ORCA_CONFIG_SCHEMA_ID);
+        writeU32Le(out, 8, ORCA_CONFIG_SETTINGS_BLOB_SIZE);
+        writeU32Le(out, 12, this.maxChunk);
+        writeU32Le(out, 16, this.slotCount);
+        return out;
+      }
+
+      case OrcaCmd.BEGIN_SESSION: {
+        this.sessionId = (this.sessionId + 1) >>> 0;
+        this.sessionActive = true;
+        this.writesUnlocked = false;
+        this.staged.fill(null);
+        this.log(OrcaLogLevel.INFO, `Session ${this.sessionId} started`, cmd);
+        const out = payloadOf(cmd, 8);
+        writeU32Le(out, 4, this.sessionId);
+        return out;
+      }
+
+      case OrcaCmd.UNLOCK_WRITES: {
+        this.requireSession();
+        this.writesUnlocked = true;
+        this.log(OrcaLogLevel.INFO, 'Writes unlocked', cmd);
+        return payloadOf(cmd, 4);
+      }
+
+      case OrcaCmd.GET_INPUT_STATE: {
+        const state = this.currentInputState();
+        const out = payloadOf(cmd, 18);
+        writeU32Le(out, 4, state.digitalMask);
+        for (let i = 0; i < ORCA_CONFIG_ORCA_ANALOG_INPUT_COUNT; i++) {
+          const v = Math.min(1, Math.max(0, state.analog[i] ?? 0));
+          writeU16Le(out, 8 + i * 2, Math.round(v * 65535));
+        }
+        return out;
+      }
+
+      case OrcaCmd.READ_BLOB:
+      case OrcaCmd.READ_BLOB_SLOT: {
+        this.requireLength(payload, 12);
+        const slot = this.slotArg(payload, cmd === OrcaCmd.READ_BLOB_SLOT);
+        const offset = readU32Le(payload, 4);
+        const length = readU32Le(payload, 8);
+        if (length > this.maxChunk || offset + length > ORCA_CONFIG_SETTINGS_BLOB_SIZE) {
+          throw new SimulatorCommandError(OrcaErr.INVALID_ARG, `Read out of range (offset=${offset}, len=${length})`);
+        }
+        const out = payloadOf(cmd, 12 + length);
+        out[1] = slot;
+        writeU32Le(out, 4, offset);
+        writeU32Le(out, 8, length);
+        out.set(this.committed[slot]!.subarray(offset, offset + length), 12);
+        return out;
+      }
+
+      case OrcaCmd.WRITE_BLOB_BEGIN:
+      case OrcaCmd.WRITE_BLOB_BEGIN_SLOT: {
+        this.requireLength(payload, 8);
+        this.requireSession();
+        const slot = this.slotArg(payload, cmd === OrcaCmd.WRITE_BLOB_BEGIN_SLOT);
+        const total = readU32Le(payload, 4);
+        if (total !== ORCA_CONFIG_SETTINGS_BLOB_SIZE) {
+          throw new SimulatorCommandError(OrcaErr.BAD_LENGTH, `Bad blob size (${total})`);
+        }
+        this.staged[slot] = { data: new Uint8Array(total), received: 0, complete: false };
+        return payloadOf(cmd, 4);
+      }
+
+      case OrcaCmd.WRITE_BLOB_CHUNK:
+      case OrcaCmd.WRITE_BLOB_CHUNK_SLOT: {
+        this.requireLength(payload, 12);
+        this.requireSession();
+        const slot = this.slotArg(payload, cmd === OrcaCmd.WRITE_BLOB_CHUNK_SLOT);
+        const staged = this.staged[slot];
+        if (!staged || staged.complete) throw new SimulatorCommandError(OrcaErr.INVALID_STATE, 'No write in progress');
+        const offset = readU32Le(payload, 4);
+        const length = readU32Le(payload, 8);
+        if (payload.length !== 12 + length || length > this.maxChunk) {
+          throw new SimulatorCommandError(OrcaErr.BAD_LENGTH, `Bad chunk length (${length})`);
+        }
+        // Chunks must arrive in order; the firmware streams them straight to the staging sector.
+        if (offset !== staged.received || offset + length > staged.data.length) {
+          throw new SimulatorCommandError(OrcaErr.INVALID_ARG, `Unexpected chunk offset ${offset}`);
+        }
+        staged.data.set(payload.subarray(12), offset);
+        staged.received += length;
+        return payloadOf(cmd, 4);
+      }
+
+      case OrcaCmd.WRITE_BLOB_END:
+      case OrcaCmd.WRITE_BLOB_END_SLOT: {
+        this.requireSession();
+        const slot = this.slotArg(payload, cmd === OrcaCmd.WRITE_BLOB_END_SLOT);
+        const staged = this.staged[slot];
+        if (!staged || staged.complete) throw new SimulatorCommandError(OrcaErr.INVALID_STATE, 'No write in progress');
+        if (staged.received !== staged.data.length) {
+          throw new SimulatorCommandError(OrcaErr.BAD_LENGTH, `Incomplete write (${staged.received}/${staged.data.length})`);
+        }
+        staged.complete = true;
+        this.log(OrcaLogLevel.DEBUG, `Staged ${staged.data.length} bytes for slot ${slot}`, cmd);
+        return payloadOf(cmd, 4);
+      }
+
+      case OrcaCmd.VALIDATE_STAGED:
+      case OrcaCmd.VALIDATE_STAGED_SLOT: {
+        this.requireSession();
+        const slotted = cmd === OrcaCmd.VALIDATE_STAGED_SLOT;
+        const slot = this.slotArg(payload, slotted);
+        const invalidMask = validateSettingsBlobMask(this.stagedComplete(slot), this.committed[slot]);
+        if (invalidMask !== 0) {
+          this.log(OrcaLogLevel.WARN, `Slot ${slot} staged blob invalid (mask=0x${invalidMask.toString(16)})`, cmd, OrcaErr.VALIDATION_FAILED);
+        } else {
+          this.log(OrcaLogLevel.INFO, `Slot ${slot} staged blob valid`, cmd);
+        }
+        const out = payloadOf(cmd, 12);
+        if (slotted) out[1] = slot;
+        writeU32Le(out, 4, invalidMask);
+        return out;
+      }
+
+      case OrcaCmd.COMMIT_STAGED:
+      case OrcaCmd.COMMIT_STAGED_SLOT: {
+        this.requireSession();
+        const slot = this.slotArg(payload, cmd === OrcaCmd.COMMIT_STAGED_SLOT);
+        const data = this.stagedComplete(slot);
+        this.requireUnlocked();
+        const invalidMask = validateSettingsBlobMask(data, this.committed[slot]);
+        if (invalidMask !== 0) {
+          throw new SimulatorCommandError(OrcaErr.VALIDATION_FAILED, `Refusing to commit invalid blob (mask=0x${invalidMask.toString(16)})`);
+        }
+        const generation = (this.getGeneration(slot) + 1) >>> 0;
+        const next = data.slice();
+        writeU32Le(next, ORCA_CONFIG_SETTINGS_HEADER_GENERATION_OFFSET, generation);
+        sealSettingsBlob(next);
+        this.committed[slot] = next;
+        this.staged[slot] = null;
+        this.writesUnlocked = false;
+        this.log(OrcaLogLevel.INFO, `Slot ${slot} committed (generation ${generation})`, cmd);
+        this.onFlashWrite?.([slot]);
+        const out = payloadOf(cmd, 8);
+        out[1] = slot;
+        writeU32Le(out, 4, generation);
+        return out;
+      }
+
+      case OrcaCmd.RESET_DEFAULTS:
+      case OrcaCmd.RESET_DEFAULTS_SLOT: {
+        const slot = this.slotArg(payload, cmd === OrcaCmd.RESET_DEFAULTS_SLOT);
+        this.requireUnlocked();
+        const generation = (this.getGeneration(slot) + 1) >>> 0;
+        this.committed[slot] = makeDefaultSettingsBlob(slot, generation);
+        this.staged[slot] = null;
+        this.writesUnlocked = false;
+        this.log(OrcaLogLevel.WARN, `Slot ${slot} reset to defaults (generation ${generation})`, cmd);
+        this.onFlashWrite?.([slot]);
+        const out = payloadOf(cmd, 8);
+        out[1] = slot;
+        writeU32Le(out, 4, generation);
+        return out;
+      }
+
+      case OrcaCmd.FACTORY_RESET: {
+        this.requireUnlocked();
+        const generations = this.committed.map((blob, slot) => {
+          const generation = (generationOf(blob) + 1) >>> 0;
+          this.committed[slot] = makeDefaultSettingsBlob(slot, generation);
+          return generation;
+        });
+        this.staged.fill(null);
+        this.writesUnlocked = false;
+        this.log(OrcaLogLevel.WARN, 'Factory reset complete', cmd);
+        this.onFlashWrite?.(this.committed.map((_, slot) => slot));
+        const out = payloadOf(cmd, 12);
+        // bit0: primary reset, bit1: secondary reset, bit2: calibration reset
+        out[1] = this.slotCount >= 2 ? 0x07 : 0x05;
+        writeU32Le(out, 4, generations[0] ?? 0);
+        writeU32Le(out, 8, generations[1] ?? 0);
+        return out;
+      }
+
+      case OrcaCmd.REBOOT: {
+        this.log(OrcaLogLevel.INFO, 'Reboot requested', cmd);
+        return payloadOf(cmd, 4);
+      }
+
+      case OrcaCmd.GET_LOG: {
+        if (!this.supportsLog) throw new SimulatorCommandError(OrcaErr.UNSUPPORTED_CMD, 'GET_LOG not supported');
+        this.requireLength(payload, 8);
+        // Cursors count records since power-on, so records dropped from the ring are skipped.
+        const cursor = readU32Le(payload, 4);
+        const start = Math.max(0, cursor - this.logDropped);
+        const records = this.logRecords.slice(start, start + SIM_LOG_RECORDS_PER_CHUNK);
+        const nextIndex = start + records.length;
+        const data = encodeLogRecords(records);
+        const out = payloadOf(cmd, 12 + data.length);
+        out[1] = nextIndex < this.logRecords.length ? 0x01 : 0;
+        writeU32Le(out, 4, nextIndex + this.logDropped);
+        writeU32Le(out, 8, data.length);
+        out.set(data, 12);
+        return out;
+      }
+
+      default:
+        throw new SimulatorCommandError(OrcaErr.UNSUPPORTED_CMD, `Unsupported command ${orcaCmdName(cmd)}`);
+    }
+  }
+}
@@ -0,0 +1,174 @@
+import {
+  ORCA_CONFIG_ORCA_ANALOG_INPUT_COUNT,
+  ORCA_CONFIG_ORCA_DIGITAL_INPUT_COUNT,
+  ORCA_CONFIG_SETTINGS_BLOB_SIZE,
+  ORCA_CONFIG_SETTINGS_HEADER_ACTIVE_PROFILE_OFFSET,
+  ORCA_CONFIG_SETTINGS_HEADER_HEADER_SIZE_OFFSET,
+  ORCA_CONFIG_SETTINGS_HEADER_SIZE,
+  ORCA_CONFIG_SETTINGS_HEADER_VERSION_MAJOR_OFFSET,
+  ORCA_CONFIG_SETTINGS_PROFILE_COUNT,
+  ORCA_CONFIG_SETTINGS_VERSION_MAJOR,
+  OrcaSettingsTlv,
+} from '@shared/orca_config_idl_generated';
+import { readF32Le, readU16Le, readU32Le } from '../schema/bytes';
+import { crc32 } from '../schema/crc32';
+import {
+  ORCA_ANALOG_MAPPING_DISABLED,
+  ORCA_DUMMY_FIELD,
+  isLockedDigitalDestination,
+  isLockedDigitalSource,
+} from '../schema/orcaMappings';
+import { SETTINGS_MAGIC } from '../schema/settingsDefaults';
+
+type TlvInfo = {
+  type: number;
+  length: number;
+  count: number;
+  stride: number;
+  offset0: number;
+};
+
+const TLVS = Object.values(OrcaSettingsTlv) as TlvInfo[];
+
+function tlvData(blob: Uint8Array, tlv: TlvInfo, index: number): Uint8Array {
+  const off = tlv.offset0 + index * tlv.stride + 4;
+  return blob.subarray(off, off + tlv.length);
+}
+
+function isFiniteIn(v: number, min: number, max: number): boolean {
+  return Number.isFinite(v) && v >= min && v <= max;
+}
+
+function headerValid(blob: Uint8Array): boolean {
+  const magic = new TextDecoder('ascii').decode(blob.subarray(0, SETTINGS_MAGIC.length));
+  if (magic !== SETTINGS_MAGIC) return false;
+  if (blob[ORCA_CONFIG_SETTINGS_HEADER_VERSION_MAJOR_OFFSET] !== ORCA_CONFIG_SETTINGS_VERSION_MAJOR) return false;
+  if (readU16Le(blob, ORCA_CONFIG_SETTINGS_HEADER_HEADER_SIZE_OFFSET) !== ORCA_CONFIG_SETTINGS_HEADER_SIZE) return false;
+  if ((blob[ORCA_CONFIG_SETTINGS_HEADER_ACTIVE_PROFILE_OFFSET] ?? 0) >= ORCA_CONFIG_SETTINGS_PROFILE_COUNT) return false;
+  return readU32Le(blob, blob.length - 4) === crc32([blob.slice(0, blob.length - 4)]);
+}
+
+function digitalSourceValid(data: Uint8Array, offset: number): boolean {
+  const type = data[offset] ?? 0;
+  const index = data[offset + 1] ?? 0;
+  const threshold = readF32Le(data, offset + 4);
+  const hysteresis = readF32Le(data, offset + 8);
+  switch (type) {
+    case 0:
+      return true;
+    case 1:
+      return index < ORCA_CONFIG_ORCA_DIGITAL_INPUT_COUNT && !isLockedDigitalSource(index);
+    case 2:
+    case 3:
+      return index < ORCA_CONFIG_ORCA_ANALOG_INPUT_COUNT && isFiniteIn(threshold, 0, 1) && isFiniteIn(hysteresis, 0, 0.5);
+    default:
+      return false;
+  }
+}
+
+function floatsValid(data: Uint8Array, offset: number, count: number, min: number, max: number): boolean {
+  for (let i = 0; i < count; i++) {
+    if (!isFiniteIn(readF32Le(data, offset + i * 4), min, max)) return false;
+  }
+  return true;
+}
+
+function tlvEntryValid(tlv: TlvInfo, data: Uint8Array): boolean {
+  const axes = ORCA_CONFIG_ORCA_ANALOG_INPUT_COUNT;
+  switch (tlv.type) {
+    case OrcaSettingsTlv.RangeCalibration.type: {
+      if (readU32Le(data, 0) !== axes) return false;
+      for (let axis = 0; axis < axes; axis++) {
+        const lower = readF32Le(data, 4 + axis * 8);
+        const upper = readF32Le(data, 4 + axis * 8 + 4);
+        if (!isFiniteIn(lower, 0, 1) || !isFiniteIn(upper, 0, 1) || lower >= upper) return false;
+      }
+      return true;
+    }
+    case OrcaSettingsTlv.DeadzoneCalibration.type:
+    case OrcaSettingsTlv.NotchCalibration.type:
+      return readU32Le(data, 0) === axes && floatsValid(data, 4, axes, 0, 1);
+    case OrcaSettingsTlv.ProfileLabels.type: {
+      const end = data.indexOf(0);
+      if (end <= 0) return false;
+      return data.subarray(0, end).every((c) => c >= 0x20 && c <= 0x7e);
+    }
+    case OrcaSettingsTlv.DigitalMappings.type:
+      return data.every((src, dest) => {
+        if (src >= ORCA_CONFIG_ORCA_DIGITAL_INPUT_COUNT) return false;
+        if (isLockedDigitalDestination(dest)) return src === dest;
+        return !isLockedDigitalSource(src);
+      });
+    case OrcaSettingsTlv.AnalogMappings.type:
+      return data.every((src) => src === ORCA_ANALOG_MAPPING_DISABLED || src < axes);
+    case OrcaSettingsTlv.StickCurveParams.type: {
+      const notchStart = readF32Le(data, 84);
+      const notchEnd = readF32Le(data, 88);
+      return (
+        floatsValid(data, 4, axes, 0, 1.2) &&
+        floatsValid(data, 24, axes * 3, 0, 1) &&
+        isFiniteIn(notchStart, 0, 1) &&
+        isFiniteIn(notchEnd, notchStart, 1)
+      );
+    }
+    case OrcaSettingsTlv.DpadLayer.type: {
+      for (let i = 0; i < 4; i++) {
+        if ((data[i] ?? 0) > 2) return false;
+      }
+      for (let src = 0; src < 5; src++) {
+        if (!digitalSourceValid(data, 4 + src * 12)) return false;
+      }
+      return true;
+    }
+    case OrcaSettingsTlv.TriggerPolicy.type: {
+      if (!floatsValid(data, 0, 3, 0, 1)) return false;
+      if (readF32Le(data, 8) > readF32Le(data, 4)) return false;
+      const version = data[15] ?? 0;
+      if (version > 1) return false;
+      if (version === 1) {
+        for (const src of [data[13] ?? 0, data[14] ?? 0]) {
+          if (src >= ORCA_CONFIG_ORCA_DIGITAL_INPUT_COUNT) return false;
+          if (src !== ORCA_DUMMY_FIELD && isLockedDigitalSource(src)) return false;
+        }
+      }
+      return true;
+    }
+    default:
+      return true;
+  }
+}
+
+const CALIBRATION_TLV_TYPES: number[] = [
+  OrcaSettingsTlv.RangeCalibration.type,
+  OrcaSettingsTlv.DeadzoneCalibration.type,
+  OrcaSettingsTlv.NotchCalibration.type,
+];
+
+function sameBytes(a: Uint8Array, b: Uint8Array): boolean {
+  return a.length === b.length && a.every((v, i) => v === b[i]);
+}
+
+/**
+ * Firmware-side validation of a staged blob. Bit 0 flags the header (magic, version, size,
+ * active profile, CRC); bit `1 + type` flags a TLV whose header or contents are invalid.
+ * Calibration TLVs identical to `committed` are not re-checked, so a controller that was never
+ * calibrated can still save other settings.
+ */
+export function validateSettingsBlobMask(blob: Uint8Array, committed?: Uint8Array): number {
+  if (blob.length !== ORCA_CONFIG_SETTINGS_BLOB_SIZE) return 1;
+  let mask = headerValid(blob) ? 0 : 1;
+  for (const tlv of TLVS) {
+    for (let i = 0; i < tlv.count; i++) {
+      const off = tlv.offset0 + i * tlv.stride;
+      const headerOk = readU16Le(blob, off) === tlv.type && readU16Le(blob, off + 2) === tlv.length;
+      const data = tlvData(blob, tlv, i);
+      const unchanged = CALIBRATION_TLV_TYPES.includes(tlv.type) &&
+        committed?.length === blob.length && sameBytes(data, tlvData(committed, tlv, i));
+      if (!headerOk || (!unchanged && !tlvEntryValid(tlv, data))) {
+        mask |= 1 << (1 + tlv.type);
+        break;
+      }
+    }
+  }
+  return mask >>> 0;
+}
@@ -0,0 +1,30 @@
+import { describe, expect, it } from 'vitest';
+import { OrcaCmd, OrcaErr } from '@shared/orca_config_idl_generated';
+import { ORCA_LOG_RECORD_HEADER_SIZE, OrcaLogLevel, decodeLogRecords, encodeLogRecords, formatLogRecord, type OrcaLogRecord } from './orcaLog';
+
+describe('device log records', () => {
+  const records: OrcaLogRecord[] = [
+    { timestampMs: 1500, level: OrcaLogLevel.INFO, cmd: 0, err: 0, message: 'boot' },
+    { timestampMs: 0xfffffff0, level: OrcaLogLevel.ERROR, cmd: OrcaCmd.WRITE_BLOB_CHUNK, err: OrcaErr.BAD_CRC, message: 'crc mismatch' },
+    { timestampMs: 7, level: OrcaLogLevel.DEBUG, cmd: 0, err: 0, message: '' },
+  ];
+
+  it('round-trips records', () => {
+    const bytes = encodeLogRecords(records);
+    expect(bytes.length).toBe(3 * ORCA_LOG_RECORD_HEADER_SIZE + 4 + 12);
+    expect(decodeLogRecords(bytes)).toEqual(records);
+    expect(decodeLogRecords(new Uint8Array(0))).toEqual([]);
+    expect(formatLogRecord(records[1]!)).toContain('[WRITE_BLOB_CHUNK BAD_CRC] crc mismatch');
+  });
+
+  it('caps messages at 255 bytes', () => {
+    const [decoded] = decodeLogRecords(encodeLogRecords([{ ...records[0]!, message: 'x'.repeat(300) }]));
+    expect(decoded!.message).toHaveLength(255);
+  });
+
+  it('rejects truncated records', () => {
+    const bytes = encodeLogRecords(records.slice(0, 2));
+    expect(() => decodeLogRecords(bytes.slice(0, bytes.length - 1))).toThrow('Truncated log record message at offset 12');
+    expect(() => decodeLogRecords(bytes.slice(0, 12 + 3))).toThrow('Truncated log record header at offset 12');
+  });
+});
@@ -0,0 +1,104 @@
+import { OrcaCmd, OrcaErr } from '@shared/orca_config_idl_generated';
+import type { ByteArray } from './orcaProtocol';
+
+export const OrcaLogLevel = {
+  DEBUG: 0,
+  INFO: 1,
+  WARN: 2,
+  ERROR: 3,
+} as const;
+
+export type OrcaLogRecord = {
+  timestampMs: number;
+  level: number;
+  cmd: number; // OrcaCmd the record relates to, 0 if none
+  err: number; // OrcaErr reported for that command, 0 if none
+  message: string;
+};
+
+// Record layout: u32 timestamp_ms, u8 level, u8 cmd, u8 err, u8 message_len, char message[message_len]
+export const ORCA_LOG_RECORD_HEADER_SIZE = 8;
+export const ORCA_LOG_MESSAGE_MAX = 255;
+
+const LEVEL_NAMES: Record<number, string> = {
+  [OrcaLogLevel.DEBUG]: 'DEBUG',
+  [OrcaLogLevel.INFO]: 'INFO',
+  [OrcaLogLevel.WARN]: 'WARN',
+  [OrcaLogLevel.ERROR]: 'ERROR',
+};
+
+const CMD_NAMES: Map<number, string> = new Map(
+  (Object.entries(OrcaCmd) as Array<[string, number]>).map(([name, value]) => [value, name]),
+);
+
+const ERR_NAMES: Map<number, string> = new Map(
+  (Object.entries(OrcaErr) as Array<[string, number]>).map(([name, value]) => [value, name]),
+);
+
+export function logLevelName(level: number): string {
+  return LEVEL_NAMES[level] ?? `L${level}`;
+}
+
+export function orcaCmdName(cmd: number): string {
+  return CMD_NAMES.get(cmd) ?? `CMD_${cmd}`;
+}
+
+export function orcaErrName(err: number): string {
+  return ERR_NAMES.get(err) ?? `ERR_${err}`;
+}
+
+export function decodeLogRecords(data: Uint8Array): OrcaLogRecord[] {
+  const records: OrcaLogRecord[] = [];
+  const dv = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  let offset = 0;
+  while (offset < data.length) {
+    if (offset + ORCA_LOG_RECORD_HEADER_SIZE > data.length) {
+      throw new Error(`Truncated log record header at offset ${offset}`);
+    }
+    const timestampMs = dv.getUint32(offset, true);
+    const level = data[offset + 4]!;
+    const cmd = data[offset + 5]!;
+    const err = data[offset + 6]!;
+    const messageLen = data[offset + 7]!;
+    const start = offset + ORCA_LOG_RECORD_HEADER_SIZE;
+    if (start + messageLen > data.length) {
+      throw new Error(`Truncated log record message at offset ${offset}`);
+    }
+    const message = new TextDecoder('ascii', { fatal: false }).decode(data.slice(start, start + messageLen));
+    records.push({ timestampMs, level, cmd, err, message });
+    offset = start + messageLen;
+  }
+  return records;
+}
+
+export function encodeLogRecords(records: OrcaLogRecord[]): ByteArray {
+  const encoded = records.map((r) => new TextEncoder().encode(r.message).slice(0, ORCA_LOG_MESSAGE_MAX));
+  const total = encoded.reduce((sum, msg) => sum + ORCA_LOG_RECORD_HEADER_SIZE + msg.length, 0);
+  const out = new Uint8Array(total) as ByteArray;
+  const dv = new DataView(out.buffer);
+  let offset = 0;
+  records.forEach((r, i) => {
+    const msg = encoded[i]!;
+    dv.setUint32(offset, r.timestampMs >>> 0, true);
+    out[offset + 4] = r.level & 0xff;
+    out[offset + 5] = r.cmd & 0xff;
+    out[offset + 6] = r.err & 0xff;
+    out[offset + 7] = msg.length;
+    out.set(msg, offset + ORCA_LOG_RECORD_HEADER_SIZE);
+    offset += ORCA_LOG_RECORD_HEADER_SIZE + msg.length;
+  });
+  return out;
+}
+
+export function formatLogRecord(record: OrcaLogRecord): string {
+  const seconds = (record.timestampMs / 1000).toFixed(3).padStart(10, ' ');
+  const level = logLevelName(record.level).padEnd(5, ' ');
+  const context = record.cmd !== 0
+    ? ` [${orcaCmdName(record.cmd)}${record.err !== 0 ? ` ${orcaErrName(record.err)}` : ''}]`
+    : '';
+  return `${seconds} ${level}${context} ${record.message}`;
+}
+
+export function formatLogText(records: OrcaLogRecord[]): string {
+  return `${records.map(formatLogRecord).join('\n')}\n`;
+}
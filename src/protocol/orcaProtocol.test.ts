@@ -0,0 +1,119 @@
+import { describe, expect, it } from 'vitest';
+import { OrcaCmd, OrcaErr, OrcaMsgType } from '@shared/orca_config_idl_generated';
+import {
+  OrcaProtocolMismatchError,
+  encodeFrame,
+  encodeGetInputStateRequest,
+  matchResponseFrame,
+  requestCmd,
+  requestSeq,
+  resyncBuffer,
+  takeResponseFrame,
+  tryDecodeFrameFromBuffer,
+  type ByteArray,
+} from './orcaProtocol';
+
+function response(seq: number, cmd: number, extra: number[] = []): ByteArray {
+  return encodeFrame(OrcaMsgType.RESPONSE, seq, new Uint8Array([cmd, 0, 0, 0, ...extra]) as ByteArray);
+}
+
+function errorFrame(seq: number, cmd: number, err: number): ByteArray {
+  return encodeFrame(OrcaMsgType.ERROR, seq, new Uint8Array([cmd, err]) as ByteArray);
+}
+
+function concat(...parts: Uint8Array[]): ByteArray {
+  const out = new Uint8Array(parts.reduce((n, p) => n + p.length, 0)) as ByteArray;
+  let offset = 0;
+  for (const p of parts) {
+    out.set(p, offset);
+    offset += p.length;
+  }
+  return out;
+}
+
+describe('orcaProtocol frame correlation', () => {
+  it('decodes back-to-back frames from one buffer in order', () => {
+    const buffer = concat(response(1, OrcaCmd.GET_INFO), response(2, OrcaCmd.BEGIN_SESSION));
+    const first = tryDecodeFrameFromBuffer(buffer);
+    expect(first?.frame.seq).toBe(1);
+    const second = tryDecodeFrameFromBuffer(first!.remaining);
+    expect(second?.frame.seq).toBe(2);
+    expect(second?.remaining.length).toBe(0);
+  });
+
+  it('reads seq and cmd back from an encoded request', () => {
+    const req = encodeGetInputStateRequest(0x01020304);
+    expect(requestSeq(req)).toBe(0x01020304);
+    expect(requestCmd(req)).toBe(OrcaCmd.GET_INPUT_STATE);
+  });
+
+  it('skips stale responses left over from a cancelled poll', () => {
+    const buffer = concat(
+      response(7, OrcaCmd.GET_INPUT_STATE),
+      response(8, OrcaCmd.GET_INPUT_STATE),
+      response(9, OrcaCmd.READ_BLOB_SLOT, [1, 2, 3]),
+    );
+    const scan = takeResponseFrame(buffer, 9, OrcaCmd.READ_BLOB_SLOT);
+    expect(scan.staleFrames).toBe(2);
+    expect(scan.frame?.seq).toBe(9);
+    expect(scan.frame?.payload[0]).toBe(OrcaCmd.READ_BLOB_SLOT);
+    expect(scan.remaining.length).toBe(0);
+  });
+
+  it('keeps frames that arrive after the match for the next request', () => {
+    const buffer = concat(response(3, OrcaCmd.GET_INFO), response(4, OrcaCmd.BEGIN_SESSION));
+    const scan = takeResponseFrame(buffer, 3, OrcaCmd.GET_INFO);
+    expect(scan.frame?.seq).toBe(3);
+    const next = takeResponseFrame(scan.remaining, 4, OrcaCmd.BEGIN_SESSION);
+    expect(next.frame?.seq).toBe(4);
+  });
+
+  it('returns no frame while the matching response is incomplete', () => {
+    const full = response(5, OrcaCmd.GET_INFO, [9, 9, 9, 9]);
+    const scan = takeResponseFrame(concat(response(4, OrcaCmd.GET_INPUT_STATE), full.slice(0, 10)), 5, OrcaCmd.GET_INFO);
+    expect(scan.frame).toBeNull();
+    expect(scan.staleFrames).toBe(1);
+    const done = takeResponseFrame(concat(scan.remaining, full.slice(10)), 5, OrcaCmd.GET_INFO);
+    expect(done.frame?.seq).toBe(5);
+  });
+
+  it('accepts error frames for the pending command', () => {
+    const scan = takeResponseFrame(errorFrame(12, OrcaCmd.COMMIT_STAGED_SLOT, OrcaErr.NOT_UNLOCKED), 12, OrcaCmd.COMMIT_STAGED_SLOT);
+    expect(scan.frame?.msgType).toBe(OrcaMsgType.ERROR);
+  });
+
+  it('throws a mismatch when the current seq carries another command', () => {
+    const buffer = response(10, OrcaCmd.GET_INPUT_STATE);
+    expect(() => takeResponseFrame(buffer, 10, OrcaCmd.READ_BLOB)).toThrow(OrcaProtocolMismatchError);
+  });
+
+  it('throws a mismatch for frames from the future and for request frames', () => {
+    expect(() => matchResponseFrame(tryDecodeFrameFromBuffer(response(11, OrcaCmd.GET_INFO))!.frame, 10, OrcaCmd.GET_INFO))
+      .toThrow(OrcaProtocolMismatchError);
+    const echoed = encodeFrame(OrcaMsgType.REQUEST, 10, new Uint8Array([OrcaCmd.GET_INFO]) as ByteArray);
+    expect(() => matchResponseFrame(tryDecodeFrameFromBuffer(echoed)!.frame, 10, OrcaCmd.GET_INFO))
+      .toThrow(OrcaProtocolMismatchError);
+  });
+
+  it('treats sequence numbers as wrapping u32 values', () => {
+    const frame = tryDecodeFrameFromBuffer(response(0xffffffff, OrcaCmd.GET_INFO))!.frame;
+    expect(matchResponseFrame(frame, 1, OrcaCmd.GET_INFO)).toBe('stale');
+  });
+
+  it('resyncs past a corrupted frame to the next magic', () => {
+    const corrupted = response(20, OrcaCmd.GET_INPUT_STATE, [1, 2, 3, 4]);
+    corrupted[corrupted.length - 1] ^= 0xff;
+    const scan = takeResponseFrame(concat(corrupted, response(21, OrcaCmd.GET_INFO)), 21, OrcaCmd.GET_INFO);
+    expect(scan.resyncs).toBeGreaterThan(0);
+    expect(scan.frame?.seq).toBe(21);
+  });
+
+  it('skips leading garbage before a frame', () => {
+    const scan = takeResponseFrame(concat(new Uint8Array([0x00, 0x41, 0x13, 0x37]), response(2, OrcaCmd.GET_INFO)), 2, OrcaCmd.GET_INFO);
+    expect(scan.frame?.seq).toBe(2);
+  });
+
+  it('keeps a possible partial magic when resyncing without a match', () => {
+    expect(resyncBuffer(new Uint8Array([1, 2, 3, 4, 5, 6]) as ByteArray)).toEqual(new Uint8Array([4, 5, 6]));
+  });
+});
@@ -1,4 +1,5 @@
 import {
+  ORCA_CONFIG_PROTO_HEADER_SIZE,
   ORCA_CONFIG_PROTO_MAGIC,
   ORCA_CONFIG_PROTO_VERSION,
   OrcaCmd,
@@ -15,6 +16,13 @@ export type OrcaFrame = {
   payload: ByteArray;
 };
 
+export class OrcaFrameDecodeError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'OrcaFrameDecodeError';
+  }
+}
+
 export function encodeFrame(msgType: number, seq: number, payload: ByteArray): ByteArray {
   const header = new Uint8Array(16) as ByteArray;
   const dv = new DataView(header.buffer);
@@ -41,8 +49,8 @@ export function tryDecodeFrameFromBuffer(buffer: ByteArray): { frame: OrcaFrame;
   const payloadLen = dv.getUint16(6, true);
   const seq = dv.getUint32(8, true);
   const crc = dv.getUint32(12, true);
-  if (magic !== ORCA_CONFIG_PROTO_MAGIC) throw new Error('Bad magic');
-  if (protoVer !== ORCA_CONFIG_PROTO_VERSION) throw new Error('Bad protocol version');
+  if (magic !== ORCA_CONFIG_PROTO_MAGIC) throw new OrcaFrameDecodeError('Bad magic');
+  if (protoVer !== ORCA_CONFIG_PROTO_VERSION) throw new OrcaFrameDecodeError('Bad protocol version');
 
   const totalLen = 16 + payloadLen;
   if (buffer.length < totalLen) return null;
@@ -52,12 +60,132 @@ export function tryDecodeFrameFromBuffer(buffer: ByteArray): { frame: OrcaFrame;
   headerDv.setUint32(12, 0, true);
   const payload = buffer.slice(16, totalLen) as ByteArray;
   const expected = crc32c([header, payload]);
-  if (crc !== expected) throw new Error('Bad CRC32C');
+  if (crc !== expected) throw new OrcaFrameDecodeError('Bad CRC32C');
 
   const remaining = buffer.slice(totalLen) as ByteArray;
   return { frame: { msgType, seq, payload }, remaining };
 }
 
+/**
+ * Find the next frame header (protocol magic) at or after `from`.
+ * Returns -1 if there is none in the buffer.
+ */
+export function findFrameStart(buffer: ByteArray, from = 0): number {
+  const m0 = ORCA_CONFIG_PROTO_MAGIC & 0xff;
+  const m1 = (ORCA_CONFIG_PROTO_MAGIC >>> 8) & 0xff;
+  const m2 = (ORCA_CONFIG_PROTO_MAGIC >>> 16) & 0xff;
+  const m3 = (ORCA_CONFIG_PROTO_MAGIC >>> 24) & 0xff;
+  for (let i = Math.max(0, from); i + 3 < buffer.length; i++) {
+    if (buffer[i] === m0 && buffer[i + 1] === m1 && buffer[i + 2] === m2 && buffer[i + 3] === m3) return i;
+  }
+  return -1;
+}
+
+/**
+ * Drop the frame (or garbage) at the head of `buffer` and return the bytes from the next
+ * protocol magic onwards. If no magic is found, the last few bytes are kept in case the
+ * magic straddles the next read.
+ */
+export function resyncBuffer(buffer: ByteArray): ByteArray {
+  const next = findFrameStart(buffer, 1);
+  if (next >= 0) return buffer.slice(next) as ByteArray;
+  return buffer.slice(Math.max(1, buffer.length - 3)) as ByteArray;
+}
+
+export class OrcaProtocolMismatchError extends Error {
+  // Set by takeResponseFrame: the receive buffer after the offending frame.
+  remaining?: ByteArray;
+
+  constructor(
+    public readonly expectedSeq: number,
+    public readonly gotSeq: number,
+    public readonly expectedCmd: number,
+    public readonly gotCmd: number,
+    public readonly msgType: number,
+  ) {
+    super(
+      `Unexpected response frame (expected seq=${expectedSeq} cmd=${expectedCmd}, got seq=${gotSeq} cmd=${gotCmd} type=${msgType})`,
+    );
+    this.name = 'OrcaProtocolMismatchError';
+  }
+}
+
+/**
+ * Correlate a decoded frame with the request that is waiting for it.
+ * - 'match': the response (or error) for this request.
+ * - 'stale': a response to an earlier request that was abandoned (timeout/cancel); safe to drop.
+ * Anything else (same seq but different command, a frame from the "future", a request frame)
+ * means the stream is out of sync and throws OrcaProtocolMismatchError.
+ */
+export function matchResponseFrame(frame: OrcaFrame, expectedSeq: number, expectedCmd: number): 'match' | 'stale' {
+  const gotCmd = frame.payload[0] ?? 0;
+  const mismatch = () => new OrcaProtocolMismatchError(expectedSeq >>> 0, frame.seq >>> 0, expectedCmd, gotCmd, frame.msgType);
+  if (frame.msgType !== OrcaMsgType.RESPONSE && frame.msgType !== OrcaMsgType.ERROR) throw mismatch();
+
+  // Sequence numbers are u32 and wrap; anything within half the range behind us is an older request.
+  const age = ((expectedSeq >>> 0) - (frame.seq >>> 0)) >>> 0;
+  if (age === 0) {
+    if (gotCmd !== expectedCmd) throw mismatch();
+    return 'match';
+  }
+  if (age < 0x80000000) return 'stale';
+  throw mismatch();
+}
+
+export type ResponseScan = {
+  frame: OrcaFrame | null;
+  remaining: ByteArray;
+  staleFrames: number;
+  resyncs: number;
+};
+
+/**
+ * Pull the response for (`expectedSeq`, `expectedCmd`) out of a receive buffer.
+ * Stale frames are dropped and corrupted data is skipped up to the next protocol magic.
+ * `frame` is null when more bytes are needed; `remaining` is always what is left to keep.
+ * A mismatched frame throws OrcaProtocolMismatchError with `remaining` set past that frame.
+ */
+export function takeResponseFrame(buffer: ByteArray, expectedSeq: number, expectedCmd: number): ResponseScan {
+  let remaining = buffer;
+  let staleFrames = 0;
+  let resyncs = 0;
+  while (true) {
+    let decoded: ReturnType<typeof tryDecodeFrameFromBuffer>;
+    try {
+      decoded = tryDecodeFrameFromBuffer(remaining);
+    } catch (e) {
+      if (!(e instanceof OrcaFrameDecodeError)) throw e;
+      remaining = resyncBuffer(remaining);
+      resyncs++;
+      continue;
+    }
+    if (!decoded) return { frame: null, remaining, staleFrames, resyncs };
+    let match: ReturnType<typeof matchResponseFrame>;
+    try {
+      match = matchResponseFrame(decoded.frame, expectedSeq, expectedCmd);
+    } catch (e) {
+      if (e instanceof OrcaProtocolMismatchError) e.remaining = decoded.remaining;
+      throw e;
+    }
+    if (match === 'stale') {
+      remaining = decoded.remaining;
+      staleFrames++;
+      continue;
+    }
+    return { frame: decoded.frame, remaining: decoded.remaining, staleFrames, resyncs };
+  }
+}
+
+/** Command byte of an encoded request frame. */
+export function requestCmd(request: ByteArray): number {
+  return request[ORCA_CONFIG_PROTO_HEADER_SIZE] ?? 0;
+}
+
+/** Sequence number of an encoded request frame. */
+export function requestSeq(request: ByteArray): number {
+  return new DataView(request.buffer, request.byteOffset, request.byteLength).getUint32(8, true);
+}
+
 export function encodeGetInfoRequest(seq: number): ByteArray {
   return encodeFrame(OrcaMsgType.REQUEST, seq, new Uint8Array([OrcaCmd.GET_INFO]) as ByteArray);
 }
@@ -183,6 +311,14 @@ export function encodeGetInputStateRequest(seq: number): ByteArray {
   return encodeFrame(OrcaMsgType.REQUEST, seq, new Uint8Array([OrcaCmd.GET_INPUT_STATE]) as ByteArray);
 }
 
+export function encodeGetLogRequest(seq: number, cursor: number): ByteArray {
+  const payload = new Uint8Array(8);
+  payload[0] = OrcaCmd.GET_LOG;
+  const dv = new DataView(payload.buffer);
+  dv.setUint32(4, cursor >>> 0, true);
+  return encodeFrame(OrcaMsgType.REQUEST, seq, payload as ByteArray);
+}
+
 export function parseErrorPayload(payload: Uint8Array): { cmd: number; err: number } {
   return { cmd: payload[0] ?? 0, err: payload[1] ?? OrcaErr.INTERNAL_ERROR };
 }
@@ -0,0 +1,88 @@
+import { describe, expect, it } from 'vitest';
+import { decodeQrModules, encodeQr, qrByteCapacity, type QrCode } from './qrCode';
+import { reedSolomonDecode, reedSolomonEncode } from './reedSolomon';
+import { scanQrImage } from './qrScan';
+
+// Format strings for level M, masks 0-7, most significant bit first.
+const FORMAT_M = ['101010000010010', '101000100100101', '101111001111100', '101101101001011', '100010111111001', '100000011001110', '100111110010111', '100101010100000'];
+
+function bytes(length: number, seed = 1): Uint8Array {
+  return Uint8Array.from({ length }, (_, i) => (i * 37 + seed * 11) & 0xff);
+}
+
+// Draw a code onto an RGBA canvas, mapping each pixel back through a rotation and mild keystone.
+function render(code: QrCode, { scale = 4, angle = 0, keystone = 0 } = {}) {
+  const quiet = 4;
+  const side = (code.size + quiet * 2) * scale;
+  const width = Math.ceil(side * 1.6);
+  const height = width;
+  const data = new Uint8ClampedArray(width * height * 4).fill(255);
+  const cos = Math.cos(angle);
+  const sin = Math.sin(angle);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const dx = x - width / 2;
+      const dy = y - height / 2;
+      const w = 1 + keystone * (dy / side);
+      const u = (cos * dx + sin * dy) / w / scale + code.size / 2;
+      const v = (-sin * dx + cos * dy) / w / scale + code.size / 2;
+      const dark = u >= 0 && v >= 0 && u < code.size && v < code.size && code.modules[Math.floor(v)]![Math.floor(u)]!;
+      if (dark) data.fill(30, (y * width + x) * 4, (y * width + x) * 4 + 3);
+    }
+  }
+  return { width, height, data };
+}
+
+describe('QR codes', () => {
+  it('computes Reed-Solomon codewords for the standard HELLO WORLD 1-M example', () => {
+    const data = Uint8Array.from([32, 91, 11, 120, 209, 114, 220, 77, 67, 64, 236, 17, 236, 17, 236, 17]);
+    const ecc = reedSolomonEncode(data, 10);
+    expect(Array.from(ecc)).toEqual([196, 35, 39, 119, 235, 215, 231, 226, 93, 23]);
+
+    const block = new Uint8Array([...data, ...ecc]);
+    block[0] ^= 0xff;
+    block[7] ^= 0x01;
+    block[20] ^= 0x5a;
+    block[25] ^= 0x80;
+    block[12] ^= 0x33;
+    expect(Array.from(reedSolomonDecode(block, 10)!)).toEqual([...data, ...ecc]);
+  });
+
+  it('sizes codes by byte capacity and writes standard format bits', () => {
+    expect(qrByteCapacity(1, 'M')).toBe(14);
+    expect(qrByteCapacity(10, 'M')).toBe(213);
+    expect(qrByteCapacity(40, 'L')).toBe(2953);
+
+    const code = encodeQr(bytes(14));
+    expect(code.version).toBe(1);
+    expect(encodeQr(bytes(15)).version).toBe(2);
+    expect(() => encodeQr(bytes(300), { maxVersion: 10 })).toThrow(/too large/);
+
+    // Top-left copy: column 8 going down, then row 8 going left, skipping the timing patterns.
+    const bits = [0, 1, 2, 3, 4, 5, 7, 8].map((y) => code.modules[y]![8]).concat([7, 5, 4, 3, 2, 1, 0].map((x) => code.modules[8]![x]!));
+    expect(bits.reverse().map((b) => (b ? '1' : '0')).join('')).toBe(FORMAT_M[code.mask]);
+  });
+
+  it('reads back encoded grids despite damaged modules', () => {
+    for (const length of [1, 50, 213, 600]) {
+      const payload = bytes(length, length);
+      const code = encodeQr(payload);
+      const modules = code.modules.map((row) => row.slice());
+      for (let i = 0; i < 6; i++) {
+        const y = code.size - 1 - i;
+        modules[y]![code.size - 1] = !modules[y]![code.size - 1];
+      }
+      expect(decodeQrModules(modules)).toEqual(payload);
+    }
+  });
+
+  it('finds codes in rendered images', () => {
+    const payload = bytes(120);
+    const code = encodeQr(payload);
+    expect(scanQrImage(render(code))).toEqual(payload);
+    expect(scanQrImage(render(code, { scale: 5, angle: 0.5, keystone: 0.08 }))).toEqual(payload);
+
+    const blank = { width: 64, height: 64, data: new Uint8ClampedArray(64 * 64 * 4).fill(255) };
+    expect(scanQrImage(blank)).toBeNull();
+  });
+});
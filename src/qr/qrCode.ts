@@ -0,0 +1,447 @@
+/**
+ * QR code (ISO/IEC 18004, model 2) encoding of binary payloads and decoding of a sampled module grid.
+ * Only byte mode is produced; numeric, alphanumeric and ECI segments are understood when reading.
+ */
+import { reedSolomonDecode, reedSolomonEncode } from './reedSolomon';
+
+export type QrErrorCorrection = 'L' | 'M' | 'Q' | 'H';
+
+export type QrCode = {
+  version: number;
+  size: number;
+  errorCorrection: QrErrorCorrection;
+  mask: number;
+  // modules[y][x], true for dark.
+  modules: boolean[][];
+};
+
+export const QR_MIN_VERSION = 1;
+export const QR_MAX_VERSION = 40;
+
+const ECL_ORDER: QrErrorCorrection[] = ['L', 'M', 'Q', 'H'];
+const ECL_FORMAT_BITS: Record<QrErrorCorrection, number> = { L: 1, M: 0, Q: 3, H: 2 };
+
+// Indexed by [ecl][version]; index 0 is unused.
+const ECC_CODEWORDS_PER_BLOCK: number[][] = [
+  [-1, 7, 10, 15, 20, 26, 18, 20, 24, 30, 18, 20, 24, 26, 30, 22, 24, 28, 30, 28, 28, 28, 28, 30, 30, 26, 28, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30],
+  [-1, 10, 16, 26, 18, 24, 16, 18, 22, 22, 26, 30, 22, 22, 24, 24, 28, 28, 26, 26, 26, 26, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28],
+  [-1, 13, 22, 18, 26, 18, 24, 18, 22, 20, 24, 28, 26, 24, 20, 30, 24, 28, 28, 26, 30, 28, 30, 30, 30, 30, 28, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30],
+  [-1, 17, 28, 22, 16, 22, 28, 26, 26, 24, 28, 24, 28, 22, 24, 24, 30, 28, 28, 26, 28, 30, 24, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30],
+];
+const NUM_ERROR_CORRECTION_BLOCKS: number[][] = [
+  [-1, 1, 1, 1, 1, 1, 2, 2, 2, 2, 4, 4, 4, 4, 4, 6, 6, 6, 6, 7, 8, 8, 9, 9, 10, 12, 12, 12, 13, 14, 15, 16, 17, 18, 19, 19, 20, 21, 22, 24, 25],
+  [-1, 1, 1, 1, 2, 2, 4, 4, 4, 5, 5, 5, 8, 9, 9, 10, 10, 11, 13, 14, 16, 17, 17, 18, 20, 21, 23, 25, 26, 28, 29, 31, 33, 35, 37, 38, 40, 43, 45, 47, 49],
+  [-1, 1, 1, 2, 2, 4, 4, 6, 6, 8, 8, 8, 10, 12, 16, 12, 17, 16, 18, 21, 20, 23, 23, 25, 27, 29, 34, 34, 35, 38, 40, 43, 45, 48, 51, 53, 56, 59, 62, 65, 68],
+  [-1, 1, 1, 2, 4, 4, 4, 5, 6, 8, 8, 11, 11, 16, 16, 18, 16, 19, 21, 25, 25, 25, 34, 30, 32, 35, 37, 40, 42, 45, 48, 51, 54, 57, 60, 63, 66, 70, 74, 77, 81],
+];
+
+const MODE_NUMERIC = 0x1;
+const MODE_ALPHANUMERIC = 0x2;
+const MODE_BYTE = 0x4;
+const MODE_ECI = 0x7;
+const ALPHANUMERIC_CHARSET = '0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZ $%*+-./:';
+
+export function qrSizeForVersion(version: number): number {
+  return version * 4 + 17;
+}
+
+function numRawDataModules(version: number): number {
+  let result = (16 * version + 128) * version + 64;
+  if (version >= 2) {
+    const numAlign = Math.floor(version / 7) + 2;
+    result -= (25 * numAlign - 10) * numAlign - 55;
+    if (version >= 7) result -= 36;
+  }
+  return result;
+}
+
+type BlockLayout = { numBlocks: number; eccLength: number; rawCodewords: number; shortBlockLength: number; numShortBlocks: number };
+
+function blockLayout(version: number, ecl: QrErrorCorrection): BlockLayout {
+  const e = ECL_ORDER.indexOf(ecl);
+  const numBlocks = NUM_ERROR_CORRECTION_BLOCKS[e]![version]!;
+  const rawCodewords = Math.floor(numRawDataModules(version) / 8);
+  return {
+    numBlocks,
+    eccLength: ECC_CODEWORDS_PER_BLOCK[e]![version]!,
+    rawCodewords,
+    shortBlockLength: Math.floor(rawCodewords / numBlocks),
+    numShortBlocks: numBlocks - (rawCodewords % numBlocks),
+  };
+}
+
+function numDataCodewords(version: number, ecl: QrErrorCorrection): number {
+  const { numBlocks, eccLength, rawCodewords } = blockLayout(version, ecl);
+  return rawCodewords - eccLength * numBlocks;
+}
+
+function byteCountBits(version: number): number {
+  return version <= 9 ? 8 : 16;
+}
+
+/** Largest byte-mode payload that fits in `version` at error correction level `ecl`. */
+export function qrByteCapacity(version: number, ecl: QrErrorCorrection): number {
+  return Math.floor((numDataCodewords(version, ecl) * 8 - 4 - byteCountBits(version)) / 8);
+}
+
+function alignmentPositions(version: number): number[] {
+  if (version === 1) return [];
+  const numAlign = Math.floor(version / 7) + 2;
+  const step = Math.floor((version * 8 + numAlign * 3 + 5) / (numAlign * 4 - 4)) * 2;
+  const result = [6];
+  for (let pos = qrSizeForVersion(version) - 7; result.length < numAlign; pos -= step) result.splice(1, 0, pos);
+  return result;
+}
+
+function formatBits(ecl: QrErrorCorrection, mask: number): number {
+  const data = (ECL_FORMAT_BITS[ecl] << 3) | mask;
+  let rem = data;
+  for (let i = 0; i < 10; i++) rem = (rem << 1) ^ ((rem >>> 9) * 0x537);
+  return ((data << 10) | rem) ^ 0x5412;
+}
+
+function versionBits(version: number): number {
+  let rem = version;
+  for (let i = 0; i < 12; i++) rem = (rem << 1) ^ ((rem >>> 11) * 0x1f25);
+  return (version << 12) | rem;
+}
+
+// Module coordinates (x, y) of format bit i, for the copy around the top-left finder and the split copy.
+function formatBitPositions(size: number): { primary: [number, number][]; secondary: [number, number][] } {
+  const primary: [number, number][] = [];
+  const secondary: [number, number][] = [];
+  for (let i = 0; i < 15; i++) {
+    if (i < 6) primary.push([8, i]);
+    else if (i < 8) primary.push([8, i + 1]);
+    else if (i === 8) primary.push([7, 8]);
+    else primary.push([14 - i, 8]);
+    secondary.push(i < 8 ? [size - 1 - i, 8] : [8, size - 15 + i]);
+  }
+  return { primary, secondary };
+}
+
+function maskBit(mask: number, x: number, y: number): boolean {
+  switch (mask) {
+    case 0: return (x + y) % 2 === 0;
+    case 1: return y % 2 === 0;
+    case 2: return x % 3 === 0;
+    case 3: return (x + y) % 3 === 0;
+    case 4: return (Math.floor(x / 3) + Math.floor(y / 2)) % 2 === 0;
+    case 5: return ((x * y) % 2) + ((x * y) % 3) === 0;
+    case 6: return (((x * y) % 2) + ((x * y) % 3)) % 2 === 0;
+    default: return (((x + y) % 2) + ((x * y) % 3)) % 2 === 0;
+  }
+}
+
+type Matrix = { size: number; modules: boolean[][]; isFunction: boolean[][] };
+
+/** Finder, timing and alignment patterns, with the format and version areas reserved. */
+function functionPatterns(version: number): Matrix {
+  const size = qrSizeForVersion(version);
+  const modules = Array.from({ length: size }, () => new Array<boolean>(size).fill(false));
+  const isFunction = Array.from({ length: size }, () => new Array<boolean>(size).fill(false));
+  const set = (x: number, y: number, dark: boolean) => {
+    modules[y]![x] = dark;
+    isFunction[y]![x] = true;
+  };
+
+  for (let i = 0; i < size; i++) {
+    set(6, i, i % 2 === 0);
+    set(i, 6, i % 2 === 0);
+  }
+  for (const [cx, cy] of [[3, 3], [size - 4, 3], [3, size - 4]] as const) {
+    for (let dy = -4; dy <= 4; dy++) {
+      for (let dx = -4; dx <= 4; dx++) {
+        const x = cx + dx;
+        const y = cy + dy;
+        if (x < 0 || y < 0 || x >= size || y >= size) continue;
+        const dist = Math.max(Math.abs(dx), Math.abs(dy));
+        set(x, y, dist !== 2 && dist !== 4);
+      }
+    }
+  }
+  const align = alignmentPositions(version);
+  for (let i = 0; i < align.length; i++) {
+    for (let j = 0; j < align.length; j++) {
+      // Skip the three corners occupied by finders.
+      if ((i === 0 && j === 0) || (i === 0 && j === align.length - 1) || (i === align.length - 1 && j === 0)) continue;
+      for (let dy = -2; dy <= 2; dy++) {
+        for (let dx = -2; dx <= 2; dx++) set(align[i]! + dx, align[j]! + dy, Math.max(Math.abs(dx), Math.abs(dy)) !== 1);
+      }
+    }
+  }
+
+  const { primary, secondary } = formatBitPositions(size);
+  for (const [x, y] of [...primary, ...secondary]) set(x, y, false);
+  set(8, size - 8, true);
+
+  if (version >= 7) {
+    const bits = versionBits(version);
+    for (let i = 0; i < 18; i++) {
+      const dark = ((bits >>> i) & 1) !== 0;
+      const a = size - 11 + (i % 3);
+      const b = Math.floor(i / 3);
+      set(a, b, dark);
+      set(b, a, dark);
+    }
+  }
+  return { size, modules, isFunction };
+}
+
+// Data module coordinates in placement order: two-column strips from the right, alternating direction.
+function dataModuleOrder(matrix: Matrix): [number, number][] {
+  const { size, isFunction } = matrix;
+  const order: [number, number][] = [];
+  for (let right = size - 1; right >= 1; right -= 2) {
+    if (right === 6) right = 5;
+    const upward = ((right + 1) & 2) === 0;
+    for (let vert = 0; vert < size; vert++) {
+      const y = upward ? size - 1 - vert : vert;
+      for (let j = 0; j < 2; j++) {
+        const x = right - j;
+        if (!isFunction[y]![x]) order.push([x, y]);
+      }
+    }
+  }
+  return order;
+}
+
+function penaltyScore(modules: boolean[][]): number {
+  const size = modules.length;
+  let penalty = 0;
+  const line = (get: (i: number) => boolean) => {
+    let run = 1;
+    for (let i = 1; i <= size; i++) {
+      if (i < size && get(i) === get(i - 1)) {
+        run++;
+        continue;
+      }
+      if (run >= 5) penalty += run - 2;
+      run = 1;
+    }
+    // Finder-like 1:1:3:1:1 with four light modules on either side.
+    for (let i = 0; i + 7 <= size; i++) {
+      if (!(get(i) && !get(i + 1) && get(i + 2) && get(i + 3) && get(i + 4) && !get(i + 5) && get(i + 6))) continue;
+      const lightBefore = [1, 2, 3, 4].every((k) => i - k < 0 || !get(i - k));
+      const lightAfter = [7, 8, 9, 10].every((k) => i + k >= size || !get(i + k));
+      if (lightBefore || lightAfter) penalty += 40;
+    }
+  };
+  for (let y = 0; y < size; y++) line((x) => modules[y]![x]!);
+  for (let x = 0; x < size; x++) line((y) => modules[y]![x]!);
+
+  let dark = 0;
+  for (let y = 0; y < size; y++) {
+    for (let x = 0; x < size; x++) {
+      if (modules[y]![x]) dark++;
+      if (x < size - 1 && y < size - 1) {
+        const c = modules[y]![x];
+        if (c === modules[y]![x + 1] && c === modules[y + 1]![x] && c === modules[y + 1]![x + 1]) penalty += 3;
+      }
+    }
+  }
+  const total = size * size;
+  penalty += Math.max(0, Math.ceil(Math.abs(dark * 20 - total * 10) / total) - 1) * 10;
+  return penalty;
+}
+
+export type QrEncodeOptions = {
+  errorCorrection?: QrErrorCorrection;
+  minVersion?: number;
+  maxVersion?: number;
+};
+
+/** Encode `data` in byte mode in the smallest version that fits. Throws if it does not fit `maxVersion`. */
+export function encodeQr(data: Uint8Array, options: QrEncodeOptions = {}): QrCode {
+  const ecl = options.errorCorrection ?? 'M';
+  const minVersion = options.minVersion ?? QR_MIN_VERSION;
+  const maxVersion = options.maxVersion ?? QR_MAX_VERSION;
+  let version = minVersion;
+  while (qrByteCapacity(version, ecl) < data.length) {
+    if (++version > maxVersion) throw new Error(`QR payload too large (${data.length} bytes)`);
+  }
+
+  // Mode, count, data, terminator, then pad to the data capacity.
+  const capacity = numDataCodewords(version, ecl);
+  const bits: number[] = [];
+  const push = (value: number, length: number) => {
+    for (let i = length - 1; i >= 0; i--) bits.push((value >>> i) & 1);
+  };
+  push(MODE_BYTE, 4);
+  push(data.length, byteCountBits(version));
+  for (const b of data) push(b, 8);
+  push(0, Math.min(4, capacity * 8 - bits.length));
+  push(0, (8 - (bits.length % 8)) % 8);
+  const codewords = new Uint8Array(capacity);
+  for (let i = 0; i < bits.length; i++) codewords[i >>> 3] |= bits[i]! << (7 - (i & 7));
+  for (let i = bits.length / 8, pad = 0xec; i < capacity; i++, pad ^= 0xec ^ 0x11) codewords[i] = pad;
+
+  // Split into blocks, append error correction, interleave.
+  const { numBlocks, eccLength, shortBlockLength, numShortBlocks } = blockLayout(version, ecl);
+  const blocks: { data: Uint8Array; ecc: Uint8Array }[] = [];
+  for (let i = 0, k = 0; i < numBlocks; i++) {
+    const length = shortBlockLength - eccLength + (i < numShortBlocks ? 0 : 1);
+    const block = codewords.subarray(k, k + length);
+    k += length;
+    blocks.push({ data: block, ecc: reedSolomonEncode(block, eccLength) });
+  }
+  const interleaved: number[] = [];
+  for (let i = 0; i <= shortBlockLength - eccLength; i++) {
+    for (const block of blocks) if (i < block.data.length) interleaved.push(block.data[i]!);
+  }
+  for (let i = 0; i < eccLength; i++) {
+    for (const block of blocks) interleaved.push(block.ecc[i]!);
+  }
+
+  const matrix = functionPatterns(version);
+  const order = dataModuleOrder(matrix);
+  order.forEach(([x, y], i) => {
+    matrix.modules[y]![x] = i < interleaved.length * 8 && ((interleaved[i >>> 3]! >>> (7 - (i & 7))) & 1) !== 0;
+  });
+
+  let best: QrCode | null = null;
+  let bestPenalty = Infinity;
+  for (let mask = 0; mask < 8; mask++) {
+    const modules = matrix.modules.map((row) => row.slice());
+    for (const [x, y] of order) if (maskBit(mask, x, y)) modules[y]![x] = !modules[y]![x];
+    const format = formatBits(ecl, mask);
+    const { primary, secondary } = formatBitPositions(matrix.size);
+    for (let i = 0; i < 15; i++) {
+      const dark = ((format >>> i) & 1) !== 0;
+      modules[primary[i]![1]]![primary[i]![0]] = dark;
+      modules[secondary[i]![1]]![secondary[i]![0]] = dark;
+    }
+    const penalty = penaltyScore(modules);
+    if (penalty < bestPenalty) {
+      bestPenalty = penalty;
+      best = { version, size: matrix.size, errorCorrection: ecl, mask, modules };
+    }
+  }
+  return best!;
+}
+
+function readFormat(modules: boolean[][]): { ecl: QrErrorCorrection; mask: number } | null {
+  const { primary, secondary } = formatBitPositions(modules.length);
+  const read = (positions: [number, number][]) =>
+    positions.reduce((bits, [x, y], i) => bits | ((modules[y]?.[x] ? 1 : 0) << i), 0);
+  const candidates = [read(primary), read(secondary)];
+  let best: { ecl: QrErrorCorrection; mask: number } | null = null;
+  let bestDistance = 4;
+  for (const ecl of ECL_ORDER) {
+    for (let mask = 0; mask < 8; mask++) {
+      const expected = formatBits(ecl, mask);
+      for (const bits of candidates) {
+        let diff = bits ^ expected;
+        let distance = 0;
+        for (; diff; diff &= diff - 1) distance++;
+        if (distance < bestDistance) {
+          bestDistance = distance;
+          best = { ecl, mask };
+        }
+      }
+    }
+  }
+  return best;
+}
+
+class BitReader {
+  private offset = 0;
+
+  constructor(private readonly bytes: Uint8Array) {}
+
+  get remaining(): number {
+    return this.bytes.length * 8 - this.offset;
+  }
+
+  read(length: number): number {
+    if (length > this.remaining) throw new Error('QR data truncated');
+    let value = 0;
+    for (let i = 0; i < length; i++, this.offset++) {
+      value = (value << 1) | ((this.bytes[this.offset >>> 3]! >>> (7 - (this.offset & 7))) & 1);
+    }
+    return value;
+  }
+}
+
+function readSegments(data: Uint8Array, version: number): Uint8Array {
+  const reader = new BitReader(data);
+  const out: number[] = [];
+  const sizeClass = version <= 9 ? 0 : version <= 26 ? 1 : 2;
+  while (reader.remaining >= 4) {
+    const mode = reader.read(4);
+    if (mode === 0) break;
+    if (mode === MODE_BYTE) {
+      const count = reader.read([8, 16, 16][sizeClass]!);
+      for (let i = 0; i < count; i++) out.push(reader.read(8));
+    } else if (mode === MODE_NUMERIC) {
+      let count = reader.read([10, 12, 14][sizeClass]!);
+      for (; count >= 3; count -= 3) out.push(...new TextEncoder().encode(String(reader.read(10)).padStart(3, '0')));
+      if (count === 2) out.push(...new TextEncoder().encode(String(reader.read(7)).padStart(2, '0')));
+      else if (count === 1) out.push(...new TextEncoder().encode(String(reader.read(4))));
+    } else if (mode === MODE_ALPHANUMERIC) {
+      let count = reader.read([9, 11, 13][sizeClass]!);
+      for (; count >= 2; count -= 2) {
+        const pair = reader.read(11);
+        out.push(ALPHANUMERIC_CHARSET.charCodeAt(Math.floor(pair / 45)), ALPHANUMERIC_CHARSET.charCodeAt(pair % 45));
+      }
+      if (count === 1) out.push(ALPHANUMERIC_CHARSET.charCodeAt(reader.read(6)));
+    } else if (mode === MODE_ECI) {
+      // The designator only labels the byte segments that follow; payloads here are raw bytes.
+      const first = reader.read(8);
+      if ((first & 0xc0) === 0x80) reader.read(8);
+      else if ((first & 0xe0) === 0xc0) reader.read(16);
+    } else {
+      throw new Error(`Unsupported QR segment mode ${mode}`);
+    }
+  }
+  return Uint8Array.from(out);
+}
+
+/**
+ * Decode the payload of a sampled module grid (modules[y][x], true for dark) in its upright
+ * orientation. Returns null when the grid is not a readable QR code.
+ */
+export function decodeQrModules(modules: boolean[][]): Uint8Array | null {
+  const size = modules.length;
+  const version = (size - 17) / 4;
+  if (!Number.isInteger(version) || version < QR_MIN_VERSION || version > QR_MAX_VERSION) return null;
+  const format = readFormat(modules);
+  if (!format) return null;
+
+  const matrix = functionPatterns(version);
+  const order = dataModuleOrder(matrix);
+  const { numBlocks, eccLength, rawCodewords, shortBlockLength, numShortBlocks } = blockLayout(version, format.ecl);
+  const raw = new Uint8Array(rawCodewords);
+  for (let i = 0; i < rawCodewords * 8; i++) {
+    const [x, y] = order[i]!;
+    if (modules[y]![x] !== maskBit(format.mask, x, y)) raw[i >>> 3] |= 1 << (7 - (i & 7));
+  }
+
+  // Undo the interleaving, then correct each block.
+  const blocks = Array.from({ length: numBlocks }, (_, i) => ({
+    data: new Uint8Array(shortBlockLength - eccLength + (i < numShortBlocks ? 0 : 1)),
+    ecc: new Uint8Array(eccLength),
+  }));
+  let k = 0;
+  for (let i = 0; i <= shortBlockLength - eccLength; i++) {
+    for (const block of blocks) if (i < block.data.length) block.data[i] = raw[k++]!;
+  }
+  for (let i = 0; i < eccLength; i++) {
+    for (const block of blocks) block.ecc[i] = raw[k++]!;
+  }
+
+  const data: number[] = [];
+  for (const block of blocks) {
+    const joined = new Uint8Array(block.data.length + eccLength);
+    joined.set(block.data);
+    joined.set(block.ecc, block.data.length);
+    const corrected = reedSolomonDecode(joined, eccLength);
+    if (!corrected) return null;
+    data.push(...corrected.subarray(0, block.data.length));
+  }
+  try {
+    return readSegments(Uint8Array.from(data), version);
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,382 @@
+/**
+ * Locate and read a QR code in an RGBA image (an `ImageData` from a canvas). Runs entirely in the page,
+ * so scanning works offline and in browsers without a native barcode detector.
+ */
+import { decodeQrModules, QR_MAX_VERSION, QR_MIN_VERSION, qrSizeForVersion } from './qrCode';
+
+export type QrImage = { width: number; height: number; data: Uint8ClampedArray | Uint8Array };
+
+type Point = { x: number; y: number };
+type Finder = Point & { moduleSize: number; count: number };
+
+type Bitmap = { width: number; height: number; dark: Uint8Array };
+
+function luminance(image: QrImage): Uint8Array {
+  const { width, height, data } = image;
+  const out = new Uint8Array(width * height);
+  for (let i = 0, p = 0; i < out.length; i++, p += 4) {
+    out[i] = (data[p]! * 77 + data[p + 1]! * 150 + data[p + 2]! * 29) >> 8;
+  }
+  return out;
+}
+
+// One threshold for the whole image (Otsu); handles screenshots and codes that fill the frame.
+function binarizeGlobal(lum: Uint8Array, width: number, height: number): Bitmap {
+  const histogram = new Array<number>(256).fill(0);
+  for (const v of lum) histogram[v]!++;
+  let sum = 0;
+  for (let i = 0; i < 256; i++) sum += i * histogram[i]!;
+  let sumBelow = 0;
+  let countBelow = 0;
+  let bestThreshold = 128;
+  let bestVariance = -1;
+  for (let t = 0; t < 256; t++) {
+    countBelow += histogram[t]!;
+    if (countBelow === 0) continue;
+    const countAbove = lum.length - countBelow;
+    if (countAbove === 0) break;
+    sumBelow += t * histogram[t]!;
+    const meanBelow = sumBelow / countBelow;
+    const meanAbove = (sum - sumBelow) / countAbove;
+    const variance = countBelow * countAbove * (meanBelow - meanAbove) ** 2;
+    if (variance > bestVariance) {
+      bestVariance = variance;
+      bestThreshold = t;
+    }
+  }
+  const dark = new Uint8Array(lum.length);
+  for (let i = 0; i < lum.length; i++) dark[i] = lum[i]! <= bestThreshold ? 1 : 0;
+  return { width, height, dark };
+}
+
+// Threshold against the local mean; handles uneven lighting in camera frames.
+function binarizeLocal(lum: Uint8Array, width: number, height: number): Bitmap {
+  const integral = new Float64Array((width + 1) * (height + 1));
+  for (let y = 0; y < height; y++) {
+    let row = 0;
+    for (let x = 0; x < width; x++) {
+      row += lum[y * width + x]!;
+      integral[(y + 1) * (width + 1) + x + 1] = integral[y * (width + 1) + x + 1]! + row;
+    }
+  }
+  const radius = Math.max(8, Math.round(Math.max(width, height) / 12));
+  const dark = new Uint8Array(lum.length);
+  for (let y = 0; y < height; y++) {
+    const y0 = Math.max(0, y - radius);
+    const y1 = Math.min(height, y + radius + 1);
+    for (let x = 0; x < width; x++) {
+      const x0 = Math.max(0, x - radius);
+      const x1 = Math.min(width, x + radius + 1);
+      const total = integral[y1 * (width + 1) + x1]! - integral[y0 * (width + 1) + x1]! - integral[y1 * (width + 1) + x0]! + integral[y0 * (width + 1) + x0]!;
+      const mean = total / ((x1 - x0) * (y1 - y0));
+      dark[y * width + x] = lum[y * width + x]! * 100 < mean * 88 ? 1 : 0;
+    }
+  }
+  return { width, height, dark };
+}
+
+function isDark(bitmap: Bitmap, x: number, y: number): boolean {
+  const ix = Math.floor(x);
+  const iy = Math.floor(y);
+  if (ix < 0 || iy < 0 || ix >= bitmap.width || iy >= bitmap.height) return false;
+  return bitmap.dark[iy * bitmap.width + ix] === 1;
+}
+
+// Dark:light:dark:light:dark runs in the ratio 1:1:3:1:1.
+function isFinderRatio(counts: number[]): boolean {
+  const total = counts.reduce((a, b) => a + b, 0);
+  if (total < 7) return false;
+  const module = total / 7;
+  const variance = module / 2;
+  return (
+    Math.abs(module - counts[0]!) < variance &&
+    Math.abs(module - counts[1]!) < variance &&
+    Math.abs(3 * module - counts[2]!) < 3 * variance &&
+    Math.abs(module - counts[3]!) < variance &&
+    Math.abs(module - counts[4]!) < variance
+  );
+}
+
+// Re-measure the five runs through (x, y) along (dx, dy); returns the refined center offset or NaN.
+function crossCheck(bitmap: Bitmap, x: number, y: number, dx: number, dy: number, maxCount: number, originalTotal: number): number {
+  const counts = [0, 0, 0, 0, 0];
+  const at = (step: number) => isDark(bitmap, x + dx * step, y + dy * step);
+  const inside = (step: number) => {
+    const px = x + dx * step;
+    const py = y + dy * step;
+    return px >= 0 && py >= 0 && px < bitmap.width && py < bitmap.height;
+  };
+
+  let i = 0;
+  while (inside(i) && at(i)) { counts[2]!++; i--; }
+  if (!inside(i)) return NaN;
+  while (inside(i) && !at(i) && counts[1]! <= maxCount) { counts[1]!++; i--; }
+  if (!inside(i) || counts[1]! > maxCount) return NaN;
+  while (inside(i) && at(i) && counts[0]! <= maxCount) { counts[0]!++; i--; }
+  if (counts[0]! > maxCount) return NaN;
+
+  i = 1;
+  while (inside(i) && at(i)) { counts[2]!++; i++; }
+  if (!inside(i)) return NaN;
+  while (inside(i) && !at(i) && counts[3]! < maxCount) { counts[3]!++; i++; }
+  if (!inside(i) || counts[3]! >= maxCount) return NaN;
+  while (inside(i) && at(i) && counts[4]! < maxCount) { counts[4]!++; i++; }
+  if (counts[4]! >= maxCount) return NaN;
+
+  const total = counts.reduce((a, b) => a + b, 0);
+  if (5 * Math.abs(total - originalTotal) >= 2 * originalTotal) return NaN;
+  if (!isFinderRatio(counts)) return NaN;
+  return i - counts[4]! - counts[3]! - counts[2]! / 2;
+}
+
+function findFinders(bitmap: Bitmap): Finder[] {
+  const finders: Finder[] = [];
+  const consider = (counts: number[], y: number, endX: number) => {
+    const total = counts.reduce((a, b) => a + b, 0);
+    const centerX = endX - counts[4]! - counts[3]! - counts[2]! / 2;
+    const offsetY = crossCheck(bitmap, Math.floor(centerX), y, 0, 1, counts[2]!, total);
+    if (Number.isNaN(offsetY)) return;
+    const centerY = y + offsetY;
+    const offsetX = crossCheck(bitmap, Math.floor(centerX), Math.floor(centerY), 1, 0, counts[2]!, total);
+    if (Number.isNaN(offsetX)) return;
+    const point = { x: Math.floor(centerX) + offsetX, y: centerY, moduleSize: total / 7 };
+    const near = finders.find(
+      (f) => Math.abs(f.x - point.x) <= f.moduleSize && Math.abs(f.y - point.y) <= f.moduleSize && Math.abs(f.moduleSize - point.moduleSize) <= f.moduleSize,
+    );
+    if (near) {
+      const n = near.count;
+      near.x = (near.x * n + point.x) / (n + 1);
+      near.y = (near.y * n + point.y) / (n + 1);
+      near.moduleSize = (near.moduleSize * n + point.moduleSize) / (n + 1);
+      near.count++;
+    } else {
+      finders.push({ ...point, count: 1 });
+    }
+  };
+
+  for (let y = 0; y < bitmap.height; y++) {
+    const counts = [0, 0, 0, 0, 0];
+    let state = 0;
+    const row = y * bitmap.width;
+    for (let x = 0; x < bitmap.width; x++) {
+      if (bitmap.dark[row + x]) {
+        if (state & 1) state++;
+        counts[state]!++;
+      } else if (state & 1) {
+        counts[state]!++;
+      } else if (state === 4) {
+        if (isFinderRatio(counts)) consider(counts, y, x);
+        counts.splice(0, 2);
+        counts.push(1, 0);
+        state = 3;
+      } else {
+        state++;
+        counts[state]!++;
+      }
+    }
+    if (state === 4 && isFinderRatio(counts)) consider(counts, y, bitmap.width);
+  }
+  return finders;
+}
+
+type FinderTriple = { topLeft: Finder; topRight: Finder; bottomLeft: Finder };
+
+// Triples of finders shaped like the corners of a square, best first.
+function finderTriples(finders: Finder[]): FinderTriple[] {
+  const confirmed = finders.filter((f) => f.count >= 2);
+  const pool = (confirmed.length >= 3 ? confirmed : finders).sort((a, b) => b.count - a.count).slice(0, 10);
+  const scored: { score: number; triple: FinderTriple }[] = [];
+  for (let i = 0; i < pool.length; i++) {
+    for (let j = i + 1; j < pool.length; j++) {
+      for (let k = j + 1; k < pool.length; k++) {
+        const points = [pool[i]!, pool[j]!, pool[k]!];
+        const sizes = points.map((p) => p.moduleSize);
+        const sizeRatio = Math.max(...sizes) / Math.min(...sizes);
+        if (sizeRatio > 1.5) continue;
+        for (let c = 0; c < 3; c++) {
+          const corner = points[c]!;
+          let a = points[(c + 1) % 3]!;
+          let b = points[(c + 2) % 3]!;
+          const ax = a.x - corner.x, ay = a.y - corner.y;
+          const bx = b.x - corner.x, by = b.y - corner.y;
+          const la = Math.hypot(ax, ay);
+          const lb = Math.hypot(bx, by);
+          const moduleSize = (corner.moduleSize + a.moduleSize + b.moduleSize) / 3;
+          if (Math.min(la, lb) < 10 * moduleSize) continue;
+          const cos = (ax * bx + ay * by) / (la * lb);
+          const legRatio = Math.max(la, lb) / Math.min(la, lb);
+          if (Math.abs(cos) > 0.35 || legRatio > 1.6) continue;
+          // With y pointing down, top-right × bottom-left is positive.
+          if (ax * by - ay * bx < 0) [a, b] = [b, a];
+          scored.push({ score: Math.abs(cos) + (legRatio - 1) + (sizeRatio - 1) / 2, triple: { topLeft: corner, topRight: a, bottomLeft: b } });
+        }
+      }
+    }
+  }
+  return scored.sort((x, y) => x.score - y.score).slice(0, 5).map((s) => s.triple);
+}
+
+type Homography = (u: number, v: number) => Point;
+
+// Projective map taking module coordinates `from[i]` to image points `to[i]`.
+function homography(from: Point[], to: Point[]): Homography | null {
+  const m: number[][] = [];
+  for (let i = 0; i < 4; i++) {
+    const { x: u, y: v } = from[i]!;
+    const { x, y } = to[i]!;
+    m.push([u, v, 1, 0, 0, 0, -u * x, -v * x, x]);
+    m.push([0, 0, 0, u, v, 1, -u * y, -v * y, y]);
+  }
+  for (let col = 0; col < 8; col++) {
+    let pivot = col;
+    for (let r = col + 1; r < 8; r++) if (Math.abs(m[r]![col]!) > Math.abs(m[pivot]![col]!)) pivot = r;
+    if (Math.abs(m[pivot]![col]!) < 1e-9) return null;
+    [m[col], m[pivot]] = [m[pivot]!, m[col]!];
+    for (let r = 0; r < 8; r++) {
+      if (r === col) continue;
+      const f = m[r]![col]! / m[col]![col]!;
+      for (let c = col; c < 9; c++) m[r]![c]! -= f * m[col]![c]!;
+    }
+  }
+  const [a, b, c, d, e, f, g, h] = m.map((row, i) => row[8]! / row[i]!) as [number, number, number, number, number, number, number, number];
+  return (u, v) => {
+    const w = g * u + h * v + 1;
+    return { x: (a * u + b * v + c) / w, y: (d * u + e * v + f) / w };
+  };
+}
+
+// Candidate alignment pattern centers around an estimate, best match first. `right` and `down` are
+// one module along the code's axes. The search widens until something matches, since perspective
+// moves the pattern away from where the finders alone put it.
+function findAlignments(bitmap: Bitmap, estimate: Point, right: Point, down: Point): Point[] {
+  const moduleSize = (Math.hypot(right.x, right.y) + Math.hypot(down.x, down.y)) / 2;
+  const offsets: [number, number, boolean][] = [];
+  for (let dv = -2; dv <= 2; dv++) {
+    for (let du = -2; du <= 2; du++) {
+      offsets.push([du * right.x + dv * down.x, du * right.y + dv * down.y, Math.max(Math.abs(du), Math.abs(dv)) !== 1]);
+    }
+  }
+  for (const reach of [4, 8, 12]) {
+    const radius = Math.ceil(moduleSize * reach);
+    const matches: (Point & { score: number })[] = [];
+    for (let y = Math.floor(estimate.y - radius); y <= estimate.y + radius; y++) {
+      for (let x = Math.floor(estimate.x - radius); x <= estimate.x + radius; x++) {
+        let score = 0;
+        for (const [dx, dy, dark] of offsets) if (isDark(bitmap, x + 0.5 + dx, y + 0.5 + dy) === dark) score++;
+        if (score >= offsets.length - 2) matches.push({ x: x + 0.5, y: y + 0.5, score });
+      }
+    }
+    if (matches.length === 0) continue;
+
+    // Group matching pixels; each group is centered on its best-scoring pixels.
+    const distance = (p: Point) => Math.hypot(p.x - estimate.x, p.y - estimate.y);
+    matches.sort((a, b) => b.score - a.score || distance(a) - distance(b));
+    const groups: (Point & { score: number; members: Point[] })[] = [];
+    for (const m of matches) {
+      const group = groups.find((g) => Math.hypot(g.x - m.x, g.y - m.y) <= moduleSize);
+      if (!group) groups.push({ ...m, members: [m] });
+      else if (m.score === group.score) group.members.push(m);
+    }
+    return groups.slice(0, 3).map(({ members }) => ({
+      x: members.reduce((s, p) => s + p.x, 0) / members.length,
+      y: members.reduce((s, p) => s + p.y, 0) / members.length,
+    }));
+  }
+  return [];
+}
+
+// Pixels from a finder center to the far edge of its outer ring (3.5 modules) heading toward `to`
+// (or away from it when `sign` is -1); NaN if the runs do not look like a finder.
+function finderRadius(bitmap: Bitmap, from: Point, to: Point, sign: 1 | -1): number {
+  const length = Math.hypot(to.x - from.x, to.y - from.y);
+  const dx = ((to.x - from.x) / length) * sign;
+  const dy = ((to.y - from.y) / length) * sign;
+  let state = 0;
+  for (let t = 0; t < length / 2; t++) {
+    const dark = isDark(bitmap, from.x + dx * t, from.y + dy * t);
+    if (dark !== (state % 2 === 0)) {
+      state++;
+      if (state === 3) return t;
+    }
+  }
+  return NaN;
+}
+
+// Modules between two finder centers, measured with module sizes taken along the same line so that
+// rotation and perspective do not skew the count.
+function modulesBetween(bitmap: Bitmap, a: Finder, b: Finder): number {
+  const across = Math.hypot(b.x - a.x, b.y - a.y);
+  const widths = [
+    finderRadius(bitmap, a, b, 1) + finderRadius(bitmap, a, b, -1),
+    finderRadius(bitmap, b, a, 1) + finderRadius(bitmap, b, a, -1),
+  ].filter((w) => !Number.isNaN(w));
+  const moduleSize = widths.length > 0 ? widths.reduce((s, w) => s + w, 0) / widths.length / 7 : (a.moduleSize + b.moduleSize) / 2;
+  return across / moduleSize;
+}
+
+function sampleGrid(bitmap: Bitmap, map: Homography, size: number): boolean[][] {
+  const modules: boolean[][] = [];
+  for (let y = 0; y < size; y++) {
+    const row: boolean[] = [];
+    for (let x = 0; x < size; x++) {
+      const p = map(x + 0.5, y + 0.5);
+      row.push(isDark(bitmap, p.x, p.y));
+    }
+    modules.push(row);
+  }
+  return modules;
+}
+
+function transpose(modules: boolean[][]): boolean[][] {
+  return modules.map((row, y) => row.map((_, x) => modules[x]![y]!));
+}
+
+function readTriple(bitmap: Bitmap, { topLeft, topRight, bottomLeft }: FinderTriple): Uint8Array | null {
+  const across = (modulesBetween(bitmap, topLeft, topRight) + modulesBetween(bitmap, topLeft, bottomLeft)) / 2;
+  const estimated = Math.round((across + 7 - 17) / 4);
+  const versions = [estimated, estimated - 1, estimated + 1].filter((v) => v >= QR_MIN_VERSION && v <= QR_MAX_VERSION);
+
+  for (const version of versions) {
+    const size = qrSizeForVersion(version);
+    const corners = [{ x: 3.5, y: 3.5 }, { x: size - 3.5, y: 3.5 }, { x: 3.5, y: size - 3.5 }];
+    const images: Point[] = [topLeft, topRight, bottomLeft];
+    const bottomRight = { x: topRight.x + bottomLeft.x - topLeft.x, y: topRight.y + bottomLeft.y - topLeft.y };
+    const attempts: { from: Point; to: Point }[] = [];
+    if (version >= 2) {
+      const t = (size - 10) / (size - 7);
+      const estimate = {
+        x: topLeft.x + (topRight.x - topLeft.x) * t + (bottomLeft.x - topLeft.x) * t,
+        y: topLeft.y + (topRight.y - topLeft.y) * t + (bottomLeft.y - topLeft.y) * t,
+      };
+      const right = { x: (topRight.x - topLeft.x) / (size - 7), y: (topRight.y - topLeft.y) / (size - 7) };
+      const down = { x: (bottomLeft.x - topLeft.x) / (size - 7), y: (bottomLeft.y - topLeft.y) / (size - 7) };
+      for (const alignment of findAlignments(bitmap, estimate, right, down)) {
+        attempts.push({ from: { x: size - 6.5, y: size - 6.5 }, to: alignment });
+      }
+    }
+    attempts.push({ from: { x: size - 3.5, y: size - 3.5 }, to: bottomRight });
+
+    for (const { from, to } of attempts) {
+      const map = homography([...corners, from], [...images, to]);
+      if (!map) continue;
+      const modules = sampleGrid(bitmap, map, size);
+      // A mirrored image reads correctly once transposed.
+      const data = decodeQrModules(modules) ?? decodeQrModules(transpose(modules));
+      if (data) return data;
+    }
+  }
+  return null;
+}
+
+/** The payload of the first readable QR code in `image`, or null when none is found. */
+export function scanQrImage(image: QrImage): Uint8Array | null {
+  const lum = luminance(image);
+  for (const binarize of [binarizeLocal, binarizeGlobal]) {
+    const bitmap = binarize(lum, image.width, image.height);
+    for (const triple of finderTriples(findFinders(bitmap))) {
+      const data = readTriple(bitmap, triple);
+      if (data) return data;
+    }
+  }
+  return null;
+}
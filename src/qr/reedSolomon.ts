@@ -0,0 +1,137 @@
+// Reed-Solomon over GF(256) with the QR polynomial x^8 + x^4 + x^3 + x^2 + 1 and generator roots
+// α^0..α^(n-1). Codewords are most significant (highest degree) first, as laid out in a QR block.
+
+const EXP = new Uint8Array(512);
+const LOG = new Uint8Array(256);
+{
+  let x = 1;
+  for (let i = 0; i < 255; i++) {
+    EXP[i] = x;
+    LOG[x] = i;
+    x <<= 1;
+    if (x & 0x100) x ^= 0x11d;
+  }
+  for (let i = 255; i < 512; i++) EXP[i] = EXP[i - 255]!;
+}
+
+function mul(a: number, b: number): number {
+  return a === 0 || b === 0 ? 0 : EXP[LOG[a]! + LOG[b]!]!;
+}
+
+function div(a: number, b: number): number {
+  if (b === 0) throw new Error('GF(256) division by zero');
+  return a === 0 ? 0 : EXP[LOG[a]! + 255 - LOG[b]!]!;
+}
+
+function pow(exponent: number): number {
+  return EXP[((exponent % 255) + 255) % 255]!;
+}
+
+// Coefficients of Π (x - α^i), highest degree first without the leading 1.
+function generator(degree: number): Uint8Array {
+  const result = new Uint8Array(degree);
+  result[degree - 1] = 1;
+  let root = 1;
+  for (let i = 0; i < degree; i++) {
+    for (let j = 0; j < degree; j++) {
+      result[j] = mul(result[j]!, root) ^ (result[j + 1] ?? 0);
+    }
+    root = mul(root, 0x02);
+  }
+  return result;
+}
+
+/** The `eccLength` error correction codewords for `data`. */
+export function reedSolomonEncode(data: Uint8Array, eccLength: number): Uint8Array {
+  const gen = generator(eccLength);
+  const result = new Uint8Array(eccLength);
+  for (const b of data) {
+    const factor = b ^ result[0]!;
+    result.copyWithin(0, 1);
+    result[eccLength - 1] = 0;
+    for (let i = 0; i < eccLength; i++) result[i] ^= mul(gen[i]!, factor);
+  }
+  return result;
+}
+
+// Polynomials below are lowest degree first.
+function evalLow(poly: number[], x: number): number {
+  let y = 0;
+  for (let i = poly.length - 1; i >= 0; i--) y = mul(y, x) ^ poly[i]!;
+  return y;
+}
+
+/**
+ * Correct up to `eccLength / 2` byte errors in a block of data followed by its error correction
+ * codewords. Returns the corrected block, or null if it cannot be corrected.
+ */
+export function reedSolomonDecode(block: Uint8Array, eccLength: number): Uint8Array | null {
+  const n = block.length;
+  // Value of the received polynomial at α^j; degree of block[p] is n - 1 - p.
+  const syndromes: number[] = [];
+  let clean = true;
+  for (let j = 0; j < eccLength; j++) {
+    const x = pow(j);
+    let y = 0;
+    for (const b of block) y = mul(y, x) ^ b;
+    syndromes.push(y);
+    if (y !== 0) clean = false;
+  }
+  if (clean) return block.slice();
+
+  // Berlekamp-Massey: error locator Λ(x) = Π (1 - X_k x).
+  let locator = [1];
+  let previous = [1];
+  let errors = 0;
+  let shift = 1;
+  let lastDiscrepancy = 1;
+  for (let i = 0; i < eccLength; i++) {
+    let d = syndromes[i]!;
+    for (let j = 1; j <= errors; j++) d ^= mul(locator[j] ?? 0, syndromes[i - j] ?? 0);
+    if (d === 0) {
+      shift++;
+      continue;
+    }
+    const scale = div(d, lastDiscrepancy);
+    const next = locator.slice();
+    for (let j = 0; j < previous.length; j++) {
+      const k = j + shift;
+      while (next.length <= k) next.push(0);
+      next[k] ^= mul(scale, previous[j]!);
+    }
+    if (2 * errors <= i) {
+      previous = locator;
+      errors = i + 1 - errors;
+      lastDiscrepancy = d;
+      shift = 1;
+    } else {
+      shift++;
+    }
+    locator = next;
+  }
+  while (locator.length > 1 && locator[locator.length - 1] === 0) locator.pop();
+  if (locator.length - 1 !== errors || 2 * errors > eccLength) return null;
+
+  // Chien search for error degrees, then Forney for magnitudes.
+  const positions: number[] = [];
+  for (let degree = 0; degree < n; degree++) {
+    if (evalLow(locator, pow(-degree)) === 0) positions.push(degree);
+  }
+  if (positions.length !== errors) return null;
+
+  const evaluator: number[] = new Array(eccLength).fill(0);
+  for (let i = 0; i < eccLength; i++) {
+    for (let j = 0; j <= i && j < locator.length; j++) evaluator[i] ^= mul(syndromes[i - j]!, locator[j]!);
+  }
+  const derivative = locator.map((c, i) => (i % 2 === 1 ? c : 0)).slice(1);
+
+  const out = block.slice();
+  for (const degree of positions) {
+    const xInv = pow(-degree);
+    const denominator = evalLow(derivative, xInv);
+    if (denominator === 0) return null;
+    const magnitude = mul(pow(degree), div(evalLow(evaluator, xInv), denominator));
+    out[n - 1 - degree] ^= magnitude;
+  }
+  return out;
+}
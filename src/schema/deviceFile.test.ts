@@ -0,0 +1,41 @@
+import { describe, expect, it } from 'vitest';
+import { makeDefaultSettingsBlob } from './settingsDefaults';
+import { parseDeviceFile, parseDeviceFileV1, serializeDeviceFileV1, serializeDeviceFileV2, type OrcaDeviceFileV2 } from './deviceFile';
+import { parseSettingsBlob } from './settingsBlob';
+
+describe('device file', () => {
+  const orca = makeDefaultSettingsBlob(0, 1);
+  const gp2040 = makeDefaultSettingsBlob(1, 1);
+
+  it('writes every profile as data and reads back the exact blobs', () => {
+    const json = serializeDeviceFileV2(orca, gp2040);
+    const file = JSON.parse(json) as OrcaDeviceFileV2;
+    expect(file.version).toBe(2);
+    expect(file.orcaSlot!.settings!.profiles).toHaveLength(8);
+    expect(file.orcaSlot!.settings!.profiles[0]!.label).toBe(parseSettingsBlob(orca).draft.profileLabels[0]);
+
+    const parsed = parseDeviceFile(json);
+    expect(parsed.orcaSlot).toEqual(orca);
+    expect(parsed.gp2040Slot).toEqual(gp2040);
+  });
+
+  it('applies hand edits of the structured settings over the blob', () => {
+    const file = JSON.parse(serializeDeviceFileV2(orca, null)) as OrcaDeviceFileV2;
+    file.orcaSlot!.settings!.profiles[2]!.label = 'Edited';
+    file.orcaSlot!.settings!.profiles[2]!.triggerPolicy.flags = 3;
+    const { orcaSlot, gp2040Slot } = parseDeviceFile(JSON.stringify(file));
+    const draft = parseSettingsBlob(orcaSlot!).draft;
+    expect(draft.profileLabels[2]).toBe('Edited');
+    expect(draft.triggerPolicy[2]!.flags).toBe(3);
+    expect(gp2040Slot).toBeNull();
+
+    file.orcaSlot!.settings!.profiles.pop();
+    expect(() => parseDeviceFile(JSON.stringify(file))).toThrow(/orcaSlot\.settings\.profiles: expected 8 profiles/);
+  });
+
+  it('still reads version 1 files', () => {
+    const json = serializeDeviceFileV1(orca, gp2040);
+    expect(parseDeviceFile(json)).toEqual(parseDeviceFileV1(json));
+    expect(parseDeviceFile(json).orcaSlot).toEqual(orca);
+  });
+});
@@ -1,9 +1,13 @@
 /**
  * Device file format for exporting/importing both Orca and GP2040 mode configurations.
  */
+import { ORCA_CONFIG_ORCA_ANALOG_INPUT_COUNT, OrcaSettingsTlv } from '@shared/orca_config_idl_generated';
+import { parseProfileSettingsV1, type ProfileSettingsV1 } from './profileFile';
+import { buildSettingsBlob, tryParseSettingsBlob, type CalibrationV1, type SettingsDraft } from './settingsBlob';
 
 export const ORCA_DEVICE_FILE_TYPE = 'orca-device';
 export const ORCA_DEVICE_FILE_VERSION = 1 as const;
+export const ORCA_DEVICE_FILE_VERSION_2 = 2 as const;
 
 export type OrcaDeviceFileV1 = {
     type: typeof ORCA_DEVICE_FILE_TYPE;
@@ -13,6 +17,29 @@ export type OrcaDeviceFileV1 = {
     gp2040Slot: string | null; // Base64-encoded binary blob
 };
 
+// Readable settings of one slot. On import these are written over `blob`, so hand edits apply;
+// the blob supplies everything not listed here (header, unknown records) byte for byte.
+export type DeviceFileSettingsV2 = {
+    activeProfile: number;
+    profiles: ProfileSettingsV1[];
+    calibration: CalibrationV1 | null;
+};
+
+export type DeviceFileSlotV2 = {
+    blob: string; // Base64-encoded binary blob
+    settings: DeviceFileSettingsV2 | null; // null if the blob is not in the current settings layout
+};
+
+export type OrcaDeviceFileV2 = {
+    type: typeof ORCA_DEVICE_FILE_TYPE;
+    version: typeof ORCA_DEVICE_FILE_VERSION_2;
+    timestamp: string;
+    orcaSlot: DeviceFileSlotV2 | null;
+    gp2040Slot: DeviceFileSlotV2 | null;
+};
+
+export type DeviceFileSlots = { orcaSlot: Uint8Array | null; gp2040Slot: Uint8Array | null };
+
 function isRecord(value: unknown): value is Record<string, unknown> {
     return typeof value === 'object' && value !== null;
 }
@@ -34,6 +61,19 @@ function expectFiniteNumber(value: unknown, name: string): number {
     return value;
 }
 
+function expectU8(value: unknown, name: string): number {
+    const n = expectFiniteNumber(value, name);
+    if (!Number.isInteger(n) || n < 0 || n > 255) throw new Error(`Invalid ${name}: expected an integer in [0, 255]`);
+    return n;
+}
+
+function expectAxisArray(value: unknown, name: string): number[] {
+    if (!Array.isArray(value) || value.length !== ORCA_CONFIG_ORCA_ANALOG_INPUT_COUNT) {
+        throw new Error(`Invalid ${name}: expected an array of ${ORCA_CONFIG_ORCA_ANALOG_INPUT_COUNT} numbers`);
+    }
+    return value.map((v, i) => expectFiniteNumber(v, `${name}[${i}]`));
+}
+
 function expectStringOrNull(value: unknown, name: string): string | null {
     if (value === null) return null;
     return expectString(value, name);
@@ -81,7 +121,7 @@ export function serializeDeviceFileV1(orcaSlot: Uint8Array | null, gp2040Slot: U
 /**
  * Parse device configuration from JSON format
  */
-export function parseDeviceFileV1(jsonText: string): { orcaSlot: Uint8Array | null; gp2040Slot: Uint8Array | null } {
+export function parseDeviceFileV1(jsonText: string): DeviceFileSlots {
     let raw: unknown;
     try {
         raw = JSON.parse(jsonText);
@@ -108,3 +148,118 @@ export function parseDeviceFileV1(jsonText: string): { orcaSlot: Uint8Array | nu
         gp2040Slot: gp2040SlotB64 ? base64ToBlob(gp2040SlotB64) : null,
     };
 }
+
+function slotToV2(blob: Uint8Array | null): DeviceFileSlotV2 | null {
+    if (!blob) return null;
+    const parsed = tryParseSettingsBlob(blob);
+    if (!parsed.ok) return { blob: blobToBase64(blob), settings: null };
+    const draft = parsed.value.draft;
+    return {
+        blob: blobToBase64(blob),
+        settings: {
+            activeProfile: draft.activeProfile,
+            profiles: draft.profileLabels.map((label, i) => ({
+                label,
+                digitalMapping: draft.digitalMappings[i]!,
+                analogMapping: draft.analogMappings[i]!,
+                dpadLayer: draft.dpadLayer[i]!,
+                triggerPolicy: draft.triggerPolicy[i]!,
+                stickCurveParams: draft.stickCurveParams[i]!,
+            })),
+            calibration: draft.calibration ?? null,
+        },
+    };
+}
+
+/**
+ * Serialize device configuration with every profile spelled out alongside the raw blobs
+ */
+export function serializeDeviceFileV2(orcaSlot: Uint8Array | null, gp2040Slot: Uint8Array | null): string {
+    const file: OrcaDeviceFileV2 = {
+        type: ORCA_DEVICE_FILE_TYPE,
+        version: ORCA_DEVICE_FILE_VERSION_2,
+        timestamp: new Date().toISOString(),
+        orcaSlot: slotToV2(orcaSlot),
+        gp2040Slot: slotToV2(gp2040Slot),
+    };
+    return `${JSON.stringify(file, null, 2)}\n`;
+}
+
+function parseCalibrationV1(value: unknown, name: string): CalibrationV1 {
+    const rec = expectRecord(value, name);
+    const range = expectRecord(rec.range, `${name}.range`);
+    return {
+        range: {
+            lower: expectAxisArray(range.lower, `${name}.range.lower`),
+            upper: expectAxisArray(range.upper, `${name}.range.upper`),
+        },
+        deadzoneLower: expectAxisArray(rec.deadzoneLower, `${name}.deadzoneLower`),
+        deadzoneUpper: expectAxisArray(rec.deadzoneUpper, `${name}.deadzoneUpper`),
+        notch: expectAxisArray(rec.notch, `${name}.notch`),
+    };
+}
+
+function parseDeviceFileSettingsV2(value: unknown, name: string): DeviceFileSettingsV2 {
+    const rec = expectRecord(value, name);
+    const profileCount = OrcaSettingsTlv.ProfileLabels.count;
+    if (!Array.isArray(rec.profiles) || rec.profiles.length !== profileCount) {
+        throw new Error(`Invalid ${name}.profiles: expected ${profileCount} profiles`);
+    }
+    const activeProfile = expectU8(rec.activeProfile, `${name}.activeProfile`);
+    if (activeProfile >= profileCount) throw new Error(`Invalid ${name}.activeProfile: out of range`);
+    return {
+        activeProfile,
+        profiles: rec.profiles.map((p, i) => parseProfileSettingsV1(p, `${name}.profiles[${i}]`)),
+        calibration: rec.calibration === null ? null : parseCalibrationV1(rec.calibration, `${name}.calibration`),
+    };
+}
+
+// Write the structured settings over the blob they were exported with.
+function slotFromV2(value: unknown, name: string): Uint8Array | null {
+    if (value === null) return null;
+    const rec = expectRecord(value, name);
+    const blob = base64ToBlob(expectString(rec.blob, `${name}.blob`));
+    if (rec.settings === null) return blob;
+    const settings = parseDeviceFileSettingsV2(rec.settings, `${name}.settings`);
+
+    const parsed = tryParseSettingsBlob(blob);
+    if (!parsed.ok) throw new Error(`Invalid ${name}.blob: ${parsed.error}`);
+    const draft: SettingsDraft = {
+        ...parsed.value.draft,
+        activeProfile: settings.activeProfile,
+        profileLabels: settings.profiles.map((p) => p.label),
+        digitalMappings: settings.profiles.map((p) => p.digitalMapping),
+        analogMappings: settings.profiles.map((p) => p.analogMapping),
+        dpadLayer: settings.profiles.map((p) => p.dpadLayer),
+        triggerPolicy: settings.profiles.map((p) => p.triggerPolicy),
+        stickCurveParams: settings.profiles.map((p) => p.stickCurveParams),
+    };
+    if (settings.calibration) draft.calibration = settings.calibration;
+    return buildSettingsBlob(blob, draft);
+}
+
+/**
+ * Parse a device file of either version. Version 2 settings are applied to their blobs, so
+ * both versions yield the blobs to load.
+ */
+export function parseDeviceFile(jsonText: string): DeviceFileSlots {
+    let raw: unknown;
+    try {
+        raw = JSON.parse(jsonText);
+    } catch {
+        throw new Error('Invalid JSON');
+    }
+
+    const rec = expectRecord(raw, 'device file');
+    const version = expectFiniteNumber(rec.version, 'device file.version');
+    if (version !== ORCA_DEVICE_FILE_VERSION_2) return parseDeviceFileV1(jsonText);
+
+    const type = expectString(rec.type, 'device file.type');
+    if (type !== ORCA_DEVICE_FILE_TYPE) {
+        throw new Error(`Unsupported device file type: ${type}`);
+    }
+    return {
+        orcaSlot: slotFromV2(rec.orcaSlot, 'device file.orcaSlot'),
+        gp2040Slot: slotFromV2(rec.gp2040Slot, 'device file.gp2040Slot'),
+    };
+}
@@ -5,6 +5,7 @@ import {
   ORCA_CONFIG_ORCA_ANALOG_INPUT_COUNT,
   ORCA_CONFIG_ORCA_DIGITAL_INPUT_COUNT,
 } from '@shared/orca_config_idl_generated';
+import type { ProfileMode } from './profileFile';
 
 export type DigitalInputDef = {
   id: number;
@@ -120,3 +121,18 @@ export function isLockedDigitalSource(id: number): boolean {
 export function isLockedDigitalDestination(id: number): boolean {
   return isLockedSystemButton(id) || id === ORCA_DUMMY_FIELD;
 }
+
+const ORCA_A1_HOME_DEST = 11;
+
+export function getDefaultDigitalMapping(mode: ProfileMode): number[] {
+  const base = Array.from({ length: DIGITAL_INPUTS.length }, (_, i) => i);
+  if (mode === 'gp2040') {
+    // GP2040 mode: A1/Home is bindable but defaults OFF.
+    base[ORCA_A1_HOME_DEST] = ORCA_DUMMY_FIELD;
+  }
+  return base;
+}
+
+export function getDefaultAnalogMapping(): number[] {
+  return Array.from({ length: ANALOG_INPUTS.length }, (_, i) => i);
+}
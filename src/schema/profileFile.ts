@@ -18,6 +18,12 @@ export type OrcaProfileFileV1 = {
   stickCurveParams: StickCurveParamsV1;
 };
 
+// One profile's settings without the file envelope; device files list these per slot.
+export type ProfileSettingsV1 = Pick<
+  OrcaProfileFileV1,
+  'label' | 'digitalMapping' | 'analogMapping' | 'dpadLayer' | 'triggerPolicy' | 'stickCurveParams'
+>;
+
 function isRecord(value: unknown): value is Record<string, unknown> {
   return typeof value === 'object' && value !== null;
 }
@@ -150,6 +156,18 @@ function parseStickCurveParamsV1(value: unknown, name: string): StickCurveParams
   };
 }
 
+export function parseProfileSettingsV1(value: unknown, name: string): ProfileSettingsV1 {
+  const rec = expectRecord(value, name);
+  return {
+    label: expectString(rec.label, `${name}.label`),
+    digitalMapping: expectNumberArray(rec.digitalMapping, `${name}.digitalMapping`, OrcaSettingsTlv.DigitalMappings.length),
+    analogMapping: expectNumberArray(rec.analogMapping, `${name}.analogMapping`, OrcaSettingsTlv.AnalogMappings.length),
+    dpadLayer: parseDpadLayerV1(rec.dpadLayer, `${name}.dpadLayer`),
+    triggerPolicy: parseTriggerPolicyV1(rec.triggerPolicy, `${name}.triggerPolicy`),
+    stickCurveParams: parseStickCurveParamsV1(rec.stickCurveParams, `${name}.stickCurveParams`),
+  };
+}
+
 export function serializeProfileFileV1(file: OrcaProfileFileV1): string {
   return `${JSON.stringify(file, null, 2)}\n`;
 }
@@ -173,23 +191,11 @@ export function parseProfileFileV1(jsonText: string): OrcaProfileFileV1 {
   }
 
   const mode = expectProfileMode(rec.mode, 'profile file.mode');
-  const label = expectString(rec.label, 'profile file.label');
-  const digitalMapping = expectNumberArray(rec.digitalMapping, 'profile file.digitalMapping', OrcaSettingsTlv.DigitalMappings.length);
-  const analogMapping = expectNumberArray(rec.analogMapping, 'profile file.analogMapping', OrcaSettingsTlv.AnalogMappings.length);
-
-  const dpadLayer = parseDpadLayerV1(rec.dpadLayer, 'profile file.dpadLayer');
-  const triggerPolicy = parseTriggerPolicyV1(rec.triggerPolicy, 'profile file.triggerPolicy');
-  const stickCurveParams = parseStickCurveParamsV1(rec.stickCurveParams, 'profile file.stickCurveParams');
-
-	  return {
-	    type: ORCA_PROFILE_FILE_TYPE,
-	    version: ORCA_PROFILE_FILE_VERSION,
-	    mode,
-    label,
-    digitalMapping,
-    analogMapping,
-    dpadLayer,
-    triggerPolicy,
-    stickCurveParams,
+
+  return {
+    type: ORCA_PROFILE_FILE_TYPE,
+    version: ORCA_PROFILE_FILE_VERSION,
+    mode,
+    ...parseProfileSettingsV1(rec, 'profile file'),
   };
 }
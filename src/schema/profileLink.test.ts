@@ -0,0 +1,42 @@
+import { describe, expect, it } from 'vitest';
+import { extractProfileFromDraft } from '../app/domain/profileLibrary';
+import { makeDefaultSettingsBlob } from './settingsDefaults';
+import { decodeProfileLink, decodeProfilePayload, encodeProfileLink, profileLinkUrl, readProfileLinkFragment } from './profileLink';
+import { parseSettingsBlob } from './settingsBlob';
+
+describe('profile share links', () => {
+  const profile = extractProfileFromDraft(parseSettingsBlob(makeDefaultSettingsBlob(1, 1)).draft, 2, 'gp2040')!;
+
+  it('round-trips a profile through a compact URL fragment', async () => {
+    const payload = await encodeProfileLink({ ...profile, label: 'Shared ✓' });
+    expect(payload).toMatch(/^[A-Za-z0-9_-]+$/);
+    expect(payload.length).toBeLessThan(400);
+
+    const url = profileLinkUrl('https://example.com/app/?x=1#old', payload);
+    expect(url).toBe(`https://example.com/app/?x=1#profile=${payload}`);
+    const decoded = await decodeProfileLink(readProfileLinkFragment(new URL(url).hash)!);
+    expect(decoded).toEqual({ ...profile, label: 'Shared ✓' });
+  });
+
+  it('shortens long labels without splitting characters', async () => {
+    // 127 two-byte characters plus a three-byte one: the last one would cross 255 bytes.
+    const label = `${'é'.repeat(127)}✓`;
+    const decoded = await decodeProfileLink(await encodeProfileLink({ ...profile, label }));
+    expect(decoded.label).toBe('é'.repeat(127));
+  });
+
+  it('rejects damaged links', async () => {
+    const payload = await encodeProfileLink(profile);
+    await expect(decodeProfileLink(payload.slice(0, 20))).rejects.toThrow(/Invalid share link/);
+    await expect(decodeProfileLink('not base64!')).rejects.toThrow(/base64url/);
+    expect(readProfileLinkFragment('#other=1')).toBeNull();
+  });
+
+  it('stops inflating links that expand past a few kilobytes', async () => {
+    const deflated = new Uint8Array(await new Response(new Blob([new Uint8Array(1 << 20)]).stream().pipeThrough(new CompressionStream('deflate-raw'))).arrayBuffer());
+    const payload = new Uint8Array(2 + deflated.length);
+    payload.set([1, 1]);
+    payload.set(deflated, 2);
+    await expect(decodeProfilePayload(payload)).rejects.toThrow('Invalid share link: too large');
+  });
+});
@@ -0,0 +1,215 @@
+/**
+ * Share links for a single profile. The payload holds the profile's TLV records exactly as they
+ * appear in the settings blob, plus its mode and label, deflated and base64url-encoded so it fits
+ * in a URL fragment. Fragments never reach a server, so links open in the offline PWA.
+ *
+ * Layout: u8 format, u8 flags, then (deflated when FLAG_DEFLATE is set) u8 mode, u8 label length,
+ * UTF-8 label, and TLV records (u16 type, u16 length, data) back to back.
+ */
+import { OrcaSettingsTlv } from '@shared/orca_config_idl_generated';
+import { readU16Le, writeU16Le } from './bytes';
+import { ORCA_PROFILE_FILE_TYPE, ORCA_PROFILE_FILE_VERSION, type OrcaProfileFileV1, type ProfileMode } from './profileFile';
+import {
+  encodeDpadLayerV1,
+  encodeStickCurveParamsV1,
+  encodeTriggerPolicyV1,
+  parseDpadLayerV1,
+  parseStickCurveParamsV1,
+  parseTriggerPolicyV1,
+} from './settingsBlob';
+
+export const PROFILE_LINK_FRAGMENT_KEY = 'profile';
+
+const PROFILE_LINK_FORMAT = 1;
+const FLAG_DEFLATE = 1 << 0;
+const MODES: ProfileMode[] = ['orca', 'gp2040'];
+const MAX_LABEL_BYTES = 255;
+// A real body is at most 2 + MAX_LABEL_BYTES plus the five records, well under this.
+const MAX_INFLATED_BYTES = 4096;
+
+async function pipe(bytes: Uint8Array, stream: CompressionStream | DecompressionStream): Promise<Uint8Array> {
+  const copy = new Uint8Array(bytes.byteLength);
+  copy.set(bytes);
+  const response = new Response(new Blob([copy.buffer]).stream().pipeThrough(stream));
+  return new Uint8Array(await response.arrayBuffer());
+}
+
+// Inflate chunk by chunk and stop as soon as the output passes MAX_INFLATED_BYTES, so a tiny
+// link cannot expand into megabytes.
+async function inflate(bytes: Uint8Array): Promise<Uint8Array> {
+  const copy = new Uint8Array(bytes.byteLength);
+  copy.set(bytes);
+  const reader = new Blob([copy.buffer]).stream().pipeThrough(new DecompressionStream('deflate-raw')).getReader();
+  const chunks: Uint8Array[] = [];
+  let total = 0;
+  for (;;) {
+    let chunk: ReadableStreamReadResult<Uint8Array>;
+    try {
+      chunk = await reader.read();
+    } catch {
+      throw new Error('Invalid share link: corrupt data');
+    }
+    if (chunk.done) break;
+    total += chunk.value.length;
+    if (total > MAX_INFLATED_BYTES) {
+      await reader.cancel().catch(() => undefined);
+      throw new Error('Invalid share link: too large');
+    }
+    chunks.push(chunk.value);
+  }
+  const out = new Uint8Array(total);
+  let offset = 0;
+  for (const c of chunks) {
+    out.set(c, offset);
+    offset += c.length;
+  }
+  return out;
+}
+
+function toBase64Url(bytes: Uint8Array): string {
+  let binary = '';
+  for (const b of bytes) binary += String.fromCharCode(b);
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+function fromBase64Url(text: string): Uint8Array {
+  if (!/^[A-Za-z0-9_-]*$/.test(text)) throw new Error('Invalid share link: not base64url');
+  const base64 = text.replace(/-/g, '+').replace(/_/g, '/').padEnd(Math.ceil(text.length / 4) * 4, '=');
+  let binary: string;
+  try {
+    binary = atob(base64);
+  } catch {
+    throw new Error('Invalid share link: not base64url');
+  }
+  return Uint8Array.from(binary, (c) => c.charCodeAt(0));
+}
+
+function profileRecords(profile: OrcaProfileFileV1): { type: number; data: Uint8Array }[] {
+  return [
+    { type: OrcaSettingsTlv.DigitalMappings.type, data: Uint8Array.from(profile.digitalMapping) },
+    { type: OrcaSettingsTlv.AnalogMappings.type, data: Uint8Array.from(profile.analogMapping) },
+    { type: OrcaSettingsTlv.DpadLayer.type, data: encodeDpadLayerV1(profile.dpadLayer) },
+    { type: OrcaSettingsTlv.TriggerPolicy.type, data: encodeTriggerPolicyV1(profile.triggerPolicy) },
+    { type: OrcaSettingsTlv.StickCurveParams.type, data: encodeStickCurveParamsV1(profile.stickCurveParams) },
+  ];
+}
+
+// UTF-8 label of at most MAX_LABEL_BYTES, cut before the first code point that does not fit.
+function encodeLabel(label: string): Uint8Array {
+  const encoder = new TextEncoder();
+  let kept = '';
+  let length = 0;
+  for (const ch of label) {
+    length += encoder.encode(ch).length;
+    if (length > MAX_LABEL_BYTES) break;
+    kept += ch;
+  }
+  return encoder.encode(kept);
+}
+
+function encodeBody(profile: OrcaProfileFileV1): Uint8Array {
+  const label = encodeLabel(profile.label);
+  const records = profileRecords(profile);
+  const out = new Uint8Array(2 + label.length + records.reduce((n, r) => n + 4 + r.data.length, 0));
+  out[0] = MODES.indexOf(profile.mode);
+  out[1] = label.length;
+  out.set(label, 2);
+  let offset = 2 + label.length;
+  for (const { type, data } of records) {
+    writeU16Le(out, offset, type);
+    writeU16Le(out, offset + 2, data.length);
+    out.set(data, offset + 4);
+    offset += 4 + data.length;
+  }
+  return out;
+}
+
+function decodeBody(body: Uint8Array): OrcaProfileFileV1 {
+  const mode = MODES[body[0] ?? 0xff];
+  if (!mode) throw new Error('Invalid share link: unknown mode');
+  const labelLength = body[1] ?? 0;
+  if (2 + labelLength > body.length) throw new Error('Invalid share link: truncated label');
+  const label = new TextDecoder('utf-8', { fatal: false }).decode(body.subarray(2, 2 + labelLength));
+
+  const records = new Map<number, Uint8Array>();
+  let offset = 2 + labelLength;
+  while (offset < body.length) {
+    if (offset + 4 > body.length) throw new Error('Invalid share link: truncated record');
+    const type = readU16Le(body, offset);
+    const length = readU16Le(body, offset + 2);
+    if (offset + 4 + length > body.length) throw new Error(`Invalid share link: truncated record (type=${type})`);
+    records.set(type, body.slice(offset + 4, offset + 4 + length));
+    offset += 4 + length;
+  }
+
+  // Records this build does not know are skipped, so newer links still open.
+  const record = (tlv: { type: number; length: number }, name: string): Uint8Array => {
+    const data = records.get(tlv.type);
+    if (!data) throw new Error(`Invalid share link: missing ${name}`);
+    if (data.length !== tlv.length) throw new Error(`Invalid share link: bad ${name} length (${data.length})`);
+    return data;
+  };
+
+  return {
+    type: ORCA_PROFILE_FILE_TYPE,
+    version: ORCA_PROFILE_FILE_VERSION,
+    mode,
+    label,
+    digitalMapping: Array.from(record(OrcaSettingsTlv.DigitalMappings, 'digital mapping')),
+    analogMapping: Array.from(record(OrcaSettingsTlv.AnalogMappings, 'analog mapping')),
+    dpadLayer: parseDpadLayerV1(record(OrcaSettingsTlv.DpadLayer, 'DPAD layer')),
+    triggerPolicy: parseTriggerPolicyV1(record(OrcaSettingsTlv.TriggerPolicy, 'trigger policy')),
+    stickCurveParams: parseStickCurveParamsV1(record(OrcaSettingsTlv.StickCurveParams, 'stick curve')),
+  };
+}
+
+/** Binary share payload for a profile, also carried by QR codes. Falls back to no compression where streams are missing. */
+export async function encodeProfilePayload(profile: OrcaProfileFileV1): Promise<Uint8Array> {
+  const body = encodeBody(profile);
+  let flags = 0;
+  let payload = body;
+  if (typeof CompressionStream !== 'undefined') {
+    const deflated = await pipe(body, new CompressionStream('deflate-raw'));
+    if (deflated.length < body.length) {
+      flags |= FLAG_DEFLATE;
+      payload = deflated;
+    }
+  }
+  const out = new Uint8Array(2 + payload.length);
+  out[0] = PROFILE_LINK_FORMAT;
+  out[1] = flags;
+  out.set(payload, 2);
+  return out;
+}
+
+export async function decodeProfilePayload(bytes: Uint8Array): Promise<OrcaProfileFileV1> {
+  if (bytes.length < 2) throw new Error('Invalid share link: too short');
+  if (bytes[0] !== PROFILE_LINK_FORMAT) throw new Error(`Unsupported share link format: ${bytes[0]}`);
+  const flags = bytes[1]!;
+  let body = bytes.subarray(2);
+  if (flags & FLAG_DEFLATE) {
+    if (typeof DecompressionStream === 'undefined') throw new Error('This browser cannot open compressed share links');
+    body = await inflate(body);
+  }
+  return decodeBody(body);
+}
+
+/** Encode a profile as a URL-safe share payload. */
+export async function encodeProfileLink(profile: OrcaProfileFileV1): Promise<string> {
+  return toBase64Url(await encodeProfilePayload(profile));
+}
+
+export async function decodeProfileLink(payload: string): Promise<OrcaProfileFileV1> {
+  return decodeProfilePayload(fromBase64Url(payload));
+}
+
+/** `base` with the fragment replaced by the share payload. */
+export function profileLinkUrl(base: string, payload: string): string {
+  return `${base.split('#')[0]}#${PROFILE_LINK_FRAGMENT_KEY}=${payload}`;
+}
+
+/** The share payload in a location hash such as `#profile=...`, if any. */
+export function readProfileLinkFragment(hash: string): string | null {
+  const params = new URLSearchParams(hash.replace(/^#/, ''));
+  return params.get(PROFILE_LINK_FRAGMENT_KEY);
+}
@@ -0,0 +1,37 @@
+import { describe, expect, it } from 'vitest';
+import { extractProfileFromDraft } from '../app/domain/profileLibrary';
+import { makeDefaultSettingsBlob } from './settingsDefaults';
+import { decodeQrModules } from '../qr/qrCode';
+import { encodeProfilePayload } from './profileLink';
+import { addProfileQrPart, encodeProfileQrCodes, finishProfileQrScan, profileQrPartsReceived, splitProfileQrPayload, type ProfileQrScan } from './profileQr';
+import { parseSettingsBlob } from './settingsBlob';
+
+describe('profile QR codes', () => {
+  const profile = extractProfileFromDraft(parseSettingsBlob(makeDefaultSettingsBlob(1, 1)).draft, 1, 'orca')!;
+
+  it('round-trips a profile through a single code', async () => {
+    const codes = await encodeProfileQrCodes({ ...profile, label: 'QR ✓' });
+    expect(codes).toHaveLength(1);
+    const scan = addProfileQrPart(null, decodeQrModules(codes[0]!.modules)!);
+    expect(await finishProfileQrScan(scan)).toEqual({ ...profile, label: 'QR ✓' });
+  });
+
+  it('assembles multi-part sequences scanned in any order', async () => {
+    const payload = await encodeProfilePayload(profile);
+    const parts = splitProfileQrPayload(payload, 40);
+    expect(parts.length).toBeGreaterThan(2);
+
+    let scan: ProfileQrScan | null = null;
+    for (const part of [...parts.slice(1), parts[1]!]) scan = addProfileQrPart(scan, part);
+    expect(profileQrPartsReceived(scan!)).toBe(parts.length - 1);
+    expect(await finishProfileQrScan(scan!)).toBeNull();
+
+    scan = addProfileQrPart(scan, parts[0]!);
+    expect(await finishProfileQrScan(scan)).toEqual(profile);
+
+    // A part of another profile restarts the sequence.
+    const other = splitProfileQrPayload(await encodeProfilePayload({ ...profile, label: 'Other' }), 40);
+    expect(profileQrPartsReceived(addProfileQrPart(scan, other[0]!))).toBe(1);
+    expect(() => addProfileQrPart(null, new TextEncoder().encode('https://example.com'))).toThrow(/Not an Orca profile/);
+  });
+});
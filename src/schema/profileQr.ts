@@ -0,0 +1,96 @@
+/**
+ * Profiles as QR codes. Each code carries part of the binary share-link payload (see profileLink.ts)
+ * behind a small header, so profiles too large for one comfortably scannable code become a short
+ * sequence that can be scanned in any order.
+ *
+ * Part layout: 'O' 'Q', u8 part index, u8 part count, u16 payload id (low bits of its CRC32), chunk.
+ */
+import { encodeQr, qrByteCapacity, type QrCode, type QrErrorCorrection } from '../qr/qrCode';
+import { readU16Le, writeU16Le } from './bytes';
+import { crc32 } from './crc32';
+import { parseProfileFileV1, serializeProfileFileV1, type OrcaProfileFileV1 } from './profileFile';
+import { decodeProfilePayload, encodeProfilePayload } from './profileLink';
+
+const MAGIC = [0x4f, 0x51];
+const HEADER_LENGTH = 6;
+// Larger codes get hard to read from a phone screen with a laptop camera.
+const PROFILE_QR_MAX_VERSION = 10;
+const PROFILE_QR_ERROR_CORRECTION: QrErrorCorrection = 'M';
+
+export type ProfileQrScan = {
+  id: number;
+  total: number;
+  parts: (Uint8Array | null)[];
+};
+
+function payloadId(payload: Uint8Array): number {
+  return crc32([payload]) & 0xffff;
+}
+
+/** Split a payload into framed parts of at most `maxChunk` bytes each, evenly sized. */
+export function splitProfileQrPayload(payload: Uint8Array, maxChunk: number): Uint8Array[] {
+  const total = Math.max(1, Math.ceil(payload.length / maxChunk));
+  if (total > 255) throw new Error('Profile is too large for QR codes');
+  const chunk = Math.ceil(payload.length / total);
+  const id = payloadId(payload);
+  return Array.from({ length: total }, (_, i) => {
+    const data = payload.subarray(i * chunk, (i + 1) * chunk);
+    const part = new Uint8Array(HEADER_LENGTH + data.length);
+    part.set(MAGIC, 0);
+    part[2] = i;
+    part[3] = total;
+    writeU16Le(part, 4, id);
+    part.set(data, HEADER_LENGTH);
+    return part;
+  });
+}
+
+/** QR codes for a profile; one unless it does not fit a single code. */
+export async function encodeProfileQrCodes(profile: OrcaProfileFileV1): Promise<QrCode[]> {
+  const payload = await encodeProfilePayload(profile);
+  const maxChunk = qrByteCapacity(PROFILE_QR_MAX_VERSION, PROFILE_QR_ERROR_CORRECTION) - HEADER_LENGTH;
+  return splitProfileQrPayload(payload, maxChunk).map((part) =>
+    encodeQr(part, { errorCorrection: PROFILE_QR_ERROR_CORRECTION, maxVersion: PROFILE_QR_MAX_VERSION }),
+  );
+}
+
+/**
+ * Record one scanned code. A code from a different sequence starts over, so pointing the camera at
+ * another profile does not mix parts. Throws for codes that are not profile parts.
+ */
+export function addProfileQrPart(scan: ProfileQrScan | null, data: Uint8Array): ProfileQrScan {
+  if (data.length < HEADER_LENGTH || data[0] !== MAGIC[0] || data[1] !== MAGIC[1]) {
+    throw new Error('Not an Orca profile QR code');
+  }
+  const index = data[2]!;
+  const total = data[3]!;
+  const id = readU16Le(data, 4);
+  if (total === 0 || index >= total) throw new Error('Invalid profile QR code: bad part number');
+
+  const next: ProfileQrScan = scan && scan.id === id && scan.total === total
+    ? { ...scan, parts: scan.parts.slice() }
+    : { id, total, parts: new Array<Uint8Array | null>(total).fill(null) };
+  next.parts[index] = data.slice(HEADER_LENGTH);
+  return next;
+}
+
+export function profileQrPartsReceived(scan: ProfileQrScan): number {
+  return scan.parts.filter((p) => p !== null).length;
+}
+
+/**
+ * The profile once every part has been scanned, or null while parts are missing. The result passes
+ * the same validation as an imported profile file.
+ */
+export async function finishProfileQrScan(scan: ProfileQrScan): Promise<OrcaProfileFileV1 | null> {
+  if (scan.parts.some((p) => p === null)) return null;
+  const payload = new Uint8Array(scan.parts.reduce((n, p) => n + p!.length, 0));
+  let offset = 0;
+  for (const part of scan.parts) {
+    payload.set(part!, offset);
+    offset += part!.length;
+  }
+  if (payloadId(payload) !== scan.id) throw new Error('Invalid profile QR code: parts do not match');
+  const profile = await decodeProfilePayload(payload);
+  return parseProfileFileV1(serializeProfileFileV1(profile));
+}
@@ -0,0 +1,65 @@
+import { describe, expect, it } from 'vitest';
+import { extractProfileFromDraft } from '../app/domain/profileLibrary';
+import { makeDefaultSettingsBlob } from './settingsDefaults';
+import { ProfileTextError, isProfileText, parseProfileText, serializeProfileText } from './profileText';
+import { parseSettingsBlob } from './settingsBlob';
+
+describe('profile text format', () => {
+  const profile = extractProfileFromDraft(parseSettingsBlob(makeDefaultSettingsBlob(0, 1)).draft, 0, 'orca')!;
+
+  it('round-trips a profile losslessly, including unnamed values', () => {
+    const odd = {
+      ...profile,
+      label: 'Quote " and \\ ✓',
+      digitalMapping: [200, ...profile.digitalMapping.slice(1)],
+      dpadLayer: { ...profile.dpadLayer, mode_up: 7, up: { type: 2, index: 1, threshold: -0, hysteresis: 0.125 } },
+      triggerPolicy: { ...profile.triggerPolicy, flags: 0x83 },
+    };
+    const text = serializeProfileText(odd);
+    expect(isProfileText(text)).toBe(true);
+    expect(text).toContain('ORCA_A_BUTTON = 200');
+    expect(text).toContain('flags = ["ANALOG_TRIGGER_TO_LT", "LIGHTSHIELD_CLAMP", 128]');
+    expect(text).toContain('index = "ORCA_JOYSTICK_X_RIGHT"');
+    expect(text).toContain('threshold = -0.0');
+    const parsed = parseProfileText(text).profile;
+    expect(parsed).toEqual(odd);
+    expect(Object.is(parsed.dpadLayer.up.threshold, -0)).toBe(true);
+  });
+
+  it('keeps comments attached to their keys when rewritten', () => {
+    const text = serializeProfileText(profile).replace('[trigger]', '# Lightshield tuned for Melee\n[trigger] # v2')
+      .replace(/^ORCA_B_BUTTON = .*$/m, (line) => `${line} # swapped`);
+    const { profile: parsed, comments } = parseProfileText(text);
+    const edited = { ...parsed, label: 'Renamed' };
+    const out = serializeProfileText(edited, { comments });
+    expect(out).toContain('# Lightshield tuned for Melee\n[trigger] # v2');
+    expect(out).toMatch(/^ORCA_B_BUTTON = \S+ # swapped$/m);
+    expect(out).toBe(text.replace(JSON.stringify(profile.label), '"Renamed"'));
+  });
+
+  it('reports the line and column of bad values', () => {
+    const lines = serializeProfileText(profile).split('\n');
+    const at = lines.findIndex((l) => l.startsWith('ORCA_X_BUTTON'));
+    lines[at] = 'ORCA_X_BUTTON = "ORCA_NOPE"';
+    let error: unknown;
+    try {
+      parseProfileText(lines.join('\n'));
+    } catch (e) {
+      error = e;
+    }
+    expect(error).toBeInstanceOf(ProfileTextError);
+    expect(error).toMatchObject({ line: at + 1, column: 17 });
+    expect((error as Error).message).toMatch(/unknown digital input "ORCA_NOPE"/);
+    expect(() => parseProfileText(serializeProfileText(profile).replace('[stick]', '[stick]\nextra = 1'))).toThrow(/Unknown key "extra" in \[stick\]/);
+    expect(() => parseProfileText(lines.join('\n').replace('"ORCA_NOPE"', 'ORCA_NOPE'))).toThrow(/column 17: Names must be quoted/);
+  });
+
+  it('reports a missing section at the end of the input', () => {
+    const text = serializeProfileText(profile);
+    const withoutStick = text.slice(0, text.indexOf('\n[stick]'));
+    const lines = withoutStick.split('\n');
+    expect(() => parseProfileText(withoutStick)).toThrow(
+      new ProfileTextError('Missing section [stick]', lines.length, lines[lines.length - 1]!.length + 1),
+    );
+  });
+});
@@ -0,0 +1,561 @@
+/**
+ * Text form of OrcaProfileFileV1 for sharing profiles in version control. The output is TOML:
+ * `[section]` headers, `key = value` lines and `#` comments. Inputs, DPAD modes, source types
+ * and trigger flags are written as quoted names; any value without a name is written as a
+ * number, so every profile round-trips exactly. The parser reads this subset of TOML only.
+ */
+import { OrcaSettingsTlv } from '@shared/orca_config_idl_generated';
+import { ANALOG_INPUTS, DIGITAL_INPUTS, ORCA_ANALOG_MAPPING_DISABLED } from './orcaMappings';
+import { ORCA_PROFILE_FILE_TYPE, ORCA_PROFILE_FILE_VERSION, type OrcaProfileFileV1 } from './profileFile';
+import type { DigitalSourceV1, DpadLayerV1, StickCurveParamsV1, TriggerPolicyV1 } from './settingsBlob';
+import { TRIGGER_POLICY_FLAG_ANALOG_TRIGGER_TO_LT, TRIGGER_POLICY_FLAG_LIGHTSHIELD_CLAMP } from './triggerPolicyFlags';
+
+export const ORCA_PROFILE_TEXT_TYPE = 'orca-profile-text';
+export const ORCA_PROFILE_TEXT_VERSION = 1 as const;
+
+/** Parse failure with a 1-based line and column into the source text. */
+export class ProfileTextError extends Error {
+  readonly line: number;
+  readonly column: number;
+
+  constructor(message: string, line: number, column: number) {
+    super(`Line ${line}, column ${column}: ${message}`);
+    this.name = 'ProfileTextError';
+    this.line = line;
+    this.column = column;
+  }
+}
+
+// Comments keyed by `[section]` for section headers, `section.key` (or just `key` at the top)
+// for entries, and `$end` for comments after the last entry.
+export type ProfileTextComments = Record<string, { leading: string[]; trailing?: string }>;
+
+export type ParsedProfileText = {
+  profile: OrcaProfileFileV1;
+  comments: ProfileTextComments;
+};
+
+const STICK_AXES = 5;
+const DPAD_DIRECTIONS = ['up', 'down', 'left', 'right'] as const;
+const DPAD_SOURCES = ['enable', ...DPAD_DIRECTIONS] as const;
+
+const DPAD_MODES = ['DISABLED', 'WITH_MODIFIER', 'ALWAYS_ON'];
+const SOURCE_TYPES = ['NONE', 'DIGITAL', 'ANALOG_ABOVE', 'ANALOG_BELOW'];
+const ANALOG_DISABLED = 'DISABLED';
+const TRIGGER_FLAGS: { bit: number; name: string }[] = [
+  { bit: TRIGGER_POLICY_FLAG_ANALOG_TRIGGER_TO_LT, name: 'ANALOG_TRIGGER_TO_LT' },
+  { bit: TRIGGER_POLICY_FLAG_LIGHTSHIELD_CLAMP, name: 'LIGHTSHIELD_CLAMP' },
+];
+
+const DIGITAL_BY_KEY = new Map(DIGITAL_INPUTS.map((d) => [d.key, d.id]));
+const ANALOG_BY_KEY = new Map(ANALOG_INPUTS.map((d) => [d.key, d.id]));
+
+const DEFAULT_COMMENTS: ProfileTextComments = {
+  type: { leading: ['# Orca profile. Inputs are named; unnamed values are written as numbers.'] },
+  '[digital]': { leading: ['# destination = source'] },
+  '[analog]': { leading: ['# destination = source ("DISABLED" for none)'] },
+  '[dpad]': { leading: ['# Modes: DISABLED, WITH_MODIFIER, ALWAYS_ON'] },
+  '[dpad.enable]': { leading: ['# Source types: NONE, DIGITAL, ANALOG_ABOVE, ANALOG_BELOW'] },
+};
+
+// ---- Serialization ----
+
+// TOML spellings: `-0` would read back as an integer zero, and non-finite floats are lowercase.
+function formatNumber(n: number): string {
+  if (Object.is(n, -0)) return '-0.0';
+  if (Number.isNaN(n)) return 'nan';
+  if (!Number.isFinite(n)) return n > 0 ? 'inf' : '-inf';
+  return String(n);
+}
+
+function formatName(name: string | undefined, value: number): string {
+  return name === undefined ? String(value) : JSON.stringify(name);
+}
+
+function formatSymbol(id: number, names: readonly { id: number; key: string }[]): string {
+  return formatName(names.find((d) => d.id === id)?.key, id);
+}
+
+function formatEnum(value: number, names: readonly string[]): string {
+  return formatName(names[value], value);
+}
+
+function formatSourceIndex(src: DigitalSourceV1): string {
+  if (src.type === 1) return formatSymbol(src.index, DIGITAL_INPUTS);
+  if (src.type === 2 || src.type === 3) return formatSymbol(src.index, ANALOG_INPUTS);
+  return String(src.index);
+}
+
+function formatTriggerFlags(flags: number): string {
+  const parts = TRIGGER_FLAGS.filter((f) => (flags & f.bit) !== 0).map((f) => JSON.stringify(f.name));
+  const unknown = flags & ~TRIGGER_FLAGS.reduce((acc, f) => acc | f.bit, 0);
+  if (unknown) parts.push(String(unknown));
+  return `[${parts.join(', ')}]`;
+}
+
+type Section = { name: string; entries: [string, string][] };
+
+function profileSections(profile: OrcaProfileFileV1): Section[] {
+  const { dpadLayer: dpad, triggerPolicy: trigger, stickCurveParams: stick } = profile;
+  const array = (values: number[]) => `[${values.map(formatNumber).join(', ')}]`;
+  return [
+    {
+      name: '',
+      entries: [
+        ['type', JSON.stringify(ORCA_PROFILE_TEXT_TYPE)],
+        ['version', String(ORCA_PROFILE_TEXT_VERSION)],
+        ['mode', JSON.stringify(profile.mode)],
+        ['label', JSON.stringify(profile.label)],
+      ],
+    },
+    {
+      name: 'digital',
+      entries: profile.digitalMapping.map((src, dest) => [DIGITAL_INPUTS[dest]!.key, formatSymbol(src, DIGITAL_INPUTS)]),
+    },
+    {
+      name: 'analog',
+      entries: profile.analogMapping.map((src, dest) => [
+        ANALOG_INPUTS[dest]!.key,
+        src === ORCA_ANALOG_MAPPING_DISABLED ? JSON.stringify(ANALOG_DISABLED) : formatSymbol(src, ANALOG_INPUTS),
+      ]),
+    },
+    {
+      name: 'dpad',
+      entries: DPAD_DIRECTIONS.map((dir) => [`mode_${dir}`, formatEnum(dpad[`mode_${dir}`], DPAD_MODES)]),
+    },
+    ...DPAD_SOURCES.map((name): Section => {
+      const src = dpad[name];
+      return {
+        name: `dpad.${name}`,
+        entries: [
+          ['type', formatEnum(src.type, SOURCE_TYPES)],
+          ['index', formatSourceIndex(src)],
+          ['threshold', formatNumber(src.threshold)],
+          ['hysteresis', formatNumber(src.hysteresis)],
+        ],
+      };
+    }),
+    {
+      name: 'trigger',
+      entries: [
+        ['analogRangeMax', formatNumber(trigger.analogRangeMax)],
+        ['digitalFullPress', formatNumber(trigger.digitalFullPress)],
+        ['digitalLightshield', formatNumber(trigger.digitalLightshield)],
+        ['flags', formatTriggerFlags(trigger.flags)],
+        ['digitalLightLtSrc', formatSymbol(trigger.digitalLightLtSrc, DIGITAL_INPUTS)],
+        ['digitalLightRtSrc', formatSymbol(trigger.digitalLightRtSrc, DIGITAL_INPUTS)],
+        ['digitalLightSrcVersion', String(trigger.digitalLightSrcVersion)],
+      ],
+    },
+    {
+      name: 'stick',
+      entries: [
+        ['size', formatNumber(stick.size)],
+        ['range', array(stick.range)],
+        ['notch', array(stick.notch)],
+        ['dz_lower', array(stick.dz_lower)],
+        ['dz_upper', array(stick.dz_upper)],
+        ['notch_start_input', formatNumber(stick.notch_start_input)],
+        ['notch_end_input', formatNumber(stick.notch_end_input)],
+      ],
+    },
+  ];
+}
+
+/**
+ * Write a profile as text. Pass the comments from a previous parse to keep them attached to the
+ * same sections and keys; otherwise a few explanatory comments are added.
+ */
+export function serializeProfileText(profile: OrcaProfileFileV1, options: { comments?: ProfileTextComments } = {}): string {
+  const comments = options.comments ?? DEFAULT_COMMENTS;
+  const lines: string[] = [];
+  for (const section of profileSections(profile)) {
+    if (section.name) {
+      const id = `[${section.name}]`;
+      if (lines.length > 0) lines.push('');
+      lines.push(...(comments[id]?.leading ?? []));
+      lines.push(comments[id]?.trailing ? `${id} ${comments[id]!.trailing}` : id);
+    }
+    for (const [key, value] of section.entries) {
+      const id = section.name ? `${section.name}.${key}` : key;
+      lines.push(...(comments[id]?.leading ?? []));
+      const line = `${key} = ${value}`;
+      lines.push(comments[id]?.trailing ? `${line} ${comments[id]!.trailing}` : line);
+    }
+  }
+  const end = comments.$end?.leading ?? [];
+  if (end.length > 0) lines.push('', ...end);
+  return `${lines.join('\n')}\n`;
+}
+
+// ---- Parsing ----
+
+type TextValue = { line: number; column: number } & (
+  | { kind: 'string'; value: string }
+  | { kind: 'number'; value: number }
+  | { kind: 'array'; items: TextValue[] }
+);
+
+type TextEntry = { key: string; line: number; column: number; value: TextValue };
+
+type TextSection = { name: string; line: number; column: number; entries: Map<string, TextEntry> };
+
+const KEY_RE = /[A-Za-z0-9_]/;
+const NUMBER_RE = /^[-+]?(?:\d+\.?\d*|\.\d+)(?:[eE][-+]?\d+)?/;
+const SPECIAL_FLOAT_RE = /^([-+]?)(inf|nan)(?![A-Za-z0-9_])/;
+
+class LineCursor {
+  pos = 0;
+
+  constructor(readonly text: string, readonly line: number) {}
+
+  error(message: string, pos = this.pos): ProfileTextError {
+    return new ProfileTextError(message, this.line, pos + 1);
+  }
+
+  skipSpace() {
+    while (this.pos < this.text.length && (this.text[this.pos] === ' ' || this.text[this.pos] === '\t')) this.pos++;
+  }
+
+  peek(): string {
+    return this.text[this.pos] ?? '';
+  }
+
+  atEnd(): boolean {
+    return this.pos >= this.text.length;
+  }
+
+  readWhile(re: RegExp): string {
+    const start = this.pos;
+    while (this.pos < this.text.length && re.test(this.text[this.pos]!)) this.pos++;
+    return this.text.slice(start, this.pos);
+  }
+
+  // Rest of the line after a value or header: nothing, or a `#` comment (returned as-is).
+  readTrailing(): string | undefined {
+    this.skipSpace();
+    if (this.atEnd()) return undefined;
+    if (this.peek() !== '#') throw this.error(`Unexpected "${this.peek()}" after value`);
+    return this.text.slice(this.pos).trimEnd();
+  }
+
+  readValue(): TextValue {
+    this.skipSpace();
+    const start = this.pos;
+    const at = { line: this.line, column: start + 1 };
+    const ch = this.peek();
+    if (ch === '') throw this.error('Expected a value');
+    if (ch === '"') return { ...at, kind: 'string', value: this.readString() };
+    if (ch === '[') {
+      this.pos++;
+      const items: TextValue[] = [];
+      for (;;) {
+        this.skipSpace();
+        if (this.peek() === ']') {
+          this.pos++;
+          return { ...at, kind: 'array', items };
+        }
+        items.push(this.readValue());
+        this.skipSpace();
+        if (this.peek() === ',') {
+          this.pos++;
+        } else if (this.peek() !== ']') {
+          throw this.error(this.atEnd() ? 'Unterminated array' : `Expected "," or "]" but found "${this.peek()}"`);
+        }
+      }
+    }
+    const number = NUMBER_RE.exec(this.text.slice(this.pos));
+    if (number) {
+      this.pos += number[0].length;
+      return { ...at, kind: 'number', value: Number(number[0]) };
+    }
+    const special = SPECIAL_FLOAT_RE.exec(this.text.slice(this.pos));
+    if (special) {
+      this.pos += special[0].length;
+      const value = special[2] === 'nan' ? NaN : special[1] === '-' ? -Infinity : Infinity;
+      return { ...at, kind: 'number', value };
+    }
+    const word = this.readWhile(KEY_RE);
+    if (word) throw this.error(`Names must be quoted, e.g. "${word}"`, start);
+    throw this.error(`Unexpected "${ch}"`);
+  }
+
+  private readString(): string {
+    const start = this.pos;
+    this.pos++;
+    while (this.pos < this.text.length) {
+      const c = this.text[this.pos]!;
+      if (c === '\\') {
+        this.pos += 2;
+        continue;
+      }
+      this.pos++;
+      if (c === '"') {
+        try {
+          return JSON.parse(this.text.slice(start, this.pos)) as string;
+        } catch {
+          throw this.error('Invalid escape in string', start);
+        }
+      }
+    }
+    throw this.error('Unterminated string', start);
+  }
+}
+
+function tokenize(text: string): { sections: Map<string, TextSection>; comments: ProfileTextComments } {
+  const sections = new Map<string, TextSection>();
+  const comments: ProfileTextComments = {};
+  let current: TextSection = { name: '', line: 1, column: 1, entries: new Map() };
+  sections.set('', current);
+  let pending: string[] = [];
+
+  text.split(/\r?\n/).forEach((raw, i) => {
+    const cur = new LineCursor(raw, i + 1);
+    cur.skipSpace();
+    if (cur.atEnd()) return;
+    if (cur.peek() === '#') {
+      pending.push(raw.trim());
+      return;
+    }
+
+    if (cur.peek() === '[') {
+      const column = cur.pos + 1;
+      cur.pos++;
+      cur.skipSpace();
+      const name = cur.readWhile(/[A-Za-z0-9_.]/);
+      if (!name) throw cur.error('Expected a section name');
+      cur.skipSpace();
+      if (cur.peek() !== ']') throw cur.error('Expected "]"');
+      cur.pos++;
+      if (sections.has(name)) throw new ProfileTextError(`Duplicate section [${name}]`, i + 1, column);
+      const trailing = cur.readTrailing();
+      current = { name, line: i + 1, column, entries: new Map() };
+      sections.set(name, current);
+      if (pending.length > 0 || trailing) comments[`[${name}]`] = { leading: pending, trailing };
+      pending = [];
+      return;
+    }
+
+    const column = cur.pos + 1;
+    const key = cur.readWhile(KEY_RE);
+    if (!key) throw cur.error(`Expected a key but found "${cur.peek()}"`);
+    cur.skipSpace();
+    if (cur.peek() !== '=') throw cur.error('Expected "=" after key');
+    cur.pos++;
+    const value = cur.readValue();
+    const trailing = cur.readTrailing();
+    if (current.entries.has(key)) {
+      throw new ProfileTextError(`Duplicate key "${key}"${current.name ? ` in [${current.name}]` : ''}`, i + 1, column);
+    }
+    current.entries.set(key, { key, line: i + 1, column, value });
+    const id = current.name ? `${current.name}.${key}` : key;
+    if (pending.length > 0 || trailing) comments[id] = { leading: pending, trailing };
+    pending = [];
+  });
+
+  if (pending.length > 0) comments.$end = { leading: pending };
+  return { sections, comments };
+}
+
+function describe(value: TextValue): string {
+  switch (value.kind) {
+    case 'string':
+      return 'a string';
+    case 'number':
+      return 'a number';
+    case 'array':
+      return 'an array';
+  }
+}
+
+function fail(value: { line: number; column: number }, message: string): never {
+  throw new ProfileTextError(message, value.line, value.column);
+}
+
+function toNumber(v: TextValue, what: string): number {
+  if (v.kind !== 'number') fail(v, `${what}: expected a number, got ${describe(v)}`);
+  return v.value;
+}
+
+function toU8(v: TextValue, what: string): number {
+  const n = toNumber(v, what);
+  if (!Number.isInteger(n) || n < 0 || n > 255) fail(v, `${what}: expected an integer in [0, 255]`);
+  return n;
+}
+
+function toString(v: TextValue, what: string): string {
+  if (v.kind !== 'string') fail(v, `${what}: expected a quoted string, got ${describe(v)}`);
+  return v.value;
+}
+
+// A named value from `names`, or a raw byte.
+function toSymbolOrU8(v: TextValue, what: string, names: ReadonlyMap<string, number>, kind: string): number {
+  if (v.kind === 'string') {
+    const id = names.get(v.value);
+    if (id === undefined) fail(v, `${what}: unknown ${kind} "${v.value}"`);
+    return id;
+  }
+  if (v.kind === 'number') return toU8(v, what);
+  return fail(v, `${what}: expected ${kind} name or number, got ${describe(v)}`);
+}
+
+function toNumberArray(v: TextValue, what: string, length: number): number[] {
+  if (v.kind !== 'array') fail(v, `${what}: expected an array of ${length} numbers`);
+  if (v.items.length !== length) fail(v, `${what}: expected ${length} values, got ${v.items.length}`);
+  return v.items.map((item, i) => toNumber(item, `${what}[${i}]`));
+}
+
+function enumNames(names: readonly string[]): Map<string, number> {
+  return new Map(names.map((name, i) => [name, i]));
+}
+
+const DPAD_MODE_BY_NAME = enumNames(DPAD_MODES);
+const SOURCE_TYPE_BY_NAME = enumNames(SOURCE_TYPES);
+const ANALOG_SOURCE_BY_KEY = new Map([...ANALOG_BY_KEY, [ANALOG_DISABLED, ORCA_ANALOG_MAPPING_DISABLED]]);
+const TRIGGER_FLAG_BY_NAME = new Map(TRIGGER_FLAGS.map((f) => [f.name, f.bit]));
+
+class SectionReader {
+  private readonly used = new Set<string>();
+
+  constructor(private readonly section: TextSection) {}
+
+  get(key: string): TextValue {
+    const entry = this.section.entries.get(key);
+    if (!entry) {
+      const where = this.section.name ? ` in [${this.section.name}]` : '';
+      throw new ProfileTextError(`Missing "${key}"${where}`, this.section.line, this.section.column);
+    }
+    this.used.add(key);
+    return entry.value;
+  }
+
+  finish() {
+    for (const entry of this.section.entries.values()) {
+      if (!this.used.has(entry.key)) {
+        const where = this.section.name ? ` in [${this.section.name}]` : '';
+        throw new ProfileTextError(`Unknown key "${entry.key}"${where}`, entry.line, entry.column);
+      }
+    }
+  }
+}
+
+function readSource(r: SectionReader, name: string): DigitalSourceV1 {
+  const typeValue = r.get('type');
+  const type = toSymbolOrU8(typeValue, `${name}.type`, SOURCE_TYPE_BY_NAME, 'source type');
+  const indexValue = r.get('index');
+  let index: number;
+  if (type === 1) index = toSymbolOrU8(indexValue, `${name}.index`, DIGITAL_BY_KEY, 'digital input');
+  else if (type === 2 || type === 3) index = toSymbolOrU8(indexValue, `${name}.index`, ANALOG_BY_KEY, 'analog input');
+  else index = toU8(indexValue, `${name}.index`);
+  return {
+    type,
+    index,
+    threshold: toNumber(r.get('threshold'), `${name}.threshold`),
+    hysteresis: toNumber(r.get('hysteresis'), `${name}.hysteresis`),
+  };
+}
+
+function readFlags(v: TextValue, what: string): number {
+  if (v.kind !== 'array') fail(v, `${what}: expected an array of flag names`);
+  let flags = 0;
+  for (const item of v.items) flags |= toSymbolOrU8(item, what, TRIGGER_FLAG_BY_NAME, 'trigger flag');
+  return flags;
+}
+
+/**
+ * Parse the text profile format. Errors carry the line and column of the offending value; a
+ * missing section is reported at the end of the input, where it would be added.
+ */
+export function parseProfileText(text: string): ParsedProfileText {
+  const { sections, comments } = tokenize(text);
+  const lines = text.split(/\r?\n/);
+
+  const readers: SectionReader[] = [];
+  const section = (name: string): SectionReader => {
+    const s = sections.get(name);
+    if (!s) throw new ProfileTextError(`Missing section [${name}]`, lines.length, lines[lines.length - 1]!.length + 1);
+    const reader = new SectionReader(s);
+    readers.push(reader);
+    return reader;
+  };
+  const known = new Set(['', 'digital', 'analog', 'dpad', ...DPAD_SOURCES.map((n) => `dpad.${n}`), 'trigger', 'stick']);
+  for (const s of sections.values()) {
+    if (!known.has(s.name)) throw new ProfileTextError(`Unknown section [${s.name}]`, s.line, s.column);
+  }
+
+  const top = section('');
+  const typeValue = top.get('type');
+  if (toString(typeValue, 'type') !== ORCA_PROFILE_TEXT_TYPE) fail(typeValue, `Unsupported profile type (expected "${ORCA_PROFILE_TEXT_TYPE}")`);
+  const versionValue = top.get('version');
+  if (toNumber(versionValue, 'version') !== ORCA_PROFILE_TEXT_VERSION) fail(versionValue, `Unsupported profile text version`);
+  const modeValue = top.get('mode');
+  const mode = toString(modeValue, 'mode');
+  if (mode !== 'orca' && mode !== 'gp2040') fail(modeValue, 'mode: expected "orca" or "gp2040"');
+  const label = toString(top.get('label'), 'label');
+
+  const digital = section('digital');
+  const digitalMapping = DIGITAL_INPUTS.slice(0, OrcaSettingsTlv.DigitalMappings.length)
+    .map((d) => toSymbolOrU8(digital.get(d.key), d.key, DIGITAL_BY_KEY, 'digital input'));
+  const analog = section('analog');
+  const analogMapping = ANALOG_INPUTS.slice(0, OrcaSettingsTlv.AnalogMappings.length)
+    .map((d) => toSymbolOrU8(analog.get(d.key), d.key, ANALOG_SOURCE_BY_KEY, 'analog input'));
+
+  const dpad = section('dpad');
+  const dpadMode = (dir: (typeof DPAD_DIRECTIONS)[number]) => toSymbolOrU8(dpad.get(`mode_${dir}`), `mode_${dir}`, DPAD_MODE_BY_NAME, 'DPAD mode');
+  const dpadLayer: DpadLayerV1 = {
+    mode_up: dpadMode('up'),
+    mode_down: dpadMode('down'),
+    mode_left: dpadMode('left'),
+    mode_right: dpadMode('right'),
+    enable: readSource(section('dpad.enable'), 'enable'),
+    up: readSource(section('dpad.up'), 'up'),
+    down: readSource(section('dpad.down'), 'down'),
+    left: readSource(section('dpad.left'), 'left'),
+    right: readSource(section('dpad.right'), 'right'),
+  };
+
+  const trigger = section('trigger');
+  const triggerPolicy: TriggerPolicyV1 = {
+    analogRangeMax: toNumber(trigger.get('analogRangeMax'), 'analogRangeMax'),
+    digitalFullPress: toNumber(trigger.get('digitalFullPress'), 'digitalFullPress'),
+    digitalLightshield: toNumber(trigger.get('digitalLightshield'), 'digitalLightshield'),
+    flags: readFlags(trigger.get('flags'), 'flags'),
+    digitalLightLtSrc: toSymbolOrU8(trigger.get('digitalLightLtSrc'), 'digitalLightLtSrc', DIGITAL_BY_KEY, 'digital input'),
+    digitalLightRtSrc: toSymbolOrU8(trigger.get('digitalLightRtSrc'), 'digitalLightRtSrc', DIGITAL_BY_KEY, 'digital input'),
+    digitalLightSrcVersion: toU8(trigger.get('digitalLightSrcVersion'), 'digitalLightSrcVersion'),
+  };
+
+  const stick = section('stick');
+  const stickCurveParams: StickCurveParamsV1 = {
+    size: toNumber(stick.get('size'), 'size'),
+    range: toNumberArray(stick.get('range'), 'range', STICK_AXES),
+    notch: toNumberArray(stick.get('notch'), 'notch', STICK_AXES),
+    dz_lower: toNumberArray(stick.get('dz_lower'), 'dz_lower', STICK_AXES),
+    dz_upper: toNumberArray(stick.get('dz_upper'), 'dz_upper', STICK_AXES),
+    notch_start_input: toNumber(stick.get('notch_start_input'), 'notch_start_input'),
+    notch_end_input: toNumber(stick.get('notch_end_input'), 'notch_end_input'),
+  };
+
+  for (const reader of readers) reader.finish();
+
+  return {
+    profile: {
+      type: ORCA_PROFILE_FILE_TYPE,
+      version: ORCA_PROFILE_FILE_VERSION,
+      mode,
+      label,
+      digitalMapping,
+      analogMapping,
+      dpadLayer,
+      triggerPolicy,
+      stickCurveParams,
+    },
+    comments,
+  };
+}
+
+/** True if `text` looks like the text format rather than a JSON profile file. */
+export function isProfileText(text: string): boolean {
+  const first = text.split(/\r?\n/).map((l) => l.trim()).find((l) => l && !l.startsWith('#'));
+  return first !== undefined && !first.startsWith('{');
+}
@@ -1,4 +1,5 @@
 import {
+  ORCA_CONFIG_ORCA_ANALOG_INPUT_COUNT,
   ORCA_CONFIG_SETTINGS_BLOB_SIZE,
   ORCA_CONFIG_SETTINGS_HEADER_ACTIVE_PROFILE_OFFSET,
   ORCA_CONFIG_SETTINGS_HEADER_FLAGS_OFFSET,
@@ -81,6 +82,23 @@ export type StickCurveParamsV1 = {
   notch_end_input: number;
 };
 
+// Device-wide analog calibration (not per profile). Each array has one entry per analog axis.
+export type CalibrationV1 = {
+  range: {
+    lower: number[];    // raw input at rest (0-1)
+    upper: number[];    // raw input at full press (0-1)
+  };
+  deadzoneLower: number[];  // DeadzoneCalibration[0], fraction of calibrated travel ignored at rest
+  deadzoneUpper: number[];  // DeadzoneCalibration[1], fraction of calibrated travel ignored at full press
+  notch: number[];          // calibrated input (0-1) where the light-press notch sits
+};
+
+// A hand-edited byte from the blob inspector, for bytes no structured field covers.
+export type RawByteOverride = {
+  offset: number;
+  value: number;
+};
+
 export type SettingsDraft = {
   activeProfile: number;
   profileLabels: string[];
@@ -89,6 +107,12 @@ export type SettingsDraft = {
   dpadLayer: DpadLayerV1[];
   triggerPolicy: TriggerPolicyV1[];
   stickCurveParams: StickCurveParamsV1[];
+  // Header flags byte; absent in drafts built by hand, in which case the base blob's flags are kept.
+  headerFlags?: number;
+  // Absent when the blob's calibration TLVs are missing or use another axis count; left untouched on write.
+  calibration?: CalibrationV1;
+  // Applied after every structured field, just before the CRC is recomputed.
+  rawBytes?: RawByteOverride[];
 };
 
 export type ParsedSettings = {
@@ -147,7 +171,7 @@ function writeDigitalSourceV1(bytes: Uint8Array, offset: number, src: DigitalSou
   writeF32Le(bytes, offset + 8, src.hysteresis);
 }
 
-function parseDpadLayerV1(data: Uint8Array): DpadLayerV1 {
+export function parseDpadLayerV1(data: Uint8Array): DpadLayerV1 {
   if (data.length !== OrcaSettingsTlv.DpadLayer.length) {
     throw new Error('Bad DpadLayer length');
   }
@@ -163,7 +187,7 @@ function parseDpadLayerV1(data: Uint8Array): DpadLayerV1 {
   return { mode_up, mode_down, mode_left, mode_right, enable, up, down, left, right };
 }
 
-function encodeDpadLayerV1(layer: DpadLayerV1): Uint8Array {
+export function encodeDpadLayerV1(layer: DpadLayerV1): Uint8Array {
   const out = new Uint8Array(OrcaSettingsTlv.DpadLayer.length);
   out[0] = layer.mode_up & 0xff;
   out[1] = layer.mode_down & 0xff;
@@ -177,7 +201,7 @@ function encodeDpadLayerV1(layer: DpadLayerV1): Uint8Array {
   return out;
 }
 
-function parseTriggerPolicyV1(data: Uint8Array): TriggerPolicyV1 {
+export function parseTriggerPolicyV1(data: Uint8Array): TriggerPolicyV1 {
   if (data.length !== OrcaSettingsTlv.TriggerPolicy.length) {
     throw new Error('Bad TriggerPolicy length');
   }
@@ -191,7 +215,7 @@ function parseTriggerPolicyV1(data: Uint8Array): TriggerPolicyV1 {
   return { analogRangeMax, digitalFullPress, digitalLightshield, flags, digitalLightLtSrc, digitalLightRtSrc, digitalLightSrcVersion };
 }
 
-function encodeTriggerPolicyV1(policy: TriggerPolicyV1): Uint8Array {
+export function encodeTriggerPolicyV1(policy: TriggerPolicyV1): Uint8Array {
   const out = new Uint8Array(OrcaSettingsTlv.TriggerPolicy.length);
   writeF32Le(out, 0, policy.analogRangeMax);
   writeF32Le(out, 4, policy.digitalFullPress);
@@ -205,7 +229,7 @@ function encodeTriggerPolicyV1(policy: TriggerPolicyV1): Uint8Array {
 
 const STICK_CURVE_AXIS_COUNT = 5;
 
-function parseStickCurveParamsV1(data: Uint8Array): StickCurveParamsV1 {
+export function parseStickCurveParamsV1(data: Uint8Array): StickCurveParamsV1 {
   if (data.length !== OrcaSettingsTlv.StickCurveParams.length) {
     throw new Error('Bad StickCurveParams length');
   }
@@ -234,7 +258,7 @@ function parseStickCurveParamsV1(data: Uint8Array): StickCurveParamsV1 {
   return { size, range, notch, dz_lower, dz_upper, notch_start_input, notch_end_input };
 }
 
-function encodeStickCurveParamsV1(params: StickCurveParamsV1): Uint8Array {
+export function encodeStickCurveParamsV1(params: StickCurveParamsV1): Uint8Array {
   const out = new Uint8Array(OrcaSettingsTlv.StickCurveParams.length);
   writeU32Le(out, 0, params.size);
 
@@ -256,6 +280,72 @@ function encodeStickCurveParamsV1(params: StickCurveParamsV1): Uint8Array {
   return out;
 }
 
+// Calibration TLVs: uint32 axis count, then per-axis floats.
+// Range: float[5][2] lower/upper pairs; Deadzone and Notch: float[5].
+function tryReadCalibrationTlv(blob: Uint8Array, tlv: TlvInfo, index: number): Uint8Array | null {
+  try {
+    const data = readTlvData(blob, tlv, index);
+    return readU32Le(data, 0) === ORCA_CONFIG_ORCA_ANALOG_INPUT_COUNT ? data : null;
+  } catch {
+    return null;
+  }
+}
+
+function readAxisFloats(data: Uint8Array, offset: number, stride: number): number[] {
+  return Array.from({ length: ORCA_CONFIG_ORCA_ANALOG_INPUT_COUNT }, (_, axis) => readF32Le(data, offset + axis * stride));
+}
+
+/** Range calibration alone; the input preview only needs this record to be intact. */
+export function tryParseRangeCalibration(blob: Uint8Array): CalibrationV1['range'] | null {
+  const data = tryReadCalibrationTlv(blob, OrcaSettingsTlv.RangeCalibration satisfies TlvInfo, 0);
+  if (!data) return null;
+  return { lower: readAxisFloats(data, 4, 8), upper: readAxisFloats(data, 8, 8) };
+}
+
+export function tryParseCalibration(blob: Uint8Array): CalibrationV1 | null {
+  const range = tryParseRangeCalibration(blob);
+  const dzLower = tryReadCalibrationTlv(blob, OrcaSettingsTlv.DeadzoneCalibration satisfies TlvInfo, 0);
+  const dzUpper = tryReadCalibrationTlv(blob, OrcaSettingsTlv.DeadzoneCalibration satisfies TlvInfo, 1);
+  const notch = tryReadCalibrationTlv(blob, OrcaSettingsTlv.NotchCalibration satisfies TlvInfo, 0);
+  if (!range || !dzLower || !dzUpper || !notch) return null;
+  return {
+    range,
+    deadzoneLower: readAxisFloats(dzLower, 4, 4),
+    deadzoneUpper: readAxisFloats(dzUpper, 4, 4),
+    notch: readAxisFloats(notch, 4, 4),
+  };
+}
+
+function encodeAxisFloats(tlv: TlvInfo, values: number[], name: string): Uint8Array {
+  if (values.length !== ORCA_CONFIG_ORCA_ANALOG_INPUT_COUNT) {
+    throw new Error(`Bad ${name} length (want ${ORCA_CONFIG_ORCA_ANALOG_INPUT_COUNT}, got ${values.length})`);
+  }
+  const out = new Uint8Array(tlv.length);
+  writeU32Le(out, 0, ORCA_CONFIG_ORCA_ANALOG_INPUT_COUNT);
+  values.forEach((v, axis) => writeF32Le(out, 4 + axis * 4, v));
+  return out;
+}
+
+function writeCalibration(blob: Uint8Array, cal: CalibrationV1) {
+  const { lower, upper } = cal.range;
+  if (lower.length !== ORCA_CONFIG_ORCA_ANALOG_INPUT_COUNT || upper.length !== ORCA_CONFIG_ORCA_ANALOG_INPUT_COUNT) {
+    throw new Error(`Bad range calibration length (want ${ORCA_CONFIG_ORCA_ANALOG_INPUT_COUNT} axes)`);
+  }
+  const range = new Uint8Array(OrcaSettingsTlv.RangeCalibration.length);
+  writeU32Le(range, 0, ORCA_CONFIG_ORCA_ANALOG_INPUT_COUNT);
+  for (let axis = 0; axis < ORCA_CONFIG_ORCA_ANALOG_INPUT_COUNT; axis++) {
+    writeF32Le(range, 4 + axis * 8, lower[axis]!);
+    writeF32Le(range, 8 + axis * 8, upper[axis]!);
+  }
+  writeTlvData(blob, OrcaSettingsTlv.RangeCalibration satisfies TlvInfo, 0, range);
+  writeTlvData(blob, OrcaSettingsTlv.DeadzoneCalibration satisfies TlvInfo, 0,
+    encodeAxisFloats(OrcaSettingsTlv.DeadzoneCalibration, cal.deadzoneLower, 'lower deadzone calibration'));
+  writeTlvData(blob, OrcaSettingsTlv.DeadzoneCalibration satisfies TlvInfo, 1,
+    encodeAxisFloats(OrcaSettingsTlv.DeadzoneCalibration, cal.deadzoneUpper, 'upper deadzone calibration'));
+  writeTlvData(blob, OrcaSettingsTlv.NotchCalibration satisfies TlvInfo, 0,
+    encodeAxisFloats(OrcaSettingsTlv.NotchCalibration, cal.notch, 'notch calibration'));
+}
+
 export function tryParseSettingsBlob(blob: Uint8Array): ParseResult {
   try {
     return { ok: true, value: parseSettingsBlob(blob) };
@@ -342,7 +432,10 @@ export function parseSettingsBlob(blob: Uint8Array): ParsedSettings {
     dpadLayer,
     triggerPolicy,
     stickCurveParams,
+    headerFlags: flags,
   };
+  const calibration = tryParseCalibration(blob);
+  if (calibration) draft.calibration = calibration;
 
   return { header, draft };
 }
@@ -354,6 +447,9 @@ export function buildSettingsBlob(baseBlob: Uint8Array, draft: SettingsDraft): U
   const out = baseBlob.slice();
 
   out[ORCA_CONFIG_SETTINGS_HEADER_ACTIVE_PROFILE_OFFSET] = draft.activeProfile & 0xff;
+  if (draft.headerFlags !== undefined) {
+    out[ORCA_CONFIG_SETTINGS_HEADER_FLAGS_OFFSET] = draft.headerFlags & 0xff;
+  }
 
   for (let i = 0; i < OrcaSettingsTlv.ProfileLabels.count; i++) {
     const label = draft.profileLabels[i] ?? '';
@@ -410,6 +506,17 @@ export function buildSettingsBlob(baseBlob: Uint8Array, draft: SettingsDraft): U
     writeTlvData(out, OrcaSettingsTlv.StickCurveParams satisfies TlvInfo, i, encodeStickCurveParamsV1(params));
   }
 
+  if (draft.calibration) {
+    writeCalibration(out, draft.calibration);
+  }
+
+  for (const { offset, value } of draft.rawBytes ?? []) {
+    if (!Number.isInteger(offset) || offset < 0 || offset >= out.length - 4) {
+      throw new Error(`Raw byte override out of range (offset=${offset})`);
+    }
+    out[offset] = value & 0xff;
+  }
+
   const nextCrc = crc32([out.slice(0, out.length - 4)]);
   writeU32Le(out, out.length - 4, nextCrc);
   return out;
@@ -0,0 +1,115 @@
+import {
+  ORCA_CONFIG_ORCA_ANALOG_INPUT_COUNT,
+  ORCA_CONFIG_SETTINGS_BLOB_SIZE,
+  ORCA_CONFIG_SETTINGS_HEADER_GENERATION_OFFSET,
+  ORCA_CONFIG_SETTINGS_HEADER_HEADER_SIZE_OFFSET,
+  ORCA_CONFIG_SETTINGS_HEADER_MAGIC_OFFSET,
+  ORCA_CONFIG_SETTINGS_HEADER_SIZE,
+  ORCA_CONFIG_SETTINGS_HEADER_VERSION_MAJOR_OFFSET,
+  ORCA_CONFIG_SETTINGS_HEADER_VERSION_MINOR_OFFSET,
+  ORCA_CONFIG_SETTINGS_PROFILE_COUNT,
+  ORCA_CONFIG_SETTINGS_VERSION_MAJOR,
+  ORCA_CONFIG_SETTINGS_VERSION_MINOR,
+  OrcaSettingsTlv,
+} from '@shared/orca_config_idl_generated';
+import { writeF32Le, writeU16Le, writeU32Le } from './bytes';
+import { crc32 } from './crc32';
+import { ORCA_DUMMY_FIELD, getDefaultAnalogMapping, getDefaultDigitalMapping } from './orcaMappings';
+import { buildSettingsBlob, type DigitalSourceV1, type SettingsDraft } from './settingsBlob';
+
+type TlvInfo = {
+  type: number;
+  length: number;
+  count: number;
+  stride: number;
+  offset0: number;
+};
+
+export const SETTINGS_MAGIC = 'ORCA CONTROLLER';
+
+const TLVS = Object.values(OrcaSettingsTlv) as TlvInfo[];
+
+function tlvData(blob: Uint8Array, tlv: TlvInfo, index: number): Uint8Array {
+  const off = tlv.offset0 + index * tlv.stride + 4;
+  return blob.subarray(off, off + tlv.length);
+}
+
+function makeDefaultDraft(slot: number): SettingsDraft {
+  const disabledSource: DigitalSourceV1 = { type: 0, index: 0, threshold: 0, hysteresis: 0 };
+  const perProfile = <T>(make: (i: number) => T) => Array.from({ length: ORCA_CONFIG_SETTINGS_PROFILE_COUNT }, (_, i) => make(i));
+  return {
+    activeProfile: 0,
+    profileLabels: perProfile((i) => `Profile ${i + 1}`),
+    digitalMappings: perProfile(() => getDefaultDigitalMapping(slot === 1 ? 'gp2040' : 'orca')),
+    analogMappings: perProfile(() => getDefaultAnalogMapping()),
+    dpadLayer: perProfile(() => ({
+      mode_up: 0,
+      mode_down: 0,
+      mode_left: 0,
+      mode_right: 0,
+      enable: { ...disabledSource },
+      up: { ...disabledSource },
+      down: { ...disabledSource },
+      left: { ...disabledSource },
+      right: { ...disabledSource },
+    })),
+    triggerPolicy: perProfile(() => ({
+      analogRangeMax: 200 / 255,
+      digitalFullPress: 200 / 255,
+      digitalLightshield: 49 / 255,
+      flags: 0,
+      digitalLightLtSrc: ORCA_DUMMY_FIELD,
+      digitalLightRtSrc: ORCA_DUMMY_FIELD,
+      digitalLightSrcVersion: 0,
+    })),
+    stickCurveParams: perProfile(() => ({
+      size: ORCA_CONFIG_ORCA_ANALOG_INPUT_COUNT,
+      range: new Array(ORCA_CONFIG_ORCA_ANALOG_INPUT_COUNT).fill(105 / 128),
+      notch: new Array(ORCA_CONFIG_ORCA_ANALOG_INPUT_COUNT).fill(35 / 128),
+      dz_lower: new Array(ORCA_CONFIG_ORCA_ANALOG_INPUT_COUNT).fill(0.1),
+      dz_upper: new Array(ORCA_CONFIG_ORCA_ANALOG_INPUT_COUNT).fill(0.1),
+      notch_start_input: 0.4,
+      notch_end_input: 0.45,
+    })),
+  };
+}
+
+/** Recompute the trailing CRC32 after editing a blob in place. */
+export function sealSettingsBlob(blob: Uint8Array) {
+  writeU32Le(blob, blob.length - 4, crc32([blob.slice(0, blob.length - 4)]));
+}
+
+/**
+ * Factory-default settings for a slot, laid out like the firmware's defaults: full header,
+ * every TLV present, neutral calibration and the stock bindings for the slot's mode.
+ */
+export function makeDefaultSettingsBlob(slot: number, generation: number): Uint8Array {
+  const base = new Uint8Array(ORCA_CONFIG_SETTINGS_BLOB_SIZE);
+  base.set(new TextEncoder().encode(SETTINGS_MAGIC), ORCA_CONFIG_SETTINGS_HEADER_MAGIC_OFFSET);
+  base[ORCA_CONFIG_SETTINGS_HEADER_VERSION_MAJOR_OFFSET] = ORCA_CONFIG_SETTINGS_VERSION_MAJOR;
+  base[ORCA_CONFIG_SETTINGS_HEADER_VERSION_MINOR_OFFSET] = ORCA_CONFIG_SETTINGS_VERSION_MINOR;
+  writeU16Le(base, ORCA_CONFIG_SETTINGS_HEADER_HEADER_SIZE_OFFSET, ORCA_CONFIG_SETTINGS_HEADER_SIZE);
+  writeU32Le(base, ORCA_CONFIG_SETTINGS_HEADER_GENERATION_OFFSET, generation);
+
+  for (const tlv of TLVS) {
+    for (let i = 0; i < tlv.count; i++) {
+      const off = tlv.offset0 + i * tlv.stride;
+      writeU16Le(base, off, tlv.type);
+      writeU16Le(base, off + 2, tlv.length);
+    }
+  }
+
+  // Calibration TLVs: u32 axis count followed by per-axis floats.
+  const range = tlvData(base, OrcaSettingsTlv.RangeCalibration, 0);
+  writeU32Le(range, 0, ORCA_CONFIG_ORCA_ANALOG_INPUT_COUNT);
+  for (let axis = 0; axis < ORCA_CONFIG_ORCA_ANALOG_INPUT_COUNT; axis++) {
+    writeF32Le(range, 4 + axis * 8, 0);
+    writeF32Le(range, 4 + axis * 8 + 4, 1);
+  }
+  for (let i = 0; i < OrcaSettingsTlv.DeadzoneCalibration.count; i++) {
+    writeU32Le(tlvData(base, OrcaSettingsTlv.DeadzoneCalibration, i), 0, ORCA_CONFIG_ORCA_ANALOG_INPUT_COUNT);
+  }
+  writeU32Le(tlvData(base, OrcaSettingsTlv.NotchCalibration, 0), 0, ORCA_CONFIG_ORCA_ANALOG_INPUT_COUNT);
+
+  return buildSettingsBlob(base, makeDefaultDraft(slot));
+}
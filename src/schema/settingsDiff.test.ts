@@ -0,0 +1,66 @@
+import { describe, expect, it } from 'vitest';
+import { makeDefaultSettingsBlob } from './settingsDefaults';
+import { cloneDraft } from '../app/domain/cloneDraft';
+import { buildSettingsBlob, parseSettingsBlob } from './settingsBlob';
+import { diffSettingsBlobs, diffSettingsDrafts } from './settingsDiff';
+
+describe('diffSettingsDrafts', () => {
+  const base = makeDefaultSettingsBlob(0, 1);
+  const before = parseSettingsBlob(base).draft;
+
+  it('reports no changes for identical drafts', () => {
+    const diff = diffSettingsDrafts(before, cloneDraft(before));
+    expect(diff).toEqual({ activeProfile: null, headerFlags: null, calibration: [], rawBytes: [], profiles: [], changeCount: 0 });
+  });
+
+  it('lists calibration changes outside the profiles', () => {
+    const after = cloneDraft(before);
+    after.calibration!.range.upper[4] = 0.8;
+    const diff = diffSettingsDrafts(before, after);
+    expect(diff.profiles).toEqual([]);
+    expect(diff.calibration).toEqual([
+      { section: 'calibration', field: 'Full press (Trigger R (Analog))', before: '1', after: '0.8' },
+    ]);
+    expect(diff.changeCount).toBe(1);
+  });
+
+  it('groups labelled changes per profile', () => {
+    const after = cloneDraft(before);
+    after.activeProfile = 2;
+    after.profileLabels[1] = 'Fox';
+    after.digitalMappings[1]![0] = 1; // A <- B
+    after.dpadLayer[1]!.mode_up = 2;
+    after.triggerPolicy[1]!.digitalFullPress = 1;
+    after.stickCurveParams[1]!.range[0] = 0.5;
+
+    const diff = diffSettingsDrafts(before, after);
+    expect(diff.activeProfile).toEqual({ before: 0, after: 2 });
+    expect(diff.profiles.map((p) => p.profile)).toEqual([1]);
+    expect(diff.profiles[0]!.label).toBe('Fox');
+    expect(diff.profiles[0]!.changes).toEqual([
+      { section: 'label', field: 'Name', before: 'Profile 2', after: 'Fox' },
+      { section: 'digital', field: 'A', before: 'A', after: 'B' },
+      { section: 'dpad', field: 'Up mode', before: 'Disabled', after: 'Always on' },
+      { section: 'trigger', field: 'Digital full press', before: '200/255', after: '255/255' },
+      { section: 'stick', field: 'Range (Control Stick X Left)', before: '0.82', after: '0.5' },
+    ]);
+    expect(diff.changeCount).toBe(6);
+  });
+
+  it('uses GP2040 destination names for the secondary slot', () => {
+    const after = cloneDraft(before);
+    after.digitalMappings[0]![0] = 1;
+    const diff = diffSettingsDrafts(before, after, { mode: 'gp2040' });
+    expect(diff.profiles[0]!.changes[0]).toMatchObject({ field: 'B1', before: 'A', after: 'B' });
+  });
+
+  it('diffs exported blobs', () => {
+    const after = cloneDraft(before);
+    after.analogMappings[0]![4] = 0xff;
+    const diff = diffSettingsBlobs(base, buildSettingsBlob(base, after));
+    expect(diff.profiles[0]!.changes).toEqual([
+      { section: 'analog', field: 'Trigger R (Analog)', before: 'Trigger R (Analog)', after: 'Disabled' },
+    ]);
+    expect(() => diffSettingsBlobs(new Uint8Array(4), base)).toThrow(/^First file/);
+  });
+});
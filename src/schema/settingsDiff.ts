@@ -0,0 +1,248 @@
+import { ORCA_CONFIG_SETTINGS_PROFILE_COUNT } from '@shared/orca_config_idl_generated';
+import { getGp2040DestinationLabelSet, type Gp2040LabelPreset } from './gp2040Labels';
+import { ORCA_ANALOG_MAPPING_DISABLED, analogInputLabel, digitalInputLabel } from './orcaMappings';
+import type { ProfileMode } from './profileFile';
+import {
+  tryParseSettingsBlob,
+  type DigitalSourceV1,
+  type CalibrationV1,
+  type DpadLayerV1,
+  type RawByteOverride,
+  type SettingsDraft,
+  type StickCurveParamsV1,
+  type TriggerPolicyV1,
+} from './settingsBlob';
+import { TRIGGER_POLICY_FLAG_ANALOG_TRIGGER_TO_LT, TRIGGER_POLICY_FLAG_LIGHTSHIELD_CLAMP } from './triggerPolicyFlags';
+
+export type SettingsChangeSection = 'label' | 'digital' | 'analog' | 'dpad' | 'trigger' | 'stick' | 'calibration' | 'raw';
+
+export type SettingsChange = {
+  section: SettingsChangeSection;
+  field: string;
+  before: string;
+  after: string;
+};
+
+export type ProfileDiff = {
+  profile: number;
+  label: string;
+  changes: SettingsChange[];
+};
+
+export type SettingsDiff = {
+  activeProfile: { before: number; after: number } | null;
+  headerFlags: { before: number; after: number } | null;
+  // Device-wide calibration, outside any profile.
+  calibration: SettingsChange[];
+  // Hand-edited bytes from the blob inspector, keyed by offset.
+  rawBytes: SettingsChange[];
+  profiles: ProfileDiff[];
+  changeCount: number;
+};
+
+export type SettingsDiffOptions = {
+  // Destination names follow the mode the slot is edited in.
+  mode?: ProfileMode;
+  gp2040LabelPreset?: Gp2040LabelPreset;
+};
+
+export const SETTINGS_CHANGE_SECTION_LABELS: Record<SettingsChangeSection, string> = {
+  label: 'Label',
+  digital: 'Buttons',
+  analog: 'Analog',
+  dpad: 'DPAD layer',
+  trigger: 'Triggers',
+  stick: 'Stick curve',
+  calibration: 'Calibration',
+  raw: 'Raw bytes',
+};
+
+const DPAD_DIRECTIONS = ['up', 'down', 'left', 'right'] as const;
+const DPAD_MODE_LABELS = ['Disabled', 'With Modifier', 'Always on'];
+
+const TRIGGER_FLAGS: { bit: number; label: string }[] = [
+  { bit: TRIGGER_POLICY_FLAG_ANALOG_TRIGGER_TO_LT, label: 'Analog trigger to LT' },
+  { bit: TRIGGER_POLICY_FLAG_LIGHTSHIELD_CLAMP, label: 'Lightshield clamp' },
+];
+
+function profileName(draft: SettingsDraft, profile: number): string {
+  return draft.profileLabels[profile]?.trim() || `Profile ${profile + 1}`;
+}
+
+function formatNumber(v: number): string {
+  if (!Number.isFinite(v)) return String(v);
+  return String(Math.round(v * 1000) / 1000);
+}
+
+function format255(v: number): string {
+  return `${Math.round(v * 255)}/255`;
+}
+
+export function formatHeaderFlags(flags: number): string {
+  return `0x${flags.toString(16).padStart(2, '0')}`;
+}
+
+export function formatDigitalSource(src: DigitalSourceV1 | undefined): string {
+  if (!src) return '—';
+  switch (src.type) {
+    case 0:
+      return 'None';
+    case 1:
+      return digitalInputLabel(src.index);
+    case 2:
+    case 3:
+      return `${analogInputLabel(src.index)} ${src.type === 2 ? '≥' : '≤'} ${formatNumber(src.threshold)} (hyst ${formatNumber(src.hysteresis)})`;
+    default:
+      return `Unknown source ${src.type}:${src.index}`;
+  }
+}
+
+function formatTriggerFlags(flags: number): string {
+  const names = TRIGGER_FLAGS.filter((f) => (flags & f.bit) !== 0).map((f) => f.label);
+  const unknown = flags & ~TRIGGER_FLAGS.reduce((acc, f) => acc | f.bit, 0);
+  if (unknown) names.push(`0x${unknown.toString(16)}`);
+  return names.length > 0 ? names.join(', ') : 'None';
+}
+
+function destinationLabels(options: SettingsDiffOptions) {
+  const overlay = options.mode === 'gp2040' ? getGp2040DestinationLabelSet(options.gp2040LabelPreset) : null;
+  return {
+    digital: (id: number) => overlay?.digital[id]?.label ?? digitalInputLabel(id),
+    analog: (id: number) => overlay?.analog[id]?.label ?? analogInputLabel(id),
+  };
+}
+
+function push(changes: SettingsChange[], section: SettingsChangeSection, field: string, before: string, after: string) {
+  if (before !== after) changes.push({ section, field, before, after });
+}
+
+function diffMappings(
+  changes: SettingsChange[],
+  section: 'digital' | 'analog',
+  before: number[] | undefined,
+  after: number[] | undefined,
+  destLabel: (id: number) => string,
+  srcLabel: (id: number) => string,
+) {
+  const len = Math.max(before?.length ?? 0, after?.length ?? 0);
+  for (let dest = 0; dest < len; dest++) {
+    const a = before?.[dest];
+    const b = after?.[dest];
+    if (a === b) continue;
+    push(changes, section, destLabel(dest), a === undefined ? '—' : srcLabel(a), b === undefined ? '—' : srcLabel(b));
+  }
+}
+
+function diffDpadLayer(changes: SettingsChange[], before: DpadLayerV1 | undefined, after: DpadLayerV1 | undefined) {
+  const mode = (layer: DpadLayerV1 | undefined, dir: (typeof DPAD_DIRECTIONS)[number]) => {
+    const v = layer?.[`mode_${dir}`];
+    return v === undefined ? '—' : (DPAD_MODE_LABELS[v] ?? `Mode ${v}`);
+  };
+  push(changes, 'dpad', 'Enable', formatDigitalSource(before?.enable), formatDigitalSource(after?.enable));
+  for (const dir of DPAD_DIRECTIONS) {
+    const name = dir[0]!.toUpperCase() + dir.slice(1);
+    push(changes, 'dpad', `${name} mode`, mode(before, dir), mode(after, dir));
+    push(changes, 'dpad', `${name} source`, formatDigitalSource(before?.[dir]), formatDigitalSource(after?.[dir]));
+  }
+}
+
+function diffTriggerPolicy(changes: SettingsChange[], before: TriggerPolicyV1 | undefined, after: TriggerPolicyV1 | undefined) {
+  const fmt = (p: TriggerPolicyV1 | undefined, f: (p: TriggerPolicyV1) => string) => (p ? f(p) : '—');
+  push(changes, 'trigger', 'Analog range max', fmt(before, (p) => format255(p.analogRangeMax)), fmt(after, (p) => format255(p.analogRangeMax)));
+  push(changes, 'trigger', 'Digital full press', fmt(before, (p) => format255(p.digitalFullPress)), fmt(after, (p) => format255(p.digitalFullPress)));
+  push(changes, 'trigger', 'Digital lightshield', fmt(before, (p) => format255(p.digitalLightshield)), fmt(after, (p) => format255(p.digitalLightshield)));
+  push(changes, 'trigger', 'Flags', fmt(before, (p) => formatTriggerFlags(p.flags)), fmt(after, (p) => formatTriggerFlags(p.flags)));
+  push(changes, 'trigger', 'LT light source', fmt(before, (p) => digitalInputLabel(p.digitalLightLtSrc)), fmt(after, (p) => digitalInputLabel(p.digitalLightLtSrc)));
+  push(changes, 'trigger', 'RT light source', fmt(before, (p) => digitalInputLabel(p.digitalLightRtSrc)), fmt(after, (p) => digitalInputLabel(p.digitalLightRtSrc)));
+}
+
+function diffStickCurve(changes: SettingsChange[], before: StickCurveParamsV1 | undefined, after: StickCurveParamsV1 | undefined) {
+  const fmt = (v: number | undefined) => (v === undefined ? '—' : formatNumber(v));
+  push(changes, 'stick', 'Axis count', fmt(before?.size), fmt(after?.size));
+  for (const key of ['range', 'notch', 'dz_lower', 'dz_upper'] as const) {
+    const name = { range: 'Range', notch: 'Notch', dz_lower: 'Deadzone lower', dz_upper: 'Deadzone upper' }[key];
+    const axes = Math.max(before?.[key].length ?? 0, after?.[key].length ?? 0);
+    for (let axis = 0; axis < axes; axis++) {
+      push(changes, 'stick', `${name} (${analogInputLabel(axis)})`, fmt(before?.[key][axis]), fmt(after?.[key][axis]));
+    }
+  }
+  push(changes, 'stick', 'Notch start input', fmt(before?.notch_start_input), fmt(after?.notch_start_input));
+  push(changes, 'stick', 'Notch end input', fmt(before?.notch_end_input), fmt(after?.notch_end_input));
+}
+
+function diffCalibration(changes: SettingsChange[], before: CalibrationV1 | undefined, after: CalibrationV1 | undefined) {
+  const fields: { name: string; get: (c: CalibrationV1) => number[] }[] = [
+    { name: 'Rest', get: (c) => c.range.lower },
+    { name: 'Full press', get: (c) => c.range.upper },
+    { name: 'Deadzone lower', get: (c) => c.deadzoneLower },
+    { name: 'Deadzone upper', get: (c) => c.deadzoneUpper },
+    { name: 'Notch', get: (c) => c.notch },
+  ];
+  for (const { name, get } of fields) {
+    const a = before ? get(before) : [];
+    const b = after ? get(after) : [];
+    for (let axis = 0; axis < Math.max(a.length, b.length); axis++) {
+      const fmt = (v: number | undefined) => (v === undefined ? '—' : formatNumber(v));
+      push(changes, 'calibration', `${name} (${analogInputLabel(axis)})`, fmt(a[axis]), fmt(b[axis]));
+    }
+  }
+}
+
+export function formatByteOffset(offset: number): string {
+  return `0x${offset.toString(16).padStart(4, '0')}`;
+}
+
+function diffRawBytes(changes: SettingsChange[], before: RawByteOverride[] = [], after: RawByteOverride[] = []) {
+  const a = new Map(before.map((o) => [o.offset, o.value]));
+  const b = new Map(after.map((o) => [o.offset, o.value]));
+  const offsets = [...new Set([...a.keys(), ...b.keys()])].sort((x, y) => x - y);
+  const fmt = (v: number | undefined) => (v === undefined ? '' : `0x${v.toString(16).padStart(2, '0')}`);
+  for (const offset of offsets) push(changes, 'raw', formatByteOffset(offset), fmt(a.get(offset)), fmt(b.get(offset)));
+}
+
+/**
+ * Field-by-field comparison of two drafts, grouped per profile. Values are rendered as
+ * human-readable strings (input names, x/255 trigger levels) so the result can be shown as-is.
+ */
+export function diffSettingsDrafts(before: SettingsDraft, after: SettingsDraft, options: SettingsDiffOptions = {}): SettingsDiff {
+  const labels = destinationLabels(options);
+  const analogSource = (id: number) => (id === ORCA_ANALOG_MAPPING_DISABLED ? 'Disabled' : analogInputLabel(id));
+  const profiles: ProfileDiff[] = [];
+
+  for (let p = 0; p < ORCA_CONFIG_SETTINGS_PROFILE_COUNT; p++) {
+    const changes: SettingsChange[] = [];
+    push(changes, 'label', 'Name', before.profileLabels[p] ?? '', after.profileLabels[p] ?? '');
+    diffMappings(changes, 'digital', before.digitalMappings[p], after.digitalMappings[p], labels.digital, digitalInputLabel);
+    diffMappings(changes, 'analog', before.analogMappings[p], after.analogMappings[p], labels.analog, analogSource);
+    diffDpadLayer(changes, before.dpadLayer[p], after.dpadLayer[p]);
+    diffTriggerPolicy(changes, before.triggerPolicy[p], after.triggerPolicy[p]);
+    diffStickCurve(changes, before.stickCurveParams[p], after.stickCurveParams[p]);
+    if (changes.length > 0) profiles.push({ profile: p, label: profileName(after, p), changes });
+  }
+
+  const activeProfile = before.activeProfile !== after.activeProfile
+    ? { before: before.activeProfile, after: after.activeProfile }
+    : null;
+  const headerFlags = before.headerFlags !== undefined && after.headerFlags !== undefined && before.headerFlags !== after.headerFlags
+    ? { before: before.headerFlags, after: after.headerFlags }
+    : null;
+  const calibration: SettingsChange[] = [];
+  diffCalibration(calibration, before.calibration, after.calibration);
+  const rawBytes: SettingsChange[] = [];
+  diffRawBytes(rawBytes, before.rawBytes, after.rawBytes);
+  const changeCount = profiles.reduce((n, p) => n + p.changes.length, 0)
+    + calibration.length
+    + rawBytes.length
+    + (activeProfile ? 1 : 0)
+    + (headerFlags ? 1 : 0);
+  return { activeProfile, headerFlags, calibration, rawBytes, profiles, changeCount };
+}
+
+/** Parse two settings blobs (e.g. from exported files) and diff their drafts. Throws if either fails to parse. */
+export function diffSettingsBlobs(before: Uint8Array, after: Uint8Array, options: SettingsDiffOptions = {}): SettingsDiff {
+  const a = tryParseSettingsBlob(before);
+  if (!a.ok) throw new Error(`First file: ${a.error}`);
+  const b = tryParseSettingsBlob(after);
+  if (!b.ok) throw new Error(`Second file: ${b.error}`);
+  return diffSettingsDrafts(a.value.draft, b.value.draft, options);
+}
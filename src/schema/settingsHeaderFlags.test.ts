@@ -0,0 +1,29 @@
+import { describe, expect, it } from 'vitest';
+import { makeDefaultSettingsBlob } from './settingsDefaults';
+import { buildSettingsBlob, parseSettingsBlob } from './settingsBlob';
+import { decodeSettingsHeaderFlags, validateHeaderFlagsChange } from './settingsHeaderFlags';
+
+describe('settings header flags', () => {
+  it('decodes every bit of the flags byte', () => {
+    const decoded = decodeSettingsHeaderFlags(0x81);
+    expect(decoded).toHaveLength(8);
+    expect(decoded.filter((f) => f.set).map((f) => f.bit)).toEqual([0, 7]);
+  });
+
+  it('rejects changes to reserved bits and out-of-range values', () => {
+    expect(validateHeaderFlagsChange(0x05, 0x05)).toEqual([]);
+    expect(validateHeaderFlagsChange(0x00, 0x06)).toEqual(['Header flags: reserved bits 1, 2 cannot be changed']);
+    expect(validateHeaderFlagsChange(0x00, 0x100)).toEqual(['Header flags must be a byte (0-255)']);
+  });
+
+  it('round-trips the flags byte through the draft', () => {
+    const base = makeDefaultSettingsBlob(0, 1);
+    const parsed = parseSettingsBlob(base);
+    expect(parsed.draft.headerFlags).toBe(parsed.header.flags);
+
+    const rebuilt = parseSettingsBlob(buildSettingsBlob(base, { ...parsed.draft, headerFlags: 0x42 }));
+    expect(rebuilt.header.flags).toBe(0x42);
+    expect(rebuilt.draft.headerFlags).toBe(0x42);
+    expect(rebuilt.header.crcValid).toBe(true);
+  });
+});
@@ -0,0 +1,38 @@
+// The settings header stores one byte of flags at ORCA_CONFIG_SETTINGS_HEADER_FLAGS_OFFSET.
+export const SETTINGS_HEADER_FLAG_BIT_COUNT = 8;
+
+export type SettingsHeaderFlagDef = {
+  bit: number;
+  label: string;
+  description: string;
+};
+
+// Bits the configurator knows how to edit. The IDL does not assign any header flag bits yet;
+// add them here as the firmware defines them. Every other bit is shown read-only and is
+// carried through writes unchanged.
+export const SETTINGS_HEADER_FLAGS: readonly SettingsHeaderFlagDef[] = [];
+
+export const SETTINGS_HEADER_KNOWN_FLAGS_MASK = SETTINGS_HEADER_FLAGS.reduce((mask, f) => mask | (1 << f.bit), 0);
+
+export type DecodedHeaderFlag = {
+  bit: number;
+  set: boolean;
+  def: SettingsHeaderFlagDef | null;
+};
+
+export function decodeSettingsHeaderFlags(flags: number): DecodedHeaderFlag[] {
+  return Array.from({ length: SETTINGS_HEADER_FLAG_BIT_COUNT }, (_, bit) => ({
+    bit,
+    set: ((flags >>> bit) & 1) !== 0,
+    def: SETTINGS_HEADER_FLAGS.find((f) => f.bit === bit) ?? null,
+  }));
+}
+
+/** Errors for a flags change from `before` to `after`; only known bits may change. */
+export function validateHeaderFlagsChange(before: number, after: number): string[] {
+  if (!Number.isInteger(after) || after < 0 || after > 0xff) return ['Header flags must be a byte (0-255)'];
+  const changed = (before ^ after) & ~SETTINGS_HEADER_KNOWN_FLAGS_MASK & 0xff;
+  if (changed === 0) return [];
+  const bits = decodeSettingsHeaderFlags(changed).filter((f) => f.set).map((f) => f.bit);
+  return [`Header flags: reserved bit${bits.length === 1 ? '' : 's'} ${bits.join(', ')} cannot be changed`];
+}
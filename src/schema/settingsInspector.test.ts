@@ -0,0 +1,72 @@
+import { describe, expect, it } from 'vitest';
+import { ORCA_CONFIG_SETTINGS_HEADER_FLAGS_OFFSET, OrcaSettingsTlv } from '@shared/orca_config_idl_generated';
+import { makeDefaultSettingsBlob, sealSettingsBlob } from './settingsDefaults';
+import { writeU16Le } from './bytes';
+import { buildSettingsBlob, parseSettingsBlob } from './settingsBlob';
+import {
+  SETTINGS_KNOWN_TLV_END,
+  applyRawByteEdit,
+  diffBlobRanges,
+  inspectSettingsBlob,
+  rawByteEditError,
+} from './settingsInspector';
+import { validateSettingsDraft } from '../validators/settingsValidation';
+
+describe('settings blob inspector', () => {
+  const base = makeDefaultSettingsBlob(0, 1);
+
+  it('lists known and unknown records and annotates every byte', () => {
+    const blob = base.slice();
+    writeU16Le(blob, SETTINGS_KNOWN_TLV_END, 99);
+    writeU16Le(blob, SETTINGS_KNOWN_TLV_END + 2, 3);
+    sealSettingsBlob(blob);
+
+    const inspection = inspectSettingsBlob(blob);
+    const known = Object.values(OrcaSettingsTlv).reduce((n, t) => n + t.count, 0);
+    expect(inspection.tlvs.filter((t) => t.name !== null)).toHaveLength(known);
+    expect(inspection.tlvs.every((t) => t.valid)).toBe(true);
+    expect(inspection.tlvs.find((t) => t.name === null)).toMatchObject({ type: 99, length: 3, stride: 8, offset: SETTINGS_KNOWN_TLV_END });
+    expect(inspection.issues).toEqual([]);
+
+    const triggerFlags = OrcaSettingsTlv.TriggerPolicy.offset0 + 4 + 12;
+    expect(inspection.regions[inspection.regionAt[triggerFlags]!]!.label).toBe('Profile 1 · Triggers · flags');
+    expect(inspection.regions[inspection.regionAt[blob.length - 1]!]!.kind).toBe('crc');
+    expect(inspection.regions.reduce((n, r) => n + (r.end - r.start), 0)).toBe(blob.length);
+  });
+
+  it('reports records whose header does not match the IDL', () => {
+    const blob = base.slice();
+    writeU16Le(blob, OrcaSettingsTlv.DpadLayer.offset0 + OrcaSettingsTlv.DpadLayer.stride, 42);
+    const inspection = inspectSettingsBlob(blob);
+    expect(inspection.tlvs.filter((t) => !t.valid).map((t) => t.label)).toEqual(['Profile 2 · DPAD layer']);
+  });
+
+  it('folds edits of structured bytes into the draft and keeps the rest as overrides', () => {
+    const draft = parseSettingsBlob(base).draft;
+    const triggerFlags = OrcaSettingsTlv.TriggerPolicy.offset0 + 4 + 12;
+    const edited = applyRawByteEdit(base, draft, triggerFlags, 0x03);
+    expect(edited.triggerPolicy[0]!.flags).toBe(0x03);
+    expect(edited.rawBytes).toBeUndefined();
+
+    const unused = base.length - 100;
+    const withRaw = applyRawByteEdit(base, edited, unused, 0xab);
+    expect(withRaw.rawBytes).toEqual([{ offset: unused, value: 0xab }]);
+    const out = buildSettingsBlob(base, withRaw);
+    expect(out[unused]).toBe(0xab);
+    expect(parseSettingsBlob(out).header.crcValid).toBe(true);
+    expect(diffBlobRanges(base, out).map((r) => r.start)).toEqual([triggerFlags, unused, base.length - 4]);
+  });
+
+  it('refuses structural bytes', () => {
+    const inspection = inspectSettingsBlob(base);
+    expect(rawByteEditError(inspection, OrcaSettingsTlv.ProfileLabels.offset0)).toMatch(/structural/);
+    expect(rawByteEditError(inspection, base.length - 2)).toMatch(/CRC/);
+    expect(() => applyRawByteEdit(base, parseSettingsBlob(base).draft, 16, 9)).toThrow(/structural/);
+  });
+
+  it('refuses raw edits of reserved header flag bits', () => {
+    const draft = parseSettingsBlob(base).draft;
+    expect(() => applyRawByteEdit(base, draft, ORCA_CONFIG_SETTINGS_HEADER_FLAGS_OFFSET, draft.headerFlags! ^ 0x04)).toThrow('reserved bit 2');
+    expect(validateSettingsDraft({ ...draft, headerFlags: draft.headerFlags! ^ 0x04 }, draft).errors).toContain('Header flags: reserved bit 2 cannot be changed');
+  });
+});
@@ -0,0 +1,268 @@
+import {
+  ORCA_CONFIG_ORCA_ANALOG_INPUT_COUNT,
+  ORCA_CONFIG_ORCA_DIGITAL_INPUT_COUNT,
+  ORCA_CONFIG_SETTINGS_CHECKSUM_SIZE,
+  ORCA_CONFIG_SETTINGS_HEADER_ACTIVE_PROFILE_OFFSET,
+  ORCA_CONFIG_SETTINGS_HEADER_FLAGS_OFFSET,
+  ORCA_CONFIG_SETTINGS_HEADER_GENERATION_OFFSET,
+  ORCA_CONFIG_SETTINGS_HEADER_HEADER_SIZE_OFFSET,
+  ORCA_CONFIG_SETTINGS_HEADER_MAGIC_OFFSET,
+  ORCA_CONFIG_SETTINGS_HEADER_SIZE,
+  ORCA_CONFIG_SETTINGS_HEADER_VERSION_MAJOR_OFFSET,
+  ORCA_CONFIG_SETTINGS_HEADER_VERSION_MINOR_OFFSET,
+  ORCA_CONFIG_SETTINGS_TLV_HEADER_SIZE,
+  ORCA_CONFIG_SETTINGS_TLV_TOTAL_BYTES,
+  OrcaSettingsTlv,
+} from '@shared/orca_config_idl_generated';
+import { readU16Le } from './bytes';
+import { analogInputLabel, digitalInputLabel } from './orcaMappings';
+import { buildSettingsBlob, tryParseSettingsBlob, type RawByteOverride, type SettingsDraft } from './settingsBlob';
+import { validateHeaderFlagsChange } from './settingsHeaderFlags';
+import { alignTlv, scanSettingsTlvs, settingsTlvRecordLabel, type SettingsTlvName } from './settingsMigration';
+
+// First byte after the TLVs this build knows about; anything from here to the CRC is opaque.
+export const SETTINGS_KNOWN_TLV_END = ORCA_CONFIG_SETTINGS_HEADER_SIZE + ORCA_CONFIG_SETTINGS_TLV_TOTAL_BYTES;
+
+export type InspectedTlv = {
+  // Null for record types this build does not define.
+  name: SettingsTlvName | null;
+  label: string;
+  type: number;
+  length: number;
+  count: number;
+  stride: number;
+  index: number;
+  offset: number;
+  // The record header at `offset` matches the expected type and length.
+  valid: boolean;
+  gotType: number;
+  gotLength: number;
+};
+
+export type BlobRegionKind = 'header' | 'tlv-header' | 'field' | 'padding' | 'unknown' | 'unused' | 'crc';
+
+export type BlobRegion = {
+  start: number;
+  end: number;
+  kind: BlobRegionKind;
+  label: string;
+  // Structural bytes (record headers, identity fields, CRC) are never edited by hand.
+  editable: boolean;
+};
+
+export type SettingsBlobInspection = {
+  tlvs: InspectedTlv[];
+  regions: BlobRegion[];
+  // Region index for every byte of the blob.
+  regionAt: Int32Array;
+  issues: string[];
+};
+
+export type BlobByteRange = { start: number; end: number };
+
+type FieldDef = { offset: number; size: number; label: string };
+
+function axisFields(offset: number, stride: number, name: string): FieldDef[] {
+  return Array.from({ length: ORCA_CONFIG_ORCA_ANALOG_INPUT_COUNT }, (_, axis) => ({
+    offset: offset + axis * stride,
+    size: 4,
+    label: `${name} (${analogInputLabel(axis)})`,
+  }));
+}
+
+const AXIS_COUNT_FIELD: FieldDef = { offset: 0, size: 4, label: 'axis count' };
+
+const DPAD_SOURCES = ['enable', 'up', 'down', 'left', 'right'];
+
+// Byte layout of each record's payload, mirroring the readers in settingsBlob.ts.
+const TLV_FIELDS: Record<SettingsTlvName, FieldDef[]> = {
+  RangeCalibration: [AXIS_COUNT_FIELD, ...axisFields(4, 8, 'rest'), ...axisFields(8, 8, 'full press')],
+  DeadzoneCalibration: [AXIS_COUNT_FIELD, ...axisFields(4, 4, 'deadzone')],
+  NotchCalibration: [AXIS_COUNT_FIELD, ...axisFields(4, 4, 'notch')],
+  ProfileLabels: [{ offset: 0, size: OrcaSettingsTlv.ProfileLabels.length, label: 'label' }],
+  DigitalMappings: Array.from({ length: ORCA_CONFIG_ORCA_DIGITAL_INPUT_COUNT }, (_, i) => ({ offset: i, size: 1, label: digitalInputLabel(i) })),
+  AnalogMappings: Array.from({ length: ORCA_CONFIG_ORCA_ANALOG_INPUT_COUNT }, (_, i) => ({ offset: i, size: 1, label: analogInputLabel(i) })),
+  StickCurveParams: [
+    { offset: 0, size: 4, label: 'size' },
+    ...axisFields(4, 4, 'range'),
+    ...axisFields(24, 4, 'notch'),
+    ...axisFields(44, 4, 'dz_lower'),
+    ...axisFields(64, 4, 'dz_upper'),
+    { offset: 84, size: 4, label: 'notch_start_input' },
+    { offset: 88, size: 4, label: 'notch_end_input' },
+  ],
+  DpadLayer: [
+    { offset: 0, size: 1, label: 'mode_up' },
+    { offset: 1, size: 1, label: 'mode_down' },
+    { offset: 2, size: 1, label: 'mode_left' },
+    { offset: 3, size: 1, label: 'mode_right' },
+    ...DPAD_SOURCES.map((name, i) => ({ offset: 4 + i * 12, size: 12, label: `${name} source` })),
+  ],
+  TriggerPolicy: [
+    { offset: 0, size: 4, label: 'analogRangeMax' },
+    { offset: 4, size: 4, label: 'digitalFullPress' },
+    { offset: 8, size: 4, label: 'digitalLightshield' },
+    { offset: 12, size: 1, label: 'flags' },
+    { offset: 13, size: 1, label: 'digitalLightLtSrc' },
+    { offset: 14, size: 1, label: 'digitalLightRtSrc' },
+    { offset: 15, size: 1, label: 'digitalLightSrcVersion' },
+  ],
+};
+
+const HEADER_FIELDS: (FieldDef & { editable: boolean })[] = [
+  { offset: ORCA_CONFIG_SETTINGS_HEADER_MAGIC_OFFSET, size: 16, label: 'Header · magic', editable: false },
+  { offset: ORCA_CONFIG_SETTINGS_HEADER_VERSION_MAJOR_OFFSET, size: 1, label: 'Header · version major', editable: false },
+  { offset: ORCA_CONFIG_SETTINGS_HEADER_VERSION_MINOR_OFFSET, size: 1, label: 'Header · version minor', editable: false },
+  { offset: ORCA_CONFIG_SETTINGS_HEADER_HEADER_SIZE_OFFSET, size: 2, label: 'Header · header size', editable: false },
+  { offset: ORCA_CONFIG_SETTINGS_HEADER_GENERATION_OFFSET, size: 4, label: 'Header · generation', editable: true },
+  { offset: ORCA_CONFIG_SETTINGS_HEADER_ACTIVE_PROFILE_OFFSET, size: 1, label: 'Header · active profile', editable: true },
+  { offset: ORCA_CONFIG_SETTINGS_HEADER_FLAGS_OFFSET, size: 1, label: 'Header · flags', editable: true },
+];
+
+function pushRecordRegions(regions: BlobRegion[], offset: number, length: number, stride: number, label: string, fields: FieldDef[] | null) {
+  const dataStart = offset + ORCA_CONFIG_SETTINGS_TLV_HEADER_SIZE;
+  regions.push({ start: offset, end: dataStart, kind: 'tlv-header', label: `${label} · TLV header`, editable: false });
+  if (fields) {
+    for (const f of fields) {
+      if (f.offset + f.size > length) continue;
+      regions.push({ start: dataStart + f.offset, end: dataStart + f.offset + f.size, kind: 'field', label: `${label} · ${f.label}`, editable: true });
+    }
+  } else {
+    regions.push({ start: dataStart, end: dataStart + length, kind: 'unknown', label, editable: true });
+  }
+  if (stride > ORCA_CONFIG_SETTINGS_TLV_HEADER_SIZE + length) {
+    regions.push({ start: dataStart + length, end: offset + stride, kind: 'padding', label: `${label} · padding`, editable: true });
+  }
+}
+
+// Sort regions and label every byte no region covers, so each byte maps to exactly one region.
+function fillGaps(regions: BlobRegion[], size: number): BlobRegion[] {
+  const sorted = [...regions].sort((a, b) => a.start - b.start);
+  const out: BlobRegion[] = [];
+  let pos = 0;
+  for (const r of sorted) {
+    if (r.start < pos) continue;
+    if (r.start > pos) {
+      const kind: BlobRegionKind = pos < ORCA_CONFIG_SETTINGS_HEADER_SIZE ? 'header' : 'unused';
+      out.push({ start: pos, end: r.start, kind, label: kind === 'header' ? 'Header · reserved' : 'Unused', editable: true });
+    }
+    out.push(r);
+    pos = r.end;
+  }
+  if (pos < size) out.push({ start: pos, end: size, kind: 'unused', label: 'Unused', editable: true });
+  return out;
+}
+
+/**
+ * Annotate every byte of a settings blob: header fields, each record the IDL defines (with
+ * its payload fields), any extra records found after the known ones, unused space and the
+ * trailing CRC. Records whose header does not match the IDL are listed as invalid.
+ */
+export function inspectSettingsBlob(blob: Uint8Array): SettingsBlobInspection {
+  const tlvs: InspectedTlv[] = [];
+  const regions: BlobRegion[] = [];
+  const issues: string[] = [];
+  const crcStart = blob.length - ORCA_CONFIG_SETTINGS_CHECKSUM_SIZE;
+
+  for (const f of HEADER_FIELDS) {
+    regions.push({ start: f.offset, end: f.offset + f.size, kind: 'header', label: f.label, editable: f.editable });
+  }
+
+  for (const name of Object.keys(OrcaSettingsTlv) as SettingsTlvName[]) {
+    const tlv = OrcaSettingsTlv[name];
+    for (let i = 0; i < tlv.count; i++) {
+      const offset = tlv.offset0 + i * tlv.stride;
+      if (offset + ORCA_CONFIG_SETTINGS_TLV_HEADER_SIZE + tlv.length > crcStart) continue;
+      const gotType = readU16Le(blob, offset);
+      const gotLength = readU16Le(blob, offset + 2);
+      const label = settingsTlvRecordLabel(name, i);
+      const valid = gotType === tlv.type && gotLength === tlv.length;
+      if (!valid) issues.push(`${label}: expected type ${tlv.type} length ${tlv.length}, found type ${gotType} length ${gotLength}`);
+      tlvs.push({ name, label, type: tlv.type, length: tlv.length, count: tlv.count, stride: tlv.stride, index: i, offset, valid, gotType, gotLength });
+      pushRecordRegions(regions, offset, tlv.length, tlv.stride, label, TLV_FIELDS[name]);
+    }
+  }
+
+  let extra: ReturnType<typeof scanSettingsTlvs> = [];
+  try {
+    extra = scanSettingsTlvs(blob, SETTINGS_KNOWN_TLV_END);
+  } catch (e) {
+    issues.push(`After known records: ${e instanceof Error ? e.message : String(e)}`);
+  }
+  const seen = new Map<number, number>();
+  for (const record of extra) {
+    const index = seen.get(record.type) ?? 0;
+    seen.set(record.type, index + 1);
+    const length = record.data.length;
+    const stride = alignTlv(ORCA_CONFIG_SETTINGS_TLV_HEADER_SIZE + length);
+    const label = `Type ${record.type} #${index + 1}`;
+    tlvs.push({ name: null, label, type: record.type, length, count: 0, stride, index, offset: record.offset, valid: true, gotType: record.type, gotLength: length });
+    pushRecordRegions(regions, record.offset, length, stride, label, null);
+  }
+  for (const t of tlvs) {
+    if (t.name === null) t.count = seen.get(t.type) ?? 0;
+  }
+
+  regions.push({ start: crcStart, end: blob.length, kind: 'crc', label: 'CRC32', editable: false });
+  const filled = fillGaps(regions, blob.length);
+  const regionAt = new Int32Array(blob.length);
+  filled.forEach((r, idx) => regionAt.fill(idx, r.start, r.end));
+  return { tlvs, regions: filled, regionAt, issues };
+}
+
+/** Ranges of bytes that differ between two blobs of the same size, adjacent bytes merged. */
+export function diffBlobRanges(a: Uint8Array, b: Uint8Array): BlobByteRange[] {
+  const ranges: BlobByteRange[] = [];
+  const n = Math.min(a.length, b.length);
+  for (let i = 0; i < n; i++) {
+    if (a[i] === b[i]) continue;
+    const last = ranges[ranges.length - 1];
+    if (last && last.end === i) last.end = i + 1;
+    else ranges.push({ start: i, end: i + 1 });
+  }
+  if (a.length !== b.length) ranges.push({ start: n, end: Math.max(a.length, b.length) });
+  return ranges;
+}
+
+/** Why a byte may not be edited by hand, or null if it may. */
+export function rawByteEditError(inspection: SettingsBlobInspection, offset: number): string | null {
+  const region = inspection.regions[inspection.regionAt[offset] ?? -1];
+  if (!region) return 'Offset out of range';
+  if (region.kind === 'crc') return 'The CRC is recomputed on every change';
+  if (!region.editable) return `${region.label} is structural and cannot be edited`;
+  return null;
+}
+
+/**
+ * Apply one hand-edited byte to a draft. The edited blob is re-parsed so structured fields pick
+ * up the change; bytes the draft has no field for are kept as raw overrides. Throws if the
+ * edit would leave the blob unreadable.
+ */
+export function applyRawByteEdit(baseBlob: Uint8Array, draft: SettingsDraft, offset: number, value: number): SettingsDraft {
+  if (!Number.isInteger(value) || value < 0 || value > 0xff) throw new Error('Byte value must be 0-255');
+  const current = buildSettingsBlob(baseBlob, draft);
+  const error = rawByteEditError(inspectSettingsBlob(current), offset);
+  if (error) throw new Error(error);
+
+  if (offset === ORCA_CONFIG_SETTINGS_HEADER_FLAGS_OFFSET) {
+    const [flagsError] = validateHeaderFlagsChange(current[offset] ?? 0, value);
+    if (flagsError) throw new Error(flagsError);
+  }
+
+  const edited = current.slice();
+  edited[offset] = value;
+  const res = tryParseSettingsBlob(edited);
+  if (!res.ok) throw new Error(`Edit would make the settings unreadable: ${res.error}`);
+
+  const wanted = new Map<number, number>((draft.rawBytes ?? []).map((o) => [o.offset, o.value]));
+  wanted.set(offset, value);
+  const next: SettingsDraft = { ...res.value.draft };
+  delete next.rawBytes;
+  const structured = buildSettingsBlob(baseBlob, next);
+  const rawBytes: RawByteOverride[] = [...wanted]
+    .filter(([off, v]) => structured[off] !== v)
+    .sort(([a], [b]) => a - b)
+    .map(([off, v]) => ({ offset: off, value: v }));
+  if (rawBytes.length > 0) next.rawBytes = rawBytes;
+  return next;
+}
@@ -0,0 +1,44 @@
+import { describe, expect, it } from 'vitest';
+import { cloneDraft } from '../app/domain/cloneDraft';
+import { makeDefaultSettingsBlob } from './settingsDefaults';
+import { parseSettingsBlob } from './settingsBlob';
+import { formatDraftValue, mergeSettingsDrafts, resolveDraftMerge } from './settingsMerge';
+
+describe('mergeSettingsDrafts', () => {
+  const base = parseSettingsBlob(makeDefaultSettingsBlob(0, 1)).draft;
+
+  it('combines non-overlapping edits from both sides', () => {
+    const ours = cloneDraft(base);
+    ours.profileLabels[0] = 'Mine';
+    ours.digitalMappings[0]![0] = 1;
+    const theirs = cloneDraft(base);
+    theirs.triggerPolicy[2]!.digitalFullPress = 1;
+    theirs.digitalMappings[0]![1] = 0;
+
+    const { merged, conflicts } = mergeSettingsDrafts(base, ours, theirs);
+    expect(conflicts).toEqual([]);
+    expect(merged.profileLabels[0]).toBe('Mine');
+    expect(merged.digitalMappings[0]!.slice(0, 2)).toEqual([1, 0]);
+    expect(merged.triggerPolicy[2]!.digitalFullPress).toBe(1);
+  });
+
+  it('reports conflicting fields and resolves them per choice', () => {
+    const ours = cloneDraft(base);
+    ours.profileLabels[1] = 'Mine';
+    ours.dpadLayer[0]!.up = { type: 1, index: 9, threshold: 0, hysteresis: 0 };
+    const theirs = cloneDraft(base);
+    theirs.profileLabels[1] = 'Theirs';
+    theirs.dpadLayer[0]!.up = { type: 2, index: 2, threshold: 0.5, hysteresis: 0.05 };
+
+    const result = mergeSettingsDrafts(base, ours, theirs);
+    expect(result.conflicts.map((c) => c.label)).toEqual(['Profile 2 · Label', 'Profile 1 · DPAD layer · up']);
+    expect(formatDraftValue(result.conflicts[1]!.path, result.conflicts[1]!.theirs)).toBe('Control Stick Y Up ≥ 0.5 (hyst 0.05)');
+    expect(result.merged.profileLabels[1]).toBe('Mine');
+
+    const resolved = resolveDraftMerge(result, ['theirs', 'ours']);
+    expect(resolved.profileLabels[1]).toBe('Theirs');
+    expect(resolved.dpadLayer[0]!.up.index).toBe(9);
+    // Resolving does not touch the merge result.
+    expect(result.merged.profileLabels[1]).toBe('Mine');
+  });
+});
@@ -0,0 +1,133 @@
+import { ORCA_ANALOG_MAPPING_DISABLED, analogInputLabel, digitalInputLabel } from './orcaMappings';
+import type { DigitalSourceV1, SettingsDraft } from './settingsBlob';
+import { SETTINGS_CHANGE_SECTION_LABELS, formatDigitalSource, type SettingsChangeSection } from './settingsDiff';
+
+export type DraftPath = (string | number)[];
+
+export type DraftMergeConflict = {
+  path: DraftPath;
+  label: string;
+  base: unknown;
+  ours: unknown;
+  theirs: unknown;
+};
+
+export type DraftMergeResult = {
+  // Conflicting fields default to `ours` until resolved.
+  merged: SettingsDraft;
+  conflicts: DraftMergeConflict[];
+};
+
+export type DraftMergeChoice = 'ours' | 'theirs';
+
+const SECTION_BY_KEY: Record<string, SettingsChangeSection> = {
+  profileLabels: 'label',
+  digitalMappings: 'digital',
+  analogMappings: 'analog',
+  dpadLayer: 'dpad',
+  triggerPolicy: 'trigger',
+  stickCurveParams: 'stick',
+};
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isDigitalSource(value: unknown): value is DigitalSourceV1 {
+  return isRecord(value) && 'type' in value && 'index' in value;
+}
+
+function deepEqual(a: unknown, b: unknown): boolean {
+  if (a === b) return true;
+  if (Array.isArray(a) && Array.isArray(b)) {
+    return a.length === b.length && a.every((v, i) => deepEqual(v, b[i]));
+  }
+  if (isRecord(a) && isRecord(b)) {
+    const keys = Object.keys(a);
+    return keys.length === Object.keys(b).length && keys.every((k) => deepEqual(a[k], b[k]));
+  }
+  return false;
+}
+
+function mergeValue(base: unknown, ours: unknown, theirs: unknown, path: DraftPath, conflicts: DraftMergeConflict[]): unknown {
+  if (deepEqual(ours, theirs)) return ours;
+  if (deepEqual(ours, base)) return theirs;
+  if (deepEqual(theirs, base)) return ours;
+
+  if (Array.isArray(base) && Array.isArray(ours) && Array.isArray(theirs)
+    && base.length === ours.length && base.length === theirs.length) {
+    return base.map((b, i) => mergeValue(b, ours[i], theirs[i], [...path, i], conflicts));
+  }
+  // Digital sources are edited as a unit; mixing their fields would produce a source nobody chose.
+  if (isRecord(base) && isRecord(ours) && isRecord(theirs) && !isDigitalSource(base)) {
+    const out: Record<string, unknown> = {};
+    for (const key of Object.keys(base)) out[key] = mergeValue(base[key], ours[key], theirs[key], [...path, key], conflicts);
+    return out;
+  }
+
+  conflicts.push({ path, label: formatDraftPath(path), base, ours, theirs });
+  return ours;
+}
+
+/**
+ * Three-way merge of settings drafts. `base` is the draft both sides started from, `ours` the
+ * local edits and `theirs` what the controller has now. Non-overlapping changes from both sides
+ * are combined; fields changed differently on both sides are reported as conflicts.
+ */
+export function mergeSettingsDrafts(base: SettingsDraft, ours: SettingsDraft, theirs: SettingsDraft): DraftMergeResult {
+  const conflicts: DraftMergeConflict[] = [];
+  const merged = mergeValue(base, ours, theirs, [], conflicts) as SettingsDraft;
+  return { merged: structuredClone(merged), conflicts };
+}
+
+function setAtPath(target: unknown, path: DraftPath, value: unknown) {
+  let node = target as Record<string | number, unknown>;
+  for (const key of path.slice(0, -1)) node = node[key] as Record<string | number, unknown>;
+  node[path[path.length - 1]!] = structuredClone(value);
+}
+
+/** Apply per-conflict choices (index-aligned with `result.conflicts`) and return the final draft. */
+export function resolveDraftMerge(result: DraftMergeResult, choices: DraftMergeChoice[]): SettingsDraft {
+  const draft = structuredClone(result.merged);
+  result.conflicts.forEach((conflict, i) => {
+    if (choices[i] === 'theirs') setAtPath(draft, conflict.path, conflict.theirs);
+  });
+  return draft;
+}
+
+/** Human-readable name for a field in a draft, e.g. "Profile 2 · Buttons · A". */
+export function formatDraftPath(path: DraftPath): string {
+  const [key, profile, field, sub] = path;
+  if (key === 'activeProfile') return 'Default profile';
+  if (key === 'headerFlags') return 'Header flags';
+  if (key === 'rawBytes') return 'Raw bytes';
+  if (key === 'calibration') {
+    // ['calibration', 'range', 'lower', axis] or ['calibration', 'notch', axis]
+    const axis = path[path.length - 1];
+    const name = path.slice(1, -1).join('.');
+    return typeof axis === 'number' ? `Calibration · ${name} (${analogInputLabel(axis)})` : `Calibration · ${path.slice(1).join('.')}`;
+  }
+  const section = typeof key === 'string' ? SECTION_BY_KEY[key] : undefined;
+  if (!section || typeof profile !== 'number') return path.join('.');
+
+  const parts = [`Profile ${profile + 1}`, SETTINGS_CHANGE_SECTION_LABELS[section]];
+  if (section === 'digital' && typeof field === 'number') parts.push(digitalInputLabel(field));
+  else if (section === 'analog' && typeof field === 'number') parts.push(analogInputLabel(field));
+  else if (section === 'stick' && typeof sub === 'number') parts.push(`${field} (${analogInputLabel(sub)})`);
+  else if (field !== undefined) parts.push([field, sub].filter((p) => p !== undefined).join('.'));
+  return parts.join(' · ');
+}
+
+/** Render a conflicting value in the context of its path. */
+export function formatDraftValue(path: DraftPath, value: unknown): string {
+  if (value === undefined) return '—';
+  const key = path[0];
+  if (typeof value === 'number' && path.length === 3) {
+    if (key === 'digitalMappings') return digitalInputLabel(value);
+    if (key === 'analogMappings') return value === ORCA_ANALOG_MAPPING_DISABLED ? 'Disabled' : analogInputLabel(value);
+  }
+  if (isDigitalSource(value)) return formatDigitalSource(value);
+  if (typeof value === 'number') return String(Math.round(value * 1000) / 1000);
+  if (typeof value === 'string') return value;
+  return JSON.stringify(value);
+}
@@ -0,0 +1,111 @@
+import { describe, expect, it } from 'vitest';
+import {
+  ORCA_CONFIG_SETTINGS_BLOB_SIZE,
+  ORCA_CONFIG_SETTINGS_HEADER_ACTIVE_PROFILE_OFFSET,
+  ORCA_CONFIG_SETTINGS_HEADER_GENERATION_OFFSET,
+  ORCA_CONFIG_SETTINGS_HEADER_HEADER_SIZE_OFFSET,
+  ORCA_CONFIG_SETTINGS_HEADER_VERSION_MAJOR_OFFSET,
+  ORCA_CONFIG_SETTINGS_HEADER_VERSION_MINOR_OFFSET,
+  OrcaSettingsTlv,
+} from '@shared/orca_config_idl_generated';
+import { makeDefaultSettingsBlob, sealSettingsBlob } from './settingsDefaults';
+import { writeU16Le, writeU32Le } from './bytes';
+import { parseSettingsBlob } from './settingsBlob';
+import { loadSettingsBlob, migrateSettingsBlob, scanSettingsTlvs } from './settingsMigration';
+
+type LegacyRecord = { type: number; data: Uint8Array };
+
+// Pack records back to back after a header of `headerSize`, the way older firmware laid them out.
+function makeLegacyBlob(current: Uint8Array, headerSize: number, minor: number, records: LegacyRecord[]): Uint8Array {
+  const blob = new Uint8Array(ORCA_CONFIG_SETTINGS_BLOB_SIZE);
+  blob.set(current.subarray(0, 16));
+  blob[ORCA_CONFIG_SETTINGS_HEADER_VERSION_MAJOR_OFFSET] = 1;
+  blob[ORCA_CONFIG_SETTINGS_HEADER_VERSION_MINOR_OFFSET] = minor;
+  writeU16Le(blob, ORCA_CONFIG_SETTINGS_HEADER_HEADER_SIZE_OFFSET, headerSize);
+  writeU32Le(blob, ORCA_CONFIG_SETTINGS_HEADER_GENERATION_OFFSET, 41);
+  blob[ORCA_CONFIG_SETTINGS_HEADER_ACTIVE_PROFILE_OFFSET] = 2;
+  let off = headerSize;
+  for (const { type, data } of records) {
+    writeU16Le(blob, off, type);
+    writeU16Le(blob, off + 2, data.length);
+    blob.set(data, off + 4);
+    off += 4 + data.length + ((4 + data.length) % 2);
+  }
+  sealSettingsBlob(blob);
+  return blob;
+}
+
+function currentRecords(blob: Uint8Array, tlv: { offset0: number; stride: number; length: number; type: number }, count: number) {
+  return Array.from({ length: count }, (_, i) => {
+    const off = tlv.offset0 + i * tlv.stride + 4;
+    return { type: tlv.type, data: blob.slice(off, off + tlv.length) };
+  });
+}
+
+describe('settings migration', () => {
+  const defaults = makeDefaultSettingsBlob(0, 1);
+
+  it('scans the current layout record by record', () => {
+    const records = scanSettingsTlvs(defaults, 128);
+    const total = Object.values(OrcaSettingsTlv).reduce((n, t) => n + t.count, 0);
+    expect(records).toHaveLength(total);
+    expect(records.map((r) => r.offset).slice(0, 3)).toEqual([128, 176, 204]);
+  });
+
+  it('upgrades a v1 blob with a short header, fewer profiles and shorter records', () => {
+    const labels = currentRecords(defaults, OrcaSettingsTlv.ProfileLabels, 6);
+    labels[1] = { type: OrcaSettingsTlv.ProfileLabels.type, data: new Uint8Array(32) };
+    labels[1].data.set(new TextEncoder().encode('Legacy'));
+    const dpad = currentRecords(defaults, OrcaSettingsTlv.DpadLayer, 6);
+    dpad[0]!.data.fill(0, 0, 4);
+    dpad[0]!.data[0] = 2;
+    const triggers = currentRecords(defaults, OrcaSettingsTlv.TriggerPolicy, 6).map((r) => ({ ...r, data: r.data.slice(0, 12) }));
+
+    const legacy = makeLegacyBlob(defaults, 32, 4, [
+      ...labels,
+      ...currentRecords(defaults, OrcaSettingsTlv.DigitalMappings, 6),
+      ...dpad,
+      ...triggers,
+      { type: 42, data: new Uint8Array(6) },
+    ]);
+
+    const { parsed, migration } = migrateSettingsBlob(legacy, defaults);
+    expect(migration.from).toEqual({ major: 1, minor: 4 });
+    expect(migration.to.major).toBe(2);
+    expect(migration.steps).toHaveLength(1);
+    expect(parsed.header.generation).toBe(41);
+    expect(parsed.draft.activeProfile).toBe(2);
+    expect(parsed.draft.profileLabels[1]).toBe('Legacy');
+    expect(parsed.draft.dpadLayer[0]).toMatchObject({ mode_up: 2, mode_down: 2, mode_left: 2, mode_right: 2 });
+
+    const byField = new Map(migration.entries.map((e) => [e.field, e]));
+    expect(byField.get('Profile 2 · Label')?.status).toBe('carried');
+    expect(byField.get('Profile 7 · Label')?.status).toBe('defaulted');
+    expect(byField.get('Profile 1 · Triggers')?.detail).toBe('12 of 16 bytes; the rest defaulted');
+    expect(byField.get('Range calibration')?.status).toBe('defaulted');
+    expect(byField.get('Unknown record type 42')?.status).toBe('dropped');
+  });
+
+  it('expands single-mode DPAD layers only for v1.4 and earlier', () => {
+    // v1.4 layer: one mode at byte 0, bytes 1..3 reserved; a v1.5 layer with the same bytes
+    // means "up only".
+    const layer = currentRecords(defaults, OrcaSettingsTlv.DpadLayer, 1)[0]!;
+    layer.data.set([3, 0, 0, 0]);
+    const modes = (minor: number) => {
+      const { parsed } = migrateSettingsBlob(makeLegacyBlob(defaults, 32, minor, [layer]), defaults);
+      const { mode_up, mode_down, mode_left, mode_right } = parsed.draft.dpadLayer[0]!;
+      return [mode_up, mode_down, mode_left, mode_right];
+    };
+    expect(modes(4)).toEqual([3, 3, 3, 3]);
+    expect(modes(5)).toEqual([3, 0, 0, 0]);
+  });
+
+  it('passes current blobs through and rejects corrupted ones', () => {
+    expect(loadSettingsBlob(defaults, defaults).migration).toBeNull();
+    expect(parseSettingsBlob(loadSettingsBlob(defaults, defaults).blob).draft).toEqual(parseSettingsBlob(defaults).draft);
+
+    const legacy = makeLegacyBlob(defaults, 32, 5, currentRecords(defaults, OrcaSettingsTlv.ProfileLabels, 8));
+    legacy[40] ^= 0xff;
+    expect(() => loadSettingsBlob(legacy, defaults)).toThrow(/CRC mismatch/);
+  });
+});
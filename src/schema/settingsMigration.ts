@@ -0,0 +1,296 @@
+import {
+  ORCA_CONFIG_SETTINGS_CHECKSUM_SIZE,
+  ORCA_CONFIG_SETTINGS_HEADER_ACTIVE_PROFILE_OFFSET,
+  ORCA_CONFIG_SETTINGS_HEADER_FLAGS_OFFSET,
+  ORCA_CONFIG_SETTINGS_HEADER_GENERATION_OFFSET,
+  ORCA_CONFIG_SETTINGS_HEADER_HEADER_SIZE_OFFSET,
+  ORCA_CONFIG_SETTINGS_HEADER_MAGIC_OFFSET,
+  ORCA_CONFIG_SETTINGS_HEADER_VERSION_MAJOR_OFFSET,
+  ORCA_CONFIG_SETTINGS_HEADER_VERSION_MINOR_OFFSET,
+  ORCA_CONFIG_SETTINGS_PROFILE_COUNT,
+  ORCA_CONFIG_SETTINGS_TLV_ALIGNMENT,
+  ORCA_CONFIG_SETTINGS_TLV_HEADER_SIZE,
+  ORCA_CONFIG_SETTINGS_VERSION_MAJOR,
+  OrcaSettingsTlv,
+} from '@shared/orca_config_idl_generated';
+import { decodeNullTerminatedAscii, readU16Le, readU32Le, writeU16Le, writeU32Le } from './bytes';
+import { crc32 } from './crc32';
+import { parseSettingsBlob, tryParseSettingsBlob, type ParsedSettings } from './settingsBlob';
+
+// Smallest header that still holds every field up to the flags byte.
+const MIN_HEADER_SIZE = ORCA_CONFIG_SETTINGS_HEADER_FLAGS_OFFSET + 1;
+
+export type SettingsTlvRecord = {
+  type: number;
+  offset: number;
+  data: Uint8Array;
+};
+
+export type SettingsVersion = { major: number; minor: number };
+
+/**
+ * A settings blob of any version, reduced to its header fields and TLV payloads grouped by
+ * type (in blob order). Migration steps edit this in place.
+ */
+export type SettingsMigrationDocument = {
+  version: SettingsVersion;
+  magic: string;
+  generation: number;
+  activeProfile: number;
+  flags: number;
+  records: Map<number, Uint8Array[]>;
+};
+
+export type SettingsMigrationStatus = 'carried' | 'defaulted' | 'dropped';
+
+export type SettingsMigrationEntry = {
+  field: string;
+  status: SettingsMigrationStatus;
+  detail?: string;
+};
+
+export type SettingsMigrationReport = {
+  from: SettingsVersion;
+  to: SettingsVersion;
+  // Descriptions of the version steps that ran, oldest first.
+  steps: string[];
+  entries: SettingsMigrationEntry[];
+};
+
+export type SettingsMigrationStep = {
+  fromMajor: number;
+  description: string;
+  migrate: (doc: SettingsMigrationDocument) => void;
+};
+
+export type LoadedSettingsBlob = {
+  blob: Uint8Array;
+  parsed: ParsedSettings;
+  // Null when the blob already used the current layout.
+  migration: SettingsMigrationReport | null;
+};
+
+export type SettingsTlvName = keyof typeof OrcaSettingsTlv;
+
+const TLV_NAMES = Object.keys(OrcaSettingsTlv) as SettingsTlvName[];
+
+const TLV_LABELS: Record<SettingsTlvName, string> = {
+  RangeCalibration: 'Range calibration',
+  DeadzoneCalibration: 'Deadzone calibration',
+  NotchCalibration: 'Notch calibration',
+  ProfileLabels: 'Label',
+  DigitalMappings: 'Buttons',
+  AnalogMappings: 'Analog',
+  StickCurveParams: 'Stick curve',
+  DpadLayer: 'DPAD layer',
+  TriggerPolicy: 'Triggers',
+};
+
+/** Display name for one record, e.g. "Profile 3 · Triggers". */
+export function settingsTlvRecordLabel(name: SettingsTlvName, index: number): string {
+  const tlv = OrcaSettingsTlv[name];
+  if (tlv.count === ORCA_CONFIG_SETTINGS_PROFILE_COUNT) return `Profile ${index + 1} · ${TLV_LABELS[name]}`;
+  return tlv.count > 1 ? `${TLV_LABELS[name]} ${index + 1}` : TLV_LABELS[name];
+}
+
+export function alignTlv(size: number): number {
+  const a = ORCA_CONFIG_SETTINGS_TLV_ALIGNMENT;
+  return Math.ceil(size / a) * a;
+}
+
+/**
+ * Walk the TLV records from `start` (normally the header size). Records are self-describing
+ * and packed back to back, so this works for any historical layout regardless of header
+ * size, record lengths or profile count. Stops at erased/zeroed space.
+ */
+export function scanSettingsTlvs(blob: Uint8Array, start: number): SettingsTlvRecord[] {
+  const end = blob.length - ORCA_CONFIG_SETTINGS_CHECKSUM_SIZE;
+  const records: SettingsTlvRecord[] = [];
+  let off = start;
+  while (off + ORCA_CONFIG_SETTINGS_TLV_HEADER_SIZE <= end) {
+    const type = readU16Le(blob, off);
+    const length = readU16Le(blob, off + 2);
+    if (type === 0xffff || length === 0) break;
+    const dataStart = off + ORCA_CONFIG_SETTINGS_TLV_HEADER_SIZE;
+    if (dataStart + length > end) {
+      throw new Error(`TLV out of range (type=${type}, offset=${off}, length=${length})`);
+    }
+    records.push({ type, offset: off, data: blob.slice(dataStart, dataStart + length) });
+    off = alignTlv(dataStart + length);
+  }
+  return records;
+}
+
+export function readSettingsMigrationDocument(blob: Uint8Array): SettingsMigrationDocument {
+  if (blob.length < MIN_HEADER_SIZE + ORCA_CONFIG_SETTINGS_CHECKSUM_SIZE) {
+    throw new Error(`Unexpected blob size (${blob.length})`);
+  }
+  const storedCrc32 = readU32Le(blob, blob.length - ORCA_CONFIG_SETTINGS_CHECKSUM_SIZE);
+  if (storedCrc32 !== crc32([blob.slice(0, blob.length - ORCA_CONFIG_SETTINGS_CHECKSUM_SIZE)])) {
+    throw new Error('Settings CRC mismatch; refusing to migrate a corrupted blob');
+  }
+  const headerSize = readU16Le(blob, ORCA_CONFIG_SETTINGS_HEADER_HEADER_SIZE_OFFSET);
+  if (headerSize < MIN_HEADER_SIZE || headerSize >= blob.length - ORCA_CONFIG_SETTINGS_CHECKSUM_SIZE) {
+    throw new Error(`Unsupported settings header size (${headerSize})`);
+  }
+
+  const records = new Map<number, Uint8Array[]>();
+  for (const record of scanSettingsTlvs(blob, headerSize)) {
+    const list = records.get(record.type) ?? [];
+    list.push(record.data);
+    records.set(record.type, list);
+  }
+
+  return {
+    version: {
+      major: blob[ORCA_CONFIG_SETTINGS_HEADER_VERSION_MAJOR_OFFSET] ?? 0,
+      minor: blob[ORCA_CONFIG_SETTINGS_HEADER_VERSION_MINOR_OFFSET] ?? 0,
+    },
+    magic: decodeNullTerminatedAscii(blob.slice(ORCA_CONFIG_SETTINGS_HEADER_MAGIC_OFFSET, ORCA_CONFIG_SETTINGS_HEADER_MAGIC_OFFSET + 16)),
+    generation: readU32Le(blob, ORCA_CONFIG_SETTINGS_HEADER_GENERATION_OFFSET),
+    activeProfile: blob[ORCA_CONFIG_SETTINGS_HEADER_ACTIVE_PROFILE_OFFSET] ?? 0,
+    flags: blob[ORCA_CONFIG_SETTINGS_HEADER_FLAGS_OFFSET] ?? 0,
+    records,
+  };
+}
+
+/**
+ * Version steps, one per major bump. Layout changes (header size, record lengths, strides,
+ * profile count) are absorbed by the record walk and the final re-layout, so steps only
+ * carry changes in meaning. Record types have kept their numbering since v1.
+ */
+export const SETTINGS_MIGRATIONS: readonly SettingsMigrationStep[] = [
+  {
+    fromMajor: 1,
+    description: 'v1 → v2: expand single-mode DPAD layers (v1.4 and earlier) to per-direction modes',
+    migrate: (doc) => {
+      if (doc.version.minor < 5) {
+        // v1.4 stored one DPAD mode at byte 0; bytes 1..3 were reserved. Same rule as the v1.4
+        // read path in parseSettingsBlob, which only applies while the header still says v1.
+        for (const data of doc.records.get(OrcaSettingsTlv.DpadLayer.type) ?? []) {
+          if (data.length < 4 || data[1] || data[2] || data[3]) continue;
+          data[1] = data[0]!;
+          data[2] = data[0]!;
+          data[3] = data[0]!;
+        }
+      }
+      doc.version = { major: 2, minor: 0 };
+    },
+  },
+];
+
+function runMigrationSteps(doc: SettingsMigrationDocument): string[] {
+  if (doc.version.major > ORCA_CONFIG_SETTINGS_VERSION_MAJOR) {
+    throw new Error(`Settings v${doc.version.major}.${doc.version.minor} are newer than this configurator supports`);
+  }
+  const steps: string[] = [];
+  while (doc.version.major < ORCA_CONFIG_SETTINGS_VERSION_MAJOR) {
+    const step = SETTINGS_MIGRATIONS.find((s) => s.fromMajor === doc.version.major);
+    if (!step) throw new Error(`No migration from settings v${doc.version.major}`);
+    step.migrate(doc);
+    steps.push(step.description);
+  }
+  return steps;
+}
+
+/**
+ * Upgrade a settings blob from any supported version to the current layout. `targetBase` is a
+ * current-layout blob (the slot's current settings or factory defaults) supplying the header
+ * and every field the source does not have. The result is re-sealed and parsed.
+ */
+export function migrateSettingsBlob(blob: Uint8Array, targetBase: Uint8Array): LoadedSettingsBlob & { migration: SettingsMigrationReport } {
+  const target = parseSettingsBlob(targetBase);
+  const doc = readSettingsMigrationDocument(blob);
+  if (doc.magic !== target.header.magic) {
+    throw new Error(`Not an Orca settings blob (magic "${doc.magic}")`);
+  }
+
+  const from = { ...doc.version };
+  const steps = runMigrationSteps(doc);
+  const entries: SettingsMigrationEntry[] = [];
+  const out = targetBase.slice();
+
+  writeU32Le(out, ORCA_CONFIG_SETTINGS_HEADER_GENERATION_OFFSET, doc.generation);
+  if (doc.activeProfile < ORCA_CONFIG_SETTINGS_PROFILE_COUNT) {
+    out[ORCA_CONFIG_SETTINGS_HEADER_ACTIVE_PROFILE_OFFSET] = doc.activeProfile;
+    entries.push({ field: 'Default profile', status: 'carried' });
+  } else {
+    entries.push({ field: 'Default profile', status: 'defaulted', detail: `Profile ${doc.activeProfile + 1} no longer exists` });
+  }
+  out[ORCA_CONFIG_SETTINGS_HEADER_FLAGS_OFFSET] = doc.flags;
+  entries.push({ field: 'Header flags', status: 'carried' });
+
+  for (const name of TLV_NAMES) {
+    const tlv = OrcaSettingsTlv[name];
+    const source = doc.records.get(tlv.type) ?? [];
+    for (let i = 0; i < tlv.count; i++) {
+      const field = settingsTlvRecordLabel(name, i);
+      const data = source[i];
+      if (!data) {
+        entries.push({ field, status: 'defaulted', detail: 'Not present in source' });
+        continue;
+      }
+      const off = tlv.offset0 + i * tlv.stride;
+      writeU16Le(out, off, tlv.type);
+      writeU16Le(out, off + 2, tlv.length);
+      out.set(data.subarray(0, tlv.length), off + ORCA_CONFIG_SETTINGS_TLV_HEADER_SIZE);
+      if (data.length === tlv.length) {
+        entries.push({ field, status: 'carried' });
+      } else if (data.length < tlv.length) {
+        entries.push({ field, status: 'carried', detail: `${data.length} of ${tlv.length} bytes; the rest defaulted` });
+      } else {
+        entries.push({ field, status: 'carried', detail: `Truncated; ${data.length - tlv.length} trailing bytes dropped` });
+      }
+    }
+    for (let i = tlv.count; i < source.length; i++) {
+      entries.push({ field: settingsTlvRecordLabel(name, i), status: 'dropped', detail: `Only ${tlv.count} supported` });
+    }
+  }
+
+  const knownTypes = new Set<number>(TLV_NAMES.map((name) => OrcaSettingsTlv[name].type));
+  for (const [type, list] of doc.records) {
+    if (knownTypes.has(type)) continue;
+    entries.push({ field: `Unknown record type ${type}`, status: 'dropped', detail: `${list.length} record${list.length === 1 ? '' : 's'}` });
+  }
+
+  writeU32Le(out, out.length - ORCA_CONFIG_SETTINGS_CHECKSUM_SIZE, crc32([out.slice(0, out.length - ORCA_CONFIG_SETTINGS_CHECKSUM_SIZE)]));
+  const res = tryParseSettingsBlob(out);
+  if (!res.ok) throw new Error(`Migrated settings are invalid: ${res.error}`);
+
+  return {
+    blob: out,
+    parsed: res.value,
+    migration: {
+      from,
+      to: { major: res.value.header.versionMajor, minor: res.value.header.versionMinor },
+      steps,
+      entries,
+    },
+  };
+}
+
+/**
+ * Parse a blob read from a controller or a device file, migrating it first when it uses an
+ * older version or a layout this build cannot read directly.
+ */
+export function loadSettingsBlob(blob: Uint8Array, targetBase: Uint8Array): LoadedSettingsBlob {
+  const res = tryParseSettingsBlob(blob);
+  if (res.ok && res.value.header.versionMajor === ORCA_CONFIG_SETTINGS_VERSION_MAJOR) {
+    return { blob, parsed: res.value, migration: null };
+  }
+  try {
+    return migrateSettingsBlob(blob, targetBase);
+  } catch (e) {
+    // A current-version blob that fails to parse is corrupt, not old; report the parse error.
+    if (!res.ok && (blob[ORCA_CONFIG_SETTINGS_HEADER_VERSION_MAJOR_OFFSET] ?? 0) === ORCA_CONFIG_SETTINGS_VERSION_MAJOR) {
+      throw new Error(res.error);
+    }
+    throw e;
+  }
+}
+
+export function countMigrationEntries(report: SettingsMigrationReport): Record<SettingsMigrationStatus, number> {
+  const counts: Record<SettingsMigrationStatus, number> = { carried: 0, defaulted: 0, dropped: 0 };
+  for (const entry of report.entries) counts[entry.status]++;
+  return counts;
+}
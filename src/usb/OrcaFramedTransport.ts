@@ -0,0 +1,542 @@
+import {
+  ORCA_CONFIG_SETTINGS_BLOB_SIZE,
+  OrcaCmd,
+  OrcaMsgType,
+} from '@shared/orca_config_idl_generated';
+import {
+  encodeBeginSessionRequest,
+  encodeCommitStagedRequest,
+  encodeCommitStagedSlotRequest,
+  encodeGetInputStateRequest,
+  encodeGetInfoRequest,
+  encodeGetLogRequest,
+  encodeRebootRequest,
+  encodeReadBlobRequest,
+  encodeReadBlobSlotRequest,
+  encodeFactoryResetRequest,
+  encodeResetDefaultsRequest,
+  encodeResetDefaultsSlotRequest,
+  encodeUnlockWritesRequest,
+  encodeValidateStagedRequest,
+  encodeValidateStagedSlotRequest,
+  encodeWriteBlobBeginRequest,
+  encodeWriteBlobBeginSlotRequest,
+  encodeWriteBlobChunkRequest,
+  encodeWriteBlobChunkSlotRequest,
+  encodeWriteBlobEndRequest,
+  encodeWriteBlobEndSlotRequest,
+  OrcaProtocolMismatchError,
+  parseErrorPayload,
+  requestCmd,
+  requestSeq,
+  resyncBuffer,
+  takeResponseFrame,
+  type ResponseScan,
+} from '../protocol/orcaProtocol';
+import { decodeLogRecords } from '../protocol/orcaLog';
+import type {
+  BeginSessionInfo,
+  DeviceInfo,
+  OrcaBlobTransferOptions,
+  OrcaInputState,
+  OrcaLogChunk,
+  OrcaRequestOptions,
+  OrcaTransport,
+  ValidateStagedResult,
+} from './OrcaTransport';
+import { OrcaDeviceError, OrcaTimeoutError } from './OrcaTransport';
+
+export type OrcaSerialTimeouts = {
+  defaultMs: number;
+  perCmd: Partial<Record<number, number>>;
+};
+
+// Flash erase/program commands can take far longer than a plain request/response round-trip.
+export const DEFAULT_ORCA_SERIAL_TIMEOUTS: OrcaSerialTimeouts = {
+  defaultMs: 1000,
+  perCmd: {
+    [OrcaCmd.WRITE_BLOB_END]: 3000,
+    [OrcaCmd.WRITE_BLOB_END_SLOT]: 3000,
+    [OrcaCmd.VALIDATE_STAGED]: 3000,
+    [OrcaCmd.VALIDATE_STAGED_SLOT]: 3000,
+    [OrcaCmd.COMMIT_STAGED]: 5000,
+    [OrcaCmd.COMMIT_STAGED_SLOT]: 5000,
+    [OrcaCmd.RESET_DEFAULTS]: 5000,
+    [OrcaCmd.RESET_DEFAULTS_SLOT]: 5000,
+    [OrcaCmd.FACTORY_RESET]: 10000,
+  },
+};
+
+export function resolveSerialTimeouts(overrides?: Partial<OrcaSerialTimeouts>): OrcaSerialTimeouts {
+  return {
+    defaultMs: overrides?.defaultMs ?? DEFAULT_ORCA_SERIAL_TIMEOUTS.defaultMs,
+    perCmd: { ...DEFAULT_ORCA_SERIAL_TIMEOUTS.perCmd, ...overrides?.perCmd },
+  };
+}
+
+function abortReason(signal: AbortSignal): unknown {
+  return signal.reason ?? new DOMException('The operation was aborted', 'AbortError');
+}
+
+/**
+ * Wait for `promise`, rejecting early once `deadline` (ms since epoch) passes or `signal` aborts.
+ * `onTimeout` builds the rejection for the deadline case.
+ */
+function waitWithDeadline<T>(
+  promise: Promise<T>,
+  deadline: number,
+  onTimeout: () => Error,
+  signal?: AbortSignal,
+): Promise<T> {
+  return new Promise<T>((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(abortReason(signal));
+      return;
+    }
+    const cleanup = () => {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', onAbort);
+    };
+    const onAbort = () => {
+      cleanup();
+      reject(abortReason(signal!));
+    };
+    const timer = setTimeout(() => {
+      cleanup();
+      reject(onTimeout());
+    }, Math.max(0, deadline - Date.now()));
+    signal?.addEventListener('abort', onAbort, { once: true });
+    promise.then(
+      (value) => {
+        cleanup();
+        resolve(value);
+      },
+      (err) => {
+        cleanup();
+        reject(err);
+      },
+    );
+  });
+}
+
+function readU32Le(payload: Uint8Array<ArrayBufferLike>, offset: number): number {
+  return (
+    payload[offset]! |
+    (payload[offset + 1]! << 8) |
+    (payload[offset + 2]! << 16) |
+    (payload[offset + 3]! << 24)
+  ) >>> 0;
+}
+
+function readU16Le(payload: Uint8Array<ArrayBufferLike>, offset: number): number {
+  return payload[offset]! | (payload[offset + 1]! << 8);
+}
+
+/**
+ * Received bytes for transports whose source pushes data (stream events, the simulator) rather
+ * than being read on demand. Backs `readChunk()`.
+ */
+export class OrcaChunkQueue {
+  private chunks: Uint8Array[] = [];
+  private waiter: ((chunk: Uint8Array | null) => void) | null = null;
+  private ended = false;
+
+  get isEnded(): boolean {
+    return this.ended;
+  }
+
+  push(chunk: Uint8Array): void {
+    if (this.ended) return;
+    if (this.waiter) {
+      const resolve = this.waiter;
+      this.waiter = null;
+      resolve(chunk);
+      return;
+    }
+    this.chunks.push(chunk);
+  }
+
+  /** Stop accepting data; queued chunks can still be read, then reads return null. */
+  end(): void {
+    this.ended = true;
+    const resolve = this.waiter;
+    this.waiter = null;
+    resolve?.(null);
+  }
+
+  clear(): void {
+    this.chunks = [];
+  }
+
+  next(): Promise<Uint8Array | null> {
+    const chunk = this.chunks.shift();
+    if (chunk) return Promise.resolve(chunk);
+    if (this.ended) return Promise.resolve(null);
+    return new Promise((resolve) => {
+      this.waiter = resolve;
+    });
+  }
+}
+
+/**
+ * Request/response plumbing shared by every byte-stream transport: sequence numbers, I/O
+ * serialization, per-command deadlines, frame correlation and resync. Subclasses only move bytes.
+ */
+export abstract class OrcaFramedTransport implements OrcaTransport {
+  protected constructor(private readonly timeouts: OrcaSerialTimeouts) {}
+
+  private rx: Uint8Array<ArrayBufferLike> = new Uint8Array(0) as Uint8Array<ArrayBufferLike>;
+  private seq = 1;
+  private ioChain: Promise<unknown> = Promise.resolve();
+  // A read that outlived its request (timeout/abort). Kept so the bytes it yields are not lost.
+  private pendingRead: Promise<Uint8Array | null> | null = null;
+
+  abstract close(): Promise<void>;
+
+  /** Write one encoded request frame to the device. */
+  protected abstract writeBytes(buf: Uint8Array<ArrayBufferLike>): Promise<void>;
+
+  /** Resolve with the next chunk of received bytes, or null once the stream has closed. */
+  protected abstract readChunk(): Promise<Uint8Array | null>;
+
+  /** Drop buffered state; subclasses call this when the underlying stream goes away. */
+  protected resetBuffers(): void {
+    this.rx = new Uint8Array(0) as Uint8Array<ArrayBufferLike>;
+    this.pendingRead = null;
+  }
+
+  private enqueueIO<T>(fn: () => Promise<T>): Promise<T> {
+    const run = this.ioChain.then(fn, fn);
+    this.ioChain = run.then(
+      () => undefined,
+      () => undefined,
+    );
+    return run;
+  }
+
+  private timeoutFor(cmd: number, options?: OrcaRequestOptions): number {
+    return options?.timeoutMs ?? this.timeouts.perCmd[cmd] ?? this.timeouts.defaultMs;
+  }
+
+  private async readSome(deadline: number, onTimeout: () => Error, signal?: AbortSignal): Promise<void> {
+    if (!this.pendingRead) this.pendingRead = this.readChunk();
+    const chunk = await waitWithDeadline(this.pendingRead, deadline, onTimeout, signal);
+    this.pendingRead = null;
+    if (!chunk) {
+      throw new Error('Serial read failed (port closed)');
+    }
+    const merged = new Uint8Array(this.rx.length + chunk.length) as Uint8Array<ArrayBufferLike>;
+    merged.set(this.rx, 0);
+    merged.set(chunk, this.rx.length);
+    this.rx = merged;
+  }
+
+  /**
+   * Discard the frame (or garbage) at the head of `rx` so decoding restarts at the next
+   * protocol magic. Used after corrupted frames, timeouts and cancellations.
+   */
+  private resync(): void {
+    if (this.rx.length === 0) return;
+    this.rx = resyncBuffer(this.rx);
+  }
+
+  private async readFrame(
+    seq: number,
+    cmd: number,
+    deadline: number,
+    onTimeout: () => Error,
+    signal?: AbortSignal,
+  ): Promise<{ msgType: number; seq: number; payload: Uint8Array<ArrayBufferLike> }> {
+    while (true) {
+      let scan: ResponseScan;
+      try {
+        scan = takeResponseFrame(this.rx, seq, cmd);
+      } catch (e) {
+        // Drop the offending frame so it does not fail every later request too.
+        if (e instanceof OrcaProtocolMismatchError && e.remaining) this.rx = e.remaining;
+        throw e;
+      }
+      this.rx = scan.remaining;
+      if (scan.frame) return scan.frame;
+      await this.readSome(deadline, onTimeout, signal);
+    }
+  }
+
+  private async sendAndRead(
+    request: Uint8Array<ArrayBufferLike>,
+    options?: OrcaRequestOptions,
+  ): Promise<{ msgType: number; seq: number; payload: Uint8Array<ArrayBufferLike> }> {
+    const cmd = requestCmd(request);
+    const seq = requestSeq(request);
+    const signal = options?.signal;
+    return this.enqueueIO(async () => {
+      signal?.throwIfAborted();
+      const timeoutMs = this.timeoutFor(cmd, options);
+      const deadline = Date.now() + timeoutMs;
+      await this.writeBytes(request);
+      try {
+        return await this.readFrame(seq, cmd, deadline, () => new OrcaTimeoutError(cmd, timeoutMs), signal);
+      } catch (e) {
+        // Whatever is left in the buffer belongs to a request nobody is waiting for anymore.
+        if (e instanceof OrcaTimeoutError || signal?.aborted) this.resync();
+        throw e;
+      }
+    });
+  }
+
+  async getInfo(options?: OrcaRequestOptions): Promise<DeviceInfo> {
+    const seq = this.seq++;
+    const frame = await this.sendAndRead(encodeGetInfoRequest(seq), options);
+
+    if (frame.msgType === OrcaMsgType.ERROR) {
+      const { cmd, err } = parseErrorPayload(frame.payload);
+      throw new OrcaDeviceError(cmd, err);
+    }
+
+    const payload = frame.payload;
+    if (payload.length < 16) throw new Error('Bad GET_INFO response length');
+    const schemaId = readU32Le(payload, 4);
+    const blobSize = readU32Le(payload, 8) || ORCA_CONFIG_SETTINGS_BLOB_SIZE;
+    const maxChunk = readU32Le(payload, 12) || 256;
+    const slotCount = payload.length >= 20 ? (readU32Le(payload, 16) || 1) : 1;
+
+    return {
+      schemaId,
+      settingsMajor: payload[1] ?? 0,
+      settingsMinor: payload[2] ?? 0,
+      blobSize,
+      maxChunk,
+      slotCount,
+    };
+  }
+
+  async beginSession(options?: OrcaRequestOptions): Promise<BeginSessionInfo> {
+    const seq = this.seq++;
+    const frame = await this.sendAndRead(encodeBeginSessionRequest(seq), options);
+
+    if (frame.msgType === OrcaMsgType.ERROR) {
+      const { cmd, err } = parseErrorPayload(frame.payload);
+      throw new OrcaDeviceError(cmd, err);
+    }
+
+    const payload = frame.payload;
+    if (payload.length < 8) throw new Error('Bad BEGIN_SESSION response length');
+    const sessionId = readU32Le(payload, 4);
+    const writeUnlocked = (payload[1] ?? 0) !== 0;
+    return { sessionId, writeUnlocked };
+  }
+
+  async unlockWrites(options?: OrcaRequestOptions): Promise<void> {
+    const seq = this.seq++;
+    const frame = await this.sendAndRead(encodeUnlockWritesRequest(seq), options);
+
+    if (frame.msgType === OrcaMsgType.ERROR) {
+      const { cmd, err } = parseErrorPayload(frame.payload);
+      throw new OrcaDeviceError(cmd, err);
+    }
+  }
+
+  async getInputState(options?: OrcaRequestOptions): Promise<OrcaInputState> {
+    const seq = this.seq++;
+    const frame = await this.sendAndRead(encodeGetInputStateRequest(seq), options);
+
+    if (frame.msgType === OrcaMsgType.ERROR) {
+      const { cmd, err } = parseErrorPayload(frame.payload);
+      throw new OrcaDeviceError(cmd, err);
+    }
+
+    const payload = frame.payload;
+    // [0]=cmd, [4..7]=digital_mask, [8..]=analog_u16[5]
+    if (payload.length < 18) throw new Error('Bad GET_INPUT_STATE response length');
+    const digitalMask = readU32Le(payload, 4);
+    const analog: number[] = [];
+    for (let i = 0; i < 5; i++) {
+      const q = readU16Le(payload, 8 + i * 2);
+      analog.push(q / 65535);
+    }
+    return { digitalMask, analog };
+  }
+
+  async readBlobChunk(slot: number, offset: number, length: number, options?: OrcaRequestOptions): Promise<Uint8Array> {
+    const seq = this.seq++;
+    const frame = slot === 0
+      ? await this.sendAndRead(encodeReadBlobRequest(seq, offset, length), options)
+      : await this.sendAndRead(encodeReadBlobSlotRequest(seq, slot, offset, length), options);
+
+    if (frame.msgType === OrcaMsgType.ERROR) {
+      const { cmd, err } = parseErrorPayload(frame.payload);
+      throw new OrcaDeviceError(cmd, err);
+    }
+
+    const payload = frame.payload;
+    if (payload.length < 12) throw new Error('Bad READ_BLOB response length');
+    if (slot !== 0) {
+      const gotSlot = payload[1] ?? 0;
+      if (gotSlot !== (slot & 0xff)) throw new Error(`READ_BLOB_SLOT mismatch (slot=${gotSlot})`);
+    }
+    const gotOffset = readU32Le(payload, 4);
+    const gotLen = readU32Le(payload, 8);
+    if (gotOffset !== (offset >>> 0) || gotLen !== (length >>> 0)) {
+      throw new Error(`READ_BLOB mismatch (offset=${gotOffset}, len=${gotLen})`);
+    }
+    const data = payload.slice(12, 12 + gotLen);
+    if (data.length !== gotLen) throw new Error('Short READ_BLOB payload');
+    return data;
+  }
+
+  async readBlob(slot: number, options?: OrcaBlobTransferOptions & { blobSize?: number }): Promise<Uint8Array> {
+    const blobSize = options?.blobSize ?? ORCA_CONFIG_SETTINGS_BLOB_SIZE;
+    const maxChunk = options?.maxChunk ?? 256;
+    const blob = new Uint8Array(blobSize);
+    let offset = 0;
+    while (offset < blobSize) {
+      const len = Math.min(maxChunk, blobSize - offset);
+      options?.onProgress?.(offset, blobSize);
+      const chunk = await this.readBlobChunk(slot, offset, len, options);
+      blob.set(chunk, offset);
+      offset += len;
+    }
+    options?.onProgress?.(blobSize, blobSize);
+    return blob;
+  }
+
+  async writeBlob(
+    slot: number,
+    blob: Uint8Array,
+    options?: OrcaBlobTransferOptions,
+  ): Promise<void> {
+    const maxChunk = options?.maxChunk ?? 256;
+
+    // BEGIN
+    {
+      const seq = this.seq++;
+      const frame = slot === 0
+        ? await this.sendAndRead(encodeWriteBlobBeginRequest(seq, blob.length), options)
+        : await this.sendAndRead(encodeWriteBlobBeginSlotRequest(seq, slot, blob.length), options);
+      if (frame.msgType === OrcaMsgType.ERROR) {
+        const { cmd, err } = parseErrorPayload(frame.payload);
+        throw new OrcaDeviceError(cmd, err);
+      }
+    }
+
+    // CHUNKS
+    let offset = 0;
+    while (offset < blob.length) {
+      const len = Math.min(maxChunk, blob.length - offset);
+      const chunk = blob.slice(offset, offset + len);
+      options?.onProgress?.(offset, blob.length);
+
+      const seq = this.seq++;
+      const frame = slot === 0
+        ? await this.sendAndRead(encodeWriteBlobChunkRequest(seq, offset, chunk), options)
+        : await this.sendAndRead(encodeWriteBlobChunkSlotRequest(seq, slot, offset, chunk), options);
+      if (frame.msgType === OrcaMsgType.ERROR) {
+        const { cmd, err } = parseErrorPayload(frame.payload);
+        throw new OrcaDeviceError(cmd, err);
+      }
+
+      offset += len;
+    }
+    options?.onProgress?.(blob.length, blob.length);
+
+    // END
+    {
+      const seq = this.seq++;
+      const frame = slot === 0
+        ? await this.sendAndRead(encodeWriteBlobEndRequest(seq), options)
+        : await this.sendAndRead(encodeWriteBlobEndSlotRequest(seq, slot), options);
+      if (frame.msgType === OrcaMsgType.ERROR) {
+        const { cmd, err } = parseErrorPayload(frame.payload);
+        throw new OrcaDeviceError(cmd, err);
+      }
+    }
+  }
+
+  async validateStaged(slot: number, options?: OrcaRequestOptions): Promise<ValidateStagedResult> {
+    const seq = this.seq++;
+    const frame = slot === 0
+      ? await this.sendAndRead(encodeValidateStagedRequest(seq), options)
+      : await this.sendAndRead(encodeValidateStagedSlotRequest(seq, slot), options);
+    if (frame.msgType === OrcaMsgType.ERROR) {
+      const { cmd, err } = parseErrorPayload(frame.payload);
+      throw new OrcaDeviceError(cmd, err);
+    }
+    const payload = frame.payload;
+    if (payload.length < 12) throw new Error('Bad VALIDATE_STAGED response length');
+    const repaired = (payload[(slot === 0 ? 2 : 3)] ?? 0) !== 0;
+    const invalidMask = readU32Le(payload, 4);
+    return { invalidMask, repaired };
+  }
+
+  async commitStaged(slot: number, options?: OrcaRequestOptions): Promise<{ generation: number }> {
+    const seq = this.seq++;
+    const frame = slot === 0
+      ? await this.sendAndRead(encodeCommitStagedRequest(seq), options)
+      : await this.sendAndRead(encodeCommitStagedSlotRequest(seq, slot), options);
+    if (frame.msgType === OrcaMsgType.ERROR) {
+      const { cmd, err } = parseErrorPayload(frame.payload);
+      throw new OrcaDeviceError(cmd, err);
+    }
+    const payload = frame.payload;
+    if (payload.length < 8) throw new Error('Bad COMMIT_STAGED response length');
+    const generation = readU32Le(payload, 4);
+    return { generation };
+  }
+
+  async resetDefaults(slot: number, options?: OrcaRequestOptions): Promise<{ generation: number }> {
+    const seq = this.seq++;
+    const frame = slot === 0
+      ? await this.sendAndRead(encodeResetDefaultsRequest(seq), options)
+      : await this.sendAndRead(encodeResetDefaultsSlotRequest(seq, slot), options);
+    if (frame.msgType === OrcaMsgType.ERROR) {
+      const { cmd, err } = parseErrorPayload(frame.payload);
+      throw new OrcaDeviceError(cmd, err);
+    }
+    const payload = frame.payload;
+    if (payload.length < 8) throw new Error('Bad RESET_DEFAULTS response length');
+    const generation = readU32Le(payload, 4);
+    return { generation };
+  }
+
+  async factoryReset(options?: OrcaRequestOptions): Promise<{ flags: number; primaryGeneration: number; secondaryGeneration: number }> {
+    const seq = this.seq++;
+    const frame = await this.sendAndRead(encodeFactoryResetRequest(seq), options);
+    if (frame.msgType === OrcaMsgType.ERROR) {
+      const { cmd, err } = parseErrorPayload(frame.payload);
+      throw new OrcaDeviceError(cmd, err);
+    }
+    const payload = frame.payload;
+    if (payload.length < 12) throw new Error('Bad FACTORY_RESET response length');
+    const flags = payload[1] ?? 0;
+    const primaryGeneration = readU32Le(payload, 4);
+    const secondaryGeneration = readU32Le(payload, 8);
+    return { flags, primaryGeneration, secondaryGeneration };
+  }
+
+  async reboot(options?: OrcaRequestOptions): Promise<void> {
+    const seq = this.seq++;
+    const frame = await this.sendAndRead(encodeRebootRequest(seq), options);
+    if (frame.msgType === OrcaMsgType.ERROR) {
+      const { cmd, err } = parseErrorPayload(frame.payload);
+      throw new OrcaDeviceError(cmd, err);
+    }
+  }
+
+  async getLog(cursor: number, options?: OrcaRequestOptions): Promise<OrcaLogChunk> {
+    const seq = this.seq++;
+    const frame = await this.sendAndRead(encodeGetLogRequest(seq, cursor), options);
+    if (frame.msgType === OrcaMsgType.ERROR) {
+      const { cmd, err } = parseErrorPayload(frame.payload);
+      throw new OrcaDeviceError(cmd, err);
+    }
+    const payload = frame.payload;
+    // [0]=cmd, [1]=flags (bit0: more), [4..7]=next_cursor, [8..11]=data_len, [12..]=records
+    if (payload.length < 12) throw new Error('Bad GET_LOG response length');
+    const more = ((payload[1] ?? 0) & 0x01) !== 0;
+    const nextCursor = readU32Le(payload, 4);
+    const dataLen = readU32Le(payload, 8);
+    const data = payload.slice(12, 12 + dataLen);
+    if (data.length !== dataLen) throw new Error('Short GET_LOG payload');
+    return { records: decodeLogRecords(data), nextCursor, more };
+  }
+}
@@ -0,0 +1,170 @@
+import { Duplex } from 'node:stream';
+import { describe, expect, it } from 'vitest';
+import { OrcaCmd, OrcaMsgType } from '@shared/orca_config_idl_generated';
+import { encodeFrame, tryDecodeFrameFromBuffer, type ByteArray, type OrcaFrame } from '../protocol/orcaProtocol';
+import { OrcaStreamTransport } from './OrcaStreamTransport';
+import { OrcaTimeoutError } from './OrcaTransport';
+
+type FakeDevice = {
+  host: Duplex;
+  // Return the response payload, or null to stay silent.
+  handler: (frame: OrcaFrame) => Uint8Array | null;
+  // Replies queued by the test to be sent before the next response.
+  injectBefore: Uint8Array[];
+};
+
+/** In-process controller: decodes request frames and replies in small pieces, like a USB CDC link. */
+function createFakeDevice(handler: FakeDevice['handler']): FakeDevice {
+  let rx = new Uint8Array(0) as ByteArray;
+  let host: Duplex;
+  const device: FakeDevice = { host: null as unknown as Duplex, handler, injectBefore: [] };
+  const sendInPieces = (bytes: Uint8Array) => {
+    for (let i = 0; i < bytes.length; i += 5) host.push(bytes.slice(i, i + 5));
+  };
+  host = new Duplex({
+    read() {},
+    write(chunk: Uint8Array, _encoding, callback) {
+      const merged = new Uint8Array(rx.length + chunk.length) as ByteArray;
+      merged.set(rx, 0);
+      merged.set(chunk, rx.length);
+      rx = merged;
+      let decoded = tryDecodeFrameFromBuffer(rx);
+      while (decoded) {
+        rx = decoded.remaining;
+        const reply = device.handler(decoded.frame);
+        for (const extra of device.injectBefore.splice(0)) sendInPieces(extra);
+        if (reply) sendInPieces(encodeFrame(OrcaMsgType.RESPONSE, decoded.frame.seq, reply as ByteArray));
+        decoded = tryDecodeFrameFromBuffer(rx);
+      }
+      callback();
+    },
+  });
+  device.host = host;
+  return device;
+}
+
+function u32(out: Uint8Array, offset: number, value: number) {
+  new DataView(out.buffer).setUint32(offset, value >>> 0, true);
+}
+
+function infoPayload(): Uint8Array {
+  const p = new Uint8Array(20);
+  p[0] = OrcaCmd.GET_INFO;
+  p[1] = 1;
+  u32(p, 4, 0xcafe);
+  u32(p, 8, 64);
+  u32(p, 12, 24);
+  u32(p, 16, 2);
+  return p;
+}
+
+function readBlobPayload(request: OrcaFrame, blob: Uint8Array): Uint8Array {
+  const dv = new DataView(request.payload.buffer, request.payload.byteOffset);
+  const offset = dv.getUint32(4, true);
+  const len = dv.getUint32(8, true);
+  const p = new Uint8Array(12 + len);
+  p[0] = request.payload[0]!;
+  p[1] = request.payload[1]!;
+  u32(p, 4, offset);
+  u32(p, 8, len);
+  p.set(blob.slice(offset, offset + len), 12);
+  return p;
+}
+
+describe('OrcaStreamTransport', () => {
+  it('reads device info and a chunked blob over a duplex stream', async () => {
+    const blob = Uint8Array.from({ length: 64 }, (_, i) => (i * 7) & 0xff);
+    const device = createFakeDevice((frame) => {
+      if (frame.payload[0] === OrcaCmd.GET_INFO) return infoPayload();
+      return readBlobPayload(frame, blob);
+    });
+    const transport = new OrcaStreamTransport(device.host);
+
+    const info = await transport.getInfo();
+    expect(info).toMatchObject({ schemaId: 0xcafe, blobSize: 64, maxChunk: 24, slotCount: 2 });
+    const read = await transport.readBlob(1, { blobSize: info.blobSize, maxChunk: info.maxChunk });
+    expect(read).toEqual(blob);
+    await transport.close();
+  });
+
+  it('recovers when the reply to a timed-out request arrives late', async () => {
+    let silent = true;
+    const device = createFakeDevice(() => {
+      if (silent) return null;
+      return infoPayload();
+    });
+    const transport = new OrcaStreamTransport(device.host, { timeouts: { defaultMs: 20 } });
+
+    await expect(transport.getInfo()).rejects.toBeInstanceOf(OrcaTimeoutError);
+    silent = false;
+    // The lost reply shows up right before the answer to the next request.
+    device.injectBefore.push(encodeFrame(OrcaMsgType.RESPONSE, 1, infoPayload() as ByteArray));
+    await expect(transport.getInfo()).resolves.toMatchObject({ schemaId: 0xcafe });
+    await transport.close();
+  });
+
+  it('drops a mismatched frame instead of failing every later request', async () => {
+    let echo = true;
+    const device = createFakeDevice((frame) => {
+      // A bridge echoes the first request back ahead of the real reply.
+      if (echo) device.injectBefore.push(encodeFrame(OrcaMsgType.REQUEST, frame.seq, frame.payload as ByteArray));
+      echo = false;
+      return infoPayload();
+    });
+    const transport = new OrcaStreamTransport(device.host, { timeouts: { defaultMs: 1000 } });
+
+    await expect(transport.getInfo()).rejects.toMatchObject({ name: 'OrcaProtocolMismatchError', msgType: OrcaMsgType.REQUEST });
+    await expect(transport.getInfo()).resolves.toMatchObject({ schemaId: 0xcafe });
+    await expect(transport.getInfo()).resolves.toMatchObject({ schemaId: 0xcafe });
+    await transport.close();
+  });
+
+  it('applies a per-request timeout override', async () => {
+    const device = createFakeDevice(() => null);
+    const transport = new OrcaStreamTransport(device.host, { timeouts: { defaultMs: 5000 } });
+
+    const started = Date.now();
+    await expect(transport.getInfo({ timeoutMs: 20 })).rejects.toMatchObject({ name: 'OrcaTimeoutError', timeoutMs: 20 });
+    expect(Date.now() - started).toBeLessThan(1000);
+    await transport.close();
+  });
+
+  it('stops a request when its signal aborts and stays usable', async () => {
+    const blob = Uint8Array.from({ length: 64 }, (_, i) => i);
+    let silent = true;
+    const device = createFakeDevice((frame) => {
+      if (silent) return null;
+      if (frame.payload[0] === OrcaCmd.GET_INFO) return infoPayload();
+      return readBlobPayload(frame, blob);
+    });
+    const transport = new OrcaStreamTransport(device.host, { timeouts: { defaultMs: 5000 } });
+
+    const already = new AbortController();
+    already.abort();
+    await expect(transport.getInfo({ signal: already.signal })).rejects.toMatchObject({ name: 'AbortError' });
+
+    const abort = new AbortController();
+    const pending = transport.readBlob(0, { blobSize: 64, maxChunk: 24, signal: abort.signal });
+    setTimeout(() => abort.abort(), 10);
+    await expect(pending).rejects.toMatchObject({ name: 'AbortError' });
+
+    silent = false;
+    await expect(transport.readBlob(0, { blobSize: 64, maxChunk: 24 })).resolves.toEqual(blob);
+    await transport.close();
+  });
+
+  it('fails pending requests and notifies when the stream closes', async () => {
+    const device = createFakeDevice(() => null);
+    const transport = new OrcaStreamTransport(device.host, { timeouts: { defaultMs: 1000 } });
+    let disconnected = false;
+    transport.setOnDisconnect(() => {
+      disconnected = true;
+    });
+
+    const pending = transport.getInfo();
+    setTimeout(() => device.host.push(null), 5);
+    await expect(pending).rejects.toThrow('port closed');
+    expect(disconnected).toBe(true);
+    await transport.close();
+  });
+});
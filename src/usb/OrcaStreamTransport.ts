@@ -0,0 +1,66 @@
+import type { Duplex } from 'node:stream';
+import { OrcaChunkQueue, OrcaFramedTransport, resolveSerialTimeouts, type OrcaSerialTimeouts } from './OrcaFramedTransport';
+
+/**
+ * Orca transport over any Node duplex stream: a tty opened by the CLI, a TCP socket to a
+ * serial bridge, or an in-process fake device in tests.
+ */
+export class OrcaStreamTransport extends OrcaFramedTransport {
+  constructor(
+    private readonly stream: Duplex,
+    options?: { timeouts?: Partial<OrcaSerialTimeouts> },
+  ) {
+    super(resolveSerialTimeouts(options?.timeouts));
+    stream.on('data', this.handleData);
+    stream.on('close', this.handleClose);
+    stream.on('end', this.handleClose);
+    stream.on('error', this.handleError);
+  }
+
+  private readonly received = new OrcaChunkQueue();
+  private lastError: Error | null = null;
+  private disconnectCallback?: () => void;
+
+  private handleData = (data: Uint8Array | string) => {
+    this.received.push(typeof data === 'string' ? new TextEncoder().encode(data) : new Uint8Array(data));
+  };
+
+  private handleClose = () => {
+    if (this.received.isEnded) return;
+    this.received.end();
+    this.disconnectCallback?.();
+  };
+
+  private handleError = (err: Error) => {
+    this.lastError = err;
+    this.handleClose();
+  };
+
+  setOnDisconnect(callback: (() => void) | undefined): void {
+    this.disconnectCallback = callback;
+  }
+
+  async close(): Promise<void> {
+    this.stream.off('data', this.handleData);
+    this.stream.off('close', this.handleClose);
+    this.stream.off('end', this.handleClose);
+    this.stream.off('error', this.handleError);
+    this.received.end();
+    this.received.clear();
+    this.resetBuffers();
+    this.stream.destroy();
+  }
+
+  protected writeBytes(buf: Uint8Array<ArrayBufferLike>): Promise<void> {
+    if (this.received.isEnded) {
+      return Promise.reject(this.lastError ?? new Error('Serial port is not open'));
+    }
+    return new Promise((resolve, reject) => {
+      this.stream.write(buf, (err) => (err ? reject(err) : resolve()));
+    });
+  }
+
+  protected readChunk(): Promise<Uint8Array | null> {
+    return this.received.next();
+  }
+}
@@ -1,3 +1,5 @@
+import type { OrcaLogRecord } from '../protocol/orcaLog';
+
 export type DeviceInfo = {
   schemaId: number;
   settingsMajor: number;
@@ -17,11 +19,37 @@ export type ValidateStagedResult = {
   repaired: boolean;
 };
 
+export type OrcaLogChunk = {
+  records: OrcaLogRecord[];
+  nextCursor: number;
+  more: boolean;
+};
+
 export type OrcaInputState = {
   digitalMask: number;
   analog: number[]; // [5], normalized 0..1
 };
 
+export type OrcaRequestOptions = {
+  signal?: AbortSignal;
+  timeoutMs?: number; // overrides the transport's per-command timeout
+};
+
+export type OrcaBlobTransferOptions = OrcaRequestOptions & {
+  maxChunk?: number;
+  onProgress?: (offset: number, total: number) => void;
+};
+
+export class OrcaTimeoutError extends Error {
+  constructor(
+    public readonly cmd: number,
+    public readonly timeoutMs: number,
+  ) {
+    super(`Device did not respond (cmd=${cmd}, timeout=${timeoutMs}ms)`);
+    this.name = 'OrcaTimeoutError';
+  }
+}
+
 export class OrcaDeviceError extends Error {
   constructor(
     public readonly cmd: number,
@@ -35,31 +63,22 @@ export class OrcaDeviceError extends Error {
 export interface OrcaTransport {
   close(): Promise<void>;
 
-  getInfo(): Promise<DeviceInfo>;
-  beginSession(): Promise<BeginSessionInfo>;
-  unlockWrites(): Promise<void>;
-
-  getInputState(): Promise<OrcaInputState>;
-
-  readBlobChunk(slot: number, offset: number, length: number): Promise<Uint8Array>;
-  readBlob(slot: number, options?: {
-    blobSize?: number;
-    maxChunk?: number;
-    onProgress?: (offset: number, total: number) => void;
-  }): Promise<Uint8Array>;
-
-  writeBlob(
-    slot: number,
-    blob: Uint8Array,
-    options?: {
-      maxChunk?: number;
-      onProgress?: (offset: number, total: number) => void;
-    },
-  ): Promise<void>;
-
-  validateStaged(slot: number): Promise<ValidateStagedResult>;
-  commitStaged(slot: number): Promise<{ generation: number }>;
-  resetDefaults(slot: number): Promise<{ generation: number }>;
-  factoryReset(): Promise<{ flags: number; primaryGeneration: number; secondaryGeneration: number }>;
-  reboot(): Promise<void>;
+  getInfo(options?: OrcaRequestOptions): Promise<DeviceInfo>;
+  beginSession(options?: OrcaRequestOptions): Promise<BeginSessionInfo>;
+  unlockWrites(options?: OrcaRequestOptions): Promise<void>;
+
+  getInputState(options?: OrcaRequestOptions): Promise<OrcaInputState>;
+
+  readBlobChunk(slot: number, offset: number, length: number, options?: OrcaRequestOptions): Promise<Uint8Array>;
+  readBlob(slot: number, options?: OrcaBlobTransferOptions & { blobSize?: number }): Promise<Uint8Array>;
+
+  writeBlob(slot: number, blob: Uint8Array, options?: OrcaBlobTransferOptions): Promise<void>;
+
+  validateStaged(slot: number, options?: OrcaRequestOptions): Promise<ValidateStagedResult>;
+  commitStaged(slot: number, options?: OrcaRequestOptions): Promise<{ generation: number }>;
+  resetDefaults(slot: number, options?: OrcaRequestOptions): Promise<{ generation: number }>;
+  factoryReset(options?: OrcaRequestOptions): Promise<{ flags: number; primaryGeneration: number; secondaryGeneration: number }>;
+  reboot(options?: OrcaRequestOptions): Promise<void>;
+
+  getLog(cursor: number, options?: OrcaRequestOptions): Promise<OrcaLogChunk>;
 }
@@ -4,12 +4,15 @@ import {
   ORCA_CONFIG_LOCKED_BUTTON_COURAGE,
   ORCA_CONFIG_LOCKED_BUTTON_POWER,
   ORCA_CONFIG_LOCKED_BUTTON_WISDOM,
+  ORCA_CONFIG_SETTINGS_BLOB_SIZE,
+  ORCA_CONFIG_SETTINGS_CHECKSUM_SIZE,
   ORCA_CONFIG_SETTINGS_PROFILE_COUNT,
   OrcaSettingsTlv,
 } from '@shared/orca_config_idl_generated';
 import { isMeleeRulesetVerificationValid } from '@shared/orca_ruleset_generated';
-import type { DigitalSourceV1, SettingsDraft, TriggerPolicyV1 } from '../schema/settingsBlob';
-import { isLockedDigitalDestination, isLockedDigitalSource, ORCA_ANALOG_MAPPING_DISABLED, ORCA_DUMMY_FIELD } from '../schema/orcaMappings';
+import type { CalibrationV1, DigitalSourceV1, SettingsDraft, TriggerPolicyV1 } from '../schema/settingsBlob';
+import { analogInputLabel, isLockedDigitalDestination, isLockedDigitalSource, ORCA_ANALOG_MAPPING_DISABLED, ORCA_DUMMY_FIELD } from '../schema/orcaMappings';
+import { validateHeaderFlagsChange } from '../schema/settingsHeaderFlags';
 
 export type ValidationResult = {
   errors: string[];
@@ -89,7 +92,60 @@ function validateTriggerPolicy(policy: TriggerPolicyV1, label: string): string[]
   return errors;
 }
 
-export function validateSettingsDraft(draft: SettingsDraft): ValidationResult {
+// Below this much travel between rest and full press the axis is effectively dead or miscalibrated.
+const CALIBRATION_MIN_TRAVEL = 0.1;
+
+export function validateCalibration(cal: CalibrationV1): ValidationResult {
+  const errors: string[] = [];
+  const warnings: string[] = [];
+  const inUnit = (v: number | undefined) => v !== undefined && isFiniteNumber(v) && v >= 0 && v <= 1;
+  const arrays = [cal.range.lower, cal.range.upper, cal.deadzoneLower, cal.deadzoneUpper, cal.notch];
+  if (arrays.some((a) => a.length !== ORCA_CONFIG_ORCA_ANALOG_INPUT_COUNT)) {
+    errors.push(`Calibration: expected ${ORCA_CONFIG_ORCA_ANALOG_INPUT_COUNT} axes`);
+    return { errors, warnings };
+  }
+
+  for (let axis = 0; axis < ORCA_CONFIG_ORCA_ANALOG_INPUT_COUNT; axis++) {
+    const label = `Calibration ${analogInputLabel(axis)}`;
+    const lower = cal.range.lower[axis]!;
+    const upper = cal.range.upper[axis]!;
+    const dzLower = cal.deadzoneLower[axis]!;
+    const dzUpper = cal.deadzoneUpper[axis]!;
+    const notch = cal.notch[axis]!;
+
+    if (!inUnit(lower) || !inUnit(upper)) {
+      errors.push(`${label}: range must be within [0, 1]`);
+    } else if (lower >= upper) {
+      errors.push(`${label}: rest position must be below full press`);
+    } else if (upper - lower < CALIBRATION_MIN_TRAVEL) {
+      warnings.push(`${label}: very little travel between rest and full press`);
+    }
+    if (!inUnit(dzLower) || !inUnit(dzUpper)) {
+      errors.push(`${label}: deadzones must be within [0, 1]`);
+    } else if (dzLower + dzUpper >= 1) {
+      errors.push(`${label}: deadzones cover the whole travel`);
+    }
+    if (!inUnit(notch)) {
+      errors.push(`${label}: notch must be within [0, 1]`);
+    } else if (inUnit(dzLower) && inUnit(dzUpper) && notch !== 0 && (notch <= dzLower || notch >= 1 - dzUpper)) {
+      warnings.push(`${label}: notch lies inside a deadzone`);
+    }
+  }
+  return { errors, warnings };
+}
+
+function sameCalibration(a: CalibrationV1, b: CalibrationV1): boolean {
+  const arrays = (cal: CalibrationV1) => [cal.range.lower, cal.range.upper, cal.deadzoneLower, cal.deadzoneUpper, cal.notch];
+  const bArrays = arrays(b);
+  return arrays(a).every((values, i) => values.length === bArrays[i]!.length && values.every((v, j) => Object.is(v, bArrays[i]![j])));
+}
+
+/**
+ * Local checks before a save. `base` is the draft as read from the device: a calibration carried
+ * over unchanged from it (e.g. a controller that was never calibrated) only produces warnings, so
+ * it cannot block saving unrelated edits. Header flags may only change in their known bits.
+ */
+export function validateSettingsDraft(draft: SettingsDraft, base?: SettingsDraft | null): ValidationResult {
   const errors: string[] = [];
   const warnings: string[] = [];
   const activeProfile = draft.activeProfile ?? 0;
@@ -205,6 +261,36 @@ export function validateSettingsDraft(draft: SettingsDraft): ValidationResult {
     }
   }
 
+  if (draft.headerFlags !== undefined && base?.headerFlags !== undefined) {
+    errors.push(...validateHeaderFlagsChange(base.headerFlags, draft.headerFlags));
+  } else if (draft.headerFlags !== undefined && (!Number.isInteger(draft.headerFlags) || draft.headerFlags < 0 || draft.headerFlags > 0xff)) {
+    errors.push('Header flags must be a byte (0-255)');
+  }
+
+  if (draft.rawBytes && draft.rawBytes.length > 0) {
+    const offsets = new Set<number>();
+    for (const { offset, value } of draft.rawBytes) {
+      if (!Number.isInteger(offset) || offset < 0 || offset >= ORCA_CONFIG_SETTINGS_BLOB_SIZE - ORCA_CONFIG_SETTINGS_CHECKSUM_SIZE) {
+        errors.push(`Raw byte override at offset ${offset} is out of range`);
+      } else if (offsets.has(offset)) {
+        errors.push(`Duplicate raw byte override at offset ${offset}`);
+      }
+      offsets.add(offset);
+      if (!Number.isInteger(value) || value < 0 || value > 0xff) errors.push(`Raw byte override at offset ${offset} must be 0-255`);
+    }
+    warnings.push(`${draft.rawBytes.length} raw byte override${draft.rawBytes.length === 1 ? '' : 's'} will be written as-is`);
+  }
+
+  if (draft.calibration) {
+    const calibration = validateCalibration(draft.calibration);
+    if (base?.calibration && sameCalibration(draft.calibration, base.calibration)) {
+      warnings.push(...calibration.errors.map((e) => `${e} (stored on the device)`));
+    } else {
+      errors.push(...calibration.errors);
+    }
+    warnings.push(...calibration.warnings);
+  }
+
   if (activeProfile >= 0 && activeProfile < ORCA_CONFIG_SETTINGS_PROFILE_COUNT) {
     const invalidProfiles = findMeleeRulesetInvalidProfiles(draft);
     if (invalidProfiles.includes(activeProfile)) {